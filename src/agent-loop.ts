@@ -16,6 +16,8 @@ import type {
   ModelUsage,
   SDKPermissionDenial,
   ContentBlock,
+  ThinkingContent,
+  RedactedThinkingContent,
   ToolResultContent,
   OutputFormat,
   ThinkingConfig,
@@ -23,22 +25,51 @@ import type {
   PermissionMode,
   SdkBeta,
   SdkPluginConfig,
+  SDKUserMessage,
+  SDKToolProgressMessage,
+  SDKPartialAssistantMessage,
 } from "./types.ts";
 import { uuid, emptyTokenUsage, mergeUsage } from "./types.ts";
-import type { ProviderAdapter, NormalizedMessage, NormalizedContent } from "./providers/types.ts";
-import type { ToolRegistry, ToolContext } from "./tools/registry.ts";
+import type { ProviderAdapter, ChatRequest, NormalizedMessage, NormalizedContent, NormalizedTextContent, PromptCachingConfig } from "./providers/types.ts";
+import type { ToolRegistry, ToolContext, ToolResult } from "./tools/registry.ts";
 import type { PermissionManager } from "./permissions.ts";
+import { isReadOnlyTool } from "./permissions.ts";
 import type { HookManager } from "./hooks.ts";
 import type { McpClientManager } from "./mcp/client.ts";
 import type { NativeMemoryTool } from "./memory/index.ts";
 import type { MemoryCommand } from "./memory/index.ts";
+import type { SessionLogOptions } from "./utils/session-store.ts";
+import { INTERRUPTED_TOOL_RESULT } from "./utils/session-store.ts";
+import type { CompactionConfig } from "./utils/compaction.ts";
+import { estimateTokens, breakdownContextUsage } from "./utils/context-usage.ts";
+import { validateJsonSchema } from "./utils/json-schema.ts";
+import type { RetryConfig } from "./utils/retry.ts";
+import { DEFAULT_MAX_RETRIES, computeRetryDelay, sleep } from "./utils/retry.ts";
+import { isProviderError } from "./providers/errors.ts";
+import { chatWithEmulatedTools } from "./providers/tool-emulation.ts";
+import type { FileCheckpointManager } from "./utils/file-checkpoints.ts";
+import { MessageQueue } from "./utils/message-queue.ts";
+import {
+  DEFAULT_COMPACT_THRESHOLD,
+  DEFAULT_PRESERVE_RECENT_MESSAGES,
+  findCompactionSplit,
+  summarizeMessages,
+  formatCompactSummary,
+} from "./utils/compaction.ts";
 
 export type SessionLogger = (
   role: "user" | "assistant",
   content: NormalizedContent[] | string,
   parentUuid: string | null,
+  options?: SessionLogOptions,
 ) => string;
 
+/** The running prompt's controller, and an interrupt waiting for the next prompt */
+export type TurnAbortState = {
+  current: AbortController | undefined;
+  pendingInterrupt?: boolean;
+};
+
 export type AgentLoopOptions = {
   provider: ProviderAdapter;
   model: string;
@@ -49,6 +80,10 @@ export type AgentLoopOptions = {
   effort?: Effort;
   outputFormat?: OutputFormat;
   systemPrompt: string;
+  /** Skills section of systemPrompt, reported separately in context usage */
+  skillsPrompt?: string;
+  /** Project instructions section of systemPrompt, reported as memory in context usage */
+  memoryPrompt?: string;
   tools: ToolRegistry;
   permissions: PermissionManager;
   cwd: string;
@@ -56,15 +91,43 @@ export type AgentLoopOptions = {
   maxTurns: number;
   maxBudgetUsd: number;
   includePartialMessages: boolean;
+  /** Ends the session; Query.interrupt() aborts only the running prompt */
   signal: AbortSignal;
+  /** Receives each prompt's abort controller, so an interrupt ends that prompt only */
+  turnAbortState?: TurnAbortState;
   env?: Record<string, string>;
   debug?: boolean;
   hooks?: HookManager;
   mcpClient?: McpClientManager;
   previousMessages?: NormalizedMessage[];
+  /** Receives the live conversation history (for Query.getContextUsage) */
+  messagesState?: { current: NormalizedMessage[] };
   sessionLogger?: SessionLogger;
   /** Native memory tool for Anthropic provider (handled specially) */
   nativeMemoryTool?: NativeMemoryTool;
+  /** Automatic context compaction settings (enabled by default) */
+  compaction?: CompactionConfig;
+  /** File checkpoints keyed by user message UUID (enableFileCheckpointing) */
+  fileCheckpoints?: FileCheckpointManager;
+  /** Echo each user prompt back as a `user` message carrying its UUID */
+  replayUserMessages?: boolean;
+  /** Max read-only tool calls executed concurrently within a turn. Default: 10 */
+  maxToolConcurrency?: number;
+  /** Corrective turns allowed when output fails the outputFormat schema. Default: 2 */
+  maxStructuredOutputRetries?: number;
+  /** Backoff for retryable provider errors */
+  retry?: RetryConfig;
+  /** Cache breakpoint settings passed to every provider call */
+  promptCaching?: PromptCachingConfig;
+  /** Continuation turns requested after a `max_tokens` stop. Default: 3 */
+  maxOutputContinuations?: number;
+  /** Interval between `tool_progress` heartbeats for running tools. Default: 1000 */
+  toolProgressIntervalMs?: number;
+  /**
+   * Subagent type when this loop runs a subagent; its stop fires SubagentStop
+   * instead of Stop, and its prompt does not begin a file checkpoint
+   */
+  agentType?: string;
   initMeta?: {
     agents?: string[];
     betas?: SdkBeta[];
@@ -75,6 +138,52 @@ export type AgentLoopOptions = {
   };
 };
 
+const DEFAULT_MAX_TOOL_CONCURRENCY = 10;
+const DEFAULT_MAX_STRUCTURED_OUTPUT_RETRIES = 2;
+const DEFAULT_MAX_OUTPUT_CONTINUATIONS = 3;
+const DEFAULT_TOOL_PROGRESS_INTERVAL_MS = 1000;
+/** Progress text kept per call between heartbeats; older text is dropped. */
+const MAX_TOOL_PROGRESS_CHARS = 2000;
+/** Consecutive Stop hook blocks honored per prompt before the loop finishes anyway. */
+const MAX_STOP_HOOK_BLOCKS = 8;
+
+type ToolCall = { id: string; name: string; input: unknown };
+
+/**
+ * Split tool calls into execution batches: each run of consecutive
+ * concurrency-safe calls becomes one batch, every other call its own batch.
+ */
+function partitionToolCalls(calls: ToolCall[], isSafe: (call: ToolCall) => boolean): ToolCall[][] {
+  const batches: ToolCall[][] = [];
+  let current: ToolCall[] = [];
+  for (const call of calls) {
+    if (isSafe(call)) {
+      current.push(call);
+      continue;
+    }
+    if (current.length > 0) batches.push(current);
+    current = [];
+    batches.push([call]);
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+/** Map items with at most `limit` promises in flight; results keep input order. */
+async function mapConcurrent<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  const workers = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
 function makeModelUsageEntry(): ModelUsage {
   return {
     inputTokens: 0,
@@ -136,8 +245,156 @@ function extractStructuredJson(text: string): { ok: true; value: unknown } | { o
   }
 }
 
+/**
+ * Validate the final answer against the output schema: the value the provider
+ * parsed natively, or else the JSON found in the assistant text.
+ */
+function checkStructuredOutput(
+  output: string | { value: unknown },
+  schema: Record<string, unknown>,
+): { ok: true; value: unknown } | { ok: false; errors: string[] } {
+  const parsed = typeof output === "string" ? extractStructuredJson(output) : { ok: true as const, value: output.value };
+  if (!parsed.ok) return { ok: false, errors: [parsed.error] };
+  const validation = validateJsonSchema(parsed.value, schema);
+  if (!validation.valid) {
+    return { ok: false, errors: validation.errors.map((error) => `Schema validation failed at ${error}`) };
+  }
+  return { ok: true, value: parsed.value };
+}
+
+function formatStructuredOutputCorrection(errors: string[], schema: Record<string, unknown>): string {
+  return [
+    "Your response did not match the required JSON schema:",
+    ...errors.map((error) => `- ${error}`),
+    "",
+    "The schema is:",
+    JSON.stringify(schema, null, 2),
+    "",
+    "Respond again with only the corrected JSON value. Do not include any other text.",
+  ].join("\n");
+}
+
+function makeToolProgress(
+  call: ToolCall,
+  startedAt: number,
+  sessionId: string,
+  progress?: string,
+): SDKToolProgressMessage {
+  return {
+    type: "tool_progress",
+    tool_use_id: call.id,
+    tool_name: call.name,
+    parent_tool_use_id: null,
+    elapsed_time_seconds: Math.round((Date.now() - startedAt) / 100) / 10,
+    ...(progress !== undefined ? { progress } : {}),
+    uuid: uuid(),
+    session_id: sessionId,
+  };
+}
+
+/**
+ * Tells partial-message consumers to drop the deltas streamed for the current
+ * turn: the request failed partway and is sent again (retry or fallback model).
+ */
+function makeStreamReset(sessionId: string): SDKPartialAssistantMessage {
+  return {
+    type: "stream_event",
+    event: { type: "message_reset" },
+    parent_tool_use_id: null,
+    uuid: uuid(),
+    session_id: sessionId,
+  };
+}
+
+function formatContinuationPrompt(droppedToolCalls: ToolCall[]): string {
+  const lines = [
+    "Your response was cut off because it reached the output token limit.",
+    "Continue exactly where you left off. Do not repeat what you already wrote.",
+  ];
+  if (droppedToolCalls.length > 0) {
+    const names = [...new Set(droppedToolCalls.map((call) => call.name))].join(", ");
+    lines.push(
+      "",
+      `Your tool calls (${names}) were cut off and were not executed. Issue them again, splitting large inputs into smaller pieces.`,
+    );
+  }
+  return lines.join("\n");
+}
+
+function formatStopHookFeedback(reason: string | undefined): string {
+  return `Stop hook feedback:\n${reason ?? "Not done yet. Keep working."}`;
+}
+
+/**
+ * Content of a tool_result block: the text alone, or text followed by the
+ * tool's images and documents. Providers without the matching input feature
+ * get a note instead.
+ */
+function toolResultContent(result: ToolResult, provider: ProviderAdapter, model: string): ToolResultContent["content"] {
+  const images = result.images ?? [];
+  const documents = result.documents ?? [];
+  if (images.length === 0 && documents.length === 0) return result.content;
+
+  let text = result.content;
+  const blocks: Exclude<ToolResultContent["content"], string> = [];
+  if (images.length > 0) {
+    if (provider.supportsFeature("image_input", model)) blocks.push(...images);
+    else text += `\n[${images.length} image(s) omitted: the model does not accept image input]`;
+  }
+  if (documents.length > 0) {
+    if (provider.supportsFeature("pdf_input", model)) blocks.push(...documents);
+    else text += `\n[${documents.length} document(s) omitted: the model does not accept PDF input]`;
+  }
+  return blocks.length > 0 ? [{ type: "text", text }, ...blocks] : text;
+}
+
+function normalizeUserPrompt(message: SDKUserMessage): NormalizedContent[] | string {
+  const content = message.message.content;
+  if (typeof content === "string") return content;
+  return content.map((block) => ({ ...block }));
+}
+
+/** Plain text of a user prompt, as passed to UserPromptSubmit hooks. */
+function promptText(content: NormalizedContent[] | string): string {
+  if (typeof content === "string") return content;
+  return content
+    .filter((block): block is NormalizedTextContent => block.type === "text")
+    .map((block) => block.text)
+    .join("\n");
+}
+
+/** Append hook-provided context to a user prompt as an extra text block. */
+function appendPromptContext(content: NormalizedContent[] | string, context: string): NormalizedContent[] {
+  const blocks: NormalizedContent[] = typeof content === "string" ? [{ type: "text", text: content }] : content;
+  return [...blocks, { type: "text", text: context }];
+}
+
+async function* promptSource(
+  prompt: string | AsyncIterable<SDKUserMessage>,
+  turnAbortState?: TurnAbortState,
+): AsyncGenerator<{ content: NormalizedContent[] | string; uuid?: string }> {
+  if (typeof prompt === "string") {
+    yield { content: prompt };
+    return;
+  }
+  for await (const message of prompt) {
+    yield { content: normalizeUserPrompt(message), uuid: message.uuid };
+    // The prompt has finished; an interrupt now waits for the next one
+    if (turnAbortState) turnAbortState.current = undefined;
+  }
+}
+
+/**
+ * Run the agent loop for a single prompt, or for a stream of user messages.
+ *
+ * In streaming-input mode each incoming message starts a new turn on the same
+ * conversation history and emits its own `result`; the loop ends when the
+ * input stream ends or `signal` aborts. Aborting a prompt's controller in
+ * `turnAbortState` ends that prompt with an `error_during_execution` result
+ * and the loop waits for the next one.
+ */
 export async function* agentLoop(
-  prompt: string,
+  prompt: string | AsyncIterable<SDKUserMessage>,
   options: AgentLoopOptions,
 ): AsyncGenerator<AgentMessage> {
   const {
@@ -150,6 +407,8 @@ export async function* agentLoop(
     effort,
     outputFormat,
     systemPrompt,
+    skillsPrompt,
+    memoryPrompt,
     tools,
     permissions,
     cwd,
@@ -157,26 +416,51 @@ export async function* agentLoop(
     maxTurns,
     maxBudgetUsd,
     includePartialMessages,
-    signal,
+    signal: sessionSignal,
+    turnAbortState,
     env,
     debug,
     hooks,
     mcpClient,
     previousMessages,
+    messagesState,
     sessionLogger,
     nativeMemoryTool,
+    compaction,
+    fileCheckpoints,
+    replayUserMessages,
+    maxToolConcurrency = DEFAULT_MAX_TOOL_CONCURRENCY,
+    maxStructuredOutputRetries = DEFAULT_MAX_STRUCTURED_OUTPUT_RETRIES,
+    maxOutputContinuations = DEFAULT_MAX_OUTPUT_CONTINUATIONS,
+    toolProgressIntervalMs = DEFAULT_TOOL_PROGRESS_INTERVAL_MS,
+    retry,
+    promptCaching,
+    agentType,
     initMeta,
   } = options;
 
   const effectiveModelState = modelState ?? { current: model };
+  const maxRetries = retry?.maxRetries ?? DEFAULT_MAX_RETRIES;
 
-  const startTime = Date.now();
+  let startTime = Date.now();
   let apiTimeMs = 0;
   let turns = 0;
   let totalUsage = emptyTokenUsage();
   let costUsd = 0;
   const modelUsage: Record<string, ModelUsage> = {};
   const permissionDenials: SDKPermissionDenial[] = [];
+  // Prompt size reported by the provider for the most recent turn
+  let lastPromptTokens = 0;
+  // Target a routing provider used last, to notify when it fails over
+  let lastRoutedModel: string | undefined;
+  // Set when a summarization call fails, so later turns don't pay for it again
+  let autoCompactFailed = false;
+  // Parent of the next session entry: the entry logged last. Null until the
+  // first prompt, which the logger attaches to the branch being continued.
+  let parentUuid: string | null = null;
+
+  const isConcurrencySafe = (call: ToolCall): boolean =>
+    isReadOnlyTool(call.name) || tools.get(call.name)?.readOnly === true;
 
   // Connect MCP servers and register their tools
   if (mcpClient) {
@@ -190,16 +474,9 @@ export async function* agentLoop(
     tools.register(createReadMcpResourceTool(mcpClient));
   }
 
-  // Initialize conversation: previous messages (from session) + new user prompt
-  const messages: NormalizedMessage[] = [
-    ...(previousMessages ?? []),
-    { role: "user", content: prompt },
-  ];
-
-  // Log the user prompt to session file
-  if (sessionLogger) {
-    sessionLogger("user", prompt, null);
-  }
+  // Conversation history: previous messages (from session) + user prompts as they arrive
+  const messages: NormalizedMessage[] = [...(previousMessages ?? [])];
+  if (messagesState) messagesState.current = messages;
 
   // Yield Claude-compatible init event
   yield {
@@ -231,7 +508,7 @@ export async function* agentLoop(
       session_id: sessionId,
       cwd,
       permission_mode: permissions.getMode(),
-    }, undefined, { signal });
+    }, undefined, { signal: sessionSignal });
   }
 
   // Fire SessionStart hook
@@ -244,136 +521,435 @@ export async function* agentLoop(
       model: effectiveModelState.current,
       cwd,
       permission_mode: permissions.getMode(),
-    }, undefined, { signal });
+    }, undefined, { signal: sessionSignal });
   }
 
-  while (true) {
-    // Check abort signal
-    if (signal.aborted) {
-      yield makeErrorResult({
-        subtype: "error_during_execution",
-        errors: ["Aborted"],
-        turns,
-        costUsd,
-        sessionId,
-        startTime,
-        apiTimeMs,
-        usage: totalUsage,
-        modelUsage,
-        permissionDenials,
-      });
-      return;
+  // Runtime notices (fallback switches, MCP failures) go to Notification hooks
+  const notify = async (message: string, notificationType: string) => {
+    if (!hooks) return;
+    await hooks.fire("Notification", {
+      event: "Notification",
+      hook_event_name: "Notification",
+      message,
+      notification_type: notificationType,
+      session_id: sessionId,
+      cwd,
+      permission_mode: permissions.getMode(),
+    }, undefined, { signal: sessionSignal });
+  };
+
+  for (const server of mcpClient?.status() ?? []) {
+    if (server.status === "failed") {
+      await notify(`MCP server "${server.name}" failed to connect: ${server.error ?? "unknown error"}`, "mcp_server_failed");
     }
+  }
+
+  prompts: for await (const { content: submittedPrompt, uuid: incomingUuid } of promptSource(prompt, turnAbortState)) {
+    // Turn limits and timings are per prompt; cost and usage span the session
+    startTime = Date.now();
+    apiTimeMs = 0;
+    turns = 0;
 
-    // Check turn limit
-    if (turns >= maxTurns) {
-      yield makeErrorResult({
-        subtype: "error_max_turns",
-        errors: [`Reached maximum turns (${maxTurns})`],
-        turns,
-        costUsd,
-        sessionId,
-        startTime,
-        apiTimeMs,
-        usage: totalUsage,
-        modelUsage,
-        permissionDenials,
-      });
-      return;
+    // An interrupt aborts this prompt's signal only; the session's stays live
+    const turnController = new AbortController();
+    const signal = AbortSignal.any([sessionSignal, turnController.signal]);
+    if (turnAbortState) {
+      turnAbortState.current = turnController;
+      // An interrupt sent while no prompt was running stops this one
+      if (turnAbortState.pendingInterrupt) {
+        turnAbortState.pendingInterrupt = false;
+        turnController.abort();
+      }
     }
 
-    // Check budget limit
-    if (maxBudgetUsd > 0 && costUsd >= maxBudgetUsd) {
-      yield makeErrorResult({
-        subtype: "error_max_budget_usd",
-        // Anthropic SDK reports budget exhaustion via subtype only.
-        errors: [],
-        turns,
-        costUsd,
-        sessionId,
-        startTime,
-        apiTimeMs,
-        usage: totalUsage,
-        modelUsage,
-        permissionDenials,
-      });
-      return;
+    // UserPromptSubmit hooks can block the prompt or add context to it
+    let userPrompt = submittedPrompt;
+    if (hooks) {
+      const hookResult = await hooks.fire("UserPromptSubmit", {
+        event: "UserPromptSubmit",
+        hook_event_name: "UserPromptSubmit",
+        prompt: promptText(submittedPrompt),
+        session_id: sessionId,
+        cwd,
+        permission_mode: permissions.getMode(),
+      }, undefined, { signal });
+
+      if (hookResult?.permissionDecision === "deny" || hookResult?.decision === "block") {
+        const reason = hookResult.permissionDecisionReason ?? hookResult.reason ?? hookResult.stopReason;
+        yield makeErrorResult({
+          subtype: "error_during_execution",
+          errors: [reason ? `Prompt blocked by hook: ${reason}` : "Prompt blocked by hook"],
+          turns,
+          costUsd,
+          sessionId,
+          startTime,
+          apiTimeMs,
+          usage: totalUsage,
+          modelUsage,
+          permissionDenials,
+        });
+        continue prompts;
+      }
+
+      if (hookResult?.additionalContext) {
+        userPrompt = appendPromptContext(submittedPrompt, hookResult.additionalContext);
+      }
     }
 
-    // Call LLM
-    const activeModel = effectiveModelState.current;
-    const toolDefs = tools.getDefinitions();
-    const apiStart = Date.now();
-
-    let assistantTextParts: string[] = [];
-    const toolCalls: { id: string; name: string; input: unknown }[] = [];
-    let turnUsage = emptyTokenUsage();
-    let turnStopReason: string | null = null;
-
-    // Build native tools array for the provider (e.g. Anthropic memory tool)
-    const nativeTools: unknown[] | undefined = nativeMemoryTool
-      ? [nativeMemoryTool.definition]
-      : undefined;
-
-    try {
-      const chunks = provider.chat({
-        model: activeModel,
-        messages,
-        tools: toolDefs.length > 0 ? toolDefs : undefined,
-        systemPrompt,
-        signal,
-        nativeTools,
-        thinkingBudget: maxThinkingTokensState?.current,
-        thinking,
-        effort,
-        outputFormat,
-      });
-
-      for await (const chunk of chunks) {
-        switch (chunk.type) {
-          case "text_delta":
-            assistantTextParts.push(chunk.text);
-            if (includePartialMessages) {
-              yield {
-                type: "stream_event",
-                event: { type: "text_delta", text: chunk.text },
-                parent_tool_use_id: null,
-                uuid: uuid(),
-                session_id: sessionId,
-              };
+    messages.push({ role: "user", content: userPrompt });
+
+    // Log the user prompt to session file; its UUID also keys the file checkpoint
+    const promptUuid: string = sessionLogger
+      ? sessionLogger("user", userPrompt, parentUuid, { uuid: incomingUuid })
+      : incomingUuid ?? uuid();
+    parentUuid = promptUuid;
+    // A subagent's edits belong to the parent turn that started it, so only
+    // top-level prompts open a checkpoint
+    if (!agentType) fileCheckpoints?.begin(promptUuid);
+
+    if (replayUserMessages) {
+      yield {
+        type: "user",
+        message: {
+          role: "user",
+          content: userPrompt as SDKUserMessage["message"]["content"],
+        },
+        parent_tool_use_id: null,
+        isReplay: true,
+        uuid: promptUuid,
+        session_id: sessionId,
+      };
+    }
+
+    let structuredOutputRetries = 0;
+    let outputContinuations = 0;
+    let stopHookBlocks = 0;
+    let truncatedText = "";
+
+    while (true) {
+      // Check abort signal
+      if (signal.aborted) {
+        yield makeErrorResult({
+          subtype: "error_during_execution",
+          errors: ["Aborted"],
+          turns,
+          costUsd,
+          sessionId,
+          startTime,
+          apiTimeMs,
+          usage: totalUsage,
+          modelUsage,
+          permissionDenials,
+        });
+        if (sessionSignal.aborted) break prompts;
+        continue prompts;
+      }
+
+      // Check turn limit
+      if (turns >= maxTurns) {
+        yield makeErrorResult({
+          subtype: "error_max_turns",
+          errors: [`Reached maximum turns (${maxTurns})`],
+          turns,
+          costUsd,
+          sessionId,
+          startTime,
+          apiTimeMs,
+          usage: totalUsage,
+          modelUsage,
+          permissionDenials,
+        });
+        continue prompts;
+      }
+
+      // Check budget limit
+      if (maxBudgetUsd > 0 && costUsd >= maxBudgetUsd) {
+        yield makeErrorResult({
+          subtype: "error_max_budget_usd",
+          // Anthropic SDK reports budget exhaustion via subtype only.
+          errors: [],
+          turns,
+          costUsd,
+          sessionId,
+          startTime,
+          apiTimeMs,
+          usage: totalUsage,
+          modelUsage,
+          permissionDenials,
+        });
+        continue prompts;
+      }
+
+      // Call LLM
+      const activeModel = effectiveModelState.current;
+      const toolDefs = tools.getDefinitions();
+
+      // Compact older turns when the prompt nears the context window
+      if (compaction?.enabled !== false && !autoCompactFailed) {
+        const contextWindow = provider.getContextWindow(activeModel);
+        const threshold = compaction?.threshold ?? DEFAULT_COMPACT_THRESHOLD;
+        const preTokens = Math.max(
+          lastPromptTokens,
+          estimateTokens({ messages, systemPrompt, tools: toolDefs }),
+        );
+        const split = preTokens >= contextWindow * threshold
+          ? findCompactionSplit(messages, compaction?.preserveRecentMessages ?? DEFAULT_PRESERVE_RECENT_MESSAGES)
+          : -1;
+
+        if (split > 0) {
+          let customInstructions: string | undefined;
+          if (hooks) {
+            const hookResult = await hooks.fire("PreCompact", {
+              event: "PreCompact",
+              hook_event_name: "PreCompact",
+              session_id: sessionId,
+              cwd,
+              permission_mode: permissions.getMode(),
+              trigger: "auto",
+              custom_instructions: null,
+            }, undefined, { signal });
+            customInstructions = hookResult?.additionalContext;
+          }
+
+          yield {
+            type: "system",
+            subtype: "status",
+            status: "compacting",
+            permissionMode: permissions.getMode(),
+            uuid: uuid(),
+            session_id: sessionId,
+          };
+
+          const compactStart = Date.now();
+          try {
+            const compacted = await summarizeMessages({
+              provider,
+              model: activeModel,
+              messages,
+              split,
+              signal,
+              customInstructions,
+            });
+            apiTimeMs += Date.now() - compactStart;
+
+            totalUsage = mergeUsage(totalUsage, compacted.usage);
+            const compactCost = provider.calculateCost(activeModel, compacted.usage);
+            costUsd += compactCost;
+            if (!modelUsage[activeModel]) {
+              modelUsage[activeModel] = makeModelUsageEntry();
             }
-            break;
+            modelUsage[activeModel].inputTokens += compacted.usage.inputTokens;
+            modelUsage[activeModel].outputTokens += compacted.usage.outputTokens;
+            modelUsage[activeModel].cacheReadInputTokens += compacted.usage.cacheReadInputTokens;
+            modelUsage[activeModel].cacheCreationInputTokens += compacted.usage.cacheCreationInputTokens;
+            modelUsage[activeModel].totalCostUsd += compactCost;
+            modelUsage[activeModel].costUSD = modelUsage[activeModel].totalCostUsd;
+
+            const summaryText = formatCompactSummary(compacted.summary);
+            messages.splice(0, compacted.replacedCount, { role: "user", content: summaryText });
+            lastPromptTokens = 0;
 
-          case "thinking_delta":
-            if (includePartialMessages) {
+            if (sessionLogger) {
+              parentUuid = sessionLogger("user", summaryText, parentUuid, {
+                compactBoundary: { trigger: "auto", preTokens },
+              });
+              // Loading stops at the boundary, so the preserved tail is logged
+              // again after the summary for resume to replay it
+              for (const message of messages.slice(1)) {
+                parentUuid = sessionLogger(message.role, message.content, parentUuid, { compactTail: true });
+              }
+            }
+
+            yield {
+              type: "system",
+              subtype: "compact_boundary",
+              compact_metadata: { trigger: "auto", pre_tokens: preTokens },
+              uuid: uuid(),
+              session_id: sessionId,
+            };
+          } catch (err) {
+            apiTimeMs += Date.now() - compactStart;
+            // An interrupted summary is not a failure; the abort check ends the turn
+            if (!signal.aborted) {
+              autoCompactFailed = true;
               yield {
-                type: "stream_event",
-                event: { type: "thinking_delta", thinking: chunk.text },
-                parent_tool_use_id: null,
+                type: "system",
+                subtype: "compact_failed",
+                error: err instanceof Error ? err.message : String(err),
                 uuid: uuid(),
                 session_id: sessionId,
               };
             }
-            break;
+          }
 
-          case "tool_call":
-            toolCalls.push({ id: chunk.id, name: chunk.name, input: chunk.input });
-            break;
+          yield {
+            type: "system",
+            subtype: "status",
+            status: null,
+            permissionMode: permissions.getMode(),
+            uuid: uuid(),
+            session_id: sessionId,
+          };
+        }
+      }
+
+      const apiStart = Date.now();
+
+      let assistantTextParts: string[] = [];
+      // Completed thinking blocks, plus streamed thinking not yet closed by one
+      const thinkingBlocks: (ThinkingContent | RedactedThinkingContent)[] = [];
+      let pendingThinking = "";
+      const toolCalls: ToolCall[] = [];
+      let turnUsage = emptyTokenUsage();
+      let turnStopReason: string | null = null;
+      // Routing providers name the provider:model that served the turn
+      let servedModel = activeModel;
+      // Answer parsed by the provider's native structured output mode
+      let turnStructuredOutput: { value: unknown } | undefined;
+      // Whether the response ended on a tool call whose input was cut off
+      let endsWithIncompleteToolCall = false;
+
+      // Build native tools array for the provider (e.g. Anthropic memory tool)
+      const nativeTools: unknown[] | undefined = nativeMemoryTool
+        ? [nativeMemoryTool.definition]
+        : undefined;
 
-          case "usage":
-            turnUsage = mergeUsage(turnUsage, chunk.usage);
+      // Retryable provider errors are retried with backoff; each attempt restarts the turn
+      let retryAttempt = 0;
+      let apiFailed = false;
+      let apiError: unknown;
+      // Whether this attempt emitted stream_event deltas that a restart must void
+      let streamedPartial = false;
+
+      while (true) {
+        assistantTextParts = [];
+        thinkingBlocks.length = 0;
+        pendingThinking = "";
+        toolCalls.length = 0;
+        turnUsage = emptyTokenUsage();
+        turnStopReason = null;
+        servedModel = activeModel;
+        turnStructuredOutput = undefined;
+        endsWithIncompleteToolCall = false;
+        streamedPartial = false;
+
+        try {
+          const chatRequest: ChatRequest = {
+            model: activeModel,
+            messages,
+            tools: toolDefs.length > 0 ? toolDefs : undefined,
+            systemPrompt,
+            signal,
+            nativeTools,
+            thinkingBudget: maxThinkingTokensState?.current,
+            thinking,
+            effort,
+            // Providers without a native mode get the schema check on parsed text only
+            outputFormat: provider.supportsFeature("structured_output", activeModel) ? outputFormat : undefined,
+            promptCaching,
+          };
+          // Models without native function calling get the tools through the prompt
+          const chunks = chatRequest.tools && !provider.supportsFeature("tool_calling", activeModel)
+            ? chatWithEmulatedTools(provider, chatRequest)
+            : provider.chat(chatRequest);
+
+          for await (const chunk of chunks) {
+            switch (chunk.type) {
+              case "text_delta":
+                assistantTextParts.push(chunk.text);
+                endsWithIncompleteToolCall = false;
+                if (includePartialMessages) {
+                  streamedPartial = true;
+                  yield {
+                    type: "stream_event",
+                    event: { type: "text_delta", text: chunk.text },
+                    parent_tool_use_id: null,
+                    uuid: uuid(),
+                    session_id: sessionId,
+                  };
+                }
+                break;
+
+              case "thinking_delta":
+                pendingThinking += chunk.text;
+                endsWithIncompleteToolCall = false;
+                if (includePartialMessages) {
+                  streamedPartial = true;
+                  yield {
+                    type: "stream_event",
+                    event: { type: "thinking_delta", thinking: chunk.text },
+                    parent_tool_use_id: null,
+                    uuid: uuid(),
+                    session_id: sessionId,
+                  };
+                }
+                break;
+
+              case "thinking_block":
+                thinkingBlocks.push(chunk.block);
+                pendingThinking = "";
+                break;
+
+              case "tool_call":
+                toolCalls.push({ id: chunk.id, name: chunk.name, input: chunk.input });
+                endsWithIncompleteToolCall = chunk.incomplete === true;
+                break;
+
+              case "usage":
+                turnUsage = mergeUsage(turnUsage, chunk.usage);
+                break;
+
+              case "model":
+                servedModel = chunk.model;
+                break;
+
+              case "structured_output":
+                turnStructuredOutput = { value: chunk.value };
+                break;
+
+              case "done":
+                turnStopReason = chunk.stopReason ?? null;
+                break;
+            }
+          }
+          break;
+        } catch (err) {
+          apiError = err;
+          if (signal.aborted || !isProviderError(err) || !err.retryable || retryAttempt >= maxRetries) {
+            apiFailed = true;
             break;
+          }
 
-          case "done":
-            turnStopReason = chunk.stopReason ?? null;
+          retryAttempt++;
+          const delayMs = computeRetryDelay(retryAttempt, retry, err.retryAfterMs);
+          if (debug) {
+            console.error(`[debug] ${err.provider} ${err.kind} error, retry ${retryAttempt}/${maxRetries} in ${delayMs}ms: ${err.message}`);
+          }
+          yield {
+            type: "system",
+            subtype: "status",
+            status: "retrying",
+            permissionMode: permissions.getMode(),
+            retry: {
+              attempt: retryAttempt,
+              max_retries: maxRetries,
+              delay_ms: delayMs,
+              error: err.kind,
+              message: err.message,
+            },
+            uuid: uuid(),
+            session_id: sessionId,
+          };
+          await sleep(delayMs, signal);
+          if (signal.aborted) {
+            apiFailed = true;
             break;
+          }
+          if (streamedPartial) yield makeStreamReset(sessionId);
         }
       }
-    } catch (err) {
-      const message = err instanceof Error ? err.message : String(err);
 
-      if (fallbackModel && activeModel !== fallbackModel) {
-        effectiveModelState.current = fallbackModel;
+      if (retryAttempt > 0) {
         yield {
           type: "system",
           subtype: "status",
@@ -382,329 +958,602 @@ export async function* agentLoop(
           uuid: uuid(),
           session_id: sessionId,
         };
-        continue;
       }
 
-      yield makeErrorResult({
-        subtype: "error_during_execution",
-        errors: [`API error: ${message}`],
-        turns,
-        costUsd,
-        sessionId,
-        startTime,
-        apiTimeMs,
-        usage: totalUsage,
-        modelUsage,
-        permissionDenials,
-      });
-      return;
-    }
+      if (apiFailed) {
+        apiTimeMs += Date.now() - apiStart;
 
-    apiTimeMs += Date.now() - apiStart;
-    turns++;
+        if (signal.aborted) {
+          // Keep text streamed before the interrupt so a resumed session sees it.
+          // Tool calls from the cut-off response never ran and are dropped.
+          const partialText = assistantTextParts.join("");
+          if (partialText) {
+            const partialContent: ContentBlock[] = [{ type: "text", text: partialText }];
+            messages.push({ role: "assistant", content: partialContent });
+            if (sessionLogger) {
+              parentUuid = sessionLogger("assistant", partialContent, parentUuid, { model: servedModel });
+            }
+            yield {
+              type: "assistant",
+              message: { role: "assistant", content: partialContent },
+              parent_tool_use_id: null,
+              uuid: uuid(),
+              session_id: sessionId,
+            };
+          }
+          // The abort check at the top of the loop emits the terminal result
+          continue;
+        }
 
-    // Update usage tracking
-    totalUsage = mergeUsage(totalUsage, turnUsage);
-    const turnCost = provider.calculateCost(activeModel, turnUsage);
-    costUsd += turnCost;
+        const message = apiError instanceof Error ? apiError.message : String(apiError);
 
-    // Update per-model usage
-    if (!modelUsage[activeModel]) {
-      modelUsage[activeModel] = makeModelUsageEntry();
-    }
-    modelUsage[activeModel].inputTokens += turnUsage.inputTokens;
-    modelUsage[activeModel].outputTokens += turnUsage.outputTokens;
-    modelUsage[activeModel].cacheReadInputTokens += turnUsage.cacheReadInputTokens;
-    modelUsage[activeModel].cacheCreationInputTokens += turnUsage.cacheCreationInputTokens;
-    modelUsage[activeModel].totalCostUsd += turnCost;
-    modelUsage[activeModel].webSearchRequests = (modelUsage[activeModel].webSearchRequests ?? 0) + (turnUsage.webSearchRequests ?? 0);
-    modelUsage[activeModel].costUSD = modelUsage[activeModel].totalCostUsd;
-    modelUsage[activeModel].contextWindow = provider.getContextWindow(activeModel);
-
-    const assistantText = assistantTextParts.join("");
-
-    // Build assistant message for conversation history
-    const assistantContent: ContentBlock[] = [];
-    if (assistantText) {
-      assistantContent.push({ type: "text", text: assistantText });
-    }
-    for (const call of toolCalls) {
-      assistantContent.push({
-        type: "tool_use",
-        id: call.id,
-        name: call.name,
-        input: call.input,
-      });
-    }
-    messages.push({ role: "assistant", content: assistantContent });
+        if (fallbackModel && activeModel !== fallbackModel) {
+          effectiveModelState.current = fallbackModel;
+          if (streamedPartial) yield makeStreamReset(sessionId);
+          await notify(`Switched from ${activeModel} to fallback model ${fallbackModel}: ${message}`, "model_fallback");
+          yield {
+            type: "system",
+            subtype: "status",
+            status: null,
+            permissionMode: permissions.getMode(),
+            uuid: uuid(),
+            session_id: sessionId,
+          };
+          continue;
+        }
 
-    // Log assistant message to session
-    if (sessionLogger) {
-      sessionLogger("assistant", assistantContent, null);
-    }
+        // Final envelope carries the error classification, like Claude Code's API error messages
+        yield {
+          type: "assistant",
+          message: {
+            role: "assistant",
+            content: [{ type: "text", text: `API Error: ${message}` }],
+          },
+          parent_tool_use_id: null,
+          error: isProviderError(apiError) ? apiError.kind : "unknown",
+          uuid: uuid(),
+          session_id: sessionId,
+        };
 
-    // Emit Claude-compatible assistant envelope
-    yield {
-      type: "assistant",
-      message: {
-        role: "assistant",
-        content: assistantContent,
-      },
-      parent_tool_use_id: null,
-      uuid: uuid(),
-      session_id: sessionId,
-    };
-
-    // If no tool calls -> we're done
-    if (toolCalls.length === 0) {
-      let structuredOutput: unknown | undefined;
-      if (outputFormat?.type === "json_schema") {
-        const parsed = extractStructuredJson(assistantText);
-        if (!parsed.ok) {
-          yield makeErrorResult({
-            subtype: "error_max_structured_output_retries",
-            errors: [parsed.error],
-            turns,
-            costUsd,
-            sessionId,
-            startTime,
-            apiTimeMs,
-            usage: totalUsage,
-            modelUsage,
-            permissionDenials,
-          });
-          return;
+        yield makeErrorResult({
+          subtype: "error_during_execution",
+          errors: [`API error: ${message}`],
+          turns,
+          costUsd,
+          sessionId,
+          startTime,
+          apiTimeMs,
+          usage: totalUsage,
+          modelUsage,
+          permissionDenials,
+        });
+        continue prompts;
+      }
+
+      apiTimeMs += Date.now() - apiStart;
+      turns++;
+
+      // Update usage tracking
+      totalUsage = mergeUsage(totalUsage, turnUsage);
+      lastPromptTokens = turnUsage.inputTokens
+        + turnUsage.cacheReadInputTokens
+        + turnUsage.cacheCreationInputTokens
+        + turnUsage.outputTokens;
+      const turnCost = provider.calculateCost(servedModel, turnUsage);
+      costUsd += turnCost;
+
+      // Update per-model usage
+      if (!modelUsage[servedModel]) {
+        modelUsage[servedModel] = makeModelUsageEntry();
+      }
+      modelUsage[servedModel].inputTokens += turnUsage.inputTokens;
+      modelUsage[servedModel].outputTokens += turnUsage.outputTokens;
+      modelUsage[servedModel].cacheReadInputTokens += turnUsage.cacheReadInputTokens;
+      modelUsage[servedModel].cacheCreationInputTokens += turnUsage.cacheCreationInputTokens;
+      modelUsage[servedModel].totalCostUsd += turnCost;
+      modelUsage[servedModel].webSearchRequests = (modelUsage[servedModel].webSearchRequests ?? 0) + (turnUsage.webSearchRequests ?? 0);
+      modelUsage[servedModel].costUSD = modelUsage[servedModel].totalCostUsd;
+      modelUsage[servedModel].contextWindow = provider.getContextWindow(servedModel);
+
+      if (servedModel !== activeModel) {
+        if (lastRoutedModel && servedModel !== lastRoutedModel) {
+          await notify(`Routed from ${lastRoutedModel} to ${servedModel}`, "model_fallback");
         }
-        structuredOutput = parsed.value;
+        lastRoutedModel = servedModel;
       }
 
-      // Fire Stop hook
-      if (hooks) {
-        await hooks.fire("Stop", {
-          event: "Stop",
-          hook_event_name: "Stop",
-          session_id: sessionId,
-          text: assistantText || undefined,
-          stop_reason: turnStopReason ?? undefined,
-        }, undefined, {
-          signal,
+      const assistantText = assistantTextParts.join("");
+
+      // A turn cut off by the output limit may end mid tool call. That call is
+      // dropped, complete calls still run, and the model is asked to continue.
+      // Once the continuation bound is reached nothing runs.
+      const truncated = turnStopReason === "max_tokens";
+      const canContinue = truncated && outputContinuations < maxOutputContinuations;
+      const droppedToolCalls = !truncated
+        ? []
+        : canContinue
+          ? toolCalls.splice(endsWithIncompleteToolCall ? -1 : toolCalls.length)
+          : toolCalls.splice(0);
+      const continuation = canContinue ? formatContinuationPrompt(droppedToolCalls) : undefined;
+
+      // Build assistant message for conversation history. Thinking comes first:
+      // Anthropic requires it ahead of the text and tool calls it led to.
+      // Adapters that stream thinking without closing blocks get an unsigned one.
+      if (pendingThinking) {
+        thinkingBlocks.push({ type: "thinking", thinking: pendingThinking, provider: provider.name });
+      }
+      const assistantContent: ContentBlock[] = [...thinkingBlocks];
+      if (assistantText) {
+        assistantContent.push({ type: "text", text: assistantText });
+      }
+      for (const call of toolCalls) {
+        assistantContent.push({
+          type: "tool_use",
+          id: call.id,
+          name: call.name,
+          input: call.input,
         });
       }
-      // Fire SessionEnd hook
-      if (hooks) {
-        await hooks.fire("SessionEnd", {
-          event: "SessionEnd",
-          hook_event_name: "SessionEnd",
-          session_id: sessionId,
-          reason: "other",
-        }, undefined, { signal });
+      messages.push({ role: "assistant", content: assistantContent });
+
+      // Log assistant message to session
+      if (sessionLogger) {
+        parentUuid = sessionLogger("assistant", assistantContent, parentUuid, {
+          costUsd: turnCost,
+          usage: turnUsage,
+          stopReason: turnStopReason,
+          // The provider:model that answered, which a routing provider may change per turn
+          model: servedModel,
+        });
       }
 
+      // Emit Claude-compatible assistant envelope
       yield {
-        type: "result",
-        subtype: "success",
-        duration_ms: Date.now() - startTime,
-        duration_api_ms: apiTimeMs,
-        is_error: false,
-        num_turns: turns,
-        result: assistantText,
-        stop_reason: turnStopReason,
-        total_cost_usd: costUsd,
-        usage: totalUsage,
-        modelUsage,
-        permission_denials: permissionDenials,
-        structured_output: structuredOutput,
+        type: "assistant",
+        message: {
+          role: "assistant",
+          content: assistantContent,
+        },
+        parent_tool_use_id: null,
+        ...(truncated && !canContinue ? { error: "max_output_tokens" as const } : {}),
         uuid: uuid(),
         session_id: sessionId,
       };
-      return;
-    }
 
-    // Execute tool calls
-    const toolResults: ToolResultContent[] = [];
-
-    for (const call of toolCalls) {
-      // Fire PreToolUse hook
-      let hookDenied = false;
-      let hookUpdatedInput: unknown | undefined;
-      if (hooks) {
-        const hookResult = await hooks.fire(
-          "PreToolUse",
-          {
-            event: "PreToolUse",
-            hook_event_name: "PreToolUse",
-            tool_name: call.name,
-            tool_input: call.input,
-            session_id: sessionId,
-          },
-          call.id,
-          { signal },
-        );
-        if (hookResult) {
-          if (hookResult.permissionDecision === "deny") {
-            hookDenied = true;
-          }
-          if (hookResult.updatedInput !== undefined) {
-            hookUpdatedInput = hookResult.updatedInput;
-          }
-        }
-      }
+      // The reported prompt and reply sizes are what the next request starts from
+      yield {
+        type: "system",
+        subtype: "context_usage",
+        context_usage: breakdownContextUsage(
+          { provider, model: activeModel, systemPrompt, skillsPrompt, memoryPrompt, tools, nativeTools, messages },
+          lastPromptTokens > 0 ? { tokens: lastPromptTokens, source: "usage" } : undefined,
+        ),
+        uuid: uuid(),
+        session_id: sessionId,
+      };
 
-      // If hook denied, skip execution and emit a tool_result block
-      if (hookDenied) {
-        const denyContent = "Denied by hook";
-        toolResults.push({
-          type: "tool_result",
-          tool_use_id: call.id,
-          content: denyContent,
-          is_error: true,
-        });
-        if (hooks) {
-          await hooks.fire(
-            "PostToolUseFailure",
-            { event: "PostToolUseFailure", tool_name: call.name, tool_result: denyContent, tool_error: true, session_id: sessionId },
-            call.id,
-            { signal },
-          );
+      if (canContinue) outputContinuations++;
+      if (continuation && toolCalls.length === 0) {
+        truncatedText += assistantText;
+        messages.push({ role: "user", content: continuation });
+        if (sessionLogger) {
+          parentUuid = sessionLogger("user", continuation, parentUuid);
         }
+        yield {
+          type: "user",
+          message: { role: "user", content: continuation },
+          parent_tool_use_id: null,
+          isSynthetic: true,
+          uuid: uuid(),
+          session_id: sessionId,
+        };
         continue;
       }
 
-      // Apply hook's updated input if provided
-      const inputAfterHook = hookUpdatedInput !== undefined ? hookUpdatedInput : call.input;
-
-      // Permission check
-      const permResult = await permissions.check(
-        call.name,
-        (inputAfterHook ?? {}) as Record<string, unknown>,
-        { signal, toolUseId: call.id },
-      );
-
-      if (permResult.behavior === "deny") {
-        const denyContent = `Permission denied: ${permResult.message}`;
-        permissionDenials.push({
-          tool_name: call.name,
-          tool_use_id: call.id,
-          tool_input: (inputAfterHook ?? {}) as Record<string, unknown>,
-        });
+      // Text from continued turns plus this turn forms the complete response
+      const responseText = truncatedText + assistantText;
+      truncatedText = "";
+      if (!canContinue) outputContinuations = 0;
 
-        toolResults.push({
-          type: "tool_result",
-          tool_use_id: call.id,
-          content: denyContent,
-          is_error: true,
+      if (truncated && !canContinue) {
+        yield makeErrorResult({
+          subtype: "error_during_execution",
+          errors: [`Response still exceeded the output token limit (maxOutputContinuations: ${maxOutputContinuations})`],
+          turns,
+          costUsd,
+          sessionId,
+          startTime,
+          apiTimeMs,
+          usage: totalUsage,
+          modelUsage,
+          permissionDenials,
         });
-
-        if (hooks) {
-          await hooks.fire(
-            "PostToolUseFailure",
-            { event: "PostToolUseFailure", tool_name: call.name, tool_result: denyContent, tool_error: true, session_id: sessionId },
-            call.id,
-            { signal },
-          );
-        }
-        continue;
+        continue prompts;
       }
 
-      // Use potentially updated input from permissions
-      const toolInput = permResult.behavior === "allow" && permResult.updatedInput
-        ? permResult.updatedInput
-        : inputAfterHook;
+      // If no tool calls -> we're done
+      if (toolCalls.length === 0) {
+        let structuredOutput: unknown | undefined;
+        if (outputFormat?.type === "json_schema") {
+          const checked = checkStructuredOutput(turnStructuredOutput ?? responseText, outputFormat.schema);
 
-      // Execute tool — route memory tool calls to the native handler if available
-      let result: { content: string; isError?: boolean };
+          if (!checked.ok && structuredOutputRetries < maxStructuredOutputRetries) {
+            // Send the validation errors back so the model can correct its output
+            structuredOutputRetries++;
+            const correction = formatStructuredOutputCorrection(checked.errors, outputFormat.schema);
+            messages.push({ role: "user", content: correction });
+            if (sessionLogger) {
+              parentUuid = sessionLogger("user", correction, parentUuid);
+            }
+            yield {
+              type: "user",
+              message: { role: "user", content: correction },
+              parent_tool_use_id: null,
+              isSynthetic: true,
+              uuid: uuid(),
+              session_id: sessionId,
+            };
+            continue;
+          }
 
-      if (call.name === "memory" && nativeMemoryTool) {
-        // Native memory tool (Anthropic): execute via memory handler
-        try {
-          const content = await nativeMemoryTool.execute(toolInput as MemoryCommand);
-          result = { content, isError: content.startsWith("Error:") };
-        } catch (err) {
-          const message = err instanceof Error ? err.message : String(err);
-          result = { content: `Error: ${message}`, isError: true };
+          if (!checked.ok) {
+            yield makeErrorResult({
+              subtype: "error_max_structured_output_retries",
+              errors: checked.errors,
+              turns,
+              costUsd,
+              sessionId,
+              startTime,
+              apiTimeMs,
+              usage: totalUsage,
+              modelUsage,
+              permissionDenials,
+            });
+            continue prompts;
+          }
+          structuredOutput = checked.value;
         }
-      } else {
-        // Regular tool execution
-        const toolCtx: ToolContext = {
-          cwd,
-          signal,
-          sessionId,
-          env,
+
+        // Fire Stop (or SubagentStop) hook; a "block" decision keeps the agent working
+        if (hooks) {
+          const stopEvent = agentType ? "SubagentStop" : "Stop";
+          const hookResult = await hooks.fire(stopEvent, {
+            event: stopEvent,
+            hook_event_name: stopEvent,
+            session_id: sessionId,
+            agent_type: agentType,
+            text: responseText || undefined,
+            stop_reason: turnStopReason ?? undefined,
+            stop_hook_active: stopHookBlocks > 0,
+          }, undefined, {
+            signal,
+          });
+
+          if (hookResult?.decision === "block") {
+            if (stopHookBlocks < MAX_STOP_HOOK_BLOCKS) {
+              stopHookBlocks++;
+              const feedback = formatStopHookFeedback(hookResult.reason);
+              messages.push({ role: "user", content: feedback });
+              if (sessionLogger) {
+                parentUuid = sessionLogger("user", feedback, parentUuid);
+              }
+              yield {
+                type: "user",
+                message: { role: "user", content: feedback },
+                parent_tool_use_id: null,
+                isSynthetic: true,
+                uuid: uuid(),
+                session_id: sessionId,
+              };
+              continue;
+            }
+            await notify(
+              `${stopEvent} hook blocked ${MAX_STOP_HOOK_BLOCKS} times in a row; finishing anyway`,
+              "stop_hook_limit",
+            );
+          }
+        }
+
+        yield {
+          type: "result",
+          subtype: "success",
+          duration_ms: Date.now() - startTime,
+          duration_api_ms: apiTimeMs,
+          is_error: false,
+          num_turns: turns,
+          result: responseText,
+          stop_reason: turnStopReason,
+          total_cost_usd: costUsd,
+          usage: totalUsage,
+          modelUsage,
+          permission_denials: permissionDenials,
+          structured_output: structuredOutput,
+          uuid: uuid(),
+          session_id: sessionId,
         };
-        result = await tools.execute(call.name, toolInput, toolCtx);
+        continue prompts;
       }
 
-      if (call.name === "ExitPlanMode") {
-        permissions.setMode("default" as PermissionMode);
-      }
+      // Execute tool calls. Consecutive read-only calls form a batch that runs
+      // concurrently; every other call runs alone. Hooks and permission checks
+      // run in call order, and results keep the order of the tool_use blocks.
+      const resultByCall = new Map<ToolCall, ToolResultContent>();
 
-      if (debug) {
-        console.error(`[debug] Tool ${call.name}: ${result.isError ? "ERROR" : "OK"} (${result.content.length} chars)`);
-      }
+      for (const batch of partitionToolCalls(toolCalls, isConcurrencySafe)) {
+        // After an interrupt, remaining calls get a result without running
+        if (signal.aborted) {
+          for (const call of batch) {
+            resultByCall.set(call, {
+              type: "tool_result",
+              tool_use_id: call.id,
+              content: INTERRUPTED_TOOL_RESULT,
+              is_error: true,
+            });
+          }
+          continue;
+        }
 
-      // Fire PostToolUse or PostToolUseFailure
-      if (hooks) {
-        if (result.isError) {
-          await hooks.fire(
-            "PostToolUseFailure",
-            {
-              event: "PostToolUseFailure",
-              hook_event_name: "PostToolUseFailure",
-              tool_name: call.name,
-              tool_result: result.content,
-              tool_error: true,
-              session_id: sessionId,
-            },
-            call.id,
-            { signal },
+        const approved: { call: ToolCall; toolInput: unknown }[] = [];
+
+        for (const call of batch) {
+          // Fire PreToolUse hook
+          let hookDenied = false;
+          let hookUpdatedInput: unknown | undefined;
+          if (hooks) {
+            const hookResult = await hooks.fire(
+              "PreToolUse",
+              {
+                event: "PreToolUse",
+                hook_event_name: "PreToolUse",
+                tool_name: call.name,
+                tool_input: call.input,
+                session_id: sessionId,
+              },
+              call.id,
+              { signal },
+            );
+            if (hookResult) {
+              if (hookResult.permissionDecision === "deny") {
+                hookDenied = true;
+              }
+              if (hookResult.updatedInput !== undefined) {
+                hookUpdatedInput = hookResult.updatedInput;
+              }
+            }
+          }
+
+          // If hook denied, skip execution and emit a tool_result block
+          if (hookDenied) {
+            const denyContent = "Denied by hook";
+            resultByCall.set(call, {
+              type: "tool_result",
+              tool_use_id: call.id,
+              content: denyContent,
+              is_error: true,
+            });
+            if (hooks) {
+              await hooks.fire(
+                "PostToolUseFailure",
+                { event: "PostToolUseFailure", tool_name: call.name, tool_result: denyContent, tool_error: true, session_id: sessionId },
+                call.id,
+                { signal },
+              );
+            }
+            continue;
+          }
+
+          // Apply hook's updated input if provided
+          const inputAfterHook = hookUpdatedInput !== undefined ? hookUpdatedInput : call.input;
+
+          // Permission check
+          const permResult = await permissions.check(
+            call.name,
+            (inputAfterHook ?? {}) as Record<string, unknown>,
+            { signal, toolUseId: call.id, sessionId },
           );
-        } else {
-          const postResult = await hooks.fire(
-            "PostToolUse",
-            {
-              event: "PostToolUse",
-              hook_event_name: "PostToolUse",
+
+          if (permResult.behavior === "deny") {
+            const denyContent = `Permission denied: ${permResult.message}`;
+            permissionDenials.push({
               tool_name: call.name,
-              tool_result: result.content,
-              session_id: sessionId,
-            },
-            call.id,
-            { signal },
-          );
-          // Append additionalContext if provided
-          if (postResult?.additionalContext) {
-            result.content += `\n${postResult.additionalContext}`;
+              tool_use_id: call.id,
+              tool_input: (inputAfterHook ?? {}) as Record<string, unknown>,
+            });
+
+            resultByCall.set(call, {
+              type: "tool_result",
+              tool_use_id: call.id,
+              content: denyContent,
+              is_error: true,
+            });
+
+            if (hooks) {
+              await hooks.fire(
+                "PostToolUseFailure",
+                { event: "PostToolUseFailure", tool_name: call.name, tool_result: denyContent, tool_error: true, session_id: sessionId },
+                call.id,
+                { signal },
+              );
+            }
+            continue;
           }
+
+          // Use potentially updated input from permissions
+          const toolInput = permResult.behavior === "allow" && permResult.updatedInput
+            ? permResult.updatedInput
+            : inputAfterHook;
+
+          approved.push({ call, toolInput });
+        }
+
+        // Running tools report heartbeats and incremental output through a queue
+        // that is drained here until every call in the batch has finished.
+        // Progress text is coalesced per call and sent with the next heartbeat,
+        // so chatty tools add at most one event per interval.
+        const progress = new MessageQueue<SDKToolProgressMessage>();
+        const running = new Map<ToolCall, { startedAt: number; text?: string }>();
+        const flushProgress = (call: ToolCall, state: { startedAt: number; text?: string }) => {
+          if (progress.done) return;
+          progress.push(makeToolProgress(call, state.startedAt, sessionId, state.text));
+          state.text = undefined;
+        };
+        const heartbeat = setInterval(() => {
+          for (const [call, state] of running) {
+            flushProgress(call, state);
+          }
+        }, toolProgressIntervalMs);
+
+        const execution = mapConcurrent(approved, maxToolConcurrency, async ({ call, toolInput }): Promise<ToolResult> => {
+          if (signal.aborted) {
+            return { content: INTERRUPTED_TOOL_RESULT, isError: true };
+          }
+          const state: { startedAt: number; text?: string } = { startedAt: Date.now() };
+          running.set(call, state);
+          try {
+            // Route memory tool calls to the native handler if available
+            if (call.name === "memory" && nativeMemoryTool) {
+              // Native memory tool (Anthropic): execute via memory handler
+              try {
+                const content = await nativeMemoryTool.execute(toolInput as MemoryCommand);
+                return { content, isError: content.startsWith("Error:") };
+              } catch (err) {
+                const message = err instanceof Error ? err.message : String(err);
+                return { content: `Error: ${message}`, isError: true };
+              }
+            }
+
+            // Regular tool execution
+            const toolCtx: ToolContext = {
+              cwd,
+              signal,
+              sessionId,
+              env,
+              fileCheckpoints,
+              supportsFeature: (feature) => provider.supportsFeature(feature, activeModel),
+              onProgress: (text) => {
+                const pending = state.text === undefined ? text : `${state.text}\n${text}`;
+                state.text = pending.length > MAX_TOOL_PROGRESS_CHARS ? pending.slice(-MAX_TOOL_PROGRESS_CHARS) : pending;
+              },
+            };
+            return await tools.execute(call.name, toolInput, toolCtx);
+          } finally {
+            running.delete(call);
+            // Text reported since the last heartbeat still arrives before the result
+            if (state.text !== undefined) flushProgress(call, state);
+          }
+        }).finally(() => {
+          clearInterval(heartbeat);
+          progress.close();
+        });
+
+        for await (const event of progress) {
+          yield event;
+        }
+        const results = await execution;
+
+        for (let i = 0; i < approved.length; i++) {
+          const { call } = approved[i];
+          const result = results[i];
+
+          if (call.name === "ExitPlanMode") {
+            permissions.setMode("default" as PermissionMode);
+          }
+
+          if (debug) {
+            console.error(`[debug] Tool ${call.name}: ${result.isError ? "ERROR" : "OK"} (${result.content.length} chars)`);
+          }
+
+          // Fire PostToolUse or PostToolUseFailure
+          if (hooks) {
+            if (result.isError) {
+              await hooks.fire(
+                "PostToolUseFailure",
+                {
+                  event: "PostToolUseFailure",
+                  hook_event_name: "PostToolUseFailure",
+                  tool_name: call.name,
+                  tool_result: result.content,
+                  tool_error: true,
+                  session_id: sessionId,
+                },
+                call.id,
+                { signal },
+              );
+            } else {
+              const postResult = await hooks.fire(
+                "PostToolUse",
+                {
+                  event: "PostToolUse",
+                  hook_event_name: "PostToolUse",
+                  tool_name: call.name,
+                  tool_result: result.content,
+                  session_id: sessionId,
+                },
+                call.id,
+                { signal },
+              );
+              // Append additionalContext if provided
+              if (postResult?.additionalContext) {
+                result.content += `\n${postResult.additionalContext}`;
+              }
+            }
+          }
+
+          resultByCall.set(call, {
+            type: "tool_result",
+            tool_use_id: call.id,
+            content: toolResultContent(result, provider, activeModel),
+            is_error: result.isError,
+          });
         }
       }
 
-      toolResults.push({
-        type: "tool_result",
-        tool_use_id: call.id,
-        content: result.content,
-        is_error: result.isError,
-      });
-    }
+      const toolResults = toolCalls.map((call) => resultByCall.get(call)!);
+      // A truncated turn's continuation request follows the results of its completed calls
+      const userContent: NormalizedContent[] = continuation
+        ? [...toolResults, { type: "text", text: continuation }]
+        : toolResults;
 
-    // Add tool results as user message
-    messages.push({ role: "user", content: toolResults });
+      // Add tool results as user message
+      messages.push({ role: "user", content: userContent });
 
-    // Log tool results to session
-    if (sessionLogger) {
-      sessionLogger("user", toolResults, null);
+      // Log tool results to session
+      if (sessionLogger) {
+        parentUuid = sessionLogger("user", userContent, parentUuid);
+      }
+
+      // Emit Claude-compatible user envelope containing tool_result blocks.
+      yield {
+        type: "user",
+        message: {
+          role: "user",
+          content: toolResults,
+        },
+        parent_tool_use_id: null,
+        isSynthetic: true,
+        uuid: uuid(),
+        session_id: sessionId,
+      };
+      if (continuation) {
+        yield {
+          type: "user",
+          message: { role: "user", content: continuation },
+          parent_tool_use_id: null,
+          isSynthetic: true,
+          uuid: uuid(),
+          session_id: sessionId,
+        };
+      }
     }
+  }
 
-    // Emit Claude-compatible user envelope containing tool_result blocks.
-    yield {
-      type: "user",
-      message: {
-        role: "user",
-        content: toolResults,
-      },
-      parent_tool_use_id: null,
-      isSynthetic: true,
-      uuid: uuid(),
+  // Fire SessionEnd hook once the input is exhausted or the session is aborted
+  if (hooks) {
+    await hooks.fire("SessionEnd", {
+      event: "SessionEnd",
+      hook_event_name: "SessionEnd",
       session_id: sessionId,
-    };
+      reason: "other",
+    }, undefined, { signal: sessionSignal });
   }
 }
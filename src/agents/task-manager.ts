@@ -3,6 +3,7 @@
  */
 
 import type { BackgroundTask } from "./types.ts";
+import { sleep } from "../utils/retry.ts";
 
 export class TaskManager {
   private tasks = new Map<string, BackgroundTask>();
@@ -24,7 +25,7 @@ export class TaskManager {
     return true;
   }
 
-  async getOutput(id: string, block: boolean, timeoutMs: number): Promise<string> {
+  async getOutput(id: string, block: boolean, timeoutMs: number, signal?: AbortSignal): Promise<string> {
     const task = this.tasks.get(id);
     if (!task) {
       return `Task "${id}" not found.`;
@@ -38,12 +39,13 @@ export class TaskManager {
       return `Task "${id}" is still running.`;
     }
 
-    // Block until done or timeout
-    const timeoutPromise = new Promise<void>((resolve) => setTimeout(resolve, timeoutMs));
-    await Promise.race([task.promise, timeoutPromise]);
+    // Block until done, timeout, or interrupt
+    await Promise.race([task.promise, sleep(timeoutMs, signal)]);
 
     if (task.status === "running") {
-      return `Task "${id}" is still running (timed out after ${timeoutMs}ms).`;
+      return signal?.aborted
+        ? `Task "${id}" is still running (wait interrupted).`
+        : `Task "${id}" is still running (timed out after ${timeoutMs}ms).`;
     }
 
     return this.formatOutput(task);
@@ -14,7 +14,8 @@ import { agentLoop } from "../agent-loop.ts";
 import type { AgentMessage } from "../types.ts";
 import { uuid } from "../types.ts";
 import { getProvider } from "../providers/registry.ts";
-import { loadSessionMessages } from "../utils/session-store.ts";
+import { loadSessionBranch, createSessionLogger } from "../utils/session-store.ts";
+import type { SessionStore } from "../utils/session-store.ts";
 
 export type AgentContext = {
   agents: Record<string, AgentDefinition>;
@@ -25,6 +26,10 @@ export type AgentContext = {
   parentCwd: string;
   parentEnv?: Record<string, string>;
   parentDebug?: boolean;
+  /** Store holding the parent session that subagent sidechains are logged to and `resume` loads them from */
+  sessionStore?: SessionStore;
+  /** Log subagent sidechains to `sessionStore`; off when the parent does not persist its own */
+  persistSession?: boolean;
   taskManager: TaskManager;
 };
 
@@ -145,7 +150,15 @@ export function createTaskTool(ctx: AgentContext): ToolImplementation {
 
       const maxTurns = max_turns ?? agentDef.maxTurns ?? 10;
       const sessionId = resume ?? uuid();
-      const previousMessages = resume ? loadSessionMessages(ctx.parentCwd, resume) : undefined;
+      // Subagent runs are sidechains of the parent session, keyed by the subagent's ID
+      const branch = resume
+        ? loadSessionBranch(ctx.parentCwd, toolCtx.sessionId, undefined, ctx.sessionStore, resume)
+        : undefined;
+      const previousMessages = branch?.messages;
+      // A resumed subagent continues its own sidechain from the last entry
+      const sessionLogger = ctx.persistSession
+        ? createSessionLogger(ctx.parentCwd, toolCtx.sessionId, model, ctx.sessionStore, branch?.leafUuid ?? null, sessionId)
+        : undefined;
       const abortController = new AbortController();
 
       // Link parent signal
@@ -196,7 +209,11 @@ export function createTaskTool(ctx: AgentContext): ToolImplementation {
           env: ctx.parentEnv,
           debug: ctx.parentDebug,
           hooks: ctx.parentHooks,
+          agentType: subagent_type,
           previousMessages,
+          sessionLogger,
+          // Subagent edits are recorded under the parent's current checkpoint
+          fileCheckpoints: toolCtx.fileCheckpoints,
         })) {
           messages.push(msg);
           if (msg.type === "assistant") {
@@ -211,7 +228,9 @@ export function createTaskTool(ctx: AgentContext): ToolImplementation {
           }
         }
 
-        return resultText || "Subagent completed with no text output.";
+        const output = resultText || "Subagent completed with no text output.";
+        // The model needs the agent ID to pass back as `resume`
+        return sessionLogger ? `${output}\n\nagentId: ${sessionId} (pass as resume to continue this subagent)` : output;
       };
 
       if (run_in_background) {
@@ -240,26 +259,15 @@ export function createTaskTool(ctx: AgentContext): ToolImplementation {
         };
         ctx.taskManager.register(task);
 
-        // Fire SubagentStop will happen when the background task completes
+        // SubagentStop fires from the subagent's loop when it finishes
         return {
           content: `Background task started with ID: ${taskId}. Use TaskOutput to check results.`,
         };
       }
 
-      // Foreground execution
+      // Foreground execution; SubagentStop fires from the subagent's loop when it finishes
       try {
         const result = await runAgent();
-
-        // Fire SubagentStop hook
-        if (ctx.parentHooks) {
-          await ctx.parentHooks.fire(
-            "SubagentStop",
-            { event: "SubagentStop", agent_type: subagent_type, session_id: toolCtx.sessionId },
-            undefined,
-            { signal: toolCtx.signal },
-          );
-        }
-
         return { content: result };
       } catch (err) {
         // Fire SubagentStop hook even on error
@@ -301,13 +309,13 @@ export function createTaskOutputTool(taskManager: TaskManager): ToolImplementati
       },
       required: ["task_id"],
     },
-    async execute(input: unknown) {
+    async execute(input: unknown, toolCtx) {
       const { task_id, block = true, timeout = 30000 } = input as {
         task_id: string;
         block?: boolean;
         timeout?: number;
       };
-      const output = await taskManager.getOutput(task_id, block, timeout);
+      const output = await taskManager.getOutput(task_id, block, timeout, toolCtx.signal);
       return { content: output };
     },
   };
@@ -2,27 +2,30 @@
  * Public query() function — the main entry point.
  */
 
-import type { QueryOptions, Query, PermissionsConfig, SdkPluginConfig } from "./types.ts";
+import type { QueryOptions, Query, PermissionsConfig, SdkPluginConfig, SDKUserMessage } from "./types.ts";
 import { uuid } from "./types.ts";
 import { getProvider } from "./providers/registry.ts";
 import { resolveToolNames, buildToolRegistry } from "./tools/index.ts";
 import { PermissionManager } from "./permissions.ts";
 import { SettingsManager } from "./settings.ts";
-import { buildSystemPrompt } from "./utils/system-prompt.ts";
-import { agentLoop } from "./agent-loop.ts";
+import { buildSystemPrompt, formatProjectInstructionsSection, formatSkillsSection } from "./utils/system-prompt.ts";
+import { measureContextUsage } from "./utils/context-usage.ts";
+import { agentLoop, type TurnAbortState } from "./agent-loop.ts";
 import { createQuery, type QueryControlHandlers } from "./query.ts";
 import { HookManager } from "./hooks.ts";
 import { McpClientManager } from "./mcp/client.ts";
 import { createTaskTool, createTaskOutputTool, createTaskStopTool } from "./agents/tools.ts";
 import { createListMcpResourcesTool, createReadMcpResourceTool } from "./tools/mcp-resources.ts";
 import { TaskManager } from "./agents/task-manager.ts";
-import { findLatestSession, loadSessionMessages, createSessionLogger } from "./utils/session-store.ts";
+import { findLatestSession, loadSessionBranch, createSessionLogger, defaultSessionStore } from "./utils/session-store.ts";
 import type { NormalizedMessage } from "./providers/types.ts";
 import { createNativeMemoryTool, createMemoryTool } from "./memory/index.ts";
 import type { NativeMemoryTool } from "./memory/index.ts";
 import { loadSkills, loadSkillsFromDir } from "./skills/index.ts";
 import type { Skill } from "./skills/index.ts";
 import { loadPluginComponents } from "./plugins.ts";
+import { MessageQueue } from "./utils/message-queue.ts";
+import { FileCheckpointManager } from "./utils/file-checkpoints.ts";
 
 const DEFAULT_MODEL = "claude-sonnet-4-5-20250929";
 const DEFAULT_MAX_TURNS = 10;
@@ -58,17 +61,15 @@ const DEFAULT_MAX_BUDGET_USD = 5;
  * ```
  */
 export function query(params: {
-  prompt: string | AsyncIterable<import("./types.ts").SDKUserMessage>;
+  prompt: string | AsyncIterable<SDKUserMessage>;
   options?: QueryOptions;
 }): Query {
   const { options = {} } = params;
-  const prompt = params.prompt;
 
-  if (typeof prompt !== "string") {
-    throw new Error(
-      "query({ prompt: AsyncIterable }) is not supported in single-prompt mode yet. Use Query.streamInput() in a streaming session.",
-    );
-  }
+  // Streaming-input mode: the prompt iterable and any streamInput() streams
+  // feed a single queue that the agent loop consumes turn by turn.
+  const inputQueue = typeof params.prompt === "string" ? undefined : new MessageQueue<SDKUserMessage>();
+  const prompt = inputQueue ?? (params.prompt as string);
 
   // Resolve provider
   const providerName = options.provider ?? "anthropic";
@@ -157,6 +158,8 @@ export function query(params: {
     };
   }
 
+  const loadProjectInstructions = Array.isArray(options.settingSources) && options.settingSources.includes("project");
+
   // Build system prompt
   const systemPrompt = (() => {
     if (typeof options.systemPrompt === "string") {
@@ -171,7 +174,7 @@ export function query(params: {
       tools: registry.list(),
       cwd: options.cwd,
       additionalDirectories: options.additionalDirectories,
-      loadProjectInstructions: Array.isArray(options.settingSources) && options.settingSources.includes("project"),
+      loadProjectInstructions,
       customPrompt: appendedPrompt,
       skills,
     });
@@ -211,55 +214,73 @@ export function query(params: {
     ];
   }
 
+  // Hooks
+  const hookManager = options.hooks ? new HookManager(options.hooks) : undefined;
+
   // Permission manager
   const permissions = new PermissionManager(
     options.permissionMode ?? "default",
     options.canUseTool,
     mergedPermissions,
     settingsManager,
+    hookManager,
   );
 
   // Working directory
   const cwd = options.cwd ?? process.cwd();
 
   // Session — resolve ID and load previous messages
+  const sessionStore = options.sessionStore ?? defaultSessionStore;
   let sessionId = options.sessionId ?? uuid();
   let previousMessages: NormalizedMessage[] | undefined;
+  // New entries attach here; resuming at an earlier message starts a branch
+  let leafUuid: string | null = null;
 
   if (options.continue) {
     // Continue most recent session in this cwd
-    const latestId = findLatestSession(cwd);
+    const latestId = findLatestSession(cwd, sessionStore);
     if (latestId) {
-      previousMessages = loadSessionMessages(cwd, latestId);
+      const branch = loadSessionBranch(cwd, latestId, undefined, sessionStore);
+      previousMessages = branch.messages;
       if (options.forkSession) {
         // Fork: keep old messages as context but use a new session ID
         sessionId = uuid();
       } else {
         sessionId = latestId;
+        leafUuid = branch.leafUuid;
       }
     }
   } else if (options.resume) {
     // Resume a specific session by ID
-    previousMessages = loadSessionMessages(cwd, options.resume, options.resumeSessionAt);
+    const branch = loadSessionBranch(cwd, options.resume, options.resumeSessionAt, sessionStore);
+    previousMessages = branch.messages;
     if (options.forkSession) {
       sessionId = uuid();
     } else {
       sessionId = options.resume;
+      leafUuid = branch.leafUuid;
     }
   }
 
-  // Session logger — persists messages to JSONL
+  // Session logger — persists messages to the session store
   const persistSession = options.persistSession !== false;
-  const sessionLogger = persistSession ? createSessionLogger(cwd, sessionId, model) : undefined;
+  const sessionLogger = persistSession
+    ? createSessionLogger(cwd, sessionId, model, sessionStore, leafUuid)
+    : undefined;
 
-  // Abort controller
-  const abortController = options.abortController ?? new AbortController();
-  if (options.signal) {
-    options.signal.addEventListener("abort", () => abortController.abort(), { once: true });
+  // Abort controller: the query's own, so return() and close() never abort
+  // a controller the caller passed in
+  const abortController = new AbortController();
+  for (const signal of [options.abortController?.signal, options.signal]) {
+    if (!signal) continue;
+    if (signal.aborted) abortController.abort();
+    else signal.addEventListener("abort", () => abortController.abort(), { once: true });
   }
-
-  // Hooks
-  const hookManager = options.hooks ? new HookManager(options.hooks) : undefined;
+  if (inputQueue) {
+    abortController.signal.addEventListener("abort", () => inputQueue.close(), { once: true });
+  }
+  // The running prompt's controller; interrupt() aborts it and the session stays open
+  const turnAbortState: TurnAbortState = { current: undefined };
 
   // MCP
   const mcpClient = options.mcpServers && Object.keys(options.mcpServers).length > 0
@@ -275,6 +296,9 @@ export function query(params: {
     registry.register(createReadMcpResourceTool(mcpClient));
   };
 
+  // File checkpoints — snapshots taken by Write/Edit/NotebookEdit/memory per user turn
+  const fileCheckpoints = options.enableFileCheckpointing ? new FileCheckpointManager() : undefined;
+
   // Subagents
   if (options.agents && Object.keys(options.agents).length > 0) {
     const taskManager = new TaskManager();
@@ -287,6 +311,8 @@ export function query(params: {
       parentCwd: cwd,
       parentEnv: options.env,
       parentDebug: options.debug,
+      sessionStore,
+      persistSession,
       taskManager,
     };
     registry.register(createTaskTool(agentCtx));
@@ -297,7 +323,7 @@ export function query(params: {
   // Memory — provider-agnostic setup
   let nativeMemoryTool: NativeMemoryTool | undefined;
   if (options.memoryPath) {
-    const memoryConfig = { path: options.memoryPath };
+    const memoryConfig = { path: options.memoryPath, fileCheckpoints };
     if (providerName === "anthropic") {
       // Anthropic: use native memory_20250818 tool type (handled by provider)
       nativeMemoryTool = createNativeMemoryTool(memoryConfig);
@@ -307,6 +333,13 @@ export function query(params: {
     }
   }
 
+  // Shared with the loop so getContextUsage() sees the live history
+  const messagesState = { current: previousMessages ?? [] };
+  const skillsPrompt = formatSkillsSection(skills);
+  const memoryPrompt = typeof options.systemPrompt !== "string" && loadProjectInstructions && options.cwd
+    ? formatProjectInstructionsSection(options.cwd)
+    : undefined;
+
   // Create agent loop generator
   const generator = agentLoop(prompt, {
     provider,
@@ -317,7 +350,12 @@ export function query(params: {
     thinking: options.thinking,
     effort: options.effort,
     outputFormat: options.outputFormat,
+    maxStructuredOutputRetries: options.maxStructuredOutputRetries,
+    maxOutputContinuations: options.maxOutputContinuations,
+    toolProgressIntervalMs: options.toolProgressIntervalMs,
     systemPrompt,
+    skillsPrompt,
+    memoryPrompt,
     tools: registry,
     permissions,
     cwd,
@@ -326,13 +364,21 @@ export function query(params: {
     maxBudgetUsd: options.maxBudgetUsd ?? DEFAULT_MAX_BUDGET_USD,
     includePartialMessages: options.includePartialMessages ?? false,
     signal: abortController.signal,
+    turnAbortState,
     env: options.env,
     debug: options.debug,
     hooks: hookManager,
     mcpClient,
     previousMessages,
+    messagesState,
     sessionLogger,
     nativeMemoryTool,
+    compaction: options.compaction,
+    retry: options.retry,
+    promptCaching: options.promptCaching,
+    fileCheckpoints,
+    maxToolConcurrency: options.maxToolConcurrency,
+    replayUserMessages: options.extraArgs !== undefined && "replay-user-messages" in options.extraArgs,
     initMeta: {
       betas: options.betas,
       outputStyle: "default",
@@ -386,17 +432,26 @@ export function query(params: {
         apiKeySource: options.apiKey ? "explicit" : "env_or_oauth",
       };
     },
-    async rewindFiles(_userMessageId, _options) {
-      if (!options.enableFileCheckpointing) {
+    async rewindFiles(userMessageId, rewindOptions) {
+      if (!fileCheckpoints) {
         return {
           canRewind: false,
           error: "File checkpointing is disabled. Set enableFileCheckpointing: true.",
         };
       }
-      return {
-        canRewind: false,
-        error: "File checkpoint rewind is not implemented in fourmis-agent-sdk yet.",
-      };
+      return fileCheckpoints.rewind(userMessageId, rewindOptions);
+    },
+    async getContextUsage() {
+      return measureContextUsage({
+        provider,
+        model: modelState.current,
+        systemPrompt,
+        skillsPrompt,
+        memoryPrompt,
+        tools: registry,
+        nativeTools: nativeMemoryTool ? [nativeMemoryTool.definition] : undefined,
+        messages: messagesState.current,
+      }, abortController.signal);
     },
     async reconnectMcpServer(serverName) {
       if (!mcpClient) throw new Error("No MCP servers are configured for this query.");
@@ -414,10 +469,22 @@ export function query(params: {
       syncMcpTools();
       return result;
     },
-    async streamInput() {
-      throw new Error("Query.streamInput is not implemented for single-prompt query mode.");
+    async interrupt() {
+      if (turnAbortState.current) turnAbortState.current.abort();
+      else turnAbortState.pendingInterrupt = true;
+    },
+    async streamInput(stream) {
+      if (!inputQueue) {
+        throw new Error("Query.streamInput requires query() to be started with an AsyncIterable prompt.");
+      }
+      await inputQueue.attach(stream);
     },
   };
 
+  if (inputQueue) {
+    // Errors from the prompt stream surface through the agent loop
+    inputQueue.attach(params.prompt as AsyncIterable<SDKUserMessage>).catch(() => {});
+  }
+
   return createQuery(generator, abortController, controls);
 }
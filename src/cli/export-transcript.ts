@@ -0,0 +1,101 @@
+#!/usr/bin/env bun
+/**
+ * fourmis-export — render a persisted session as Markdown, HTML or JSON.
+ *
+ *   fourmis-export <session-id> [--cwd DIR] [--format markdown|html|json]
+ *                  [--out FILE] [--redact TEXT]... [--redact-env NAME]...
+ *                  [--at UUID] [--no-sidechains]
+ */
+
+import { parseArgs } from "node:util";
+import { writeFileSync } from "node:fs";
+import { exportSession } from "../utils/transcript-export.ts";
+import type { TranscriptFormat } from "../utils/transcript-export.ts";
+
+const USAGE = `Usage: fourmis-export <session-id> [options]
+
+Options:
+  --cwd DIR            Project directory the session belongs to (default: current directory)
+  --format FORMAT      markdown, html or json (default: markdown)
+  --out FILE           Write to FILE instead of stdout
+  --redact TEXT        Replace TEXT with [REDACTED] (repeatable)
+  --redact-env NAME    Redact the value of environment variable NAME (repeatable)
+  --at UUID            Export the branch ending at this message
+  --no-sidechains      Leave out subagent sidechains
+  -h, --help           Show this help`;
+
+const FORMATS: TranscriptFormat[] = ["markdown", "html", "json"];
+
+/** Run the CLI. Returns the process exit code. */
+export function main(argv: string[]): number {
+  let parsed: ReturnType<typeof parseCliArgs>;
+  try {
+    parsed = parseCliArgs(argv);
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : String(err));
+    console.error(USAGE);
+    return 2;
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals.length !== 1) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const format = (values.format ?? "markdown") as TranscriptFormat;
+  if (!FORMATS.includes(format)) {
+    console.error(`Unknown format "${values.format}". Expected one of: ${FORMATS.join(", ")}`);
+    return 2;
+  }
+
+  const redact = [
+    ...(values.redact ?? []),
+    ...(values["redact-env"] ?? []).map((name) => process.env[name]).filter((v): v is string => !!v),
+  ];
+
+  const sessionId = positionals[0];
+  const cwd = values.cwd ?? process.cwd();
+  const output = exportSession(cwd, sessionId, {
+    format,
+    redact,
+    leafUuid: values.at,
+    includeSidechains: !values["no-sidechains"],
+  });
+  if (output === null) {
+    console.error(`Session "${sessionId}" not found for ${cwd}`);
+    return 1;
+  }
+
+  if (values.out) {
+    writeFileSync(values.out, output);
+  } else {
+    process.stdout.write(output);
+  }
+  return 0;
+}
+
+function parseCliArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      cwd: { type: "string" },
+      format: { type: "string" },
+      out: { type: "string" },
+      redact: { type: "string", multiple: true },
+      "redact-env": { type: "string", multiple: true },
+      at: { type: "string" },
+      "no-sidechains": { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+}
+
+if (import.meta.main) {
+  process.exit(main(process.argv.slice(2)));
+}
@@ -62,6 +62,8 @@ export type HookInput = {
   stop_reason?: string;
   /** Final text (for Stop) */
   text?: string;
+  /** Whether the agent is already continuing because a stop hook blocked (for Stop/SubagentStop) */
+  stop_hook_active?: boolean;
   /** Arbitrary extra data */
   [key: string]: unknown;
 };
@@ -69,8 +71,11 @@ export type HookInput = {
 export type SyncHookJSONOutput = {
   /** Claude-compatible continuation field */
   continue?: boolean;
-  /** Claude-compatible permission decision envelope */
-  decision?: {
+  /**
+   * Claude-compatible permission decision envelope. For Stop/SubagentStop,
+   * "block" keeps the agent working and sends `reason` back as a user message.
+   */
+  decision?: "approve" | "block" | {
     behavior: "allow";
     updatedInput?: Record<string, unknown>;
     updatedPermissions?: import("./types.ts").PermissionUpdate[];
@@ -78,11 +83,17 @@ export type SyncHookJSONOutput = {
     behavior: "deny";
     message: string;
   };
+  /** Why a "block" decision was made (for Stop/SubagentStop) */
+  reason?: string;
   /** For PreToolUse: override the permission decision */
   permissionDecision?: "allow" | "deny";
+  /** Reason shown for a deny decision (PermissionRequest, UserPromptSubmit) */
+  permissionDecisionReason?: string;
+  /** For PermissionRequest: permission rule updates to apply with an allow decision */
+  updatedPermissions?: import("./types.ts").PermissionUpdate[];
   /** For PreToolUse: replace the tool input */
   updatedInput?: unknown;
-  /** Additional context to append to the tool result */
+  /** Additional context to append to the tool result or user prompt */
   additionalContext?: string;
   /** For Stop: override the stop reason */
   stopReason?: string;
@@ -107,7 +118,7 @@ export type HookCallbackMatcher = {
 
 // ─── Hook Manager ────────────────────────────────────────────────────────────
 
-const TOOL_EVENTS = new Set<HookEvent>(["PreToolUse", "PostToolUse", "PostToolUseFailure"]);
+const TOOL_EVENTS = new Set<HookEvent>(["PreToolUse", "PostToolUse", "PostToolUseFailure", "PermissionRequest"]);
 
 export class HookManager {
   private hookMap: Partial<Record<HookEvent, HookCallbackMatcher[]>>;
@@ -174,9 +185,18 @@ export class HookManager {
             merged.permissionDecision = "deny";
           }
 
-          if (result.decision) {
+          if (result.decision === "block") {
+            // Any blocking callback wins; reasons are concatenated
+            merged.decision = "block";
+            if (result.reason) {
+              merged.reason = merged.reason ? `${merged.reason}\n${result.reason}` : result.reason;
+            }
+          } else if (result.decision === "approve") {
+            merged.decision ??= "approve";
+          } else if (result.decision) {
             if (result.decision.behavior === "deny") {
               merged.permissionDecision = "deny";
+              merged.permissionDecisionReason ??= result.decision.message;
             } else {
               if (!merged.permissionDecision) {
                 merged.permissionDecision = "allow";
@@ -184,6 +204,12 @@ export class HookManager {
               if (result.decision.updatedInput !== undefined) {
                 merged.updatedInput = result.decision.updatedInput;
               }
+              if (result.decision.updatedPermissions) {
+                merged.updatedPermissions = [
+                  ...(merged.updatedPermissions ?? []),
+                  ...result.decision.updatedPermissions,
+                ];
+              }
             }
           }
 
@@ -194,6 +220,16 @@ export class HookManager {
             }
           }
 
+          // permissionDecisionReason: first reason wins
+          if (result.permissionDecisionReason) {
+            merged.permissionDecisionReason ??= result.permissionDecisionReason;
+          }
+
+          // updatedPermissions: concatenate
+          if (result.updatedPermissions) {
+            merged.updatedPermissions = [...(merged.updatedPermissions ?? []), ...result.updatedPermissions];
+          }
+
           // updatedInput: last callback wins
           if (result.updatedInput !== undefined) {
             merged.updatedInput = result.updatedInput;
@@ -10,6 +10,10 @@ export { query } from "./api.ts";
 export type {
   AgentMessage,
   TextContent,
+  ThinkingContent,
+  RedactedThinkingContent,
+  ImageContent,
+  DocumentContent,
   ToolUseContent,
   ToolResultContent,
   ContentBlock,
@@ -17,6 +21,7 @@ export type {
   SDKStatus,
   SDKSystemMessage,
   SDKStatusMessage,
+  SDKRetryInfo,
   SDKAssistantMessage,
   SDKUserMessage,
   SDKUserMessageReplay,
@@ -27,6 +32,8 @@ export type {
   SDKTaskNotificationMessage,
   SDKAuthStatusMessage,
   SDKCompactBoundaryMessage,
+  SDKCompactFailedMessage,
+  SDKContextUsageMessage,
   SDKHookStartedMessage,
   SDKHookProgressMessage,
   SDKHookResponseMessage,
@@ -40,6 +47,7 @@ export type {
   SlashCommand,
   AccountInfo,
   RewindFilesResult,
+  ContextUsage,
   McpSetServersResult,
   QueryInitializationResult,
   TokenUsage,
@@ -55,6 +63,48 @@ export type {
   SettingSource,
 } from "./types.ts";
 
+// Compaction
+export type { CompactionConfig } from "./utils/compaction.ts";
+
+// Retries
+export type { RetryConfig } from "./utils/retry.ts";
+
+// Sessions
+export {
+  listSessions,
+  getSession,
+  renameSession,
+  deleteSession,
+  JsonlSessionStore,
+  InMemorySessionStore,
+} from "./utils/session-store.ts";
+export type {
+  SessionInfo,
+  SessionStore,
+  SessionLogEntry,
+  SessionRecord,
+  SessionListing,
+} from "./utils/session-store.ts";
+
+// Transcript export
+export {
+  exportSession,
+  buildTranscript,
+  renderTranscriptMarkdown,
+  renderTranscriptHtml,
+} from "./utils/transcript-export.ts";
+export type {
+  Transcript,
+  TranscriptMessage,
+  TranscriptBlock,
+  TranscriptSidechain,
+  TranscriptFormat,
+  TranscriptExportOptions,
+} from "./utils/transcript-export.ts";
+
+// File checkpoints
+export { FileCheckpointManager } from "./utils/file-checkpoints.ts";
+
 // Settings
 export { SettingsManager } from "./settings.ts";
 
@@ -67,6 +117,8 @@ export type {
   NormalizedMessage,
   ProviderFeature,
   ModelInfo,
+  PromptCachingConfig,
+  TokenCount,
 } from "./providers/types.ts";
 
 // Tool types
@@ -77,6 +129,27 @@ export { PRESETS } from "./tools/presets.ts";
 // Provider registry
 export { registerProvider, getProvider } from "./providers/registry.ts";
 
+// OpenAI-compatible servers (Ollama, vLLM, llama.cpp, LM Studio)
+export { OpenAICompatibleAdapter } from "./providers/openai-compatible.ts";
+export type { OpenAICompatibleOptions, OpenAICompatibleModelConfig } from "./providers/openai-compatible.ts";
+
+// Cross-provider routing with failover
+export { RouterProvider } from "./providers/router.ts";
+export type { RouterOptions, RouteTarget, CircuitBreakerConfig, CircuitState } from "./providers/router.ts";
+
+// Offline test providers
+export { MockProvider } from "./providers/mock.ts";
+export type { MockTurn, MockProviderOptions } from "./providers/mock.ts";
+export { RecordReplayProvider } from "./providers/record-replay.ts";
+export type { RecordReplayOptions, CassetteMode } from "./providers/record-replay.ts";
+
+// Prompt-based tool calling for models without native support
+export { chatWithEmulatedTools } from "./providers/tool-emulation.ts";
+
+// Provider errors
+export { ProviderError, isProviderError } from "./providers/errors.ts";
+export type { ProviderErrorKind } from "./providers/errors.ts";
+
 // Individual tools (for custom registries)
 export { BashTool } from "./tools/bash.ts";
 export { ReadTool } from "./tools/read.ts";
@@ -20,6 +20,12 @@ type ConnectedServer = {
   status: McpServerStatus;
 };
 
+/** Render an MCP progress notification as progress text. */
+function formatMcpProgress(p: { progress: number; total?: number; message?: string }): string {
+  const count = p.total !== undefined ? `${p.progress}/${p.total}` : String(p.progress);
+  return p.message ? `${p.message} (${count})` : count;
+}
+
 export class McpClientManager {
   private configs: Record<string, McpServerConfig>;
   private servers = new Map<string, ConnectedServer>();
@@ -95,7 +101,7 @@ export class McpClientManager {
         inputSchema: t.inputSchema as Record<string, unknown> | undefined,
         annotations: t.annotations
           ? {
-              readOnly: t.annotations.readOnly,
+              readOnly: t.annotations.readOnly ?? t.annotations.readOnlyHint,
               destructive: t.annotations.destructive,
               openWorld: t.annotations.openWorld,
             }
@@ -156,8 +162,13 @@ export class McpClientManager {
           name: namespacedName,
           description: tool.description ?? `MCP tool ${tool.name} from ${serverName}`,
           inputSchema: tool.inputSchema ?? { type: "object", properties: {} },
-          execute: async (input: unknown) => {
-            return this.callTool(serverName, tool.name, input);
+          readOnly: tool.annotations?.readOnly === true,
+          mcpServer: serverName,
+          execute: async (input: unknown, ctx) => {
+            return this.callTool(serverName, tool.name, input, {
+              signal: ctx.signal,
+              onProgress: ctx.onProgress,
+            });
           },
         });
       }
@@ -166,17 +177,37 @@ export class McpClientManager {
     return result;
   }
 
-  async callTool(serverName: string, toolName: string, input: unknown): Promise<ToolResult> {
+  async callTool(
+    serverName: string,
+    toolName: string,
+    input: unknown,
+    options?: { signal?: AbortSignal; onProgress?: (progress: string) => void },
+  ): Promise<ToolResult> {
     const server = this.servers.get(serverName);
     if (!server || server.status.status !== "connected") {
       return { content: `MCP server "${serverName}" is not connected`, isError: true };
     }
 
     try {
-      const result = await server.client.callTool({
-        name: toolName,
-        arguments: (input ?? {}) as Record<string, unknown>,
-      });
+      const onProgress = options?.onProgress;
+      const result = await server.client.callTool(
+        {
+          name: toolName,
+          arguments: (input ?? {}) as Record<string, unknown>,
+        },
+        undefined,
+        {
+          // Aborting sends notifications/cancelled to the server
+          signal: options?.signal,
+          ...(onProgress
+            ? {
+              // Progress notifications also keep long-running calls from timing out
+              onprogress: (p: { progress: number; total?: number; message?: string }) => onProgress(formatMcpProgress(p)),
+              resetTimeoutOnProgress: true,
+            }
+            : {}),
+        },
+      );
 
       // Extract text content from the MCP result
       const content = (result.content as Array<{ type: string; text?: string }>)
@@ -188,6 +219,9 @@ export class McpClientManager {
         isError: result.isError === true,
       };
     } catch (err) {
+      if (options?.signal?.aborted) {
+        return { content: "MCP tool call interrupted.", isError: true };
+      }
       const message = err instanceof Error ? err.message : String(err);
       return { content: `MCP tool error: ${message}`, isError: true };
     }
@@ -14,12 +14,15 @@ export type { MemoryCommand } from "./memory-handler.ts";
 import { createMemoryHandler } from "./memory-handler.ts";
 import type { MemoryCommand } from "./memory-handler.ts";
 import type { ToolImplementation } from "../tools/registry.ts";
+import type { FileCheckpointManager } from "../utils/file-checkpoints.ts";
 
 // ─── Memory Configuration ──────────────────────────────────────────────────
 
 export type MemoryConfig = {
   /** Absolute path to the memory directory (e.g. /workspace/memories/) */
   path: string;
+  /** Snapshot memory files before edits so Query.rewindFiles() can restore them */
+  fileCheckpoints?: FileCheckpointManager;
 };
 
 // ─── Native Memory Tool (Anthropic) ───────────────────────────────────────
@@ -41,7 +44,7 @@ export type NativeMemoryTool = {
 };
 
 export function createNativeMemoryTool(config: MemoryConfig): NativeMemoryTool {
-  const handler = createMemoryHandler(config.path);
+  const handler = createMemoryHandler(config.path, config.fileCheckpoints);
   return {
     definition: { type: "memory_20250818", name: "memory" },
     execute: (cmd) => handler.execute(cmd),
@@ -55,7 +58,7 @@ export function createNativeMemoryTool(config: MemoryConfig): NativeMemoryTool {
  * so any LLM can call it as a regular function tool.
  */
 export function createMemoryTool(config: MemoryConfig): ToolImplementation {
-  const handler = createMemoryHandler(config.path);
+  const handler = createMemoryHandler(config.path, config.fileCheckpoints);
 
   return {
     name: "memory",
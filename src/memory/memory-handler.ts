@@ -15,6 +15,7 @@
 import { readdir, stat, readFile, writeFile, rm, rename, mkdir } from "node:fs/promises";
 import { join, resolve, relative } from "node:path";
 import { existsSync } from "node:fs";
+import type { FileCheckpointManager } from "../utils/file-checkpoints.ts";
 
 export type MemoryCommand =
   | { command: "view"; path: string; view_range?: number[] }
@@ -27,8 +28,11 @@ export type MemoryCommand =
 /**
  * Create a memory handler bound to a specific directory.
  * All operations are sandboxed within this directory.
+ *
+ * When `fileCheckpoints` is given, files are snapshotted before each mutation
+ * so they can be restored with Query.rewindFiles().
  */
-export function createMemoryHandler(memoryDir: string) {
+export function createMemoryHandler(memoryDir: string, fileCheckpoints?: FileCheckpointManager) {
   // Ensure the directory exists
   const absMemoryDir = resolve(memoryDir);
 
@@ -139,6 +143,22 @@ export function createMemoryHandler(memoryDir: string) {
     return formatted.join("\n");
   }
 
+  /**
+   * Snapshot a file, or every file under a directory, for checkpointing.
+   * `mapPath` records the snapshot under a different path (used for rename targets).
+   */
+  async function checkpoint(absPath: string, mapPath?: (path: string) => string): Promise<void> {
+    if (!fileCheckpoints) return;
+    if (existsSync(absPath) && (await stat(absPath)).isDirectory()) {
+      const entries = await readdir(absPath, { withFileTypes: true });
+      for (const entry of entries) {
+        await checkpoint(join(absPath, entry.name), mapPath);
+      }
+      return;
+    }
+    fileCheckpoints.snapshot(mapPath ? mapPath(absPath) : absPath);
+  }
+
   // ─── Command Handlers ──────────────────────────────────────────────────────
 
   async function handleView(cmd: Extract<MemoryCommand, { command: "view" }>): Promise<string> {
@@ -172,6 +192,7 @@ export function createMemoryHandler(memoryDir: string) {
     const parentDir = resolve(absPath, "..");
     await mkdir(parentDir, { recursive: true });
 
+    await checkpoint(absPath);
     await writeFile(absPath, cmd.file_text, "utf-8");
     return `File created successfully at: ${cmd.path}`;
   }
@@ -216,6 +237,7 @@ export function createMemoryHandler(memoryDir: string) {
 
     // Single occurrence — do the replacement
     const newContent = content.replace(cmd.old_str, cmd.new_str);
+    await checkpoint(absPath);
     await writeFile(absPath, newContent, "utf-8");
 
     // Show a snippet around the replacement
@@ -254,6 +276,7 @@ export function createMemoryHandler(memoryDir: string) {
     const insertLines = cmd.insert_text.split("\n");
     lines.splice(cmd.insert_line, 0, ...insertLines);
 
+    await checkpoint(absPath);
     await writeFile(absPath, lines.join("\n"), "utf-8");
     return `The file ${cmd.path} has been edited.`;
   }
@@ -265,6 +288,7 @@ export function createMemoryHandler(memoryDir: string) {
       return `Error: The path ${cmd.path} does not exist`;
     }
 
+    await checkpoint(absPath);
     await rm(absPath, { recursive: true, force: true });
     return `Successfully deleted ${cmd.path}`;
   }
@@ -285,6 +309,8 @@ export function createMemoryHandler(memoryDir: string) {
     const parentDir = resolve(newAbs, "..");
     await mkdir(parentDir, { recursive: true });
 
+    await checkpoint(oldAbs);
+    await checkpoint(oldAbs, (path) => join(newAbs, relative(oldAbs, path)));
     await rename(oldAbs, newAbs);
     return `Successfully renamed ${cmd.old_path} to ${cmd.new_path}`;
   }
@@ -4,7 +4,7 @@
  * Supports:
  * - Permission modes (bypassPermissions, acceptEdits, plan, delegate, default, dontAsk)
  * - Permissions config with allow/deny rules (like Claude Code's settings.local.json)
- * - Custom canUseTool callback for dynamic permission decisions
+ * - PermissionRequest hooks and a canUseTool callback for dynamic permission decisions
  * - Rule-level granularity (e.g., allow Bash only for specific commands)
  */
 
@@ -17,6 +17,7 @@ import type {
   PermissionUpdate,
 } from "./types.ts";
 import type { SettingsManager } from "./settings.ts";
+import type { HookManager } from "./hooks.ts";
 
 // Tools that are always safe (read-only, no side effects)
 const SAFE_TOOLS = new Set(["Read", "Glob", "Grep", "WebFetch", "WebSearch"]);
@@ -30,6 +31,11 @@ const FS_COMMANDS = ["mkdir", "touch", "rm", "mv", "cp"];
 // Tools allowed in delegate mode (team leader only)
 const DELEGATE_TOOLS = new Set(["Teammate", "Task", "TaskOutput", "TaskStop"]);
 
+/** Whether a built-in tool is read-only (safe to run concurrently and in plan mode). */
+export function isReadOnlyTool(toolName: string): boolean {
+  return SAFE_TOOLS.has(toolName);
+}
+
 type NormalizedRule = { toolName: string; ruleContent?: string };
 
 function normalizeRules(rules?: (string | PermissionRuleValue)[]): NormalizedRule[] {
@@ -69,24 +75,27 @@ export class PermissionManager {
   private allowRules: NormalizedRule[];
   private denyRules: NormalizedRule[];
   private settingsManager?: SettingsManager;
+  private hooks?: HookManager;
 
   constructor(
     mode: PermissionMode = "default",
     canUseTool?: CanUseTool,
     permissions?: PermissionsConfig,
     settingsManager?: SettingsManager,
+    hooks?: HookManager,
   ) {
     this.mode = mode;
     this.canUseTool = canUseTool;
     this.allowRules = normalizeRules(permissions?.allow);
     this.denyRules = normalizeRules(permissions?.deny);
     this.settingsManager = settingsManager;
+    this.hooks = hooks;
   }
 
   async check(
     toolName: string,
     input: Record<string, unknown>,
-    options: { signal: AbortSignal; toolUseId: string; agentId?: string },
+    options: { signal: AbortSignal; toolUseId: string; agentId?: string; sessionId?: string },
   ): Promise<PermissionResult> {
     // bypassPermissions / dontAsk → allow everything
     if (this.mode === "bypassPermissions") {
@@ -149,6 +158,40 @@ export class PermissionManager {
 
     // Custom permission callback
     if (this.canUseTool) {
+      // PermissionRequest hooks can answer before the callback is asked
+      if (this.hooks) {
+        const hookResult = await this.hooks.fire(
+          "PermissionRequest",
+          {
+            event: "PermissionRequest",
+            hook_event_name: "PermissionRequest",
+            tool_name: toolName,
+            tool_input: input,
+            session_id: options.sessionId,
+            permission_mode: this.mode,
+            agent_id: options.agentId,
+          },
+          options.toolUseId,
+          { signal: options.signal },
+        );
+
+        if (hookResult?.permissionDecision === "deny") {
+          return {
+            behavior: "deny",
+            message: hookResult.permissionDecisionReason ?? `Tool "${toolName}" was denied by a PermissionRequest hook.`,
+          };
+        }
+
+        if (hookResult?.permissionDecision === "allow") {
+          if (hookResult.updatedPermissions) {
+            this.applyPermissionUpdates(hookResult.updatedPermissions);
+          }
+          return hookResult.updatedInput !== undefined
+            ? { behavior: "allow", updatedInput: hookResult.updatedInput as Record<string, unknown> }
+            : { behavior: "allow" };
+        }
+      }
+
       const result = await this.canUseTool(toolName, input, {
         ...options,
         toolUseID: options.toolUseId,
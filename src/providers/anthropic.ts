@@ -15,13 +15,22 @@ import type {
   ToolDefinition,
   NormalizedMessage,
   NormalizedContent,
+  NormalizedImageContent,
+  NormalizedDocumentContent,
+  PromptCachingConfig,
+  TokenCount,
 } from "./types.ts";
 import type { TokenUsage } from "../types.ts";
+import { emptyTokenUsage } from "../types.ts";
+import { ProviderError, classifyHttpStatus, parseRetryAfter } from "./errors.ts";
+import type { ProviderErrorKind } from "./errors.ts";
 import {
   calculateAnthropicCost,
   ANTHROPIC_CONTEXT_WINDOWS,
   ANTHROPIC_MAX_OUTPUT,
 } from "../utils/cost.ts";
+import { estimateTokens } from "../utils/context-usage.ts";
+import { chatWithStructuredOutputTool } from "./structured-output.ts";
 
 type AnthropicMessage = Anthropic.MessageParam;
 type AnthropicTool = Anthropic.Tool;
@@ -31,8 +40,119 @@ function isOAuthToken(key: string): boolean {
   return key.includes("sk-ant-oat");
 }
 
+function convertImage(block: NormalizedImageContent): Anthropic.ImageBlockParam {
+  return {
+    type: "image",
+    source: {
+      type: "base64",
+      media_type: block.source.media_type as Anthropic.Base64ImageSource["media_type"],
+      data: block.source.data,
+    },
+  };
+}
+
+function convertDocument(block: NormalizedDocumentContent): Anthropic.DocumentBlockParam {
+  return {
+    type: "document",
+    source: { type: "base64", media_type: "application/pdf", data: block.source.data },
+  };
+}
+
 const CLAUDE_CODE_VERSION = "2.1.2";
 
+const DEFAULT_CACHE_TTL: NonNullable<PromptCachingConfig["ttl"]> = "5m";
+
+/**
+ * Mark cache breakpoints on the last tool, the last system block, the previous
+ * user message and the last message (Anthropic allows four). The previous user
+ * message is where last turn's final breakpoint sat, so its prefix is read back.
+ */
+function addCacheBreakpoints(
+  params: Anthropic.MessageCreateParamsStreaming,
+  ttl: NonNullable<PromptCachingConfig["ttl"]>,
+): void {
+  const cacheControl: Anthropic.CacheControlEphemeral = ttl === DEFAULT_CACHE_TTL
+    ? { type: "ephemeral" }
+    : { type: "ephemeral", ttl };
+
+  // Copied because native tools are the caller's objects
+  if (params.tools && params.tools.length > 0) {
+    params.tools = [...params.tools.slice(0, -1), { ...params.tools.at(-1)!, cache_control: cacheControl }];
+  }
+
+  if (typeof params.system === "string") {
+    params.system = [{ type: "text", text: params.system }];
+  }
+  const lastSystemBlock = params.system?.at(-1);
+  if (lastSystemBlock) lastSystemBlock.cache_control = cacheControl;
+
+  const lastIndex = params.messages.length - 1;
+  let previousUserIndex = lastIndex - 1;
+  while (previousUserIndex >= 0 && params.messages[previousUserIndex].role !== "user") previousUserIndex--;
+  for (const index of [previousUserIndex, lastIndex]) {
+    if (index < 0) continue;
+    const message = params.messages[index];
+    if (typeof message.content === "string") {
+      if (!message.content) continue;
+      message.content = [{ type: "text", text: message.content }];
+    }
+    // Thinking blocks cannot carry cache_control
+    const block = message.content.findLast(
+      (b) => b.type !== "thinking" && b.type !== "redacted_thinking" && !(b.type === "text" && !b.text),
+    );
+    if (block) (block as { cache_control?: Anthropic.CacheControlEphemeral }).cache_control = cacheControl;
+  }
+}
+
+/**
+ * Whether the request continues a tool loop whose assistant turn does not
+ * start with thinking. With thinking on, the API rejects such a turn, as
+ * happens when another provider made the tool calls.
+ */
+function lacksToolLoopThinking(messages: AnthropicMessage[]): boolean {
+  const last = messages.at(-1);
+  if (last?.role !== "user" || typeof last.content === "string") return false;
+  if (!last.content.some((b) => b.type === "tool_result")) return false;
+  const assistant = messages.at(-2);
+  if (assistant?.role !== "assistant" || typeof assistant.content === "string") return true;
+  const first = assistant.content[0];
+  return first?.type !== "thinking" && first?.type !== "redacted_thinking";
+}
+
+/** Anthropic error `type` → classification (takes precedence over the HTTP status). */
+const ANTHROPIC_ERROR_KINDS: Record<string, ProviderErrorKind> = {
+  overloaded_error: "server_error",
+  api_error: "server_error",
+  rate_limit_error: "rate_limit",
+  authentication_error: "authentication_failed",
+  permission_error: "authentication_failed",
+  billing_error: "billing_error",
+  invalid_request_error: "invalid_request",
+  not_found_error: "invalid_request",
+  request_too_large: "invalid_request",
+};
+
+/** Convert SDK errors into ProviderError; aborts and unknown errors pass through. */
+export function toAnthropicError(err: unknown): unknown {
+  if (err instanceof Anthropic.APIUserAbortError) return err;
+  if (err instanceof Anthropic.APIConnectionError) {
+    return new ProviderError({ provider: "anthropic", kind: "server_error", message: err.message, cause: err });
+  }
+  if (err instanceof Anthropic.APIError) {
+    const code: string | undefined = (err.error as any)?.error?.type ?? (err.error as any)?.type;
+    return new ProviderError({
+      provider: "anthropic",
+      kind: (code && ANTHROPIC_ERROR_KINDS[code]) || classifyHttpStatus(err.status),
+      message: err.message,
+      status: err.status,
+      code,
+      retryAfterMs: parseRetryAfter(err.headers),
+      cause: err,
+    });
+  }
+  return err;
+}
+
 export class AnthropicAdapter implements ProviderAdapter {
   name = "anthropic";
   private client: Anthropic;
@@ -48,6 +168,8 @@ export class AnthropicAdapter implements ProviderAdapter {
         apiKey: null,
         authToken: key,
         baseURL: options?.baseUrl,
+        // Retries are handled by the agent loop so they surface as status events
+        maxRetries: 0,
         defaultHeaders: {
           "anthropic-beta": "claude-code-20250219,oauth-2025-04-20,fine-grained-tool-streaming-2025-05-14",
           "user-agent": `claude-cli/${CLAUDE_CODE_VERSION} (external, cli)`,
@@ -58,11 +180,26 @@ export class AnthropicAdapter implements ProviderAdapter {
       this.client = new Anthropic({
         apiKey: key || undefined,
         baseURL: options?.baseUrl,
+        maxRetries: 0,
       });
     }
   }
 
   async *chat(request: ChatRequest): AsyncGenerator<ChatChunk> {
+    try {
+      const { outputFormat } = request;
+      if (outputFormat?.type === "json_schema") {
+        // The answer comes back as the input of a forced tool call
+        yield* chatWithStructuredOutputTool({ ...request, outputFormat }, (req) => this.streamMessages(req, true));
+      } else {
+        yield* this.streamMessages(request);
+      }
+    } catch (err) {
+      throw toAnthropicError(err);
+    }
+  }
+
+  private async *streamMessages(request: ChatRequest, forceToolUse = false): AsyncGenerator<ChatChunk> {
     const messages = this.convertMessages(request.messages);
     const tools = request.tools ? this.convertTools(request.tools) : undefined;
 
@@ -103,31 +240,19 @@ export class AnthropicAdapter implements ProviderAdapter {
       }
     }
 
-    const outputConfig: { effort?: "low" | "medium" | "high" | "max"; format?: Anthropic.JSONOutputFormat } = {};
-    if (request.effort) {
-      outputConfig.effort = request.effort;
+    // A tool loop begun by another provider (after a failover) has no signed
+    // thinking on its last assistant turn, which the API requires when thinking is on
+    if ((params.thinking?.type === "enabled" || params.thinking?.type === "adaptive") && lacksToolLoopThinking(messages)) {
+      params.thinking = { type: "disabled" };
     }
-    if (request.outputFormat?.type === "json_schema") {
-      outputConfig.format = {
-        type: "json_schema",
-        schema: request.outputFormat.schema,
-      };
-    }
-    if (Object.keys(outputConfig).length > 0) {
-      params.output_config = outputConfig;
+
+    if (request.effort) {
+      params.output_config = { effort: request.effort };
     }
 
-    // OAuth tokens require the Claude Code identity in the system prompt
-    if (this.oauthMode) {
-      const systemBlocks: { type: "text"; text: string }[] = [
-        { type: "text", text: "You are Claude Code, Anthropic's official CLI for Claude." },
-      ];
-      if (request.systemPrompt) {
-        systemBlocks.push({ type: "text", text: request.systemPrompt });
-      }
-      params.system = systemBlocks;
-    } else if (request.systemPrompt) {
-      params.system = request.systemPrompt;
+    const system = this.buildSystem(request.systemPrompt);
+    if (system) {
+      params.system = system;
     }
 
     // Build the combined tools array: regular tools + native tools (e.g. memory)
@@ -142,28 +267,27 @@ export class AnthropicAdapter implements ProviderAdapter {
       params.tools = allTools as Anthropic.MessageCreateParamsStreaming["tools"];
     }
 
+    // Extended thinking only allows tool_choice "auto"; the tool description then asks for the call
+    if (forceToolUse && params.thinking?.type !== "enabled" && params.thinking?.type !== "adaptive") {
+      params.tool_choice = { type: "any" };
+    }
+
     if (request.temperature !== undefined) {
       params.temperature = request.temperature;
     }
 
-    // Check if we need beta headers (e.g. memory tool)
-    const hasMemoryTool = request.nativeTools?.some(
-      (t: any) => t.type === "memory_20250818",
-    );
-
-    const requestOptions: Record<string, unknown> = {
-      signal: request.signal,
-    };
-    if (hasMemoryTool) {
-      requestOptions.headers = {
-        "anthropic-beta": "context-management-2025-06-27",
-      };
+    if (request.promptCaching?.enabled !== false) {
+      addCacheBreakpoints(params, request.promptCaching?.ttl ?? DEFAULT_CACHE_TTL);
     }
 
-    const stream = this.client.messages.stream(params, requestOptions as any);
+    const stream = this.client.messages.stream(params, this.requestOptions(request) as any);
 
     // Track accumulated tool call JSON for parsing
     const toolInputBuffers = new Map<number, { id: string; name: string; json: string }>();
+    // Thinking text and signature per content block index
+    const thinkingBuffers = new Map<number, { thinking: string; signature: string }>();
+    // message_delta usage is cumulative, so only the growth since message_start is yielded
+    let reportedUsage = emptyTokenUsage();
 
     for await (const event of stream) {
       switch (event.type) {
@@ -175,6 +299,13 @@ export class AnthropicAdapter implements ProviderAdapter {
               name: block.name,
               json: "",
             });
+          } else if (block.type === "thinking") {
+            thinkingBuffers.set(event.index, { thinking: "", signature: "" });
+          } else if (block.type === "redacted_thinking") {
+            yield {
+              type: "thinking_block",
+              block: { type: "redacted_thinking", data: block.data, provider: this.name },
+            };
           }
           break;
         }
@@ -188,26 +319,48 @@ export class AnthropicAdapter implements ProviderAdapter {
             if (buffer) {
               buffer.json += delta.partial_json;
             }
-          } else if (delta.type === "thinking_delta" && "thinking" in delta) {
-            yield { type: "thinking_delta", text: (delta as any).thinking };
+          } else if (delta.type === "thinking_delta") {
+            const buffer = thinkingBuffers.get(event.index);
+            if (buffer) buffer.thinking += delta.thinking;
+            yield { type: "thinking_delta", text: delta.thinking };
+          } else if (delta.type === "signature_delta") {
+            const buffer = thinkingBuffers.get(event.index);
+            if (buffer) buffer.signature += delta.signature;
           }
           break;
         }
 
         case "content_block_stop": {
+          const thinkingBuffer = thinkingBuffers.get(event.index);
+          if (thinkingBuffer) {
+            yield {
+              type: "thinking_block",
+              block: {
+                type: "thinking",
+                thinking: thinkingBuffer.thinking,
+                ...(thinkingBuffer.signature ? { signature: thinkingBuffer.signature } : {}),
+                provider: this.name,
+              },
+            };
+            thinkingBuffers.delete(event.index);
+          }
+
           const buffer = toolInputBuffers.get(event.index);
           if (buffer) {
             let input: unknown;
+            let incomplete = false;
             try {
               input = buffer.json ? JSON.parse(buffer.json) : {};
             } catch {
               input = {};
+              incomplete = true;
             }
             yield {
               type: "tool_call",
               id: buffer.id,
               name: buffer.name,
               input,
+              ...(incomplete ? { incomplete } : {}),
             };
             toolInputBuffers.delete(event.index);
           }
@@ -217,15 +370,22 @@ export class AnthropicAdapter implements ProviderAdapter {
         case "message_delta": {
           const stopReason = this.mapStopReason(event.delta.stop_reason);
           if (event.usage) {
+            const total: TokenUsage = {
+              inputTokens: event.usage.input_tokens ?? reportedUsage.inputTokens,
+              outputTokens: event.usage.output_tokens ?? reportedUsage.outputTokens,
+              cacheReadInputTokens: event.usage.cache_read_input_tokens ?? reportedUsage.cacheReadInputTokens,
+              cacheCreationInputTokens: event.usage.cache_creation_input_tokens ?? reportedUsage.cacheCreationInputTokens,
+            };
             yield {
               type: "usage",
               usage: {
-                inputTokens: 0,
-                outputTokens: event.usage.output_tokens ?? 0,
-                cacheReadInputTokens: 0,
-                cacheCreationInputTokens: 0,
+                inputTokens: total.inputTokens - reportedUsage.inputTokens,
+                outputTokens: total.outputTokens - reportedUsage.outputTokens,
+                cacheReadInputTokens: total.cacheReadInputTokens - reportedUsage.cacheReadInputTokens,
+                cacheCreationInputTokens: total.cacheCreationInputTokens - reportedUsage.cacheCreationInputTokens,
               },
             };
+            reportedUsage = total;
           }
           yield { type: "done", stopReason };
           break;
@@ -233,15 +393,13 @@ export class AnthropicAdapter implements ProviderAdapter {
 
         case "message_start": {
           if (event.message.usage) {
-            yield {
-              type: "usage",
-              usage: {
-                inputTokens: event.message.usage.input_tokens ?? 0,
-                outputTokens: event.message.usage.output_tokens ?? 0,
-                cacheReadInputTokens: (event.message.usage as any).cache_read_input_tokens ?? 0,
-                cacheCreationInputTokens: (event.message.usage as any).cache_creation_input_tokens ?? 0,
-              },
+            reportedUsage = {
+              inputTokens: event.message.usage.input_tokens ?? 0,
+              outputTokens: event.message.usage.output_tokens ?? 0,
+              cacheReadInputTokens: event.message.usage.cache_read_input_tokens ?? 0,
+              cacheCreationInputTokens: event.message.usage.cache_creation_input_tokens ?? 0,
             };
+            yield { type: "usage", usage: reportedUsage };
           }
           break;
         }
@@ -249,6 +407,33 @@ export class AnthropicAdapter implements ProviderAdapter {
     }
   }
 
+  async countTokens(request: ChatRequest): Promise<TokenCount> {
+    // The endpoint needs at least one message
+    if (request.messages.length === 0) {
+      return { inputTokens: estimateTokens(request), source: "estimate" };
+    }
+
+    const params: Anthropic.MessageCountTokensParams = {
+      model: request.model,
+      messages: this.convertMessages(request.messages),
+    };
+    const system = this.buildSystem(request.systemPrompt);
+    if (system) {
+      params.system = system;
+    }
+    const allTools = [...this.convertTools(request.tools ?? []), ...(request.nativeTools ?? [])];
+    if (allTools.length > 0) {
+      params.tools = allTools as Anthropic.MessageCountTokensParams["tools"];
+    }
+
+    try {
+      const result = await this.client.messages.countTokens(params, this.requestOptions(request) as any);
+      return { inputTokens: result.input_tokens, source: "count_tokens" };
+    } catch (err) {
+      throw toAnthropicError(err);
+    }
+  }
+
   calculateCost(model: string, usage: TokenUsage): number {
     return calculateAnthropicCost(model, usage);
   }
@@ -263,10 +448,9 @@ export class AnthropicAdapter implements ProviderAdapter {
       case "tool_calling":
       case "thinking":
       case "structured_output":
-        return true;
       case "image_input":
       case "pdf_input":
-        return false;
+        return true;
       default:
         return false;
     }
@@ -274,16 +458,59 @@ export class AnthropicAdapter implements ProviderAdapter {
 
   // ─── Private helpers ────────────────────────────────────────────────────
 
+  private buildSystem(systemPrompt?: string): string | Anthropic.TextBlockParam[] | undefined {
+    // OAuth tokens require the Claude Code identity in the system prompt
+    if (this.oauthMode) {
+      const systemBlocks: Anthropic.TextBlockParam[] = [
+        { type: "text", text: "You are Claude Code, Anthropic's official CLI for Claude." },
+      ];
+      if (systemPrompt) {
+        systemBlocks.push({ type: "text", text: systemPrompt });
+      }
+      return systemBlocks;
+    }
+    return systemPrompt || undefined;
+  }
+
+  private requestOptions(request: ChatRequest): Record<string, unknown> {
+    const requestOptions: Record<string, unknown> = {
+      signal: request.signal,
+    };
+    // Check if we need beta headers (e.g. memory tool)
+    const hasMemoryTool = request.nativeTools?.some(
+      (t: any) => t.type === "memory_20250818",
+    );
+    if (hasMemoryTool) {
+      requestOptions.headers = {
+        "anthropic-beta": "context-management-2025-06-27",
+      };
+    }
+    return requestOptions;
+  }
+
   private convertMessages(messages: NormalizedMessage[]): AnthropicMessage[] {
     return messages.map((msg) => {
       if (typeof msg.content === "string") {
         return { role: msg.role, content: msg.content };
       }
 
-      const content: AnthropicContentBlock[] = msg.content.map((block) => {
+      const content: AnthropicContentBlock[] = msg.content.flatMap((block): AnthropicContentBlock | [] => {
         switch (block.type) {
           case "text":
             return { type: "text" as const, text: block.text };
+          // Only signed blocks from this provider can be sent back
+          case "thinking":
+            return block.signature && (block.provider ?? "anthropic") === "anthropic"
+              ? { type: "thinking" as const, thinking: block.thinking, signature: block.signature }
+              : [];
+          case "redacted_thinking":
+            return (block.provider ?? "anthropic") === "anthropic"
+              ? { type: "redacted_thinking" as const, data: block.data }
+              : [];
+          case "image":
+            return convertImage(block);
+          case "document":
+            return convertDocument(block);
           case "tool_use":
             return {
               type: "tool_use" as const,
@@ -295,7 +522,15 @@ export class AnthropicAdapter implements ProviderAdapter {
             return {
               type: "tool_result" as const,
               tool_use_id: block.tool_use_id,
-              content: block.content,
+              content: typeof block.content === "string"
+                ? block.content
+                : block.content.map((part) =>
+                    part.type === "image"
+                      ? convertImage(part)
+                      : part.type === "document"
+                        ? convertDocument(part)
+                        : { type: "text" as const, text: part.text },
+                  ),
               is_error: block.is_error,
             };
           default:
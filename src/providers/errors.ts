@@ -0,0 +1,101 @@
+/**
+ * Typed provider errors.
+ *
+ * Adapters convert SDK/HTTP failures into ProviderError so the agent loop can
+ * decide whether to retry, how long to wait, and which `error` classification
+ * to report on the final assistant envelope.
+ */
+
+import type { SDKAssistantMessage } from "../types.ts";
+
+export type ProviderErrorKind = Exclude<NonNullable<SDKAssistantMessage["error"]>, "max_output_tokens">;
+
+export class ProviderError extends Error {
+  readonly provider: string;
+  readonly kind: ProviderErrorKind;
+  /** HTTP status, when the failure came from an HTTP response */
+  readonly status?: number;
+  /** Provider-specific error code (e.g. "overloaded_error", "RESOURCE_EXHAUSTED") */
+  readonly code?: string;
+  /** Whether retrying the same request may succeed */
+  readonly retryable: boolean;
+  /** Server-requested delay before retrying (retry-after / RetryInfo) */
+  readonly retryAfterMs?: number;
+
+  constructor(params: {
+    provider: string;
+    kind: ProviderErrorKind;
+    message: string;
+    status?: number;
+    code?: string;
+    retryable?: boolean;
+    retryAfterMs?: number;
+    cause?: unknown;
+  }) {
+    super(params.message, params.cause !== undefined ? { cause: params.cause } : undefined);
+    this.name = "ProviderError";
+    this.provider = params.provider;
+    this.kind = params.kind;
+    this.status = params.status;
+    this.code = params.code;
+    this.retryable = params.retryable ?? (params.kind === "rate_limit" || params.kind === "server_error");
+    this.retryAfterMs = params.retryAfterMs;
+  }
+}
+
+export function isProviderError(err: unknown): err is ProviderError {
+  return err instanceof ProviderError;
+}
+
+/** Default classification of an HTTP status code. */
+export function classifyHttpStatus(status: number | undefined): ProviderErrorKind {
+  if (status === undefined) return "unknown";
+  if (status === 401 || status === 403) return "authentication_failed";
+  if (status === 402) return "billing_error";
+  if (status === 429) return "rate_limit";
+  // 408 request timeout and 409 conflict are transient on all three APIs
+  if (status === 408 || status === 409 || status >= 500) return "server_error";
+  if (status >= 400) return "invalid_request";
+  return "unknown";
+}
+
+type HeaderSource = Headers | Record<string, string | null | undefined> | null | undefined;
+
+function getHeader(headers: HeaderSource, name: string): string | null {
+  if (!headers) return null;
+  if (typeof (headers as Headers).get === "function") {
+    return (headers as Headers).get(name);
+  }
+  const record = headers as Record<string, string | null | undefined>;
+  const key = Object.keys(record).find((k) => k.toLowerCase() === name);
+  return key ? record[key] ?? null : null;
+}
+
+/**
+ * Read the server-requested retry delay from `retry-after-ms` or `retry-after`
+ * (seconds or HTTP date). Returns undefined when absent or unparseable.
+ */
+export function parseRetryAfter(headers: HeaderSource): number | undefined {
+  const ms = getHeader(headers, "retry-after-ms");
+  if (ms !== null) {
+    const value = Number(ms);
+    if (Number.isFinite(value) && value >= 0) return value;
+  }
+
+  const retryAfter = getHeader(headers, "retry-after");
+  if (retryAfter === null) return undefined;
+
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+
+  const date = Date.parse(retryAfter);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+
+  return undefined;
+}
+
+/** Whether an error represents a caller-initiated abort. */
+export function isAbortError(err: unknown): boolean {
+  if (!(err instanceof Error)) return false;
+  return err.name === "AbortError" || err.name === "APIUserAbortError" || err.constructor?.name === "APIUserAbortError";
+}
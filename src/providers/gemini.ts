@@ -9,7 +9,7 @@
  * SDK's Anthropic-normalized format (tool_use/tool_result content blocks).
  */
 
-import { GoogleGenAI } from "@google/genai";
+import { GoogleGenAI, ApiError } from "@google/genai";
 import type {
   ProviderAdapter,
   ChatRequest,
@@ -17,18 +17,56 @@ import type {
   ProviderFeature,
   ToolDefinition,
   NormalizedMessage,
+  NormalizedImageContent,
+  NormalizedDocumentContent,
   StopReason,
+  TokenCount,
 } from "./types.ts";
+import { toolResultText, toolResultImages, toolResultDocuments } from "./types.ts";
 import type { TokenUsage } from "../types.ts";
+import { ProviderError, classifyHttpStatus, parseRetryAfter } from "./errors.ts";
+import type { ProviderErrorKind } from "./errors.ts";
 import {
   calculateGeminiCost,
   GEMINI_CONTEXT_WINDOWS,
   GEMINI_MAX_OUTPUT,
 } from "../utils/cost.ts";
+import { estimateTokens } from "../utils/context-usage.ts";
+import { chatWithStructuredOutputTool, withParsedStructuredOutput } from "./structured-output.ts";
 
 const CODE_ASSIST_ENDPOINT = "https://cloudcode-pa.googleapis.com";
 const CODE_ASSIST_API_VERSION = "v1internal";
 
+/** google.rpc.Code status → classification (takes precedence over the HTTP status). */
+const GEMINI_STATUS_KINDS: Record<string, ProviderErrorKind> = {
+  RESOURCE_EXHAUSTED: "rate_limit",
+  UNAVAILABLE: "server_error",
+  INTERNAL: "server_error",
+  DEADLINE_EXCEEDED: "server_error",
+  UNAUTHENTICATED: "authentication_failed",
+  PERMISSION_DENIED: "authentication_failed",
+  INVALID_ARGUMENT: "invalid_request",
+  FAILED_PRECONDITION: "invalid_request",
+  NOT_FOUND: "invalid_request",
+};
+
+/**
+ * Build a ProviderError from a Gemini error message. The JSON body carries the
+ * rpc status (e.g. RESOURCE_EXHAUSTED) and, for quota errors, a RetryInfo delay.
+ */
+export function geminiError(status: number | undefined, message: string, headers?: Headers): ProviderError {
+  const code = message.match(/"status"\s*:\s*"([A-Z_]+)"/)?.[1];
+  const retryDelay = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/)?.[1];
+  return new ProviderError({
+    provider: "gemini",
+    kind: (code && GEMINI_STATUS_KINDS[code]) || classifyHttpStatus(status),
+    message,
+    status,
+    code,
+    retryAfterMs: retryDelay !== undefined ? Number(retryDelay) * 1000 : parseRetryAfter(headers),
+  });
+}
+
 export class GeminiAdapter implements ProviderAdapter {
   name = "gemini";
   private client: GoogleGenAI | null = null;
@@ -58,10 +96,44 @@ export class GeminiAdapter implements ProviderAdapter {
   }
 
   async *chat(request: ChatRequest): AsyncGenerator<ChatChunk> {
-    if (this.oauthMode) {
-      yield* this.chatCodeAssist(request);
-    } else {
-      yield* this.chatSdk(request);
+    try {
+      const { outputFormat } = request;
+      if (outputFormat?.type === "json_schema" && request.tools && request.tools.length > 0) {
+        // JSON mode cannot be combined with function calling; the answer comes back as a forced call
+        yield* chatWithStructuredOutputTool({ ...request, outputFormat }, (req) => this.send(req, true));
+      } else if (outputFormat?.type === "json_schema") {
+        yield* withParsedStructuredOutput(this.send(request));
+      } else {
+        yield* this.send(request);
+      }
+    } catch (err) {
+      if (err instanceof ApiError) {
+        throw geminiError(err.status, err.message);
+      }
+      throw err;
+    }
+  }
+
+  async countTokens(request: ChatRequest): Promise<TokenCount> {
+    // Code Assist has no counting endpoint, and countTokens needs contents
+    if (this.oauthMode || request.messages.length === 0) {
+      return { inputTokens: estimateTokens(request), source: "estimate" };
+    }
+
+    try {
+      const result = await this.client!.models.countTokens({
+        model: request.model,
+        contents: this.convertMessages(request.messages),
+        config: { abortSignal: request.signal ?? undefined },
+      });
+      // The Gemini API counts contents only; the system prompt and tools are estimated
+      const rest = estimateTokens({ messages: [], systemPrompt: request.systemPrompt, tools: request.tools });
+      return { inputTokens: (result.totalTokens ?? 0) + rest, source: "count_tokens" };
+    } catch (err) {
+      if (err instanceof ApiError) {
+        throw geminiError(err.status, err.message);
+      }
+      throw err;
     }
   }
 
@@ -87,9 +159,13 @@ export class GeminiAdapter implements ProviderAdapter {
     }
   }
 
+  private send(request: ChatRequest, forceToolUse = false): AsyncGenerator<ChatChunk> {
+    return this.oauthMode ? this.chatCodeAssist(request, forceToolUse) : this.chatSdk(request, forceToolUse);
+  }
+
   // ─── API key mode: @google/genai SDK ────────────────────────────────────
 
-  private async *chatSdk(request: ChatRequest): AsyncGenerator<ChatChunk> {
+  private async *chatSdk(request: ChatRequest, forceToolUse: boolean): AsyncGenerator<ChatChunk> {
     const contents = this.convertMessages(request.messages);
     const tools = request.tools ? this.convertTools(request.tools) : undefined;
 
@@ -114,6 +190,8 @@ export class GeminiAdapter implements ProviderAdapter {
       config.tools = [{ functionDeclarations: tools }];
     }
 
+    Object.assign(config, this.outputConfig(request, forceToolUse));
+
     const stream = await this.client!.models.generateContentStream({
       model: request.model,
       contents,
@@ -174,7 +252,7 @@ export class GeminiAdapter implements ProviderAdapter {
 
   // ─── OAuth mode: Direct HTTP to Code Assist endpoint ────────────────────
 
-  private async *chatCodeAssist(request: ChatRequest): AsyncGenerator<ChatChunk> {
+  private async *chatCodeAssist(request: ChatRequest, forceToolUse: boolean): AsyncGenerator<ChatChunk> {
     await this.refreshTokenIfNeeded();
     await this.ensureProjectId();
 
@@ -192,10 +270,16 @@ export class GeminiAdapter implements ProviderAdapter {
       generationConfig.temperature = request.temperature;
     }
 
+    const { toolConfig, ...jsonMode } = this.outputConfig(request, forceToolUse);
+    Object.assign(generationConfig, jsonMode);
+
     const innerRequest: Record<string, unknown> = {
       contents,
       generationConfig,
     };
+    if (toolConfig) {
+      innerRequest.toolConfig = toolConfig;
+    }
 
     if (request.systemPrompt) {
       innerRequest.systemInstruction = {
@@ -227,7 +311,7 @@ export class GeminiAdapter implements ProviderAdapter {
 
     if (!res.ok) {
       const text = await res.text();
-      throw new Error(`Gemini Code Assist API error (${res.status}): ${text}`);
+      throw geminiError(res.status, `Gemini Code Assist API error (${res.status}): ${text}`, res.headers);
     }
 
     yield* this.parseSSEStream(res);
@@ -262,6 +346,10 @@ export class GeminiAdapter implements ProviderAdapter {
             continue;
           }
 
+          if (obj.error) {
+            throw geminiError(obj.error.code, `Gemini Code Assist stream error: ${json}`);
+          }
+
           const response = obj.response ?? obj;
           const candidate = response?.candidates?.[0];
 
@@ -332,6 +420,21 @@ export class GeminiAdapter implements ProviderAdapter {
     yield { type: "done", stopReason: hasToolCalls ? "tool_use" : "end_turn" };
   }
 
+  /** JSON mode settings for `outputFormat`, or the tool config that forces a call. */
+  private outputConfig(request: ChatRequest, forceToolUse: boolean): {
+    responseMimeType?: string;
+    responseJsonSchema?: unknown;
+    toolConfig?: { functionCallingConfig: { mode: "ANY" } };
+  } {
+    if (forceToolUse) {
+      return { toolConfig: { functionCallingConfig: { mode: "ANY" } } };
+    }
+    if (request.outputFormat?.type === "json_schema") {
+      return { responseMimeType: "application/json", responseJsonSchema: request.outputFormat.schema };
+    }
+    return {};
+  }
+
   // ─── Token refresh (OAuth mode) ──────────────────────────────────────────
 
   private async refreshTokenIfNeeded(): Promise<void> {
@@ -422,26 +525,34 @@ export class GeminiAdapter implements ProviderAdapter {
           result.push({ role: "model", parts });
         }
       } else {
-        // User message — may contain text + tool_results
+        // User message — may contain text, images + tool_results
         const textParts: any[] = [];
         const functionResponseParts: any[] = [];
+        const toolImageParts: any[] = [];
 
         for (const block of msg.content) {
           if (block.type === "text") {
             textParts.push({ text: block.text });
+          } else if (block.type === "image" || block.type === "document") {
+            textParts.push(toInlineDataPart(block));
           } else if (block.type === "tool_result") {
             functionResponseParts.push({
               functionResponse: {
                 name: findToolName(messages, block.tool_use_id) ?? "unknown",
-                response: { result: block.content },
+                response: { result: toolResultText(block.content) },
               },
             });
+            toolImageParts.push(
+              ...toolResultImages(block.content).map(toInlineDataPart),
+              ...toolResultDocuments(block.content).map(toInlineDataPart),
+            );
           }
         }
 
-        // Function responses first (Gemini requires them after model's function call)
+        // Function responses first (Gemini requires them after model's function call);
+        // tool result images and documents ride along as inline data in the same turn
         if (functionResponseParts.length > 0) {
-          result.push({ role: "user", parts: functionResponseParts });
+          result.push({ role: "user", parts: [...functionResponseParts, ...toolImageParts] });
         }
 
         if (textParts.length > 0) {
@@ -497,6 +608,10 @@ function findToolName(messages: NormalizedMessage[], toolUseId: string): string
   return undefined;
 }
 
+function toInlineDataPart(block: NormalizedImageContent | NormalizedDocumentContent): { inlineData: { mimeType: string; data: string } } {
+  return { inlineData: { mimeType: block.source.media_type, data: block.source.data } };
+}
+
 function loadTokensSync(): { access_token: string; refresh_token: string } | null {
   const home = process.env.HOME ?? require("node:os").homedir();
   const path = `${home}/.gemini/oauth_creds.json`;
@@ -0,0 +1,143 @@
+/**
+ * Scripted provider for deterministic offline tests.
+ *
+ * Each `chat` call plays the next turn of the script: thinking, text, tool
+ * calls, usage, then the stop reason, or an error. Requests are recorded and
+ * can be checked per turn; `verify()` reports failed checks and turns that
+ * were never requested.
+ */
+
+import type {
+  ProviderAdapter,
+  ProviderFeature,
+  ChatRequest,
+  ChatChunk,
+  StopReason,
+  TokenCount,
+} from "./types.ts";
+import type { TokenUsage } from "../types.ts";
+import { emptyTokenUsage } from "../types.ts";
+import { ProviderError } from "./errors.ts";
+import { estimateTokens } from "../utils/context-usage.ts";
+
+const DEFAULT_CONTEXT_WINDOW = 200_000;
+const DEFAULT_FEATURES: ProviderFeature[] = ["streaming", "tool_calling"];
+
+export type MockTurn = {
+  /** Streamed before the text; a signature also closes the block */
+  thinking?: { text: string; signature?: string };
+  /** One string per `text_delta` */
+  text?: string | string[];
+  toolCalls?: { id?: string; name: string; input?: unknown }[];
+  /** Merged into zero usage; no usage chunk is sent when omitted */
+  usage?: Partial<TokenUsage>;
+  /** Default: "tool_use" with tool calls, else "end_turn" */
+  stopReason?: StopReason;
+  /** Thrown after the turn's other chunks, so a turn with only `error` fails immediately */
+  error?: Error;
+  /** Check on the request for this turn; throw (e.g. with `expect`) to fail it */
+  expect?: (request: ChatRequest) => void;
+};
+
+export type MockProviderOptions = {
+  /** Default: "mock" */
+  name?: string;
+  /** Default: 200000 */
+  contextWindow?: number;
+  /** Features reported as supported. Default: streaming and tool_calling */
+  features?: ProviderFeature[];
+  /** USD per million input tokens. Default: 0 */
+  inputPricePerMillion?: number;
+  /** USD per million output tokens. Default: 0 */
+  outputPricePerMillion?: number;
+};
+
+export class MockProvider implements ProviderAdapter {
+  name: string;
+  /** Every request received, in order */
+  readonly requests: ChatRequest[] = [];
+  private turns: MockTurn[];
+  private options: MockProviderOptions;
+  private failures: Error[] = [];
+
+  constructor(turns: MockTurn[], options: MockProviderOptions = {}) {
+    this.turns = turns;
+    this.options = options;
+    this.name = options.name ?? "mock";
+  }
+
+  async *chat(request: ChatRequest): AsyncGenerator<ChatChunk> {
+    this.requests.push(request);
+    const index = this.requests.length - 1;
+    const turn = this.turns[index];
+    if (!turn) {
+      throw this.fail(new ProviderError({
+        provider: this.name,
+        kind: "invalid_request",
+        message: `Unexpected request #${index + 1}: the script has ${this.turns.length} turns`,
+      }));
+    }
+    try {
+      turn.expect?.(request);
+    } catch (err) {
+      throw this.fail(err instanceof Error ? err : new Error(String(err)));
+    }
+
+    if (turn.thinking) {
+      yield { type: "thinking_delta", text: turn.thinking.text };
+      if (turn.thinking.signature !== undefined) {
+        yield {
+          type: "thinking_block",
+          block: { type: "thinking", thinking: turn.thinking.text, signature: turn.thinking.signature, provider: this.name },
+        };
+      }
+    }
+    for (const text of typeof turn.text === "string" ? [turn.text] : turn.text ?? []) {
+      yield { type: "text_delta", text };
+    }
+    for (const [i, call] of (turn.toolCalls ?? []).entries()) {
+      yield { type: "tool_call", id: call.id ?? `call_${index + 1}_${i + 1}`, name: call.name, input: call.input ?? {} };
+    }
+    if (turn.usage) {
+      yield { type: "usage", usage: { ...emptyTokenUsage(), ...turn.usage } };
+    }
+    if (turn.error) throw turn.error;
+    yield { type: "done", stopReason: turn.stopReason ?? (turn.toolCalls?.length ? "tool_use" : "end_turn") };
+  }
+
+  /** Turns not requested yet. */
+  get remaining(): number {
+    return Math.max(0, this.turns.length - this.requests.length);
+  }
+
+  /** Throw the first failed check or unexpected request, or an error if turns were left unplayed. */
+  verify(): void {
+    if (this.failures.length > 0) throw this.failures[0];
+    if (this.remaining > 0) {
+      throw new Error(`${this.remaining} of ${this.turns.length} scripted turns were never requested`);
+    }
+  }
+
+  calculateCost(_model: string, usage: TokenUsage): number {
+    return ((usage.inputTokens + usage.cacheReadInputTokens + usage.cacheCreationInputTokens) / 1_000_000)
+        * (this.options.inputPricePerMillion ?? 0)
+      + (usage.outputTokens / 1_000_000) * (this.options.outputPricePerMillion ?? 0);
+  }
+
+  getContextWindow(_model: string): number {
+    return this.options.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+  }
+
+  supportsFeature(feature: ProviderFeature): boolean {
+    return (this.options.features ?? DEFAULT_FEATURES).includes(feature);
+  }
+
+  async countTokens(request: ChatRequest): Promise<TokenCount> {
+    return { inputTokens: estimateTokens(request), source: "estimate" };
+  }
+
+  private fail(err: Error): Error {
+    this.failures.push(err);
+    return err;
+  }
+}
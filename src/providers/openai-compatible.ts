@@ -0,0 +1,241 @@
+/**
+ * OpenAI-compatible provider adapter for local and self-hosted servers
+ * (Ollama, vLLM, llama.cpp, LM Studio).
+ *
+ * Reuses the OpenAI Chat Completions adapter, but takes model facts from the
+ * server and from per-model overrides instead of OpenAI's tables:
+ *  - models and context windows are discovered from `/v1/models`
+ *  - cost is zero unless prices are configured
+ *  - native tool calling is probed once per model
+ *  - usage is estimated when the server does not stream it
+ */
+
+import OpenAI from "openai";
+import { OpenAIAdapter, toOpenAIError } from "./openai.ts";
+import type {
+  ChatRequest,
+  ChatChunk,
+  ModelInfo,
+  NormalizedContent,
+  ProviderFeature,
+  TokenCount,
+} from "./types.ts";
+import type { TokenUsage } from "../types.ts";
+import { emptyTokenUsage } from "../types.ts";
+import { chatWithEmulatedTools } from "./tool-emulation.ts";
+import { estimateTokens } from "../utils/context-usage.ts";
+
+/** Ollama's OpenAI-compatible endpoint. */
+const DEFAULT_BASE_URL = "http://localhost:11434/v1";
+const DEFAULT_CONTEXT_WINDOW = 8_192;
+const DEFAULT_MAX_OUTPUT = 4_096;
+
+/** No-op tool sent once per model to learn whether the server accepts `tools`. */
+const PROBE_TOOL: OpenAI.ChatCompletionTool = {
+  type: "function",
+  function: {
+    name: "probe",
+    description: "Capability probe. Do not call.",
+    parameters: { type: "object", properties: {} },
+  },
+};
+
+export type OpenAICompatibleModelConfig = {
+  contextWindow?: number;
+  maxOutputTokens?: number;
+  /** USD per million input tokens. Default: 0 */
+  inputPricePerMillion?: number;
+  /** USD per million output tokens. Default: 0 */
+  outputPricePerMillion?: number;
+  /** Declares native tool calling support and skips the probe */
+  toolCalling?: boolean;
+  /** Whether the model accepts images. Default: false */
+  imageInput?: boolean;
+};
+
+export type OpenAICompatibleOptions = {
+  /** Server URL including `/v1`. Default: OPENAI_COMPATIBLE_BASE_URL, else Ollama on localhost */
+  baseUrl?: string;
+  /** Sent as the bearer token; most local servers ignore it. Default: OPENAI_COMPATIBLE_API_KEY */
+  apiKey?: string;
+  /** Provider name reported in errors. Default: "openai-compatible" */
+  name?: string;
+  /** Per-model overrides, keyed by model ID */
+  models?: Record<string, OpenAICompatibleModelConfig>;
+  /** Context window for models the server does not describe. Default: 8192 */
+  defaultContextWindow?: number;
+};
+
+export class OpenAICompatibleAdapter extends OpenAIAdapter {
+  private models: Record<string, OpenAICompatibleModelConfig>;
+  private defaultContextWindow: number;
+  /** Context windows reported by `/v1/models` (vLLM, LM Studio) */
+  private discoveredContextWindows = new Map<string, number>();
+  private discovery?: Promise<unknown>;
+  private toolCallingProbes = new Map<string, Promise<boolean>>();
+  private toolCallingResults = new Map<string, boolean>();
+
+  constructor(options: OpenAICompatibleOptions = {}) {
+    super({
+      apiKey: options.apiKey ?? process.env.OPENAI_COMPATIBLE_API_KEY ?? "not-needed",
+      baseUrl: options.baseUrl ?? process.env.OPENAI_COMPATIBLE_BASE_URL ?? DEFAULT_BASE_URL,
+      // llama.cpp and older Ollama/LM Studio builds ignore max_completion_tokens
+      maxTokensParam: "max_tokens",
+    });
+    this.name = options.name ?? "openai-compatible";
+    this.models = options.models ?? {};
+    this.defaultContextWindow = options.defaultContextWindow ?? DEFAULT_CONTEXT_WINDOW;
+  }
+
+  override async *chat(request: ChatRequest): AsyncGenerator<ChatChunk> {
+    // Discovery is best-effort; it only refines context windows
+    this.discovery ??= this.listModels().catch(() => []);
+    await this.discovery;
+
+    if (request.tools && request.tools.length > 0 && !(await this.probeToolCalling(request.model))) {
+      yield* chatWithEmulatedTools(this, request);
+      return;
+    }
+
+    let usageReported = false;
+    const output: NormalizedContent[] = [];
+    const chunks = super.chat({
+      ...request,
+      maxTokens: request.maxTokens ?? this.modelConfig(request.model).maxOutputTokens ?? DEFAULT_MAX_OUTPUT,
+    });
+    for await (const chunk of chunks) {
+      switch (chunk.type) {
+        case "usage":
+          usageReported = true;
+          break;
+        case "text_delta":
+          output.push({ type: "text", text: chunk.text });
+          break;
+        case "tool_call":
+          output.push({ type: "tool_use", id: chunk.id, name: chunk.name, input: chunk.input });
+          break;
+        case "done":
+          // Some servers never send usage; estimate it so context accounting still works
+          if (!usageReported) {
+            yield {
+              type: "usage",
+              usage: {
+                ...emptyTokenUsage(),
+                inputTokens: estimateTokens(request),
+                outputTokens: estimateTokens({ messages: [{ role: "assistant", content: output }] }),
+              },
+            };
+          }
+          break;
+      }
+      yield chunk;
+    }
+  }
+
+  /**
+   * Whether the server accepts native tool definitions for a model. Unless the
+   * model config says, a one-token request with a no-op tool is sent once per
+   * model; a rejected request means no tool calling.
+   */
+  async probeToolCalling(model: string): Promise<boolean> {
+    const configured = this.modelConfig(model).toolCalling;
+    if (configured !== undefined) return configured;
+
+    let probe = this.toolCallingProbes.get(model);
+    if (!probe) {
+      probe = this.sendToolProbe(model);
+      this.toolCallingProbes.set(model, probe);
+      // A failed probe (server down) is retried on the next request
+      probe.then(
+        (supported) => this.toolCallingResults.set(model, supported),
+        () => this.toolCallingProbes.delete(model),
+      );
+    }
+    return probe;
+  }
+
+  override async countTokens(request: ChatRequest): Promise<TokenCount> {
+    return { inputTokens: estimateTokens(request), source: "estimate" };
+  }
+
+  async listModels(): Promise<ModelInfo[]> {
+    const models: ModelInfo[] = [];
+    try {
+      for await (const model of this.client.models.list()) {
+        const described = model as OpenAI.Model & {
+          max_model_len?: number;
+          context_length?: number;
+          max_context_length?: number;
+        };
+        const contextWindow = described.max_model_len ?? described.context_length ?? described.max_context_length;
+        if (contextWindow) this.discoveredContextWindows.set(model.id, contextWindow);
+
+        const config = this.modelConfig(model.id);
+        models.push({
+          id: model.id,
+          name: model.id,
+          contextWindow: this.getContextWindow(model.id),
+          maxOutputTokens: config.maxOutputTokens ?? DEFAULT_MAX_OUTPUT,
+          inputPricePerMillion: config.inputPricePerMillion ?? 0,
+          outputPricePerMillion: config.outputPricePerMillion ?? 0,
+        });
+      }
+    } catch (err) {
+      throw toOpenAIError(err, this.name);
+    }
+    return models;
+  }
+
+  override calculateCost(model: string, usage: TokenUsage): number {
+    const config = this.modelConfig(model);
+    return ((usage.inputTokens + usage.cacheReadInputTokens + usage.cacheCreationInputTokens) / 1_000_000)
+        * (config.inputPricePerMillion ?? 0)
+      + (usage.outputTokens / 1_000_000) * (config.outputPricePerMillion ?? 0);
+  }
+
+  override getContextWindow(model: string): number {
+    return this.modelConfig(model).contextWindow
+      ?? this.discoveredContextWindows.get(model)
+      ?? this.defaultContextWindow;
+  }
+
+  override supportsFeature(feature: ProviderFeature, model?: string): boolean {
+    switch (feature) {
+      case "streaming":
+        return true;
+      // Models are assumed to take tools until configured or probed otherwise
+      case "tool_calling":
+        if (model === undefined) return true;
+        return this.modelConfig(model).toolCalling ?? this.toolCallingResults.get(model) ?? true;
+      case "image_input":
+        return model !== undefined && this.modelConfig(model).imageInput === true;
+      default:
+        return false;
+    }
+  }
+
+  private modelConfig(model: string): OpenAICompatibleModelConfig {
+    return this.models[model] ?? {};
+  }
+
+  private async sendToolProbe(model: string): Promise<boolean> {
+    try {
+      await this.client.chat.completions.create({
+        model,
+        messages: [{ role: "user", content: "Reply with OK." }],
+        tools: [PROBE_TOOL],
+        max_tokens: 1,
+      });
+      return true;
+    } catch (err) {
+      // Ollama and vLLM reject `tools` with 400/422; llama.cpp without --jinja with a 500 naming them
+      if (
+        err instanceof OpenAI.APIError
+        && (err.status === 400 || err.status === 422 || (err.status !== undefined && err.status >= 500 && /tool/i.test(err.message)))
+      ) {
+        return false;
+      }
+      throw toOpenAIError(err, this.name);
+    }
+  }
+}
@@ -20,20 +20,39 @@ import type {
   ToolDefinition,
   NormalizedMessage,
   NormalizedContent,
+  NormalizedImageContent,
   NormalizedToolUseContent,
   NormalizedToolResultContent,
   StopReason,
+  TokenCount,
 } from "./types.ts";
+import { toolResultText, toolResultImages } from "./types.ts";
 import type { TokenUsage } from "../types.ts";
+import { ProviderError, classifyHttpStatus, parseRetryAfter } from "./errors.ts";
+import type { ProviderErrorKind } from "./errors.ts";
 import {
   calculateOpenAICost,
   OPENAI_CONTEXT_WINDOWS,
   OPENAI_MAX_OUTPUT,
 } from "../utils/cost.ts";
+import { estimateTokens } from "../utils/context-usage.ts";
+import { isStrictSchema, withParsedStructuredOutput } from "./structured-output.ts";
 
 const CODEX_BASE_URL = "https://chatgpt.com/backend-api/codex";
 const CODEX_DEFAULT_MODEL = "gpt-5.3-codex";
 
+/** o-series and GPT-5 models take reasoning parameters; others reject them */
+function isReasoningModel(model: string): boolean {
+  return /^(o\d|gpt-5)/.test(model);
+}
+
+/** Whether the request asks for thinking, either through a thinking config or an effort level */
+function wantsReasoning(request: ChatRequest): boolean {
+  if (request.effort !== undefined) return true;
+  if (request.thinking) return request.thinking.type !== "disabled";
+  return (request.thinkingBudget ?? 0) > 0;
+}
+
 // Models supported by the Codex subscription backend
 const CODEX_MODELS = new Set([
   "gpt-5.3-codex",
@@ -48,6 +67,26 @@ const CODEX_MODELS = new Set([
 type OAIMessage = OpenAI.ChatCompletionMessageParam;
 type OAITool = OpenAI.ChatCompletionTool;
 
+function imageDataUrl(block: NormalizedImageContent): string {
+  return `data:${block.source.media_type};base64,${block.source.data}`;
+}
+
+/** Stands in for document blocks; this adapter does not send PDFs. */
+const DOCUMENT_OMITTED = "[document omitted: the model does not accept PDF input]";
+
+/** Chat Completions image part. */
+function toImageUrlPart(block: NormalizedImageContent): OpenAI.ChatCompletionContentPartImage {
+  return { type: "image_url", image_url: { url: imageDataUrl(block) } };
+}
+
+/** Responses API image part. */
+function toInputImagePart(block: NormalizedImageContent): { type: "input_image"; image_url: string } {
+  return { type: "input_image", image_url: imageDataUrl(block) };
+}
+
+/** Schema name sent with `response_format` / `text.format`. */
+const STRUCTURED_OUTPUT_NAME = "output";
+
 // OpenAI enforces: ^[a-zA-Z0-9_-]{1,64}$
 const OPENAI_MAX_TOOL_NAME = 64;
 
@@ -60,6 +99,40 @@ export function sanitizeToolName(name: string): string {
   return clean.slice(0, OPENAI_MAX_TOOL_NAME - 7) + "_" + hash;
 }
 
+/** OpenAI error `code`/`type` → classification (takes precedence over the HTTP status). */
+const OPENAI_ERROR_KINDS: Record<string, ProviderErrorKind> = {
+  insufficient_quota: "billing_error",
+  rate_limit_exceeded: "rate_limit",
+  server_error: "server_error",
+  server_is_overloaded: "server_error",
+  invalid_api_key: "authentication_failed",
+  invalid_request_error: "invalid_request",
+  context_length_exceeded: "invalid_request",
+};
+
+/** Convert SDK errors into ProviderError; aborts and unknown errors pass through. */
+export function toOpenAIError(err: unknown, provider = "openai"): unknown {
+  if (err instanceof OpenAI.APIUserAbortError) return err;
+  if (err instanceof OpenAI.APIConnectionError) {
+    return new ProviderError({ provider, kind: "server_error", message: err.message, cause: err });
+  }
+  if (err instanceof OpenAI.APIError) {
+    const code = err.code ?? err.type ?? undefined;
+    return new ProviderError({
+      provider,
+      kind: (err.code && OPENAI_ERROR_KINDS[err.code])
+        || (err.type && OPENAI_ERROR_KINDS[err.type])
+        || classifyHttpStatus(err.status),
+      message: err.message,
+      status: err.status,
+      code,
+      retryAfterMs: parseRetryAfter(err.headers),
+      cause: err,
+    });
+  }
+  return err;
+}
+
 /** Simple deterministic hash → 6 hex chars. */
 function simpleHash(s: string): string {
   let h = 0x811c9dc5; // FNV-1a offset basis
@@ -72,14 +145,17 @@ function simpleHash(s: string): string {
 
 export class OpenAIAdapter implements ProviderAdapter {
   name = "openai";
-  private client: OpenAI;
+  protected client: OpenAI;
   private codexMode: boolean;
   private accountId?: string;
   private currentAccessToken?: string;
   /** Maps sanitized OpenAI tool name → original name. Rebuilt each query cycle. */
   private toolNameMap = new Map<string, string>();
+  /** Output limit parameter; servers that predate `max_completion_tokens` take `max_tokens` */
+  private maxTokensParam: "max_completion_tokens" | "max_tokens";
 
-  constructor(options?: { apiKey?: string; baseUrl?: string }) {
+  constructor(options?: { apiKey?: string; baseUrl?: string; maxTokensParam?: "max_completion_tokens" | "max_tokens" }) {
+    this.maxTokensParam = options?.maxTokensParam ?? "max_completion_tokens";
     const key = options?.apiKey ?? process.env.OPENAI_API_KEY;
 
     if (key) {
@@ -88,6 +164,8 @@ export class OpenAIAdapter implements ProviderAdapter {
       this.client = new OpenAI({
         apiKey: key,
         baseURL: options?.baseUrl,
+        // Retries are handled by the agent loop so they surface as status events
+        maxRetries: 0,
       });
     } else {
       // Try Codex/OAuth mode → Responses API
@@ -99,6 +177,7 @@ export class OpenAIAdapter implements ProviderAdapter {
         this.client = new OpenAI({
           apiKey: tokens.access_token,
           baseURL: options?.baseUrl ?? CODEX_BASE_URL,
+          maxRetries: 0,
           defaultHeaders: {
             "chatgpt-account-id": tokens.account_id,
             "originator": "codex_cli_rs",
@@ -127,10 +206,34 @@ export class OpenAIAdapter implements ProviderAdapter {
       }
     }
 
+    try {
+      const chunks = this.codexMode ? this.chatResponses(request) : this.chatCompletions(request);
+      // JSON mode answers in text; the parsed value follows it
+      yield* request.outputFormat ? withParsedStructuredOutput(chunks) : chunks;
+    } catch (err) {
+      throw toOpenAIError(err, this.name);
+    }
+  }
+
+  async countTokens(request: ChatRequest): Promise<TokenCount> {
+    // The Codex backend has no counting endpoint
     if (this.codexMode) {
-      yield* this.chatResponses(request);
-    } else {
-      yield* this.chatCompletions(request);
+      return { inputTokens: estimateTokens(request), source: "estimate" };
+    }
+
+    // Chat Completions has no counting endpoint; the Responses one counts the same conversation
+    try {
+      const result = await this.client.responses.inputTokens.count({
+        model: request.model,
+        input: this.convertMessagesForResponses(request.messages),
+        ...(request.systemPrompt ? { instructions: request.systemPrompt } : {}),
+        ...(request.tools && request.tools.length > 0
+          ? { tools: this.convertToolsForResponses(request.tools) }
+          : {}),
+      }, { signal: request.signal ?? undefined });
+      return { inputTokens: result.input_tokens, source: "count_tokens" };
+    } catch (err) {
+      throw toOpenAIError(err, this.name);
     }
   }
 
@@ -170,7 +273,7 @@ export class OpenAIAdapter implements ProviderAdapter {
     const params: OpenAI.ChatCompletionCreateParamsStreaming = {
       model: request.model,
       messages,
-      max_completion_tokens: maxTokens,
+      [this.maxTokensParam]: maxTokens,
       stream: true,
       stream_options: { include_usage: true },
     };
@@ -179,6 +282,17 @@ export class OpenAIAdapter implements ProviderAdapter {
       params.tools = tools;
     }
 
+    if (request.outputFormat?.type === "json_schema") {
+      params.response_format = {
+        type: "json_schema",
+        json_schema: {
+          name: STRUCTURED_OUTPUT_NAME,
+          schema: request.outputFormat.schema,
+          strict: isStrictSchema(request.outputFormat.schema),
+        },
+      };
+    }
+
     if (request.temperature !== undefined) {
       params.temperature = request.temperature;
     }
@@ -192,14 +306,15 @@ export class OpenAIAdapter implements ProviderAdapter {
     let finishReason: string | null = null;
 
     for await (const chunk of stream) {
-      // Usage arrives on the final chunk (choices may be empty)
+      // Usage arrives on the final chunk (choices may be empty); some
+      // OpenAI-compatible servers leave fields null
       if (chunk.usage) {
         const cached = chunk.usage.prompt_tokens_details?.cached_tokens ?? 0;
         yield {
           type: "usage",
           usage: {
-            inputTokens: chunk.usage.prompt_tokens - cached,
-            outputTokens: chunk.usage.completion_tokens,
+            inputTokens: (chunk.usage.prompt_tokens ?? 0) - cached,
+            outputTokens: chunk.usage.completion_tokens ?? 0,
             cacheReadInputTokens: cached,
             cacheCreationInputTokens: 0,
           },
@@ -242,16 +357,19 @@ export class OpenAIAdapter implements ProviderAdapter {
     // Emit buffered tool calls after stream ends (reverse-map sanitized names)
     for (const [, buf] of toolCallBuffers) {
       let input: unknown;
+      let incomplete = false;
       try {
         input = buf.args ? JSON.parse(buf.args) : {};
       } catch {
         input = {};
+        incomplete = true;
       }
       yield {
         type: "tool_call",
         id: buf.id,
         name: this.resolveToolName(buf.name),
         input,
+        ...(incomplete ? { incomplete } : {}),
       };
     }
 
@@ -278,10 +396,31 @@ export class OpenAIAdapter implements ProviderAdapter {
       // Note: Codex backend does not support max_output_tokens
     };
 
+    if (isReasoningModel(model) && wantsReasoning(request)) {
+      // Reasoning items are returned on later requests; without storage
+      // they only work in their encrypted form
+      params.include = ["reasoning.encrypted_content"];
+      params.reasoning = { summary: "auto" };
+      if (request.effort) {
+        params.reasoning.effort = request.effort === "max" ? "high" : request.effort;
+      }
+    }
+
     if (tools && tools.length > 0) {
       params.tools = tools;
     }
 
+    if (request.outputFormat?.type === "json_schema") {
+      params.text = {
+        format: {
+          type: "json_schema",
+          name: STRUCTURED_OUTPUT_NAME,
+          schema: request.outputFormat.schema,
+          strict: isStrictSchema(request.outputFormat.schema),
+        },
+      };
+    }
+
     if (request.temperature !== undefined) {
       params.temperature = request.temperature;
     }
@@ -296,21 +435,40 @@ export class OpenAIAdapter implements ProviderAdapter {
           yield { type: "text_delta", text: event.delta };
           break;
 
+        case "response.reasoning_summary_text.delta":
+          yield { type: "thinking_delta", text: event.delta };
+          break;
+
         // Use output_item.done for tool calls — it has call_id and name
         case "response.output_item.done": {
           const item = event.item;
-          if (item?.type === "function_call") {
+          if (item?.type === "reasoning") {
+            const summary: string = (item.summary ?? []).map((part: { text?: string }) => part.text ?? "").join("\n\n");
+            yield {
+              type: "thinking_block",
+              block: {
+                type: "thinking",
+                thinking: summary,
+                ...(item.encrypted_content ? { signature: item.encrypted_content } : {}),
+                ...(item.id ? { id: item.id } : {}),
+                provider: this.name,
+              },
+            };
+          } else if (item?.type === "function_call") {
             let parsedInput: unknown;
+            let incomplete = false;
             try {
               parsedInput = item.arguments ? JSON.parse(item.arguments) : {};
             } catch {
               parsedInput = {};
+              incomplete = true;
             }
             yield {
               type: "tool_call",
               id: item.call_id,
               name: this.resolveToolName(item.name),
               input: parsedInput,
+              ...(incomplete ? { incomplete } : {}),
             };
           }
           break;
@@ -334,6 +492,18 @@ export class OpenAIAdapter implements ProviderAdapter {
           yield { type: "done", stopReason: this.mapResponseStatus(resp) };
           break;
         }
+
+        case "response.failed":
+        case "error": {
+          const error = event.type === "error" ? event : event.response?.error;
+          const code: string | undefined = error?.code ?? undefined;
+          throw new ProviderError({
+            provider: this.name,
+            kind: (code && OPENAI_ERROR_KINDS[code]) || "unknown",
+            message: error?.message ?? "Response failed",
+            code,
+          });
+        }
       }
     }
   }
@@ -350,6 +520,7 @@ export class OpenAIAdapter implements ProviderAdapter {
         this.client = new OpenAI({
           apiKey: tokens.accessToken,
           baseURL: CODEX_BASE_URL,
+          maxRetries: 0,
           defaultHeaders: {
             "chatgpt-account-id": tokens.accountId,
             "originator": "codex_cli_rs",
@@ -406,29 +577,45 @@ export class OpenAIAdapter implements ProviderAdapter {
         }
         result.push(assistantMsg);
       } else {
-        // User message — may contain text + tool_results
+        // User message — may contain text, images and tool_results
         const toolResults: NormalizedToolResultContent[] = [];
         const textParts: string[] = [];
+        const images: NormalizedImageContent[] = [];
 
         for (const block of msg.content) {
           if (block.type === "tool_result") {
             toolResults.push(block);
           } else if (block.type === "text") {
             textParts.push(block.text);
+          } else if (block.type === "image") {
+            images.push(block);
+          } else if (block.type === "document") {
+            textParts.push(DOCUMENT_OMITTED);
           }
         }
 
-        // Emit tool results as separate role:"tool" messages
+        // Emit tool results as separate role:"tool" messages. Tool messages
+        // are text-only, so their images follow in a user message.
+        const toolImages: NormalizedImageContent[] = [];
         for (const tr of toolResults) {
           result.push({
             role: "tool",
             tool_call_id: tr.tool_use_id,
-            content: tr.content,
+            content: toolResultText(tr.content),
           });
+          toolImages.push(...toolResultImages(tr.content));
+        }
+        if (toolImages.length > 0) {
+          result.push({ role: "user", content: toolImages.map(toImageUrlPart) });
         }
 
-        // Emit remaining text as a user message
-        if (textParts.length > 0) {
+        // Emit remaining text (and images) as a user message
+        if (images.length > 0) {
+          const parts: OpenAI.ChatCompletionContentPart[] = [];
+          if (textParts.length > 0) parts.push({ type: "text", text: textParts.join("") });
+          parts.push(...images.map(toImageUrlPart));
+          result.push({ role: "user", content: parts });
+        } else if (textParts.length > 0) {
           result.push({ role: "user", content: textParts.join("") });
         }
       }
@@ -457,6 +644,14 @@ export class OpenAIAdapter implements ProviderAdapter {
             textParts.push(block.text);
           } else if (block.type === "tool_use") {
             toolUses.push(block);
+          } else if (block.type === "thinking" && block.provider === this.name && block.signature) {
+            // Reasoning items precede the output they produced
+            result.push({
+              type: "reasoning",
+              ...(block.id ? { id: block.id } : {}),
+              summary: block.thinking ? [{ type: "summary_text", text: block.thinking }] : [],
+              encrypted_content: block.signature,
+            });
           }
         }
 
@@ -480,26 +675,42 @@ export class OpenAIAdapter implements ProviderAdapter {
       } else if (msg.role === "user") {
         const textParts: string[] = [];
         const toolResults: NormalizedToolResultContent[] = [];
+        const images: NormalizedImageContent[] = [];
 
         for (const block of msg.content) {
           if (block.type === "tool_result") {
             toolResults.push(block);
           } else if (block.type === "text") {
             textParts.push(block.text);
+          } else if (block.type === "image") {
+            images.push(block);
+          } else if (block.type === "document") {
+            textParts.push(DOCUMENT_OMITTED);
           }
         }
 
-        // Tool results → function_call_output items
+        // Tool results → function_call_output items; their images follow
+        // in a user message since the output is text-only
+        const toolImages: NormalizedImageContent[] = [];
         for (const tr of toolResults) {
           result.push({
             type: "function_call_output",
             call_id: tr.tool_use_id,
-            output: tr.content,
+            output: toolResultText(tr.content),
           });
+          toolImages.push(...toolResultImages(tr.content));
+        }
+        if (toolImages.length > 0) {
+          result.push({ role: "user", content: toolImages.map(toInputImagePart) });
         }
 
-        // Remaining text → user message
-        if (textParts.length > 0) {
+        // Remaining text (and images) → user message
+        if (images.length > 0) {
+          const parts: any[] = [];
+          if (textParts.length > 0) parts.push({ type: "input_text", text: textParts.join("") });
+          parts.push(...images.map(toInputImagePart));
+          result.push({ role: "user", content: parts });
+        } else if (textParts.length > 0) {
           result.push({ role: "user", content: textParts.join("") });
         }
       }
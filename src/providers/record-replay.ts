@@ -0,0 +1,214 @@
+/**
+ * Record/replay provider — runs a live adapter once and replays its streams
+ * offline.
+ *
+ * Each request is normalized and hashed; the `ChatChunk` stream the wrapped
+ * adapter returned for it is stored under that hash in a JSON cassette.
+ * Replays need no network and no credentials. Identical requests repeated
+ * within a run replay their recordings in order.
+ *
+ * The cassette also stores the capability answers (`supportsFeature`,
+ * `getContextWindow`) seen while recording, so a replay without the live
+ * adapter builds the same requests, and each model's per-token prices, so
+ * replayed runs report the same cost.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { createHash } from "node:crypto";
+import type {
+  ProviderAdapter,
+  ProviderFeature,
+  ChatRequest,
+  ChatChunk,
+  TokenCount,
+} from "./types.ts";
+import type { TokenUsage } from "../types.ts";
+import type { ModelPricing } from "../utils/cost.ts";
+import { ProviderError } from "./errors.ts";
+import { estimateTokens } from "../utils/context-usage.ts";
+
+const CASSETTE_VERSION = 1;
+const DEFAULT_CONTEXT_WINDOW = 200_000;
+
+/**
+ * - `auto`: replay recorded requests, record the rest with the live adapter
+ * - `record`: start a fresh cassette and record every request
+ * - `replay`: never call the live adapter; unrecorded requests fail
+ */
+export type CassetteMode = "auto" | "record" | "replay";
+
+export type RecordReplayOptions = {
+  /** Path of the JSON cassette file */
+  cassette: string;
+  /** Live adapter; required to record, optional for replay */
+  provider?: ProviderAdapter;
+  /** Default: "auto" */
+  mode?: CassetteMode;
+  /** Default: the live adapter's name, else the name stored in the cassette */
+  name?: string;
+  /**
+   * Maps a request to the value that is hashed. The default drops `signal`;
+   * override it to blank out values that differ between machines, such as the
+   * working directory in the system prompt.
+   */
+  normalize?: (request: ChatRequest) => unknown;
+};
+
+type Interaction = {
+  /** The normalized request, kept for reading diffs */
+  request: unknown;
+  responses: ChatChunk[][];
+};
+
+type Cassette = {
+  version: number;
+  provider?: string;
+  interactions: Record<string, Interaction>;
+  contextWindows: Record<string, number>;
+  /** Keyed by `${feature}:${model}` */
+  features: Record<string, boolean>;
+  /** Per-model prices read off the live adapter; absent in older cassettes */
+  prices?: Record<string, Required<ModelPricing>>;
+};
+
+const MILLION = 1_000_000;
+
+/** Price each usage field by costing a million tokens of it alone (adapter pricing is linear). */
+function probePricing(provider: ProviderAdapter, model: string): Required<ModelPricing> {
+  const none = { inputTokens: 0, outputTokens: 0, cacheReadInputTokens: 0, cacheCreationInputTokens: 0 };
+  return {
+    inputPerMillion: provider.calculateCost(model, { ...none, inputTokens: MILLION }),
+    outputPerMillion: provider.calculateCost(model, { ...none, outputTokens: MILLION }),
+    cacheReadPerMillion: provider.calculateCost(model, { ...none, cacheReadInputTokens: MILLION }),
+    cacheWritePerMillion: provider.calculateCost(model, { ...none, cacheCreationInputTokens: MILLION }),
+  };
+}
+
+function defaultNormalize(request: ChatRequest): unknown {
+  const { signal: _signal, ...rest } = request;
+  return rest;
+}
+
+/** JSON with sorted object keys, so equal requests hash equally. */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, v) => {
+    if (v === null || typeof v !== "object" || Array.isArray(v)) return v;
+    return Object.fromEntries(Object.keys(v).sort().map((k) => [k, v[k]]));
+  });
+}
+
+export class RecordReplayProvider implements ProviderAdapter {
+  name: string;
+  private path: string;
+  private live?: ProviderAdapter;
+  private mode: CassetteMode;
+  private normalize: (request: ChatRequest) => unknown;
+  private cassette: Cassette;
+  /** Responses already replayed, per request hash */
+  private cursors = new Map<string, number>();
+
+  constructor(options: RecordReplayOptions) {
+    this.path = options.cassette;
+    this.live = options.provider;
+    this.mode = options.mode ?? "auto";
+    this.normalize = options.normalize ?? defaultNormalize;
+    this.cassette = this.mode !== "record" && existsSync(this.path)
+      ? this.load()
+      : { version: CASSETTE_VERSION, interactions: {}, contextWindows: {}, features: {} };
+    this.name = options.name ?? this.live?.name ?? this.cassette.provider ?? "replay";
+  }
+
+  async *chat(request: ChatRequest): AsyncGenerator<ChatChunk> {
+    const normalized = this.normalize(request);
+    const hash = createHash("sha256").update(stableStringify(normalized)).digest("hex");
+    const cursor = this.cursors.get(hash) ?? 0;
+    this.cursors.set(hash, cursor + 1);
+
+    const recorded = this.cassette.interactions[hash]?.responses;
+    if (recorded && (cursor < recorded.length || this.mode === "replay" || !this.live)) {
+      // A request repeated more often than recorded replays the last response when it cannot record
+      yield* recorded[Math.min(cursor, recorded.length - 1)];
+      return;
+    }
+    if (!this.live || this.mode === "replay") {
+      throw new ProviderError({
+        provider: this.name,
+        kind: "invalid_request",
+        message: `No recording for request ${hash.slice(0, 12)} in ${this.path}`
+          + (this.live ? "" : "; pass a live provider and mode \"auto\" to record it"),
+      });
+    }
+
+    // Only complete streams are saved; errors and aborts propagate unrecorded
+    const chunks: ChatChunk[] = [];
+    for await (const chunk of this.live.chat(request)) {
+      chunks.push(chunk);
+      yield chunk;
+    }
+    const interaction = this.cassette.interactions[hash] ??= { request: normalized, responses: [] };
+    interaction.responses.push(chunks);
+    this.save();
+  }
+
+  calculateCost(model: string, usage: TokenUsage): number {
+    if (this.live) {
+      const prices = this.cassette.prices ??= {};
+      const probed = probePricing(this.live, model);
+      if (stableStringify(prices[model]) !== stableStringify(probed)) {
+        prices[model] = probed;
+        if (this.mode !== "replay") this.save();
+      }
+      return this.live.calculateCost(model, usage);
+    }
+    const pricing = this.cassette.prices?.[model];
+    if (!pricing) return 0;
+    return (usage.inputTokens * pricing.inputPerMillion
+      + usage.outputTokens * pricing.outputPerMillion
+      + usage.cacheReadInputTokens * pricing.cacheReadPerMillion
+      + usage.cacheCreationInputTokens * pricing.cacheWritePerMillion) / MILLION;
+  }
+
+  getContextWindow(model: string): number {
+    if (this.live) {
+      return this.remember(this.cassette.contextWindows, model, this.live.getContextWindow(model));
+    }
+    return this.cassette.contextWindows[model] ?? DEFAULT_CONTEXT_WINDOW;
+  }
+
+  supportsFeature(feature: ProviderFeature, model?: string): boolean {
+    const key = `${feature}:${model ?? ""}`;
+    if (this.live) {
+      return this.remember(this.cassette.features, key, this.live.supportsFeature(feature, model));
+    }
+    return this.cassette.features[key] ?? (feature === "streaming" || feature === "tool_calling");
+  }
+
+  /** Always the heuristic, so context usage does not differ between recording and replay. */
+  async countTokens(request: ChatRequest): Promise<TokenCount> {
+    return { inputTokens: estimateTokens(request), source: "estimate" };
+  }
+
+  /** Store a capability answer, saving only when it changed. */
+  private remember<T>(answers: Record<string, T>, key: string, value: T): T {
+    if (answers[key] !== value) {
+      answers[key] = value;
+      if (this.mode !== "replay") this.save();
+    }
+    return value;
+  }
+
+  private load(): Cassette {
+    const cassette = JSON.parse(readFileSync(this.path, "utf-8")) as Cassette;
+    if (cassette.version !== CASSETTE_VERSION) {
+      throw new Error(`Unsupported cassette version ${cassette.version} in ${this.path}`);
+    }
+    return cassette;
+  }
+
+  private save(): void {
+    this.cassette.provider = this.name;
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(this.path, JSON.stringify(this.cassette, null, 2) + "\n");
+  }
+}
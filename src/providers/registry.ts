@@ -5,6 +5,7 @@
 import type { ProviderAdapter } from "./types.ts";
 import { AnthropicAdapter } from "./anthropic.ts";
 import { OpenAIAdapter } from "./openai.ts";
+import { OpenAICompatibleAdapter } from "./openai-compatible.ts";
 import { GeminiAdapter } from "./gemini.ts";
 
 const providers = new Map<string, ProviderAdapter>();
@@ -37,6 +38,14 @@ export function getProvider(name: string, options?: { apiKey?: string; baseUrl?:
     return adapter;
   }
 
+  if (name === "openai-compatible") {
+    const adapter = new OpenAICompatibleAdapter(options);
+    if (!options?.apiKey && !options?.baseUrl) {
+      providers.set(name, adapter);
+    }
+    return adapter;
+  }
+
   if (name === "gemini") {
     const adapter = new GeminiAdapter(options);
     if (!options?.apiKey && !options?.baseUrl) {
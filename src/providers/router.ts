@@ -0,0 +1,285 @@
+/**
+ * Routing provider — an ordered chain of provider:model targets with failover.
+ *
+ * Each request goes to the first target whose provider circuit is closed. If
+ * that target fails before streaming anything, with an error kind listed in
+ * `failoverOn`, the next target gets the same request. History needs no
+ * rewriting: messages are already normalized, every adapter drops thinking
+ * blocks signed by another provider, and the Anthropic adapter turns thinking
+ * off for a tool loop whose calls another provider made.
+ *
+ * Every response starts with a `model` chunk naming the target that served
+ * it (`anthropic:claude-sonnet-4-5`), so usage and cost are attributed per
+ * provider:model. Pass that name back to `calculateCost`, `getContextWindow`
+ * or `supportsFeature` to ask about one target.
+ */
+
+import type {
+  ProviderAdapter,
+  ProviderFeature,
+  ChatRequest,
+  ChatChunk,
+  TokenCount,
+} from "./types.ts";
+import type { TokenUsage } from "../types.ts";
+import { ProviderError, isProviderError } from "./errors.ts";
+import type { ProviderErrorKind } from "./errors.ts";
+import { getProvider } from "./registry.ts";
+import { estimateTokens } from "../utils/context-usage.ts";
+
+const DEFAULT_FAILOVER_ON: ProviderErrorKind[] = ["rate_limit", "server_error", "authentication_failed"];
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_COOLDOWN_MS = 60_000;
+/** Reported when no target's adapter can be created. */
+const DEFAULT_CONTEXT_WINDOW = 200_000;
+
+/** `"provider:model"` (split at the first colon), or an adapter instance and model. */
+export type RouteTarget = string | { provider: string | ProviderAdapter; model: string };
+
+export type CircuitBreakerConfig = {
+  /** Consecutive failover errors that open a provider's circuit. Default: 3 */
+  failureThreshold?: number;
+  /** How long an open circuit skips the provider before one trial request. Default: 60000 */
+  cooldownMs?: number;
+};
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export type RouterOptions = {
+  /** Targets in order of preference */
+  chain: RouteTarget[];
+  /** Default: "router" */
+  name?: string;
+  /** Error kinds that move the request to the next target. Default: rate_limit, server_error, authentication_failed */
+  failoverOn?: ProviderErrorKind[];
+  circuitBreaker?: CircuitBreakerConfig;
+};
+
+type Target = {
+  /** `provider:model` */
+  id: string;
+  provider: string;
+  model: string;
+  adapter?: ProviderAdapter;
+};
+
+function parseTarget(target: RouteTarget): Target {
+  if (typeof target !== "string") {
+    const provider = typeof target.provider === "string" ? target.provider : target.provider.name;
+    return {
+      id: `${provider}:${target.model}`,
+      provider,
+      model: target.model,
+      adapter: typeof target.provider === "string" ? undefined : target.provider,
+    };
+  }
+  const colon = target.indexOf(":");
+  if (colon <= 0 || colon === target.length - 1) {
+    throw new Error(`Invalid route target "${target}": expected "provider:model"`);
+  }
+  return { id: target, provider: target.slice(0, colon), model: target.slice(colon + 1) };
+}
+
+/** Per-provider circuit: opens after repeated failures, lets one trial through after the cooldown. */
+class CircuitBreaker {
+  private failures = 0;
+  private openedAt?: number;
+  private trialInFlight = false;
+
+  constructor(private threshold: number, private cooldownMs: number) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === undefined) return "closed";
+    return Date.now() - this.openedAt >= this.cooldownMs ? "half_open" : "open";
+  }
+
+  /** Milliseconds until an open circuit allows a trial. */
+  get retryAfterMs(): number {
+    return this.openedAt === undefined ? 0 : Math.max(0, this.openedAt + this.cooldownMs - Date.now());
+  }
+
+  /** Whether a request may go to the provider; claims the trial of a half-open circuit. */
+  acquire(): boolean {
+    switch (this.state) {
+      case "closed":
+        return true;
+      case "open":
+        return false;
+      case "half_open":
+        if (this.trialInFlight) return false;
+        this.trialInFlight = true;
+        return true;
+    }
+  }
+
+  success(): void {
+    this.failures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  failure(): void {
+    this.failures++;
+    // A failed trial reopens the circuit for another cooldown
+    if (this.trialInFlight || this.failures >= this.threshold) {
+      this.openedAt = Date.now();
+    }
+    this.trialInFlight = false;
+  }
+
+  /** The request ended without telling whether the provider is healthy (abort, invalid request). */
+  release(): void {
+    this.trialInFlight = false;
+  }
+}
+
+export class RouterProvider implements ProviderAdapter {
+  name: string;
+  private targets: Target[];
+  private failoverOn: Set<ProviderErrorKind>;
+  private breakers = new Map<string, CircuitBreaker>();
+
+  constructor(options: RouterOptions) {
+    if (options.chain.length === 0) throw new Error("RouterProvider needs at least one route target");
+    this.name = options.name ?? "router";
+    this.targets = options.chain.map(parseTarget);
+    this.failoverOn = new Set(options.failoverOn ?? DEFAULT_FAILOVER_ON);
+    for (const target of this.targets) {
+      if (!this.breakers.has(target.provider)) {
+        this.breakers.set(target.provider, new CircuitBreaker(
+          options.circuitBreaker?.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD,
+          options.circuitBreaker?.cooldownMs ?? DEFAULT_COOLDOWN_MS,
+        ));
+      }
+    }
+  }
+
+  /**
+   * Route the request down the chain. A `request.model` naming a target
+   * (`openai:gpt-4.1`) is tried first; any other model name starts at the top.
+   */
+  async *chat(request: ChatRequest): AsyncGenerator<ChatChunk> {
+    let lastError: unknown;
+
+    for (const target of this.order(request.model)) {
+      const breaker = this.breakers.get(target.provider)!;
+      if (!breaker.acquire()) continue;
+
+      // A provider that cannot be created (no API key) is skipped without counting against it
+      const adapter = this.tryResolve(target);
+      if (!adapter) {
+        breaker.release();
+        lastError ??= new ProviderError({
+          provider: target.provider,
+          kind: "authentication_failed",
+          message: `Provider "${target.provider}" could not be created`,
+        });
+        continue;
+      }
+
+      const stream = adapter.chat({ ...request, model: target.model });
+      let first: IteratorResult<ChatChunk>;
+      try {
+        first = await stream.next();
+      } catch (err) {
+        if (request.signal?.aborted || !this.shouldFailover(err)) {
+          breaker.release();
+          throw err;
+        }
+        breaker.failure();
+        lastError = err;
+        continue;
+      }
+
+      // Once output has been streamed the request can no longer move; errors go to the caller
+      try {
+        yield { type: "model", model: target.id };
+        if (!first.done) {
+          yield first.value;
+          yield* stream;
+        }
+        breaker.success();
+        return;
+      } catch (err) {
+        if (!request.signal?.aborted && this.shouldFailover(err)) breaker.failure();
+        throw err;
+      } finally {
+        breaker.release();
+        await stream.return(undefined);
+      }
+    }
+
+    if (lastError) throw lastError;
+    const retryAfterMs = Math.min(...[...this.breakers.values()].map((b) => b.retryAfterMs));
+    throw new ProviderError({
+      provider: this.name,
+      kind: "server_error",
+      message: `All providers in the route are unavailable (circuits open: ${[...this.breakers.keys()].join(", ")})`,
+      retryAfterMs,
+    });
+  }
+
+  /** Circuit state of each provider in the chain. */
+  circuitStates(): Record<string, CircuitState> {
+    return Object.fromEntries([...this.breakers].map(([provider, breaker]) => [provider, breaker.state]));
+  }
+
+  calculateCost(model: string, usage: TokenUsage): number {
+    const target = this.find(model) ?? this.targets[0];
+    return this.tryResolve(target)?.calculateCost(target.model, usage) ?? 0;
+  }
+
+  /**
+   * For a model that is not a target, the smallest window in the chain, so
+   * compaction leaves room on every target.
+   */
+  getContextWindow(model: string): number {
+    const windows = this.answering(model).map(([target, adapter]) => adapter.getContextWindow(target.model));
+    return windows.length > 0 ? Math.min(...windows) : DEFAULT_CONTEXT_WINDOW;
+  }
+
+  /** For a model that is not a target, whether every target supports the feature. */
+  supportsFeature(feature: ProviderFeature, model?: string): boolean {
+    const answering = this.answering(model);
+    return answering.length > 0 && answering.every(([target, adapter]) => adapter.supportsFeature(feature, target.model));
+  }
+
+  /** Counted by the first target that would take the request. */
+  async countTokens(request: ChatRequest): Promise<TokenCount> {
+    const target = this.order(request.model).find((t) => this.breakers.get(t.provider)!.state !== "open");
+    const adapter = target && this.tryResolve(target);
+    if (!target || !adapter?.countTokens) return { inputTokens: estimateTokens(request), source: "estimate" };
+    return adapter.countTokens({ ...request, model: target.model });
+  }
+
+  private find(model: string): Target | undefined {
+    return this.targets.find((t) => t.id === model);
+  }
+
+  private order(model: string): Target[] {
+    const pinned = this.find(model);
+    return pinned ? [pinned, ...this.targets.filter((t) => t !== pinned)] : this.targets;
+  }
+
+  /** Adapters that answer capability questions about `model`: its target, or every target that can be created. */
+  private answering(model: string | undefined): [Target, ProviderAdapter][] {
+    const pinned = model !== undefined ? this.find(model) : undefined;
+    return (pinned ? [pinned] : this.targets).flatMap((target): [Target, ProviderAdapter][] => {
+      const adapter = this.tryResolve(target);
+      return adapter ? [[target, adapter]] : [];
+    });
+  }
+
+  private tryResolve(target: Target): ProviderAdapter | undefined {
+    try {
+      target.adapter ??= getProvider(target.provider);
+      return target.adapter;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private shouldFailover(err: unknown): boolean {
+    return isProviderError(err) && this.failoverOn.has(err.kind);
+  }
+}
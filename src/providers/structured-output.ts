@@ -0,0 +1,108 @@
+/**
+ * Helpers for native structured output.
+ *
+ * Adapters whose API has a JSON response mode (OpenAI, Gemini without tools)
+ * parse the final text with `withParsedStructuredOutput`. Anthropic, and
+ * Gemini when tools are present, get the answer through a synthetic tool
+ * whose input schema is the output schema; `chatWithStructuredOutputTool` adds it and
+ * turns its call back into the answer. Either way the adapter yields the
+ * JSON as text plus a `structured_output` chunk with the parsed value.
+ */
+
+import type { ChatRequest, ChatChunk, ToolDefinition } from "./types.ts";
+
+/** Name of the synthetic tool that carries the final answer. */
+export const STRUCTURED_OUTPUT_TOOL = "StructuredOutput";
+
+/** Tool inputs must be objects; any other schema is wrapped in `{ value }`. */
+function isObjectSchema(schema: Record<string, unknown>): boolean {
+  return schema.type === "object";
+}
+
+export function structuredOutputTool(schema: Record<string, unknown>): ToolDefinition {
+  return {
+    name: STRUCTURED_OUTPUT_TOOL,
+    description: "Return the final answer in the required format. Call this exactly once, when the task is done, instead of replying with text.",
+    inputSchema: isObjectSchema(schema)
+      ? schema
+      : { type: "object", properties: { value: schema }, required: ["value"] },
+  };
+}
+
+/**
+ * Pass a JSON-mode stream through, adding a `structured_output` chunk before
+ * `done` when the turn ends with text that parses. Anything else is left to
+ * the agent loop's own parsing and schema check.
+ */
+export async function* withParsedStructuredOutput(chunks: AsyncGenerator<ChatChunk>): AsyncGenerator<ChatChunk> {
+  let text = "";
+  for await (const chunk of chunks) {
+    if (chunk.type === "text_delta") text += chunk.text;
+    if (chunk.type === "done" && chunk.stopReason === "end_turn") {
+      const parsed = parseJson(text);
+      if (parsed) yield { type: "structured_output", value: parsed.value };
+    }
+    yield chunk;
+  }
+}
+
+/** Undefined when the text is not JSON; the loop then reports it and asks for a correction. */
+function parseJson(text: string): { value: unknown } | undefined {
+  try {
+    return { value: JSON.parse(text) };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether a schema already meets OpenAI's strict mode rules: every object
+ * lists all its properties as required and sets `additionalProperties: false`.
+ */
+export function isStrictSchema(schema: unknown): boolean {
+  if (schema === null || typeof schema !== "object") return true;
+  if (Array.isArray(schema)) return schema.every(isStrictSchema);
+
+  const node = schema as Record<string, unknown>;
+  if (node.type === "object" || node.properties) {
+    const properties = Object.keys((node.properties as Record<string, unknown>) ?? {});
+    const required = new Set(Array.isArray(node.required) ? node.required : []);
+    if (node.additionalProperties !== false || properties.some((p) => !required.has(p))) return false;
+  }
+  return Object.entries(node).every(([key, value]) => key === "required" || key === "enum" || key === "const" || isStrictSchema(value));
+}
+
+/**
+ * Run `chat` with the structured output tool added to the request. Its call
+ * is yielded as JSON text and a `structured_output` chunk; a turn that ends on
+ * it alone stops with `end_turn`.
+ */
+export async function* chatWithStructuredOutputTool(
+  request: ChatRequest & { outputFormat: { schema: Record<string, unknown> } },
+  chat: (request: ChatRequest) => AsyncGenerator<ChatChunk>,
+): AsyncGenerator<ChatChunk> {
+  const schema = request.outputFormat.schema;
+  let answered = false;
+  let calledTools = false;
+
+  const chunks = chat({
+    ...request,
+    outputFormat: undefined,
+    tools: [...(request.tools ?? []), structuredOutputTool(schema)],
+  });
+  for await (const chunk of chunks) {
+    if (chunk.type === "tool_call" && chunk.name === STRUCTURED_OUTPUT_TOOL) {
+      const value = isObjectSchema(schema) ? chunk.input : (chunk.input as { value?: unknown })?.value;
+      answered = true;
+      yield { type: "text_delta", text: JSON.stringify(value) };
+      yield { type: "structured_output", value };
+      continue;
+    }
+    if (chunk.type === "tool_call") calledTools = true;
+    if (chunk.type === "done" && answered && !calledTools && chunk.stopReason === "tool_use") {
+      yield { type: "done", stopReason: "end_turn" };
+      continue;
+    }
+    yield chunk;
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Prompt-based tool calling for models without native function calling.
+ *
+ * Tool definitions are rendered into the system prompt with a strict call
+ * format (a JSON object inside `<tool_call>` tags, the format Hermes and Qwen
+ * models are trained on). Calls are parsed out of the streamed text into
+ * `tool_call` chunks with IDs derived from the request, and text after the
+ * last call is dropped. Earlier tool_use / tool_result blocks are sent back
+ * as text in the same format. Works with any ProviderAdapter.
+ */
+
+import type {
+  ProviderAdapter,
+  ChatRequest,
+  ChatChunk,
+  ToolDefinition,
+  NormalizedMessage,
+  NormalizedContent,
+} from "./types.ts";
+import { toolResultDocuments, toolResultImages, toolResultText } from "./types.ts";
+
+const CALL_OPEN = "<tool_call>";
+const CALL_CLOSE = "</tool_call>";
+
+function toolsPrompt(tools: ToolDefinition[]): string {
+  const definitions = tools
+    .map((tool) => JSON.stringify({ name: tool.name, description: tool.description, parameters: tool.inputSchema }))
+    .join("\n");
+  return `# Tools
+
+You can call tools. To call one, write a block in exactly this format:
+
+${CALL_OPEN}
+{"name": "<tool name>", "arguments": {<arguments as a JSON object>}}
+${CALL_CLOSE}
+
+Rules:
+- The block must contain one valid JSON object and nothing else.
+- You may write several blocks in one reply. After the last one, stop and wait.
+- Results come back in the next user message as <tool_result> blocks.
+- When no tool is needed, answer in plain text without any block.
+
+Available tools:
+
+<tools>
+${definitions}
+</tools>`;
+}
+
+function formatCall(name: string, input: unknown): string {
+  return `${CALL_OPEN}\n${JSON.stringify({ name, arguments: input ?? {} })}\n${CALL_CLOSE}`;
+}
+
+/** Rewrite tool_use / tool_result blocks as text in the emulated format. */
+function convertMessages(messages: NormalizedMessage[]): NormalizedMessage[] {
+  const toolNames = new Map<string, string>();
+  return messages.map((msg) => {
+    if (typeof msg.content === "string") return msg;
+
+    const content: NormalizedContent[] = [];
+    for (const block of msg.content) {
+      if (block.type === "tool_use") {
+        toolNames.set(block.id, block.name);
+        content.push({ type: "text", text: formatCall(block.name, block.input) });
+      } else if (block.type === "tool_result") {
+        const name = toolNames.get(block.tool_use_id) ?? "unknown";
+        const status = block.is_error ? ` status="error"` : "";
+        content.push({
+          type: "text",
+          text: `<tool_result name="${name}"${status}>\n${toolResultText(block.content)}\n</tool_result>`,
+        });
+        content.push(...toolResultImages(block.content), ...toolResultDocuments(block.content));
+      } else {
+        content.push(block);
+      }
+    }
+    return { role: msg.role, content };
+  });
+}
+
+/** Parse the body of a `<tool_call>` block; undefined when it is not a valid call. */
+function parseCall(body: string): { name: string; input: unknown } | undefined {
+  // Small models often fence the JSON
+  const json = body.trim().replace(/^```(?:json)?\s*/, "").replace(/\s*```$/, "");
+  try {
+    const parsed = JSON.parse(json);
+    if (typeof parsed?.name !== "string") return undefined;
+    const input = parsed.arguments ?? parsed.parameters ?? parsed.input ?? {};
+    return { name: parsed.name, input: typeof input === "string" ? JSON.parse(input) : input };
+  } catch {
+    return undefined;
+  }
+}
+
+/** Length of the longest suffix of `text` that could start `CALL_OPEN`. */
+function partialOpenLength(text: string): number {
+  for (let n = Math.min(CALL_OPEN.length - 1, text.length); n > 0; n--) {
+    if (CALL_OPEN.startsWith(text.slice(-n))) return n;
+  }
+  return 0;
+}
+
+/**
+ * Splits streamed text into plain text and tool calls. Text that may be the
+ * start of a call is held back until it resolves either way, and text after a
+ * call is held until another call follows or the stream ends.
+ */
+class CallParser {
+  private buffer = "";
+  private trailing = "";
+  private calls = 0;
+
+  /** Call IDs are `<idPrefix>_<n>`, so a replayed request yields the same IDs. */
+  constructor(private idPrefix: string) {}
+
+  push(text: string): ChatChunk[] {
+    this.buffer += text;
+    const out: ChatChunk[] = [];
+    while (true) {
+      const open = this.buffer.indexOf(CALL_OPEN);
+      if (open === -1) {
+        const keep = partialOpenLength(this.buffer);
+        this.emitText(out, this.buffer.slice(0, this.buffer.length - keep));
+        this.buffer = this.buffer.slice(this.buffer.length - keep);
+        return out;
+      }
+      const close = this.buffer.indexOf(CALL_CLOSE, open + CALL_OPEN.length);
+      if (close === -1) {
+        this.emitText(out, this.buffer.slice(0, open));
+        this.buffer = this.buffer.slice(open);
+        return out;
+      }
+      this.emitText(out, this.buffer.slice(0, open));
+      this.emitCall(out, this.buffer.slice(open, close + CALL_CLOSE.length), this.buffer.slice(open + CALL_OPEN.length, close));
+      this.buffer = this.buffer.slice(close + CALL_CLOSE.length);
+    }
+  }
+
+  /**
+   * End of stream: a call missing only its closing tag still counts. With
+   * `dropTrailing`, text after the last call is discarded — models that keep
+   * going past a call tend to invent its result.
+   */
+  flush(dropTrailing: boolean): ChatChunk[] {
+    const out: ChatChunk[] = [];
+    if (this.buffer.startsWith(CALL_OPEN)) {
+      this.emitCall(out, this.buffer, this.buffer.slice(CALL_OPEN.length));
+    } else {
+      this.emitText(out, this.buffer);
+    }
+    if (this.trailing && !dropTrailing) out.push({ type: "text_delta", text: this.trailing });
+    this.buffer = "";
+    this.trailing = "";
+    return out;
+  }
+
+  private emitText(out: ChatChunk[], text: string): void {
+    if (!text) return;
+    if (this.calls > 0) {
+      this.trailing += text;
+    } else {
+      out.push({ type: "text_delta", text });
+    }
+  }
+
+  /** Malformed calls are kept as text so the reply is not silently lost. */
+  private emitCall(out: ChatChunk[], raw: string, body: string): void {
+    const call = parseCall(body);
+    if (call) {
+      if (this.trailing) out.push({ type: "text_delta", text: this.trailing });
+      this.trailing = "";
+      out.push({ type: "tool_call", id: `${this.idPrefix}_${++this.calls}`, name: call.name, input: call.input });
+    } else {
+      this.emitText(out, raw);
+    }
+  }
+}
+
+/**
+ * Chat with tools described in the system prompt instead of sent natively.
+ * The provider is called without `tools`; calls found in its text are yielded
+ * as `tool_call` chunks and the turn stops with `tool_use`.
+ */
+export async function* chatWithEmulatedTools(
+  provider: ProviderAdapter,
+  request: ChatRequest,
+): AsyncGenerator<ChatChunk> {
+  const tools = request.tools ?? [];
+  const systemPrompt = [request.systemPrompt, toolsPrompt(tools)].filter(Boolean).join("\n\n");
+  // History grows every turn, so its length keeps IDs unique within a conversation
+  const parser = new CallParser(`call_${request.messages.length}`);
+  let calledTool = false;
+
+  const chunks = provider.chat({
+    ...request,
+    systemPrompt,
+    messages: convertMessages(request.messages),
+    tools: undefined,
+  });
+  for await (const chunk of chunks) {
+    if (chunk.type === "text_delta") {
+      for (const parsed of parser.push(chunk.text)) {
+        if (parsed.type === "tool_call") calledTool = true;
+        yield parsed;
+      }
+      continue;
+    }
+    if (chunk.type === "done") {
+      for (const parsed of parser.flush(chunk.stopReason !== "max_tokens")) {
+        if (parsed.type === "tool_call") calledTool = true;
+        yield parsed;
+      }
+      yield { type: "done", stopReason: calledTool && chunk.stopReason !== "max_tokens" ? "tool_use" : chunk.stopReason };
+      continue;
+    }
+    if (chunk.type === "tool_call") calledTool = true;
+    yield chunk;
+  }
+}
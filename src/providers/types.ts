@@ -29,15 +29,59 @@ export type NormalizedToolUseContent = {
   input: unknown;
 };
 
+export type NormalizedThinkingContent = {
+  type: "thinking";
+  thinking: string;
+  /** Returned unchanged on later requests (Anthropic signature, OpenAI encrypted reasoning) */
+  signature?: string;
+  /** Provider item ID (OpenAI reasoning items) */
+  id?: string;
+  /** Adapter that produced the block; other providers do not receive it */
+  provider?: string;
+};
+
+export type NormalizedRedactedThinkingContent = {
+  type: "redacted_thinking";
+  /** Encrypted thinking, returned unchanged */
+  data: string;
+  provider?: string;
+};
+
+export type NormalizedImageContent = {
+  type: "image";
+  source: {
+    type: "base64";
+    /** e.g. "image/png" */
+    media_type: string;
+    data: string;
+  };
+};
+
+/** A whole document sent natively to providers that support `pdf_input` */
+export type NormalizedDocumentContent = {
+  type: "document";
+  source: {
+    type: "base64";
+    /** "application/pdf" */
+    media_type: string;
+    data: string;
+  };
+};
+
 export type NormalizedToolResultContent = {
   type: "tool_result";
   tool_use_id: string;
-  content: string;
+  /** Plain text, or text, image and document blocks */
+  content: string | (NormalizedTextContent | NormalizedImageContent | NormalizedDocumentContent)[];
   is_error?: boolean;
 };
 
 export type NormalizedContent =
   | NormalizedTextContent
+  | NormalizedThinkingContent
+  | NormalizedRedactedThinkingContent
+  | NormalizedImageContent
+  | NormalizedDocumentContent
   | NormalizedToolUseContent
   | NormalizedToolResultContent;
 
@@ -46,8 +90,37 @@ export type NormalizedMessage = {
   content: NormalizedContent[] | string;
 };
 
+/** Text of a tool result; image and document blocks are left out. */
+export function toolResultText(content: NormalizedToolResultContent["content"]): string {
+  if (typeof content === "string") return content;
+  return content
+    .filter((block): block is NormalizedTextContent => block.type === "text")
+    .map((block) => block.text)
+    .join("\n");
+}
+
+/** Image blocks of a tool result. */
+export function toolResultImages(content: NormalizedToolResultContent["content"]): NormalizedImageContent[] {
+  if (typeof content === "string") return [];
+  return content.filter((block): block is NormalizedImageContent => block.type === "image");
+}
+
+/** Document blocks of a tool result. */
+export function toolResultDocuments(content: NormalizedToolResultContent["content"]): NormalizedDocumentContent[] {
+  if (typeof content === "string") return [];
+  return content.filter((block): block is NormalizedDocumentContent => block.type === "document");
+}
+
 // ─── Chat Request ───────────────────────────────────────────────────────────
 
+/** Cache breakpoints for providers that need them marked explicitly (Anthropic). */
+export type PromptCachingConfig = {
+  /** Whether cache breakpoints are added to requests. Default: true */
+  enabled?: boolean;
+  /** Lifetime of cached prefixes. Writes to the 1h cache cost more. Default: "5m" */
+  ttl?: "5m" | "1h";
+};
+
 export type ChatRequest = {
   model: string;
   messages: NormalizedMessage[];
@@ -59,6 +132,7 @@ export type ChatRequest = {
   thinking?: ThinkingConfig;
   effort?: Effort;
   outputFormat?: OutputFormat;
+  promptCaching?: PromptCachingConfig;
   signal?: AbortSignal;
   /**
    * Provider-specific native tools (e.g. Anthropic's memory_20250818).
@@ -74,9 +148,16 @@ export type StopReason = "end_turn" | "tool_use" | "max_tokens" | "stop_sequence
 
 export type ChatChunk =
   | { type: "text_delta"; text: string }
-  | { type: "tool_call"; id: string; name: string; input: unknown }
+  /** `incomplete` when the input JSON was cut off (or otherwise failed to parse); `input` is then `{}` */
+  | { type: "tool_call"; id: string; name: string; input: unknown; incomplete?: boolean }
   | { type: "thinking_delta"; text: string }
+  /** A completed thinking block, emitted once its signature is known */
+  | { type: "thinking_block"; block: NormalizedThinkingContent | NormalizedRedactedThinkingContent }
   | { type: "usage"; usage: TokenUsage }
+  /** Final answer from the provider's structured output mode, already parsed; its JSON is also streamed as text */
+  | { type: "structured_output"; value: unknown }
+  /** Model that served the request when it differs from `ChatRequest.model` (routing providers); usage and cost are attributed to it */
+  | { type: "model"; model: string }
   | { type: "done"; stopReason: StopReason };
 
 // ─── Provider Features ──────────────────────────────────────────────────────
@@ -89,6 +170,14 @@ export type ProviderFeature =
   | "image_input"
   | "pdf_input";
 
+// ─── Token Counting ─────────────────────────────────────────────────────────
+
+export type TokenCount = {
+  inputTokens: number;
+  /** "count_tokens" when the provider's API counted the request, "estimate" for the character heuristic */
+  source: "count_tokens" | "estimate";
+};
+
 // ─── Model Info ─────────────────────────────────────────────────────────────
 
 export type ModelInfo = {
@@ -108,6 +197,9 @@ export interface ProviderAdapter {
   chat(request: ChatRequest): AsyncGenerator<ChatChunk>;
   calculateCost(model: string, usage: TokenUsage): number;
   getContextWindow(model: string): number;
-  supportsFeature(feature: ProviderFeature): boolean;
+  /** `model` lets adapters whose features differ per model answer for that model */
+  supportsFeature(feature: ProviderFeature, model?: string): boolean;
+  /** Input tokens the request would use; adapters without a counting endpoint estimate them. */
+  countTokens?(request: ChatRequest): Promise<TokenCount>;
   listModels?(): Promise<ModelInfo[]>;
 }
@@ -12,6 +12,7 @@ import type {
   RewindFilesResult,
   McpSetServersResult,
   SDKUserMessage,
+  ContextUsage,
 } from "./types.ts";
 import type { ModelInfo } from "./providers/types.ts";
 import type { McpServerConfig, McpServerStatus } from "./mcp/types.ts";
@@ -26,10 +27,13 @@ export type QueryControlHandlers = {
   mcpServerStatus?: () => Promise<McpServerStatus[]>;
   accountInfo?: () => Promise<AccountInfo>;
   rewindFiles?: (userMessageId: string, options?: { dryRun?: boolean }) => Promise<RewindFilesResult>;
+  getContextUsage?: () => Promise<ContextUsage>;
   reconnectMcpServer?: (serverName: string) => Promise<void>;
   toggleMcpServer?: (serverName: string, enabled: boolean) => Promise<void>;
   setMcpServers?: (servers: Record<string, McpServerConfig>) => Promise<McpSetServersResult>;
   streamInput?: (stream: AsyncIterable<SDKUserMessage>) => Promise<void>;
+  /** Interrupt the running turn; without it, interrupt() aborts the whole query */
+  interrupt?: () => Promise<void>;
 };
 
 function unsupported(methodName: string): Promise<never> {
@@ -47,7 +51,11 @@ export function createQuery(
   const query: Query = {
     // AsyncGenerator protocol
     next: generator.next.bind(generator),
-    return: generator.return.bind(generator),
+    // Ending the query also stops taking streamed input
+    return(value) {
+      abortController.abort();
+      return generator.return(value);
+    },
     throw: generator.throw.bind(generator),
 
     // AsyncIterable protocol
@@ -57,6 +65,7 @@ export function createQuery(
 
     // Control methods
     async interrupt() {
+      if (controls?.interrupt) return controls.interrupt();
       abortController.abort();
     },
 
@@ -105,6 +114,11 @@ export function createQuery(
       return controls.rewindFiles(userMessageId, options);
     },
 
+    async getContextUsage() {
+      if (!controls?.getContextUsage) return unsupported("getContextUsage");
+      return controls.getContextUsage();
+    },
+
     async reconnectMcpServer(serverName) {
       if (!controls?.reconnectMcpServer) return unsupported("reconnectMcpServer");
       await controls.reconnectMcpServer(serverName);
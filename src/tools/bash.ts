@@ -2,11 +2,85 @@
  * Bash tool — shell command execution.
  */
 
+import type { Subprocess } from "bun";
 import type { ToolImplementation, ToolResult, ToolContext } from "./registry.ts";
 
 const DEFAULT_TIMEOUT = 120_000;
 const MAX_TIMEOUT = 600_000;
 const MAX_OUTPUT_LENGTH = 30_000;
+const KILL_GRACE_MS = 2_000;
+
+/**
+ * Read a process stream to completion, reporting each chunk of complete
+ * lines to `onLines` as it arrives. Only the first MAX_OUTPUT_LENGTH + 1
+ * characters are kept, enough for truncateOutput; the rest is discarded.
+ */
+async function readOutput(
+  stream: ReadableStream<Uint8Array>,
+  onLines?: (lines: string) => void,
+): Promise<string> {
+  const decoder = new TextDecoder();
+  let output = "";
+  let pending = "";
+
+  const keep = (text: string) => {
+    if (output.length <= MAX_OUTPUT_LENGTH) output += text.slice(0, MAX_OUTPUT_LENGTH + 1 - output.length);
+  };
+
+  for await (const chunk of stream) {
+    const text = decoder.decode(chunk, { stream: true });
+    keep(text);
+    if (!onLines) continue;
+
+    pending += text;
+    const lastNewline = pending.lastIndexOf("\n");
+    if (lastNewline !== -1) {
+      onLines(pending.slice(0, lastNewline));
+      pending = pending.slice(lastNewline + 1);
+    } else if (pending.length > MAX_OUTPUT_LENGTH) {
+      // A very long line is reported in pieces rather than buffered whole
+      onLines(pending);
+      pending = "";
+    }
+  }
+
+  const rest = decoder.decode();
+  keep(rest);
+  pending += rest;
+  if (onLines && pending) onLines(pending);
+
+  return output;
+}
+
+function truncateOutput(output: string): string {
+  if (output.length <= MAX_OUTPUT_LENGTH) return output;
+  return output.slice(0, MAX_OUTPUT_LENGTH) + "\n... (output truncated)";
+}
+
+/**
+ * Stop a detached command and everything it spawned: SIGTERM to the process
+ * group, then SIGKILL if it is still running after a grace period.
+ */
+function killProcessGroup(proc: Subprocess): void {
+  const signalGroup = (signal: NodeJS.Signals) => {
+    try {
+      process.kill(-proc.pid, signal);
+    } catch {
+      // Group already gone, or not a group leader — fall back to the shell itself
+      if (proc.exitCode === null) {
+        try {
+          proc.kill(signal);
+        } catch {}
+      }
+    }
+  };
+
+  signalGroup("SIGTERM");
+  // Children may outlive the shell (and hold its output pipes), so escalate
+  // against the whole group even if the shell itself already exited
+  const escalate = setTimeout(() => signalGroup("SIGKILL"), KILL_GRACE_MS);
+  escalate.unref?.();
+}
 
 export const BashTool: ToolImplementation = {
   name: "Bash",
@@ -91,35 +165,56 @@ export const BashTool: ToolImplementation = {
         };
       }
 
+      if (ctx.signal.aborted) {
+        return { content: "Command was not run: interrupted.", isError: true };
+      }
+
+      // Own process group, so timeout and interrupt also stop child processes
       const proc = Bun.spawn(["bash", "-c", command], {
         cwd: ctx.cwd,
         stdout: "pipe",
         stderr: "pipe",
         env: { ...process.env, ...ctx.env },
+        detached: true,
       });
 
-      // Set up timeout
+      let timedOut = false;
       const timeoutId = setTimeout(() => {
-        proc.kill();
+        timedOut = true;
+        killProcessGroup(proc);
       }, timeout);
+      const onAbort = () => killProcessGroup(proc);
+      ctx.signal.addEventListener("abort", onAbort, { once: true });
 
-      const [stdout, stderr] = await Promise.all([
-        new Response(proc.stdout).text(),
-        new Response(proc.stderr).text(),
-      ]);
-
-      const exitCode = await proc.exited;
-      clearTimeout(timeoutId);
+      let stdout: string;
+      let stderr: string;
+      let exitCode: number;
+      try {
+        [stdout, stderr] = await Promise.all([
+          readOutput(proc.stdout, ctx.onProgress),
+          readOutput(proc.stderr, ctx.onProgress),
+        ]);
+        exitCode = await proc.exited;
+      } finally {
+        clearTimeout(timeoutId);
+        ctx.signal.removeEventListener("abort", onAbort);
+      }
 
       let output = "";
       if (stdout) output += stdout;
       if (stderr) output += (output ? "\n" : "") + stderr;
 
-      // Truncate if needed
-      if (output.length > MAX_OUTPUT_LENGTH) {
-        output = output.slice(0, MAX_OUTPUT_LENGTH) + "\n... (output truncated)";
+      if (ctx.signal.aborted || timedOut) {
+        const reason = timedOut ? `Command timed out after ${timeout}ms` : "Command interrupted";
+        return {
+          content: output ? `${truncateOutput(output).trimEnd()}\n[${reason}]` : `[${reason}]`,
+          isError: true,
+          metadata: { exitCode, interrupted: !timedOut, timedOut },
+        };
       }
 
+      output = truncateOutput(output);
+
       if (!output) {
         output = exitCode === 0
           ? "(no output)"
@@ -103,6 +103,7 @@ export const EditTool: ToolImplementation = {
         newContent = content.slice(0, idx) + new_string + content.slice(idx + old_string.length);
       }
 
+      ctx.fileCheckpoints?.snapshot(resolvedPath);
       await Bun.write(resolvedPath, newContent);
 
       const replacements = replace_all ? count : 1;
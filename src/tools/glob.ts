@@ -44,6 +44,9 @@ export const GlobTool: ToolImplementation = {
       const matches: { path: string; mtime: number }[] = [];
 
       for await (const filePath of glob.scan({ cwd: searchDir, dot: false })) {
+        if (ctx.signal.aborted) {
+          return { content: "Search interrupted.", isError: true };
+        }
         try {
           const file = Bun.file(`${searchDir}/${filePath}`);
           const stat = await file.stat();
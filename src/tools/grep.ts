@@ -124,12 +124,17 @@ async function runRipgrep(
     stdout: "pipe",
     stderr: "pipe",
     env: { ...process.env, ...ctx.env },
+    signal: ctx.signal,
   });
 
   const stdout = await new Response(proc.stdout).text();
   const stderr = await new Response(proc.stderr).text();
   const exitCode = await proc.exited;
 
+  if (ctx.signal.aborted) {
+    return { content: "Search interrupted.", isError: true };
+  }
+
   // rg returns 1 for no matches, 2 for errors
   if (exitCode === 2) {
     throw new Error(stderr || "ripgrep error");
@@ -166,6 +171,10 @@ async function runJsGrep(
   let totalCount = 0;
 
   for (const filePath of files) {
+    if (ctx.signal.aborted) {
+      return { content: "Search interrupted.", isError: true };
+    }
+
     try {
       const content = await Bun.file(filePath).text();
       const lines = content.split("\n");
@@ -8,6 +8,7 @@ import type { McpClientManager } from "../mcp/client.ts";
 export function createListMcpResourcesTool(mcpClient: McpClientManager): ToolImplementation {
   return {
     name: "mcp__list_resources",
+    readOnly: true,
     description: "List available resources from MCP servers.",
     inputSchema: {
       type: "object",
@@ -40,6 +41,7 @@ export function createListMcpResourcesTool(mcpClient: McpClientManager): ToolImp
 export function createReadMcpResourceTool(mcpClient: McpClientManager): ToolImplementation {
   return {
     name: "mcp__read_resource",
+    readOnly: true,
     description: "Read a specific resource from an MCP server by URI.",
     inputSchema: {
       type: "object",
@@ -81,6 +81,7 @@ export const NotebookEditTool: ToolImplementation = {
       const cell = notebook.cells[targetIndex];
       cell.source = toSourceLines(new_source);
 
+      ctx.fileCheckpoints?.snapshot(filePath);
       await writeFile(filePath, JSON.stringify(notebook, null, 2) + "\n", "utf-8");
 
       return {
@@ -1,17 +1,42 @@
 /**
- * Read tool — file reading with line numbers.
+ * Read tool — file reading with line numbers. Image files are returned as
+ * image blocks so multimodal models can see them; PDFs are sent as documents
+ * or, per page, as extracted text.
  */
 
 import type { ToolImplementation, ToolResult, ToolContext } from "./registry.ts";
+import { PdfDocument, parsePageRanges } from "../utils/pdf.ts";
 
 const MAX_LINE_LENGTH = 2_000;
 const DEFAULT_LINE_LIMIT = 2_000;
 
+/** Largest image sent to the model (the Anthropic API rejects base64 images over 5 MB). */
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/** Most PDF pages returned by one call. */
+export const MAX_PDF_PAGES_PER_READ = 20;
+
+/** Largest PDF sent as a document (base64 adds a third; API requests are capped at 32 MB). */
+export const MAX_PDF_BYTES = 20 * 1024 * 1024;
+
+/** Largest PDF read at all (the whole file is held in memory, plus a latin1 copy while parsing). */
+export const MAX_PDF_READ_BYTES = 100 * 1024 * 1024;
+
+const IMAGE_MEDIA_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+};
+
 export const ReadTool: ToolImplementation = {
   name: "Read",
   description:
     "Reads a file from the filesystem. Returns content with line numbers (cat -n format). " +
-    "Supports offset/limit for large files. Lines longer than 2000 chars are truncated.",
+    "Supports offset/limit for large files. Lines longer than 2000 chars are truncated. " +
+    "Image files (PNG, JPEG, GIF, WebP) are returned as images. " +
+    `PDFs are read page by page; use pages for PDFs over ${MAX_PDF_PAGES_PER_READ} pages.`,
   inputSchema: {
     type: "object",
     properties: {
@@ -28,9 +53,8 @@ export const ReadTool: ToolImplementation = {
         description: "Number of lines to read",
       },
       pages: {
-        type: "array",
-        items: { type: "number" },
-        description: "Optional PDF page numbers (1-based).",
+        type: "string",
+        description: `Page range for PDF files, e.g. "1-5", "3" or "1-3,7". At most ${MAX_PDF_PAGES_PER_READ} pages per call.`,
       },
     },
     required: ["file_path"],
@@ -41,7 +65,7 @@ export const ReadTool: ToolImplementation = {
       file_path: string;
       offset?: number;
       limit?: number;
-      pages?: number[];
+      pages?: string | number[];
     };
 
     if (!file_path) {
@@ -58,11 +82,13 @@ export const ReadTool: ToolImplementation = {
         return { content: `Error: File not found: ${resolvedPath}`, isError: true };
       }
 
-      if (Array.isArray(pages) && pages.length > 0 && resolvedPath.toLowerCase().endsWith(".pdf")) {
-        return {
-          content: "Error: PDF page extraction is not implemented in this runtime.",
-          isError: true,
-        };
+      if (resolvedPath.toLowerCase().endsWith(".pdf")) {
+        return readPdf(file, resolvedPath, pages, ctx);
+      }
+
+      const mediaType = imageMediaType(resolvedPath);
+      if (mediaType) {
+        return readImage(file, resolvedPath, mediaType);
       }
 
       const text = await file.text();
@@ -90,6 +116,102 @@ export const ReadTool: ToolImplementation = {
   },
 };
 
+function imageMediaType(path: string): string | undefined {
+  const ext = path.slice(path.lastIndexOf(".") + 1).toLowerCase();
+  return IMAGE_MEDIA_TYPES[ext];
+}
+
+async function readImage(file: ReturnType<typeof Bun.file>, path: string, mediaType: string): Promise<ToolResult> {
+  if (file.size > MAX_IMAGE_BYTES) {
+    return {
+      content: `Error: Image is too large (${formatBytes(file.size)}); the limit is ${formatBytes(MAX_IMAGE_BYTES)}.`,
+      isError: true,
+    };
+  }
+  const data = Buffer.from(await file.arrayBuffer()).toString("base64");
+  return {
+    content: `Image file: ${path} (${mediaType}, ${formatBytes(file.size)})`,
+    images: [{ type: "image", source: { type: "base64", media_type: mediaType, data } }],
+  };
+}
+
+async function readPdf(
+  file: ReturnType<typeof Bun.file>,
+  path: string,
+  pages: string | number[] | undefined,
+  ctx: ToolContext,
+): Promise<ToolResult> {
+  if (file.size > MAX_PDF_READ_BYTES) {
+    return {
+      content: `Error: PDF is too large (${formatBytes(file.size)}); the limit is ${formatBytes(MAX_PDF_READ_BYTES)}.`,
+      isError: true,
+    };
+  }
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let doc: PdfDocument;
+  try {
+    doc = new PdfDocument(bytes);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { content: `Error: Could not read PDF: ${message}`, isError: true };
+  }
+
+  const hasPages = typeof pages === "string" ? pages.trim() !== "" : Array.isArray(pages) && pages.length > 0;
+  const pageCount = `${doc.pageCount} page${doc.pageCount === 1 ? "" : "s"}`;
+  const header = `PDF file: ${path} (${pageCount}, ${formatBytes(file.size)})`;
+
+  // Whole documents go to the model natively when the provider reads PDFs
+  if (
+    !hasPages
+    && ctx.supportsFeature?.("pdf_input") === true
+    && file.size <= MAX_PDF_BYTES
+    && doc.pageCount <= MAX_PDF_PAGES_PER_READ
+  ) {
+    return {
+      content: header,
+      documents: [{
+        type: "document",
+        source: { type: "base64", media_type: "application/pdf", data: Buffer.from(bytes).toString("base64") },
+      }],
+    };
+  }
+
+  let selected: number[];
+  try {
+    if (!hasPages) {
+      if (doc.pageCount > MAX_PDF_PAGES_PER_READ) {
+        return {
+          content: `Error: ${header} is too long to read at once. `
+            + `Pass pages (e.g. "1-${MAX_PDF_PAGES_PER_READ}") to read at most ${MAX_PDF_PAGES_PER_READ} pages per call.`,
+          isError: true,
+        };
+      }
+      selected = Array.from({ length: doc.pageCount }, (_, i) => i + 1);
+    } else {
+      selected = parsePageRanges(Array.isArray(pages) ? pages.join(",") : pages!, doc.pageCount);
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { content: `Error: ${message}`, isError: true };
+  }
+
+  if (selected.length > MAX_PDF_PAGES_PER_READ) {
+    return {
+      content: `Error: ${selected.length} pages requested; at most ${MAX_PDF_PAGES_PER_READ} pages can be read per call.`,
+      isError: true,
+    };
+  }
+
+  const sections = selected.map((page) => `--- Page ${page} ---\n${doc.pageText(page) || "(no extractable text)"}`);
+  return { content: `${header}\n\n${sections.join("\n\n")}` };
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 function resolvePath(filePath: string, cwd: string): string {
   if (filePath.startsWith("/")) return filePath;
   return `${cwd}/${filePath}`;
@@ -2,12 +2,22 @@
  * Tool registry — registration, discovery, and execution.
  */
 
-import type { ToolDefinition } from "../providers/types.ts";
+import type {
+  ToolDefinition,
+  NormalizedImageContent,
+  NormalizedDocumentContent,
+  ProviderFeature,
+} from "../providers/types.ts";
+import type { FileCheckpointManager } from "../utils/file-checkpoints.ts";
 
 // ─── Tool Types ─────────────────────────────────────────────────────────────
 
 export type ToolResult = {
   content: string;
+  /** Images sent to the model with the text, e.g. a screenshot read from disk */
+  images?: NormalizedImageContent[];
+  /** Documents sent natively, e.g. a PDF when the provider supports `pdf_input` */
+  documents?: NormalizedDocumentContent[];
   isError?: boolean;
   metadata?: Record<string, unknown>;
 };
@@ -17,12 +27,22 @@ export type ToolContext = {
   signal: AbortSignal;
   sessionId: string;
   env?: Record<string, string>;
+  /** Set when file checkpointing is enabled; call snapshot() before modifying a file */
+  fileCheckpoints?: FileCheckpointManager;
+  /** Report incremental progress text; forwarded as a `tool_progress` message */
+  onProgress?: (progress: string) => void;
+  /** Whether the active provider supports a feature (e.g. `pdf_input`) */
+  supportsFeature?: (feature: ProviderFeature) => boolean;
 };
 
 export type ToolImplementation = {
   name: string;
   description: string;
   inputSchema: Record<string, unknown>;
+  /** Tool has no side effects; calls may run concurrently with other read-only calls */
+  readOnly?: boolean;
+  /** MCP server that provides the tool */
+  mcpServer?: string;
   execute(input: unknown, ctx: ToolContext): Promise<ToolResult>;
 };
 
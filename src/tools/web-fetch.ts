@@ -2,7 +2,7 @@
  * WebFetch tool.
  */
 
-import type { ToolImplementation, ToolResult } from "./registry.ts";
+import type { ToolImplementation, ToolResult, ToolContext } from "./registry.ts";
 
 const DEFAULT_TIMEOUT_MS = 20_000;
 const MAX_OUTPUT = 80_000;
@@ -33,7 +33,7 @@ export const WebFetchTool: ToolImplementation = {
     required: ["url"],
   },
 
-  async execute(input: unknown): Promise<ToolResult> {
+  async execute(input: unknown, ctx: ToolContext): Promise<ToolResult> {
     const { url, timeout_ms, max_length } = (input ?? {}) as {
       url?: string;
       timeout_ms?: number;
@@ -51,7 +51,7 @@ export const WebFetchTool: ToolImplementation = {
     try {
       const res = await fetch(url, {
         method: "GET",
-        signal: controller.signal,
+        signal: AbortSignal.any([controller.signal, ctx.signal]),
         headers: {
           "user-agent": "fourmis-agent-sdk/1.0",
         },
@@ -73,6 +73,9 @@ export const WebFetchTool: ToolImplementation = {
         isError: res.ok ? undefined : true,
       };
     } catch (err) {
+      if (ctx.signal.aborted) {
+        return { content: "Fetch interrupted.", isError: true };
+      }
       const message = err instanceof Error ? err.message : String(err);
       return { content: `Error fetching URL: ${message}`, isError: true };
     } finally {
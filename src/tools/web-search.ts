@@ -3,7 +3,7 @@
  * Uses DuckDuckGo HTML endpoint for lightweight public web search.
  */
 
-import type { ToolImplementation, ToolResult } from "./registry.ts";
+import type { ToolImplementation, ToolResult, ToolContext } from "./registry.ts";
 
 const SEARCH_ENDPOINT = "https://duckduckgo.com/html/";
 
@@ -36,7 +36,7 @@ export const WebSearchTool: ToolImplementation = {
     required: ["query"],
   },
 
-  async execute(input: unknown): Promise<ToolResult> {
+  async execute(input: unknown, ctx: ToolContext): Promise<ToolResult> {
     const { query, max_results } = (input ?? {}) as {
       query?: string;
       max_results?: number;
@@ -51,6 +51,7 @@ export const WebSearchTool: ToolImplementation = {
     try {
       const url = `${SEARCH_ENDPOINT}?q=${encodeURIComponent(query)}`;
       const res = await fetch(url, {
+        signal: ctx.signal,
         headers: {
           "user-agent": "fourmis-agent-sdk/1.0",
         },
@@ -79,6 +80,9 @@ export const WebSearchTool: ToolImplementation = {
 
       return { content: lines.join("\n") };
     } catch (err) {
+      if (ctx.signal.aborted) {
+        return { content: "Search interrupted.", isError: true };
+      }
       const message = err instanceof Error ? err.message : String(err);
       return { content: `Error searching web: ${message}`, isError: true };
     }
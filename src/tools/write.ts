@@ -46,6 +46,7 @@ export const WriteTool: ToolImplementation = {
       const dir = dirname(resolvedPath);
       await mkdir(dir, { recursive: true });
 
+      ctx.fileCheckpoints?.snapshot(resolvedPath);
       await Bun.write(resolvedPath, content);
 
       const lines = content.split("\n").length;
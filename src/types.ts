@@ -123,19 +123,64 @@ export type ToolUseContent = {
   input: unknown;
 };
 
+export type ThinkingContent = {
+  type: "thinking";
+  thinking: string;
+  /** Returned unchanged on later requests (Anthropic signature, OpenAI encrypted reasoning) */
+  signature?: string;
+  /** Provider item ID (OpenAI reasoning items) */
+  id?: string;
+  /** Provider that produced the block; other providers do not receive it */
+  provider?: string;
+};
+
+export type RedactedThinkingContent = {
+  type: "redacted_thinking";
+  data: string;
+  provider?: string;
+};
+
+export type ImageContent = {
+  type: "image";
+  source: {
+    type: "base64";
+    media_type: string;
+    data: string;
+  };
+};
+
+export type DocumentContent = {
+  type: "document";
+  source: {
+    type: "base64";
+    media_type: string;
+    data: string;
+  };
+};
+
 export type ToolResultContent = {
   type: "tool_result";
   tool_use_id: string;
-  content: string;
+  content: string | (TextContent | ImageContent | DocumentContent)[];
   is_error?: boolean;
 };
 
-export type ContentBlock = TextContent | ToolUseContent;
+export type ContentBlock = TextContent | ThinkingContent | RedactedThinkingContent | ToolUseContent;
 
 // ─── Claude SDK-Compatible Messages ─────────────────────────────────────────
 
 export type ApiKeySource = "user" | "project" | "org" | "temporary";
-export type SDKStatus = "compacting" | null;
+export type SDKStatus = "compacting" | "retrying" | null;
+
+/** Details of a provider retry, attached to `status: "retrying"` messages. */
+export type SDKRetryInfo = {
+  /** 1-based retry number */
+  attempt: number;
+  max_retries: number;
+  delay_ms: number;
+  error: NonNullable<SDKAssistantMessage["error"]>;
+  message: string;
+};
 
 export type SDKSystemMessage = {
   type: "system";
@@ -162,6 +207,7 @@ export type SDKStatusMessage = {
   subtype: "status";
   status: SDKStatus;
   permissionMode?: PermissionMode;
+  retry?: SDKRetryInfo;
   uuid: string;
   session_id: string;
 };
@@ -189,7 +235,7 @@ export type SDKUserMessage = {
   type: "user";
   message: {
     role: "user";
-    content: ToolResultContent[] | TextContent[] | string;
+    content: ToolResultContent[] | (TextContent | ImageContent | DocumentContent)[] | string;
   } & Record<string, unknown>;
   parent_tool_use_id: string | null;
   isSynthetic?: boolean;
@@ -222,6 +268,8 @@ export type SDKToolProgressMessage = {
   tool_name: string;
   parent_tool_use_id: string | null;
   elapsed_time_seconds: number;
+  /** Incremental output reported by the tool (e.g. Bash output lines, MCP progress) */
+  progress?: string;
   uuid: string;
   session_id: string;
 };
@@ -265,6 +313,24 @@ export type SDKCompactBoundaryMessage = {
   session_id: string;
 };
 
+/** Emitted when automatic compaction fails; auto-compaction stays off for the rest of the session. */
+export type SDKCompactFailedMessage = {
+  type: "system";
+  subtype: "compact_failed";
+  error: string;
+  uuid: string;
+  session_id: string;
+};
+
+/** Emitted after each model turn with the size of the request it answered, plus its reply. */
+export type SDKContextUsageMessage = {
+  type: "system";
+  subtype: "context_usage";
+  context_usage: ContextUsage;
+  uuid: string;
+  session_id: string;
+};
+
 export type SDKHookStartedMessage = {
   type: "system";
   subtype: "hook_started";
@@ -363,6 +429,8 @@ export type SDKMessage =
   | SDKSystemMessage
   | SDKStatusMessage
   | SDKCompactBoundaryMessage
+  | SDKCompactFailedMessage
+  | SDKContextUsageMessage
   | SDKHookStartedMessage
   | SDKHookProgressMessage
   | SDKHookResponseMessage
@@ -511,6 +579,16 @@ export type QueryOptions = {
   effort?: Effort;
   maxThinkingTokens?: number;
   outputFormat?: OutputFormat;
+  /**
+   * Corrective turns allowed when the final output is not valid JSON or does not
+   * match outputFormat.schema, before failing with error_max_structured_output_retries. Default: 2
+   */
+  maxStructuredOutputRetries?: number;
+  /**
+   * Continuation turns requested when a response stops at the output token limit.
+   * When exhausted, the last assistant message has `error: "max_output_tokens"`. Default: 3
+   */
+  maxOutputContinuations?: number;
   betas?: SdkBeta[];
   executable?: "bun" | "deno" | "node";
   executableArgs?: string[];
@@ -523,6 +601,13 @@ export type QueryOptions = {
   allowedTools?: string[];
   disallowedTools?: string[];
   permissionPromptToolName?: string;
+  /**
+   * Max read-only tool calls (Read, Glob, Grep, read-only MCP tools, ...)
+   * run concurrently within one turn. Default: 10. Set to 1 to run all calls serially.
+   */
+  maxToolConcurrency?: number;
+  /** Interval between `tool_progress` heartbeats while tools run. Default: 1000 */
+  toolProgressIntervalMs?: number;
 
   // Permissions
   permissionMode?: PermissionMode;
@@ -534,7 +619,8 @@ export type QueryOptions = {
   sandbox?: SandboxSettings;
 
   // Session persistence
-  persistSession?: boolean;     // default true — save to ~/.claude/projects/
+  persistSession?: boolean;     // default true — save to the session store
+  sessionStore?: import("./utils/session-store.ts").SessionStore; // default: JSONL under ~/.claude/projects/
   continue?: boolean;           // continue most recent session in cwd
   resume?: string;              // resume specific session by ID
   forkSession?: boolean;        // fork when resuming (new session, old messages as context)
@@ -544,6 +630,27 @@ export type QueryOptions = {
   // Streaming
   includePartialMessages?: boolean;
 
+  // Context compaction
+  /**
+   * Automatic compaction of older turns when the prompt nears the model's
+   * context window. Enabled by default; set `{ enabled: false }` to disable.
+   */
+  compaction?: import("./utils/compaction.ts").CompactionConfig;
+
+  // Provider retries
+  /**
+   * Backoff for retryable provider errors (rate limits, overloaded, 5xx).
+   * Each retry emits `status: "retrying"`. Set `{ maxRetries: 0 }` to disable.
+   */
+  retry?: import("./utils/retry.ts").RetryConfig;
+
+  // Prompt caching
+  /**
+   * Cache breakpoints on the system prompt, tools and recent turns (Anthropic).
+   * Enabled by default with a 5 minute TTL; set `{ enabled: false }` to disable.
+   */
+  promptCaching?: import("./providers/types.ts").PromptCachingConfig;
+
   // Hooks
   hooks?: Partial<Record<import("./hooks.ts").HookEvent, import("./hooks.ts").HookCallbackMatcher[]>>;
 
@@ -629,6 +736,37 @@ export type QueryInitializationResult = {
   account: AccountInfo;
 };
 
+// ─── Context Usage ──────────────────────────────────────────────────────────
+
+/**
+ * How full the context window is, by part of the request. Section figures are
+ * character-based estimates, scaled so they add up to `totalTokens`.
+ */
+export type ContextUsage = {
+  model: string;
+  contextWindow: number;
+  totalTokens: number;
+  /** totalTokens as a percentage of contextWindow */
+  percentage: number;
+  /**
+   * Where totalTokens comes from: the provider's token counting endpoint,
+   * the usage reported for the last turn, or the character heuristic
+   */
+  source: "count_tokens" | "usage" | "estimate";
+  categories: {
+    /** System prompt, without the skills and project instructions sections */
+    systemPrompt: number;
+    skills: number;
+    builtinTools: number;
+    mcpTools: number;
+    /** Project instructions (CLAUDE.md/AGENTS.md) and the memory tool definition */
+    memory: number;
+    messages: number;
+  };
+  /** MCP tool definition tokens per server */
+  mcpServers: Record<string, number>;
+};
+
 // ─── Query Interface ────────────────────────────────────────────────────────
 
 export interface Query extends AsyncIterable<AgentMessage> {
@@ -645,6 +783,7 @@ export interface Query extends AsyncIterable<AgentMessage> {
   mcpServerStatus(): Promise<import("./mcp/types.ts").McpServerStatus[]>;
   accountInfo(): Promise<AccountInfo>;
   rewindFiles(userMessageId: string, options?: { dryRun?: boolean }): Promise<RewindFilesResult>;
+  getContextUsage(): Promise<ContextUsage>;
   reconnectMcpServer(serverName: string): Promise<void>;
   toggleMcpServer(serverName: string, enabled: boolean): Promise<void>;
   setMcpServers(
@@ -0,0 +1,136 @@
+/**
+ * Context compaction — summarizes older turns when the conversation
+ * approaches the model's context window.
+ *
+ * The summary replaces everything before the first preserved assistant
+ * message, so tool_use/tool_result pairs in the preserved tail stay intact
+ * and the history keeps alternating user → assistant.
+ */
+
+import type { ProviderAdapter, NormalizedMessage } from "../providers/types.ts";
+import { toolResultText } from "../providers/types.ts";
+import type { TokenUsage } from "../types.ts";
+import { emptyTokenUsage, mergeUsage } from "../types.ts";
+
+export type CompactionConfig = {
+  /** Whether automatic compaction runs. Default: true */
+  enabled?: boolean;
+  /** Fraction of the context window that triggers compaction. Default: 0.8 */
+  threshold?: number;
+  /** Minimum number of trailing messages kept verbatim. Default: 4 */
+  preserveRecentMessages?: number;
+};
+
+export const DEFAULT_COMPACT_THRESHOLD = 0.8;
+export const DEFAULT_PRESERVE_RECENT_MESSAGES = 4;
+
+const SUMMARY_SYSTEM_PROMPT = `You are summarizing a conversation between a user and an AI coding agent so the agent can continue the work with a smaller context.
+
+Write a concise but complete summary that preserves:
+- The user's original request and any later changes to it
+- Key decisions, findings, and constraints discovered so far
+- Files that were read, created, or modified (with paths) and what changed
+- Errors encountered and how they were resolved
+- Work still pending and the next step the agent was about to take
+
+Respond with the summary only.`;
+
+export const COMPACT_SUMMARY_PREFIX = "This session is being continued from a previous conversation that ran out of context. The conversation is summarized below:";
+
+// ─── Compaction ─────────────────────────────────────────────────────────────
+
+/**
+ * Index of the first message kept verbatim, or -1 when nothing can be compacted.
+ * The preserved tail always starts at an assistant message.
+ */
+export function findCompactionSplit(messages: NormalizedMessage[], preserveRecent: number): number {
+  const limit = Math.max(1, messages.length - Math.max(0, preserveRecent));
+  for (let i = limit; i >= 1; i--) {
+    if (messages[i]?.role === "assistant") return i;
+  }
+  return -1;
+}
+
+function renderTranscript(messages: NormalizedMessage[]): string {
+  const lines: string[] = [];
+  for (const msg of messages) {
+    const label = msg.role === "user" ? "User" : "Assistant";
+    if (typeof msg.content === "string") {
+      lines.push(`${label}: ${msg.content}`);
+      continue;
+    }
+    for (const block of msg.content) {
+      switch (block.type) {
+        case "text":
+          lines.push(`${label}: ${block.text}`);
+          break;
+        case "image":
+          lines.push(`${label}: [image]`);
+          break;
+        case "document":
+          lines.push(`${label}: [document]`);
+          break;
+        case "tool_use":
+          lines.push(`${label} called tool ${block.name} with input: ${JSON.stringify(block.input ?? {})}`);
+          break;
+        case "tool_result":
+          lines.push(`Tool result${block.is_error ? " (error)" : ""}: ${toolResultText(block.content)}`);
+          break;
+      }
+    }
+  }
+  return lines.join("\n\n");
+}
+
+export type CompactionResult = {
+  summary: string;
+  /** Number of leading messages replaced by the summary */
+  replacedCount: number;
+  usage: TokenUsage;
+};
+
+/**
+ * Summarize messages[0..split) with the active provider.
+ */
+export async function summarizeMessages(params: {
+  provider: ProviderAdapter;
+  model: string;
+  messages: NormalizedMessage[];
+  split: number;
+  signal: AbortSignal;
+  customInstructions?: string;
+}): Promise<CompactionResult> {
+  const { provider, model, messages, split, signal, customInstructions } = params;
+  const transcript = renderTranscript(messages.slice(0, split));
+
+  const instructions = customInstructions
+    ? `${SUMMARY_SYSTEM_PROMPT}\n\nAdditional instructions:\n${customInstructions}`
+    : SUMMARY_SYSTEM_PROMPT;
+
+  const parts: string[] = [];
+  let usage = emptyTokenUsage();
+
+  for await (const chunk of provider.chat({
+    model,
+    messages: [{ role: "user", content: `Summarize this conversation:\n\n${transcript}` }],
+    systemPrompt: instructions,
+    signal,
+  })) {
+    if (chunk.type === "text_delta") {
+      parts.push(chunk.text);
+    } else if (chunk.type === "usage") {
+      usage = mergeUsage(usage, chunk.usage);
+    }
+  }
+
+  const summary = parts.join("").trim();
+  if (!summary) {
+    throw new Error("Compaction produced an empty summary");
+  }
+
+  return { summary, replacedCount: split, usage };
+}
+
+export function formatCompactSummary(summary: string): string {
+  return `${COMPACT_SUMMARY_PREFIX}\n\n${summary}`;
+}
@@ -0,0 +1,201 @@
+/**
+ * Context usage — how many tokens each part of a request takes, measured
+ * against the model's context window.
+ *
+ * The total comes from the provider when it can count tokens (or from the
+ * usage it reported for a turn). The split into sections is always a
+ * character estimate, scaled to that total.
+ */
+
+import type { NormalizedContent, NormalizedMessage, ProviderAdapter, ToolDefinition } from "../providers/types.ts";
+import { toolResultDocuments, toolResultImages, toolResultText } from "../providers/types.ts";
+import type { ToolRegistry } from "../tools/registry.ts";
+import type { ContextUsage } from "../types.ts";
+
+/** Rough characters-per-token ratio used when no provider count is available. */
+const CHARS_PER_TOKEN = 4;
+
+/** Flat per-image estimate; providers bill images by pixel size, capped near this. */
+const IMAGE_TOKENS = 1600;
+
+/** Flat per-document estimate: a 20-page PDF (Read's per-call cap) at ~2000 tokens a page. */
+const DOCUMENT_TOKENS = 40_000;
+
+/** Tool named like the memory function tool that non-Anthropic providers get. */
+const MEMORY_TOOL_NAME = "memory";
+
+// ─── Token estimation ───────────────────────────────────────────────────────
+
+function contentLength(content: NormalizedContent[] | string): number {
+  if (typeof content === "string") return content.length;
+  let total = 0;
+  for (const block of content) {
+    switch (block.type) {
+      case "text":
+        total += block.text.length;
+        break;
+      case "thinking":
+        total += block.thinking.length;
+        break;
+      case "tool_use":
+        total += block.name.length + JSON.stringify(block.input ?? {}).length;
+        break;
+      case "image":
+        total += IMAGE_TOKENS * CHARS_PER_TOKEN;
+        break;
+      case "document":
+        total += DOCUMENT_TOKENS * CHARS_PER_TOKEN;
+        break;
+      case "tool_result":
+        total += toolResultText(block.content).length
+          + toolResultImages(block.content).length * IMAGE_TOKENS * CHARS_PER_TOKEN
+          + toolResultDocuments(block.content).length * DOCUMENT_TOKENS * CHARS_PER_TOKEN;
+        break;
+    }
+  }
+  return total;
+}
+
+function toolLength(tool: ToolDefinition): number {
+  return tool.name.length + tool.description.length + JSON.stringify(tool.inputSchema).length;
+}
+
+/**
+ * Heuristic token estimate for a request (system prompt + tools + messages).
+ */
+export function estimateTokens(params: {
+  messages: NormalizedMessage[];
+  systemPrompt?: string;
+  tools?: ToolDefinition[];
+  nativeTools?: unknown[];
+}): number {
+  let chars = params.systemPrompt?.length ?? 0;
+  for (const tool of params.tools ?? []) {
+    chars += toolLength(tool);
+  }
+  for (const tool of params.nativeTools ?? []) {
+    chars += JSON.stringify(tool).length;
+  }
+  for (const msg of params.messages) {
+    chars += contentLength(msg.content);
+  }
+  return Math.ceil(chars / CHARS_PER_TOKEN);
+}
+
+// ─── Context usage ──────────────────────────────────────────────────────────
+
+export type ContextUsageParams = {
+  provider: ProviderAdapter;
+  model: string;
+  systemPrompt: string;
+  /** Skills section of systemPrompt, reported as its own category */
+  skillsPrompt?: string;
+  /** Project instructions (CLAUDE.md/AGENTS.md) section of systemPrompt, reported as memory */
+  memoryPrompt?: string;
+  tools: ToolRegistry;
+  nativeTools?: unknown[];
+  messages: NormalizedMessage[];
+};
+
+/**
+ * Split a request's tokens by section. `measured` is the provider's total for
+ * the request; without one the heuristic total is reported.
+ */
+export function breakdownContextUsage(
+  params: ContextUsageParams,
+  measured?: { tokens: number; source: ContextUsage["source"] },
+): ContextUsage {
+  const skills = params.skillsPrompt && params.systemPrompt.includes(params.skillsPrompt)
+    ? params.skillsPrompt.length
+    : 0;
+  const instructions = params.memoryPrompt && params.systemPrompt.includes(params.memoryPrompt)
+    ? params.memoryPrompt.length
+    : 0;
+  const chars = {
+    systemPrompt: params.systemPrompt.length - skills - instructions,
+    skills,
+    builtinTools: 0,
+    mcpTools: 0,
+    memory: instructions,
+    messages: 0,
+  };
+  const serverChars: Record<string, number> = {};
+
+  for (const name of params.tools.list()) {
+    const tool = params.tools.get(name)!;
+    const length = toolLength(tool);
+    if (tool.name === MEMORY_TOOL_NAME) {
+      chars.memory += length;
+    } else if (tool.mcpServer || tool.name.startsWith("mcp__")) {
+      chars.mcpTools += length;
+      if (tool.mcpServer) serverChars[tool.mcpServer] = (serverChars[tool.mcpServer] ?? 0) + length;
+    } else {
+      chars.builtinTools += length;
+    }
+  }
+  for (const tool of params.nativeTools ?? []) {
+    chars.memory += JSON.stringify(tool).length;
+  }
+  for (const msg of params.messages) {
+    chars.messages += contentLength(msg.content);
+  }
+
+  const totalChars = Object.values(chars).reduce((sum, n) => sum + n, 0);
+  const totalTokens = measured?.tokens ?? Math.ceil(totalChars / CHARS_PER_TOKEN);
+  const tokensPerChar = totalChars > 0 ? totalTokens / totalChars : 0;
+  const scale = (n: number) => Math.round(n * tokensPerChar);
+
+  const categories = {
+    systemPrompt: scale(chars.systemPrompt),
+    skills: scale(chars.skills),
+    builtinTools: scale(chars.builtinTools),
+    mcpTools: scale(chars.mcpTools),
+    memory: scale(chars.memory),
+    messages: 0,
+  };
+  // Messages absorb rounding and per-message overhead, so the sections add up
+  categories.messages = Math.max(
+    0,
+    totalTokens - categories.systemPrompt - categories.skills
+      - categories.builtinTools - categories.mcpTools - categories.memory,
+  );
+
+  const mcpServers: Record<string, number> = {};
+  for (const [server, n] of Object.entries(serverChars)) {
+    mcpServers[server] = scale(n);
+  }
+
+  const contextWindow = params.provider.getContextWindow(params.model);
+  return {
+    model: params.model,
+    contextWindow,
+    totalTokens,
+    percentage: contextWindow > 0 ? Math.round((totalTokens / contextWindow) * 1000) / 10 : 0,
+    source: measured?.source ?? "estimate",
+    categories,
+    mcpServers,
+  };
+}
+
+/**
+ * Count the request with the provider's token counter and break it down.
+ * Falls back to the heuristic when the adapter has no counter or the count fails.
+ */
+export async function measureContextUsage(params: ContextUsageParams, signal?: AbortSignal): Promise<ContextUsage> {
+  if (params.provider.countTokens) {
+    try {
+      const count = await params.provider.countTokens({
+        model: params.model,
+        messages: params.messages,
+        systemPrompt: params.systemPrompt,
+        tools: params.tools.getDefinitions(),
+        nativeTools: params.nativeTools,
+        signal,
+      });
+      return breakdownContextUsage(params, { tokens: count.inputTokens, source: count.source });
+    } catch {
+      // Counting is best-effort; the estimate below still answers the question
+    }
+  }
+  return breakdownContextUsage(params);
+}
@@ -0,0 +1,166 @@
+/**
+ * File checkpointing — snapshots original file contents per user turn so
+ * edits made by the agent can be rewound with Query.rewindFiles().
+ *
+ * Each checkpoint is keyed by the UUID of the user message that started the
+ * turn. A file is captured the first time a tool is about to modify it within
+ * that turn; `null` records that the file did not exist yet.
+ */
+
+import { readFileSync, writeFileSync, rmSync, mkdirSync, existsSync, statSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import type { RewindFilesResult } from "../types.ts";
+
+type Checkpoint = {
+  id: string;
+  files: Map<string, Buffer | null>;
+};
+
+function readSnapshot(filePath: string): Buffer | null {
+  try {
+    if (!existsSync(filePath) || statSync(filePath).isDirectory()) return null;
+    return readFileSync(filePath);
+  } catch {
+    return null;
+  }
+}
+
+function splitLines(content: Buffer | null): string[] {
+  if (!content || content.length === 0) return [];
+  const text = content.toString("utf-8");
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Count lines added and removed when going from `before` to `after`.
+ * Trims the common prefix/suffix, then compares the remaining lines as multisets.
+ */
+export function countLineChanges(before: Buffer | null, after: Buffer | null): { insertions: number; deletions: number } {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const remaining = new Map<string, number>();
+  for (let i = start; i < endA; i++) {
+    remaining.set(a[i], (remaining.get(a[i]) ?? 0) + 1);
+  }
+
+  let insertions = 0;
+  for (let i = start; i < endB; i++) {
+    const count = remaining.get(b[i]) ?? 0;
+    if (count > 0) {
+      remaining.set(b[i], count - 1);
+    } else {
+      insertions++;
+    }
+  }
+
+  let deletions = 0;
+  for (const count of remaining.values()) deletions += count;
+
+  return { insertions, deletions };
+}
+
+export class FileCheckpointManager {
+  private checkpoints: Checkpoint[] = [];
+  private current: Checkpoint | null = null;
+
+  /** Start a new checkpoint for the user message that begins a turn. */
+  begin(userMessageId: string): void {
+    this.current = { id: userMessageId, files: new Map() };
+    this.checkpoints.push(this.current);
+  }
+
+  /**
+   * Record a file's original contents before it is first modified in the
+   * current turn. No-op outside a turn or when the file is already captured.
+   */
+  snapshot(filePath: string): void {
+    if (!this.current) return;
+    const absPath = resolve(filePath);
+    if (this.current.files.has(absPath)) return;
+    this.current.files.set(absPath, readSnapshot(absPath));
+  }
+
+  has(userMessageId: string): boolean {
+    return this.checkpoints.some((c) => c.id === userMessageId);
+  }
+
+  /**
+   * Restore every file touched since `userMessageId` to its state before
+   * that message. With `dryRun`, only reports what would change.
+   */
+  rewind(userMessageId: string, options?: { dryRun?: boolean }): RewindFilesResult {
+    const index = this.checkpoints.findIndex((c) => c.id === userMessageId);
+    if (index === -1) {
+      return {
+        canRewind: false,
+        error: `No file checkpoint found for message ${userMessageId}.`,
+      };
+    }
+
+    // The earliest snapshot of each file is its state before the target turn
+    const targets = new Map<string, Buffer | null>();
+    for (const checkpoint of this.checkpoints.slice(index)) {
+      for (const [path, content] of checkpoint.files) {
+        if (!targets.has(path)) targets.set(path, content);
+      }
+    }
+
+    const filesChanged: string[] = [];
+    let insertions = 0;
+    let deletions = 0;
+
+    for (const [path, target] of targets) {
+      const current = readSnapshot(path);
+      const unchanged = target === null
+        ? current === null
+        : current !== null && current.equals(target);
+      if (unchanged) continue;
+
+      filesChanged.push(path);
+      const changes = countLineChanges(current, target);
+      insertions += changes.insertions;
+      deletions += changes.deletions;
+
+      if (options?.dryRun) continue;
+
+      try {
+        if (target === null) {
+          rmSync(path, { force: true });
+        } else {
+          mkdirSync(dirname(path), { recursive: true });
+          writeFileSync(path, target);
+        }
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return {
+          canRewind: false,
+          error: `Failed to restore ${path}: ${message}`,
+          filesChanged,
+          insertions,
+          deletions,
+        };
+      }
+    }
+
+    if (!options?.dryRun) {
+      const removed = this.checkpoints.splice(index);
+      if (this.current && removed.includes(this.current)) {
+        this.current = null;
+      }
+    }
+
+    return { canRewind: true, filesChanged, insertions, deletions };
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * Minimal JSON Schema validator for structured output.
+ *
+ * Covers the subset of draft 2020-12 / draft-07 keywords that output schemas
+ * use in practice: type, enum, const, properties, required,
+ * additionalProperties, items (including draft-07 tuple arrays), prefixItems,
+ * additionalItems, min/max constraints, pattern,
+ * format (date-time, date, email, uri, uuid), allOf/anyOf/oneOf/not and local
+ * $ref (#/$defs/..., #/definitions/...), including recursive schemas; a $ref
+ * that loops without descending into the value is reported as an error.
+ * Unknown keywords are ignored.
+ */
+
+export type JsonSchema = Record<string, unknown> | boolean;
+
+export type SchemaValidationResult =
+  | { valid: true }
+  | { valid: false; errors: string[] };
+
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+  "date-time": /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-zA-Z][a-zA-Z0-9+.-]*:[^\s]*$/,
+  uuid: /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/,
+};
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  if (type === "number") return actual === "number" || actual === "integer";
+  return actual === type;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== typeof b || a === null || b === null || typeof a !== "object") return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const aObj = a as Record<string, unknown>;
+  const bObj = b as Record<string, unknown>;
+  const aKeys = Object.keys(aObj);
+  if (aKeys.length !== Object.keys(bObj).length) return false;
+  return aKeys.every((key) => key in bObj && deepEqual(aObj[key], bObj[key]));
+}
+
+function resolveRef(root: Record<string, unknown>, ref: string): JsonSchema | undefined {
+  if (ref === "#") return root;
+  if (!ref.startsWith("#/")) return undefined;
+  let node: unknown = root;
+  for (const raw of ref.slice(2).split("/")) {
+    const key = raw.replace(/~1/g, "/").replace(/~0/g, "~");
+    if (!node || typeof node !== "object") return undefined;
+    node = (node as Record<string, unknown>)[key];
+  }
+  return node as JsonSchema | undefined;
+}
+
+type ValidationContext = {
+  root: Record<string, unknown>;
+  /** $ref nodes being resolved on the current path, with the values they are applied to */
+  resolving: Map<Record<string, unknown>, Set<unknown>>;
+};
+
+function validateNode(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  ctx: ValidationContext,
+  errors: string[],
+): void {
+  if (schema === true) return;
+  if (schema === false) {
+    errors.push(`${path}: no value is allowed here`);
+    return;
+  }
+
+  if (typeof schema.$ref === "string") {
+    const target = resolveRef(ctx.root, schema.$ref);
+    if (target === undefined) {
+      errors.push(`${path}: unresolvable $ref ${schema.$ref}`);
+      return;
+    }
+    // Reaching the same $ref with the same value again means the reference
+    // loops without descending into the value, which would never end
+    const values = ctx.resolving.get(schema) ?? new Set<unknown>();
+    if (values.has(value)) {
+      errors.push(`${path}: circular $ref ${schema.$ref}`);
+      return;
+    }
+    values.add(value);
+    ctx.resolving.set(schema, values);
+    try {
+      validateNode(value, target, path, ctx, errors);
+    } finally {
+      values.delete(value);
+    }
+  }
+
+  const types = schema.type === undefined
+    ? undefined
+    : Array.isArray(schema.type) ? schema.type as string[] : [schema.type as string];
+  const nullable = schema.nullable === true && value === null;
+  if (types && !nullable && !types.some((t) => matchesType(value, t))) {
+    errors.push(`${path}: expected ${types.join(" | ")}, got ${typeOf(value)}`);
+    return;
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => deepEqual(option, value))) {
+    errors.push(`${path}: must be one of ${JSON.stringify(schema.enum)}`);
+  }
+
+  if ("const" in schema && !deepEqual(schema.const, value)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === "string") {
+    if (typeof schema.minLength === "number" && value.length < schema.minLength) {
+      errors.push(`${path}: must have at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+      errors.push(`${path}: must have at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === "string") {
+      try {
+        if (!new RegExp(schema.pattern, "u").test(value)) {
+          errors.push(`${path}: must match pattern ${schema.pattern}`);
+        }
+      } catch {
+        // Invalid pattern in the schema — ignore rather than fail the output
+      }
+    }
+    if (typeof schema.format === "string" && FORMAT_PATTERNS[schema.format] && !FORMAT_PATTERNS[schema.format].test(value)) {
+      errors.push(`${path}: must be a valid ${schema.format}`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+    if (typeof schema.exclusiveMinimum === "number" && value <= schema.exclusiveMinimum) {
+      errors.push(`${path}: must be > ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === "number" && value >= schema.exclusiveMaximum) {
+      errors.push(`${path}: must be < ${schema.exclusiveMaximum}`);
+    }
+    if (typeof schema.multipleOf === "number" && schema.multipleOf > 0) {
+      const quotient = value / schema.multipleOf;
+      if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+        errors.push(`${path}: must be a multiple of ${schema.multipleOf}`);
+      }
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.uniqueItems === true) {
+      for (let i = 1; i < value.length; i++) {
+        if (value.slice(0, i).some((prev) => deepEqual(prev, value[i]))) {
+          errors.push(`${path}: items must be unique`);
+          break;
+        }
+      }
+    }
+    // Draft-07 writes a tuple as an `items` array and the rest as `additionalItems`
+    const tuple = Array.isArray(schema.items);
+    const prefixItems = (tuple ? schema.items : Array.isArray(schema.prefixItems) ? schema.prefixItems : []) as JsonSchema[];
+    const restItems = (tuple ? schema.additionalItems : schema.items) as JsonSchema | undefined;
+    value.forEach((item, index) => {
+      const itemPath = `${path}[${index}]`;
+      if (index < prefixItems.length) {
+        validateNode(item, prefixItems[index], itemPath, ctx, errors);
+      } else if (restItems !== undefined) {
+        validateNode(item, restItems, itemPath, ctx, errors);
+      }
+    });
+  }
+
+  if (typeOf(value) === "object") {
+    const obj = value as Record<string, unknown>;
+    const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required as string[]) {
+        if (!(key in obj)) {
+          errors.push(`${path}: missing required property "${key}"`);
+        }
+      }
+    }
+
+    for (const [key, child] of Object.entries(obj)) {
+      const childPath = `${path}.${key}`;
+      if (key in properties) {
+        validateNode(child, properties[key], childPath, ctx, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected property "${key}"`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+        validateNode(child, schema.additionalProperties as JsonSchema, childPath, ctx, errors);
+      }
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const sub of schema.allOf as JsonSchema[]) {
+      validateNode(value, sub, path, ctx, errors);
+    }
+  }
+
+  if (Array.isArray(schema.anyOf)) {
+    const matched = (schema.anyOf as JsonSchema[]).some((sub) => {
+      const subErrors: string[] = [];
+      validateNode(value, sub, path, ctx, subErrors);
+      return subErrors.length === 0;
+    });
+    if (!matched) {
+      errors.push(`${path}: does not match any of the allowed schemas`);
+    }
+  }
+
+  if (Array.isArray(schema.oneOf)) {
+    const matches = (schema.oneOf as JsonSchema[]).filter((sub) => {
+      const subErrors: string[] = [];
+      validateNode(value, sub, path, ctx, subErrors);
+      return subErrors.length === 0;
+    }).length;
+    if (matches !== 1) {
+      errors.push(`${path}: must match exactly one schema (matched ${matches})`);
+    }
+  }
+
+  if (schema.not !== undefined) {
+    const subErrors: string[] = [];
+    validateNode(value, schema.not as JsonSchema, path, ctx, subErrors);
+    if (subErrors.length === 0) {
+      errors.push(`${path}: must not match the excluded schema`);
+    }
+  }
+}
+
+/**
+ * Validate a value against a JSON Schema. Error messages use a `$.a.b[0]`-style path.
+ */
+export function validateJsonSchema(value: unknown, schema: Record<string, unknown>): SchemaValidationResult {
+  const errors: string[] = [];
+  validateNode(value, schema, "$", { root: schema, resolving: new Map() }, errors);
+  return errors.length === 0 ? { valid: true } : { valid: false, errors };
+}
@@ -0,0 +1,85 @@
+/**
+ * Async message queue — merges one or more input streams into a single
+ * AsyncIterable consumed by the agent loop in streaming-input mode.
+ *
+ * The queue stays open while any attached source is still producing,
+ * and ends once every source has finished.
+ */
+
+export class MessageQueue<T> implements AsyncIterable<T> {
+  private buffer: T[] = [];
+  private waiters: ((result: IteratorResult<T, undefined>) => void)[] = [];
+  private activeSources = 0;
+  private closed = false;
+  private error: unknown;
+
+  /** Whether the queue has stopped accepting input. */
+  get done(): boolean {
+    return this.closed;
+  }
+
+  push(item: T): void {
+    if (this.closed) {
+      throw new Error("Message queue is closed");
+    }
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter({ value: item, done: false });
+    } else {
+      this.buffer.push(item);
+    }
+  }
+
+  /**
+   * Attach a source stream. Resolves once the source is exhausted.
+   * The queue ends when the last attached source finishes.
+   */
+  async attach(source: AsyncIterable<T>): Promise<void> {
+    if (this.closed) {
+      throw new Error("Message queue is closed");
+    }
+    this.activeSources++;
+    try {
+      for await (const item of source) {
+        if (this.closed) break;
+        this.push(item);
+      }
+    } catch (err) {
+      this.error = err;
+      this.close();
+      throw err;
+    } finally {
+      this.activeSources--;
+      if (this.activeSources === 0) {
+        this.close();
+      }
+    }
+  }
+
+  /** Stop accepting input and release pending readers once the buffer drains. */
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    for (const waiter of this.waiters.splice(0)) {
+      waiter({ value: undefined, done: true });
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+    while (true) {
+      if (this.buffer.length > 0) {
+        yield this.buffer.shift()!;
+        continue;
+      }
+      if (this.closed) {
+        if (this.error !== undefined) throw this.error;
+        return;
+      }
+      const next = await new Promise<IteratorResult<T, undefined>>((resolve) => {
+        this.waiters.push(resolve);
+      });
+      if (next.done) continue;
+      yield next.value;
+    }
+  }
+}
@@ -0,0 +1,840 @@
+/**
+ * Minimal PDF reader for text extraction.
+ *
+ * Covers what text extraction needs in practice: indirect objects (including
+ * compressed object streams), the page tree with inherited resources,
+ * FlateDecode / ASCIIHex / ASCII85 streams, form XObjects, ToUnicode font
+ * maps (including mixed-width codespaces in Type0 fonts) and the predefined
+ * Unicode CMaps (UniJIS-UCS2-H and friends). Text comes out in content-stream order, one line per text line;
+ * columns and tables are not reconstructed. Encrypted files are rejected.
+ */
+
+import { inflateSync, constants as zlibConstants } from "node:zlib";
+
+// ─── Objects ────────────────────────────────────────────────────────────────
+
+class PdfRef {
+  constructor(readonly num: number, readonly gen: number) {}
+}
+
+class PdfStream {
+  constructor(readonly dict: PdfDict, readonly raw: Uint8Array) {}
+}
+
+/** A content-stream operator (or unknown keyword) */
+class PdfOperator {
+  constructor(readonly name: string) {}
+}
+
+/** Names are strings; string literals are bytes. */
+type PdfValue =
+  | null
+  | boolean
+  | number
+  | string
+  | Uint8Array
+  | PdfValue[]
+  | PdfDict
+  | PdfRef
+  | PdfStream;
+
+type PdfDict = { [key: string]: PdfValue };
+
+function isDict(value: PdfValue | PdfOperator | undefined): value is PdfDict {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    && !(value instanceof Uint8Array) && !(value instanceof PdfRef) && !(value instanceof PdfStream)
+    && !(value instanceof PdfOperator);
+}
+
+// ─── Lexer / parser ─────────────────────────────────────────────────────────
+
+const WHITESPACE = new Set([0, 9, 10, 12, 13, 32]);
+const DELIMITERS = new Set([...("()<>[]{}/%")].map((c) => c.charCodeAt(0)));
+
+const END_ARRAY = Symbol("]");
+const END_DICT = Symbol(">>");
+type Token = PdfValue | PdfOperator | typeof END_ARRAY | typeof END_DICT;
+
+class Parser {
+  pos: number;
+
+  constructor(private readonly bytes: Uint8Array, start = 0) {
+    this.pos = start;
+  }
+
+  get done(): boolean {
+    this.skipWhitespace();
+    return this.pos >= this.bytes.length;
+  }
+
+  skipWhitespace(): void {
+    const { bytes } = this;
+    while (this.pos < bytes.length) {
+      const c = bytes[this.pos];
+      if (WHITESPACE.has(c)) {
+        this.pos++;
+      } else if (c === 0x25 /* % */) {
+        while (this.pos < bytes.length && bytes[this.pos] !== 10 && bytes[this.pos] !== 13) this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  /** Next token; `n g R` references are folded into a PdfRef. */
+  next(): Token {
+    const token = this.readToken();
+    if (typeof token === "number" && Number.isInteger(token) && token >= 0) {
+      const saved = this.pos;
+      try {
+        const gen = this.readToken();
+        if (typeof gen === "number" && Number.isInteger(gen)) {
+          const keyword = this.readToken();
+          if (keyword instanceof PdfOperator && keyword.name === "R") return new PdfRef(token, gen);
+        }
+      } catch {
+        // End of data: not a reference
+      }
+      this.pos = saved;
+    }
+    return token;
+  }
+
+  /** Next value; operators are returned as-is for content streams. */
+  value(): PdfValue | PdfOperator {
+    const token = this.next();
+    if (token === END_ARRAY || token === END_DICT) throw new Error(`Unexpected ${String(token.description)}`);
+    return token;
+  }
+
+  private readToken(): Token {
+    this.skipWhitespace();
+    const { bytes } = this;
+    if (this.pos >= bytes.length) throw new Error("Unexpected end of data");
+    const c = bytes[this.pos];
+
+    switch (c) {
+      case 0x2f /* / */:
+        return this.readName();
+      case 0x28 /* ( */:
+        return this.readLiteralString();
+      case 0x3c /* < */:
+        if (bytes[this.pos + 1] === 0x3c) {
+          this.pos += 2;
+          return this.readDict();
+        }
+        return this.readHexString();
+      case 0x3e /* > */:
+        this.pos += bytes[this.pos + 1] === 0x3e ? 2 : 1;
+        return END_DICT;
+      case 0x5b /* [ */:
+        this.pos++;
+        return this.readArray();
+      case 0x5d /* ] */:
+        this.pos++;
+        return END_ARRAY;
+      case 0x7b /* { */:
+      case 0x7d /* } */:
+        this.pos++;
+        return new PdfOperator(String.fromCharCode(c));
+    }
+
+    const start = this.pos;
+    while (this.pos < bytes.length && !WHITESPACE.has(bytes[this.pos]) && !DELIMITERS.has(bytes[this.pos])) {
+      this.pos++;
+    }
+    if (this.pos === start) {
+      this.pos++;
+      return new PdfOperator(String.fromCharCode(c));
+    }
+    const word = latin1(bytes.subarray(start, this.pos));
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) return Number(word);
+    if (word === "true") return true;
+    if (word === "false") return false;
+    if (word === "null") return null;
+    return new PdfOperator(word);
+  }
+
+  private readName(): string {
+    const { bytes } = this;
+    const start = ++this.pos;
+    while (this.pos < bytes.length && !WHITESPACE.has(bytes[this.pos]) && !DELIMITERS.has(bytes[this.pos])) {
+      this.pos++;
+    }
+    return latin1(bytes.subarray(start, this.pos))
+      .replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+  }
+
+  private readLiteralString(): Uint8Array {
+    const { bytes } = this;
+    const out: number[] = [];
+    let depth = 1;
+    this.pos++;
+    while (this.pos < bytes.length) {
+      const c = bytes[this.pos++];
+      if (c === 0x5c /* \ */) {
+        const e = bytes[this.pos++];
+        switch (e) {
+          case 0x6e: out.push(10); break; // n
+          case 0x72: out.push(13); break; // r
+          case 0x74: out.push(9); break; // t
+          case 0x62: out.push(8); break; // b
+          case 0x66: out.push(12); break; // f
+          case 13:
+            if (bytes[this.pos] === 10) this.pos++;
+            break;
+          case 10:
+            break;
+          default:
+            if (e >= 0x30 && e <= 0x37) {
+              let code = e - 0x30;
+              for (let i = 0; i < 2 && bytes[this.pos] >= 0x30 && bytes[this.pos] <= 0x37; i++) {
+                code = code * 8 + (bytes[this.pos++] - 0x30);
+              }
+              out.push(code & 0xff);
+            } else {
+              out.push(e);
+            }
+        }
+      } else if (c === 0x28) {
+        depth++;
+        out.push(c);
+      } else if (c === 0x29) {
+        if (--depth === 0) break;
+        out.push(c);
+      } else {
+        out.push(c);
+      }
+    }
+    return Uint8Array.from(out);
+  }
+
+  private readHexString(): Uint8Array {
+    const { bytes } = this;
+    let hex = "";
+    this.pos++;
+    while (this.pos < bytes.length && bytes[this.pos] !== 0x3e) {
+      const c = bytes[this.pos++];
+      if (!WHITESPACE.has(c)) hex += String.fromCharCode(c);
+    }
+    this.pos++;
+    return hexBytes(hex);
+  }
+
+  private readArray(): PdfValue[] {
+    const items: PdfValue[] = [];
+    while (true) {
+      const token = this.next();
+      if (token === END_ARRAY) return items;
+      if (token === END_DICT || token instanceof PdfOperator) continue;
+      items.push(token);
+    }
+  }
+
+  private readDict(): PdfDict {
+    const dict: PdfDict = {};
+    while (true) {
+      const key = this.next();
+      if (key === END_DICT) return dict;
+      if (typeof key !== "string") continue;
+      const value = this.next();
+      if (value === END_DICT) return dict;
+      if (value !== END_ARRAY && !(value instanceof PdfOperator)) dict[key] = value;
+    }
+  }
+}
+
+function latin1(bytes: Uint8Array): string {
+  return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString("latin1");
+}
+
+function hexBytes(hex: string): Uint8Array {
+  const padded = hex.length % 2 === 1 ? `${hex}0` : hex;
+  const out = new Uint8Array(padded.length / 2);
+  for (let i = 0; i < out.length; i++) out[i] = parseInt(padded.slice(i * 2, i * 2 + 2), 16);
+  return out;
+}
+
+// ─── Stream filters ─────────────────────────────────────────────────────────
+
+function decodeAsciiHex(data: Uint8Array): Uint8Array {
+  const text = latin1(data);
+  const end = text.indexOf(">");
+  return hexBytes((end === -1 ? text : text.slice(0, end)).replace(/[^0-9a-fA-F]/g, ""));
+}
+
+function decodeAscii85(data: Uint8Array): Uint8Array {
+  const text = latin1(data).replace(/\s/g, "").replace(/^<~/, "");
+  const end = text.indexOf("~>");
+  const body = end === -1 ? text : text.slice(0, end);
+  const out: number[] = [];
+  let group: number[] = [];
+  for (const ch of body) {
+    if (ch === "z" && group.length === 0) {
+      out.push(0, 0, 0, 0);
+      continue;
+    }
+    group.push(ch.charCodeAt(0) - 33);
+    if (group.length === 5) {
+      const value = group.reduce((acc, digit) => acc * 85 + digit, 0);
+      out.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+      group = [];
+    }
+  }
+  if (group.length > 1) {
+    const count = group.length - 1;
+    while (group.length < 5) group.push(84);
+    const value = group.reduce((acc, digit) => acc * 85 + digit, 0);
+    out.push(...[(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff].slice(0, count));
+  }
+  return Uint8Array.from(out);
+}
+
+function inflate(data: Uint8Array): Uint8Array {
+  try {
+    return inflateSync(data);
+  } catch {
+    // Truncated or slightly corrupt streams: keep what decodes
+    return inflateSync(data, { finishFlush: zlibConstants.Z_SYNC_FLUSH });
+  }
+}
+
+// ─── Fonts ──────────────────────────────────────────────────────────────────
+
+/** A `begincodespacerange` entry: codes of this many bytes, each byte within low..high */
+type CodeRange = { low: Uint8Array; high: Uint8Array };
+
+type FontDecoder = {
+  /** Bytes per character code when the CMap declares no codespace ranges */
+  codeLength: 1 | 2;
+  codeRanges?: CodeRange[];
+  toUnicode?: Map<number, string>;
+  /** Unmapped codes are UTF-16 code units (predefined `Uni…-UCS2` / `-UTF16` CMaps) */
+  unicodeCodes?: boolean;
+};
+
+/** Predefined CMaps whose codes are Unicode, so CID fonts using them need no ToUnicode map */
+const UNICODE_CMAP = /^Uni\w+-(UCS2|UTF16)(-H|-V)?$/;
+
+function utf16be(bytes: Uint8Array): string {
+  let text = "";
+  for (let i = 0; i + 1 < bytes.length; i += 2) text += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+  return text;
+}
+
+/** Parse the codespace, bfchar and bfrange sections of a ToUnicode CMap. */
+function parseToUnicode(data: Uint8Array): { map: Map<number, string>; codeRanges: CodeRange[] } {
+  const map = new Map<number, string>();
+  const text = latin1(data);
+
+  const codeRanges: CodeRange[] = [];
+  for (const section of text.matchAll(/begincodespacerange([\s\S]*?)endcodespacerange/g)) {
+    for (const range of section[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>/g)) {
+      const low = hexBytes(range[1]);
+      const high = hexBytes(range[2]);
+      if (low.length === high.length) codeRanges.push({ low, high });
+    }
+  }
+
+  for (const section of text.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const pair of section[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      map.set(parseInt(pair[1], 16), utf16be(hexBytes(pair[2])));
+    }
+  }
+
+  for (const section of text.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    const entries = /<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g;
+    for (const entry of section[1].matchAll(entries)) {
+      const lo = parseInt(entry[1], 16);
+      const hi = Math.min(parseInt(entry[2], 16), lo + 0xffff);
+      if (entry[3].startsWith("[")) {
+        const targets = [...entry[3].matchAll(/<([0-9a-fA-F]*)>/g)].map((m) => utf16be(hexBytes(m[1])));
+        targets.forEach((target, i) => {
+          if (lo + i <= hi) map.set(lo + i, target);
+        });
+      } else {
+        const start = utf16be(hexBytes(entry[3].slice(1, -1)));
+        const prefix = start.slice(0, -1);
+        const last = start.charCodeAt(start.length - 1);
+        for (let code = lo; code <= hi; code++) {
+          // Increment the last character of the destination for each code in
+          // the range, carrying past a byte boundary as writers expect
+          map.set(code, prefix + String.fromCharCode(last + code - lo));
+        }
+      }
+    }
+  }
+
+  return { map, codeRanges };
+}
+
+/** WinAnsiEncoding codes 0x80–0x9F, which differ from Latin-1 */
+const WIN_ANSI_HIGH = "€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ";
+
+/** Unicode for glyph names common in `/Differences` arrays (TeX fonts, smart quotes) */
+const GLYPH_NAMES: Record<string, string> = {
+  space: " ", fi: "ﬁ", fl: "ﬂ", ff: "ﬀ", ffi: "ﬃ", ffl: "ﬄ",
+  quoteleft: "‘", quoteright: "’", quotedblleft: "“", quotedblright: "”", quotesingle: "'",
+  endash: "–", emdash: "—", bullet: "•", ellipsis: "…", hyphen: "-", minus: "−",
+  copyright: "©", registered: "®", trademark: "™", degree: "°", section: "§", dagger: "†",
+  period: ".", comma: ",", colon: ":", semicolon: ";", exclam: "!", question: "?",
+  parenleft: "(", parenright: ")", bracketleft: "[", bracketright: "]", braceleft: "{", braceright: "}",
+  slash: "/", backslash: "\\", ampersand: "&", asterisk: "*", at: "@", numbersign: "#", dollar: "$",
+  percent: "%", plus: "+", equal: "=", less: "<", greater: ">", underscore: "_", bar: "|",
+  quotedbl: "\"", asciitilde: "~", asciicircum: "^", grave: "`",
+  zero: "0", one: "1", two: "2", three: "3", four: "4", five: "5", six: "6", seven: "7", eight: "8", nine: "9",
+};
+
+function glyphNameToUnicode(name: string): string | undefined {
+  if (name.length === 1) return name;
+  const uni = /^uni([0-9A-Fa-f]{4})$/.exec(name);
+  if (uni) return String.fromCharCode(parseInt(uni[1], 16));
+  return GLYPH_NAMES[name];
+}
+
+/** Byte length of the code starting at `bytes[i]`, from the first codespace range it falls in. */
+function codeLengthAt(bytes: Uint8Array, i: number, font: FontDecoder | undefined): number {
+  for (const { low, high } of font?.codeRanges ?? []) {
+    if (i + low.length > bytes.length) continue;
+    let inRange = true;
+    for (let k = 0; k < low.length && inRange; k++) {
+      inRange = bytes[i + k] >= low[k] && bytes[i + k] <= high[k];
+    }
+    if (inRange) return low.length;
+  }
+  return font?.codeLength ?? 1;
+}
+
+function decodeText(bytes: Uint8Array, font: FontDecoder | undefined): string {
+  let text = "";
+  for (let i = 0; i < bytes.length;) {
+    const codeLength = codeLengthAt(bytes, i, font);
+    let code = 0;
+    for (let k = 0; k < codeLength; k++) code = code * 256 + (bytes[i + k] ?? 0);
+    i += codeLength;
+    const mapped = font?.toUnicode?.get(code);
+    if (mapped !== undefined) text += mapped;
+    else if (font?.unicodeCodes) text += String.fromCharCode(code);
+    else if (codeLength === 1) text += code >= 0x80 && code <= 0x9f ? WIN_ANSI_HIGH[code - 0x80] : String.fromCharCode(code);
+  }
+  return text;
+}
+
+// ─── Document ───────────────────────────────────────────────────────────────
+
+type PageNode = { dict: PdfDict; resources: PdfDict };
+
+/** Nesting limit for form XObjects drawn inside each other. */
+const MAX_XOBJECT_DEPTH = 8;
+
+/** TJ offsets (thousandths of an em) wider than this become a space. */
+const TJ_SPACE_THRESHOLD = 200;
+
+export class PdfDocument {
+  private readonly bytes: Uint8Array;
+  /** The file as a latin1 string, for keyword searches */
+  private readonly text: string;
+  private readonly objects = new Map<number, PdfValue>();
+  private readonly fontCache = new Map<PdfValue, FontDecoder>();
+  private readonly pages: PageNode[];
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+    this.text = latin1(bytes);
+    if (this.text.slice(0, 1024).indexOf("%PDF-") === -1) {
+      throw new Error("Not a PDF file");
+    }
+    this.indexObjects();
+    if (this.findTrailerValue("Encrypt") !== undefined) {
+      throw new Error("PDF is encrypted");
+    }
+    this.pages = this.collectPages();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /** Extracted text of a page (1-based). */
+  pageText(pageNumber: number): string {
+    const page = this.pages[pageNumber - 1];
+    if (!page) throw new Error(`Page ${pageNumber} does not exist (document has ${this.pages.length} pages)`);
+
+    const contents = this.resolve(page.dict.Contents);
+    const streams = Array.isArray(contents) ? contents.map((c) => this.resolve(c)) : [contents];
+    const data = streams
+      .filter((s): s is PdfStream => s instanceof PdfStream)
+      .map((s) => {
+        try {
+          return latin1(this.decodeStream(s));
+        } catch {
+          return "";
+        }
+      })
+      .join("\n");
+
+    return this.extractText(Buffer.from(data, "latin1"), page.resources, 0)
+      .split("\n")
+      .map((line) => line.replace(/\s+$/, ""))
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+  }
+
+  // ─── Object index ───────────────────────────────────────────────────────
+
+  /**
+   * Scan the file for `n g obj` definitions instead of trusting the xref
+   * table, so damaged files still load. Later definitions (incremental
+   * updates) replace earlier ones.
+   */
+  private indexObjects(): void {
+    const { text } = this;
+    const pattern = /(\d+)\s+(\d+)\s+obj\b/g;
+    const objectStreams: PdfStream[] = [];
+
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      const parser = new Parser(this.bytes, match.index + match[0].length);
+      try {
+        const value = this.readObjectBody(parser);
+        this.objects.set(Number(match[1]), value);
+        if (value instanceof PdfStream && value.dict.Type === "ObjStm") objectStreams.push(value);
+      } catch {
+        // Unparseable object: skip it
+      }
+      pattern.lastIndex = Math.max(pattern.lastIndex, parser.pos);
+    }
+
+    for (const stream of objectStreams) {
+      try {
+        this.indexObjectStream(stream);
+      } catch {
+        // Undecodable object stream: its objects stay missing
+      }
+    }
+  }
+
+  private readObjectBody(parser: Parser): PdfValue {
+    const value = parser.value();
+    if (value instanceof PdfOperator) throw new Error(`Unexpected operator ${value.name}`);
+    if (!isDict(value)) return value;
+
+    const save = parser.pos;
+    parser.skipWhitespace();
+    const keyword = latin1(this.bytes.subarray(parser.pos, parser.pos + 6));
+    if (keyword !== "stream") {
+      parser.pos = save;
+      return value;
+    }
+
+    let start = parser.pos + 6;
+    if (this.bytes[start] === 13) start++;
+    if (this.bytes[start] === 10) start++;
+
+    const declared = typeof value.Length === "number" ? value.Length : -1;
+    const endMarker = (at: number) => latin1(this.bytes.subarray(at, at + 40)).trimStart().startsWith("endstream");
+    let end = declared >= 0 && endMarker(start + declared) ? start + declared : -1;
+    if (end === -1) {
+      const found = this.text.indexOf("endstream", start);
+      if (found === -1) throw new Error("Unterminated stream");
+      end = found;
+      // Drop the EOL before "endstream"
+      if (this.bytes[end - 1] === 10) end--;
+      if (this.bytes[end - 1] === 13) end--;
+    }
+    parser.pos = end;
+    return new PdfStream(value, this.bytes.subarray(start, end));
+  }
+
+  private indexObjectStream(stream: PdfStream): void {
+    const count = stream.dict.N;
+    const first = stream.dict.First;
+    if (typeof count !== "number" || typeof first !== "number") return;
+
+    const data = this.decodeStream(stream);
+    const header = new Parser(data);
+    const entries: [number, number][] = [];
+    for (let i = 0; i < count; i++) {
+      const num = header.value();
+      const offset = header.value();
+      if (typeof num !== "number" || typeof offset !== "number") break;
+      entries.push([num, offset]);
+    }
+
+    for (const [num, offset] of entries) {
+      if (this.objects.has(num)) continue;
+      try {
+        const value = new Parser(data, first + offset).value();
+        if (!(value instanceof PdfOperator)) this.objects.set(num, value);
+      } catch {
+        // Skip unparseable entries
+      }
+    }
+  }
+
+  private resolve(value: PdfValue | undefined, depth = 0): PdfValue | undefined {
+    if (value instanceof PdfRef) {
+      if (depth > 16) return undefined;
+      return this.resolve(this.objects.get(value.num), depth + 1);
+    }
+    return value;
+  }
+
+  private resolveDict(value: PdfValue | undefined): PdfDict | undefined {
+    const resolved = this.resolve(value);
+    if (resolved instanceof PdfStream) return resolved.dict;
+    return isDict(resolved) ? resolved : undefined;
+  }
+
+  /** A key from the trailer dictionary or, in newer files, the xref stream. */
+  private findTrailerValue(key: string): PdfValue | undefined {
+    let found: PdfValue | undefined;
+    for (const match of this.text.matchAll(/trailer\s*<</g)) {
+      try {
+        const dict = new Parser(this.bytes, match.index! + match[0].length - 2).value();
+        if (isDict(dict) && dict[key] !== undefined) found = dict[key];
+      } catch {
+        // Ignore damaged trailers
+      }
+    }
+    if (found !== undefined) return found;
+    for (const value of this.objects.values()) {
+      if (value instanceof PdfStream && value.dict.Type === "XRef" && value.dict[key] !== undefined) {
+        found = value.dict[key];
+      }
+    }
+    return found;
+  }
+
+  private decodeStream(stream: PdfStream): Uint8Array {
+    const filter = this.resolve(stream.dict.Filter);
+    const filters = (Array.isArray(filter) ? filter : filter === undefined ? [] : [filter])
+      .map((f) => this.resolve(f));
+    let data = stream.raw;
+    for (const name of filters) {
+      switch (name) {
+        case "FlateDecode":
+        case "Fl":
+          data = inflate(data);
+          break;
+        case "ASCIIHexDecode":
+        case "AHx":
+          data = decodeAsciiHex(data);
+          break;
+        case "ASCII85Decode":
+        case "A85":
+          data = decodeAscii85(data);
+          break;
+        default:
+          throw new Error(`Unsupported stream filter: ${String(name)}`);
+      }
+    }
+    return data;
+  }
+
+  // ─── Pages ──────────────────────────────────────────────────────────────
+
+  private collectPages(): PageNode[] {
+    const root = this.resolveDict(this.findTrailerValue("Root"))
+      ?? [...this.objects.values()].map((v) => this.resolveDict(v)).find((d) => d?.Type === "Catalog");
+    const pages: PageNode[] = [];
+    const visited = new Set<PdfDict>();
+
+    const walk = (node: PdfDict | undefined, resources: PdfDict) => {
+      if (!node || visited.has(node)) return;
+      visited.add(node);
+      const own = this.resolveDict(node.Resources) ?? resources;
+      const kids = this.resolve(node.Kids);
+      if (node.Type === "Pages" || Array.isArray(kids)) {
+        for (const kid of Array.isArray(kids) ? kids : []) walk(this.resolveDict(kid), own);
+      } else {
+        pages.push({ dict: node, resources: own });
+      }
+    };
+    walk(this.resolveDict(root?.Pages), {});
+
+    if (pages.length > 0) return pages;
+    // No usable page tree: fall back to every page object in file order
+    for (const value of this.objects.values()) {
+      const dict = this.resolveDict(value);
+      if (dict?.Type === "Page") pages.push({ dict, resources: this.resolveDict(dict.Resources) ?? {} });
+    }
+    return pages;
+  }
+
+  private fontDecoder(resources: PdfDict, name: string): FontDecoder | undefined {
+    const fonts = this.resolveDict(resources.Font);
+    const ref = fonts?.[name];
+    if (ref === undefined) return undefined;
+    const cached = this.fontCache.get(ref);
+    if (cached) return cached;
+
+    const font = this.resolveDict(ref);
+    const decoder: FontDecoder = { codeLength: font?.Subtype === "Type0" ? 2 : 1 };
+    if (font?.Subtype === "Type0" && typeof font.Encoding === "string" && UNICODE_CMAP.test(font.Encoding)) {
+      decoder.unicodeCodes = true;
+    }
+
+    const differences = this.resolve(this.resolveDict(font?.Encoding)?.Differences);
+    if (Array.isArray(differences)) {
+      decoder.toUnicode = new Map();
+      let code = 0;
+      for (const item of differences) {
+        if (typeof item === "number") {
+          code = item;
+        } else if (typeof item === "string") {
+          const char = glyphNameToUnicode(item);
+          if (char !== undefined) decoder.toUnicode.set(code, char);
+          code++;
+        }
+      }
+    }
+
+    const toUnicode = this.resolve(font?.ToUnicode);
+    if (toUnicode instanceof PdfStream) {
+      try {
+        const { map, codeRanges } = parseToUnicode(this.decodeStream(toUnicode));
+        decoder.toUnicode = new Map([...(decoder.toUnicode ?? []), ...map]);
+        if (codeRanges.length > 0) decoder.codeRanges = codeRanges;
+      } catch {
+        // Fall back to raw codes
+      }
+    }
+    this.fontCache.set(ref, decoder);
+    return decoder;
+  }
+
+  // ─── Text extraction ────────────────────────────────────────────────────
+
+  /**
+   * Walk a content stream and collect shown text. A change in the text
+   * line's y position starts a new line; separate text objects on the same
+   * line are joined with a space.
+   */
+  private extractText(content: Uint8Array, resources: PdfDict, depth: number): string {
+    const parser = new Parser(content);
+    const operands: PdfValue[] = [];
+    let text = "";
+    let font: FontDecoder | undefined;
+    let y = 0;
+    let shownY: number | undefined;
+    let newObject = false;
+
+    const newline = () => {
+      if (text.length > 0 && !text.endsWith("\n")) text += "\n";
+    };
+    const show = (bytes: PdfValue) => {
+      if (!(bytes instanceof Uint8Array)) return;
+      if (shownY !== undefined && Math.abs(y - shownY) > 0.5) newline();
+      else if (newObject && text.length > 0 && !/\s$/.test(text)) text += " ";
+      text += decodeText(bytes, font);
+      shownY = y;
+      newObject = false;
+    };
+
+    while (!parser.done) {
+      let token: PdfValue | PdfOperator;
+      try {
+        token = parser.value();
+      } catch {
+        break;
+      }
+      if (!(token instanceof PdfOperator)) {
+        operands.push(token);
+        continue;
+      }
+
+      switch (token.name) {
+        case "BI":
+          // Inline image: skip its data up to EI
+          this.skipInlineImage(parser, content);
+          break;
+        case "BT":
+          y = 0;
+          newObject = true;
+          break;
+        case "Tf":
+          if (typeof operands[0] === "string") font = this.fontDecoder(resources, operands[0]);
+          break;
+        case "Td":
+        case "TD":
+          if (typeof operands[1] === "number") y += operands[1];
+          break;
+        case "Tm":
+          if (typeof operands[5] === "number") y = operands[5];
+          break;
+        case "T*":
+          newline();
+          break;
+        case "Tj":
+          show(operands[0]);
+          break;
+        case "'":
+          newline();
+          show(operands[0]);
+          break;
+        case "\"":
+          newline();
+          show(operands[2]);
+          break;
+        case "TJ":
+          for (const item of Array.isArray(operands[0]) ? operands[0] : []) {
+            if (typeof item === "number") {
+              if (item < -TJ_SPACE_THRESHOLD && !text.endsWith(" ")) text += " ";
+            } else {
+              show(item);
+            }
+          }
+          break;
+        case "Do":
+          if (typeof operands[0] === "string" && depth < MAX_XOBJECT_DEPTH) {
+            const xobject = this.resolve(this.resolveDict(resources.XObject)?.[operands[0]]);
+            if (xobject instanceof PdfStream && xobject.dict.Subtype === "Form") {
+              try {
+                const inner = this.resolveDict(xobject.dict.Resources) ?? resources;
+                const formText = this.extractText(this.decodeStream(xobject), inner, depth + 1);
+                if (formText) {
+                  newline();
+                  text += formText;
+                  shownY = undefined;
+                }
+              } catch {
+                // Undecodable form: skip it
+              }
+            }
+          }
+          break;
+      }
+      operands.length = 0;
+    }
+
+    return text;
+  }
+
+  private skipInlineImage(parser: Parser, content: Uint8Array): void {
+    const end = latin1(content).indexOf("EI", parser.pos);
+    parser.pos = end === -1 ? content.length : end + 2;
+  }
+}
+
+// ─── Page ranges ────────────────────────────────────────────────────────────
+
+/**
+ * Parse a page selection such as "3", "1-5" or "1-3, 7, 10-12" into sorted,
+ * de-duplicated 1-based page numbers. Open ranges ("8-") run to the last page.
+ */
+export function parsePageRanges(spec: string, pageCount: number): number[] {
+  const pages = new Set<number>();
+  for (const part of spec.split(",").map((p) => p.trim()).filter(Boolean)) {
+    const match = /^(\d+)\s*(?:-\s*(\d*))?$/.exec(part);
+    if (!match) throw new Error(`Invalid page range "${part}"`);
+    const start = Number(match[1]);
+    const end = match[2] === undefined ? start : match[2] === "" ? pageCount : Number(match[2]);
+    if (start < 1 || end < start) throw new Error(`Invalid page range "${part}"`);
+    if (start > pageCount) throw new Error(`Page ${start} does not exist (document has ${pageCount} pages)`);
+    for (let page = start; page <= Math.min(end, pageCount); page++) pages.add(page);
+  }
+  if (pages.size === 0) throw new Error("No pages selected");
+  return [...pages].sort((a, b) => a - b);
+}
@@ -0,0 +1,57 @@
+/**
+ * Retry policy for provider calls — exponential backoff with jitter that
+ * honors a server-requested retry-after delay up to the backoff cap.
+ */
+
+export type RetryConfig = {
+  /** Retries after the initial attempt. 0 disables retries. Default: 10 */
+  maxRetries?: number;
+  /** Delay before the first retry. Default: 500 */
+  initialDelayMs?: number;
+  /** Cap on the exponential backoff before jitter, and on a server's retry-after. Default: 32000 */
+  maxDelayMs?: number;
+};
+
+export const DEFAULT_MAX_RETRIES = 10;
+export const DEFAULT_INITIAL_RETRY_DELAY_MS = 500;
+export const DEFAULT_MAX_RETRY_DELAY_MS = 32_000;
+
+/** Fraction of the backoff added as random jitter. */
+const JITTER_RATIO = 0.25;
+
+/**
+ * Delay before retry number `attempt` (1-based). A server-provided
+ * retry-after takes precedence over the computed backoff, capped at
+ * `maxDelayMs` so a long retry-after cannot stall the loop for minutes.
+ */
+export function computeRetryDelay(
+  attempt: number,
+  config?: RetryConfig,
+  retryAfterMs?: number,
+  random: () => number = Math.random,
+): number {
+  const max = config?.maxDelayMs ?? DEFAULT_MAX_RETRY_DELAY_MS;
+  if (retryAfterMs !== undefined) return Math.min(retryAfterMs, max);
+  const initial = config?.initialDelayMs ?? DEFAULT_INITIAL_RETRY_DELAY_MS;
+  const base = Math.min(max, initial * 2 ** Math.max(0, attempt - 1));
+  return Math.round(base + base * JITTER_RATIO * random());
+}
+
+/** Sleep for `ms`, resolving early when the signal aborts. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -1,18 +1,27 @@
 /**
- * Session persistence — JSONL read/write compatible with Claude SDK format.
+ * Session persistence — entries compatible with Claude SDK session format,
+ * written through a pluggable SessionStore.
  *
- * Sessions are stored as one JSON object per line in:
+ * The default store keeps one JSON object per line in:
  *   ~/.claude/projects/{sanitized-cwd}/{sessionId}.jsonl
  *
  * Path sanitization matches Claude SDK: replace `/` and `.` with `-`.
  *   /root/.fourmis/workspaces/doremi → -root--fourmis-workspaces-doremi
  */
 
-import { readFileSync, appendFileSync, mkdirSync, readdirSync, statSync } from "node:fs";
+import { readFileSync, appendFileSync, mkdirSync, readdirSync, statSync, unlinkSync } from "node:fs";
 import { join } from "node:path";
 import { homedir } from "node:os";
-import type { NormalizedMessage, NormalizedContent } from "../providers/types.ts";
+import type {
+  NormalizedMessage,
+  NormalizedContent,
+  NormalizedImageContent,
+  NormalizedDocumentContent,
+  NormalizedTextContent,
+  NormalizedToolResultContent,
+} from "../providers/types.ts";
 import { uuid as makeUuid } from "../types.ts";
+import type { TokenUsage } from "../types.ts";
 
 function safeStringify(value: unknown): string {
   try {
@@ -29,7 +38,8 @@ function safeStringify(value: unknown): string {
  *
  * Claude SDK entries include additional fields (isSidechain, userType, version,
  * gitBranch, permissionMode, message.model, message.usage, requestId, etc.)
- * that we include for compatibility. When loading, we only need type + message.
+ * that we include for compatibility. Entries form a tree through `parentUuid`;
+ * when loading, we need type + message + the uuid links.
  */
 export type SessionEntry = {
   type: "user" | "assistant";
@@ -44,8 +54,130 @@ export type SessionEntry = {
     role: string;
     content: NormalizedContent[] | string;
     model?: string;
+    stop_reason?: string | null;
+    usage?: {
+      input_tokens: number;
+      output_tokens: number;
+      cache_read_input_tokens: number;
+      cache_creation_input_tokens: number;
+    };
   };
   permissionMode?: string;
+  /** Set on the summary message written right after a compact boundary */
+  isCompactSummary?: boolean;
+  /** Copy of a message that compaction kept, logged again after the summary */
+  isCompactTail?: boolean;
+  /** Cost of the API call that produced this assistant message */
+  costUSD?: number;
+  /** Subagent that wrote this sidechain entry */
+  agentId?: string;
+};
+
+/**
+ * Compact boundary marker. Entries before the latest boundary are not
+ * replayed on resume; the summary message that follows replaces them.
+ */
+export type CompactBoundaryEntry = {
+  type: "system";
+  subtype: "compact_boundary";
+  uuid: string;
+  parentUuid: string | null;
+  sessionId: string;
+  timestamp: string;
+  cwd: string;
+  isSidechain: boolean;
+  userType: string;
+  content: string;
+  compactMetadata: {
+    trigger: "manual" | "auto";
+    preTokens: number;
+  };
+  agentId?: string;
+};
+
+/**
+ * User-set session title. The latest entry in the file wins.
+ */
+export type CustomTitleEntry = {
+  type: "custom-title";
+  customTitle: string;
+  sessionId: string;
+  timestamp: string;
+};
+
+/** Any entry the SDK writes to a session. */
+export type SessionLogEntry = SessionEntry | CompactBoundaryEntry | CustomTitleEntry;
+
+/**
+ * A stored entry as loaded back. Sessions written by other tools may contain
+ * entry types the SDK does not write, so loaded entries are untyped.
+ */
+export type SessionRecord = Record<string, unknown>;
+
+export type SessionListing = {
+  sessionId: string;
+  /** Time of the last write in epoch ms */
+  lastModified: number;
+  /** Stored size in bytes */
+  size: number;
+};
+
+/**
+ * Storage backend for session entries. Sessions are grouped by cwd.
+ * Methods are synchronous so entries are written as soon as they are logged.
+ */
+export interface SessionStore {
+  /** Append an entry to a session, creating the session if needed. */
+  append(cwd: string, sessionId: string, entry: SessionLogEntry): void;
+  /** All entries of a session in write order, or null if it does not exist. */
+  load(cwd: string, sessionId: string): SessionRecord[] | null;
+  /** Sessions stored for a cwd, in no particular order. */
+  list(cwd: string): SessionListing[];
+  /** Delete a session. Returns false if it did not exist. */
+  delete(cwd: string, sessionId: string): boolean;
+}
+
+export type SessionLogOptions = {
+  /** Use this UUID for the entry instead of generating one */
+  uuid?: string;
+  /** Write a compact boundary before this message (used for the compaction summary) */
+  compactBoundary?: { trigger: "manual" | "auto"; preTokens: number };
+  /** The message was kept by compaction and is logged again after the summary */
+  compactTail?: boolean;
+  /** Cost of the API call (assistant messages) */
+  costUsd?: number;
+  /** Token usage of the API call (assistant messages) */
+  usage?: TokenUsage;
+  /** Provider stop reason (assistant messages) */
+  stopReason?: string | null;
+  /** Model that produced the message, when it differs from the logger's model */
+  model?: string;
+};
+
+/**
+ * Catalog metadata for a persisted session, derived from its entries.
+ */
+export type SessionInfo = {
+  sessionId: string;
+  cwd: string;
+  /** User-set title (see renameSession) */
+  title?: string;
+  /** Text of the first user prompt */
+  firstPrompt?: string;
+  /** Model of the most recent assistant message */
+  model?: string;
+  /** ISO timestamp of the first entry */
+  createdAt?: string;
+  /** ISO timestamp of the last entry */
+  updatedAt?: string;
+  /** Number of assistant messages (API turns) */
+  numTurns: number;
+  /** Sum of logged assistant message costs */
+  totalCostUsd: number;
+  /** Time of the last write in epoch ms */
+  lastModified: number;
+  /** Stored size in bytes */
+  fileSize: number;
 };
 
 // ─── Path helpers ───────────────────────────────────────────────────────────
@@ -68,6 +200,18 @@ export function sessionsDir(cwd: string): string {
   return join(homedir(), ".claude", "projects", sanitizeCwd(cwd));
 }
 
+/**
+ * Path of a session's JSONL file in `dir`. Session IDs come from callers
+ * (resume, the catalog API), so IDs that could name a file outside `dir`
+ * are rejected.
+ */
+function sessionFile(dir: string, sessionId: string): string {
+  if (!sessionId || sessionId.includes("..") || /[\/\\\0]/.test(sessionId)) {
+    throw new Error(`Invalid session ID: ${JSON.stringify(sessionId)}`);
+  }
+  return join(dir, `${sessionId}.jsonl`);
+}
+
 /**
  * Ensure the sessions directory exists.
  */
@@ -75,7 +219,7 @@ function ensureDir(dir: string): void {
   mkdirSync(dir, { recursive: true });
 }
 
-// ─── Write ──────────────────────────────────────────────────────────────────
+// ─── Stores ─────────────────────────────────────────────────────────────────
 
 /**
  * Append a single JSONL entry to the session file.
@@ -83,27 +227,179 @@ function ensureDir(dir: string): void {
 export function logMessage(
   dir: string,
   sessionId: string,
-  entry: SessionEntry,
+  entry: SessionLogEntry,
 ): void {
+  const filePath = sessionFile(dir, sessionId);
   ensureDir(dir);
-  const filePath = join(dir, `${sessionId}.jsonl`);
   appendFileSync(filePath, JSON.stringify(entry) + "\n");
 }
 
+/**
+ * One JSONL file per session under `{rootDir}/{sanitized-cwd}/`.
+ * The default root is `~/.claude/projects`, shared with the Claude SDK.
+ * Session IDs containing path separators or `..` throw.
+ */
+export class JsonlSessionStore implements SessionStore {
+  private rootDir?: string;
+
+  constructor(rootDir?: string) {
+    this.rootDir = rootDir;
+  }
+
+  private dir(cwd: string): string {
+    return this.rootDir ? join(this.rootDir, sanitizeCwd(cwd)) : sessionsDir(cwd);
+  }
+
+  append(cwd: string, sessionId: string, entry: SessionLogEntry): void {
+    logMessage(this.dir(cwd), sessionId, entry);
+  }
+
+  load(cwd: string, sessionId: string): SessionRecord[] | null {
+    const filePath = sessionFile(this.dir(cwd), sessionId);
+    let lines: string[];
+    try {
+      lines = readFileSync(filePath, "utf-8").split("\n").filter(Boolean);
+    } catch {
+      return null;
+    }
+
+    const records: SessionRecord[] = [];
+    for (const line of lines) {
+      try {
+        records.push(JSON.parse(line) as SessionRecord);
+      } catch {
+        // Skip malformed lines
+      }
+    }
+    return records;
+  }
+
+  list(cwd: string): SessionListing[] {
+    const dir = this.dir(cwd);
+    let files: string[];
+    try {
+      files = readdirSync(dir).filter((f) => f.endsWith(".jsonl"));
+    } catch {
+      return [];
+    }
+
+    const listings: SessionListing[] = [];
+    for (const f of files) {
+      try {
+        const stats = statSync(join(dir, f));
+        listings.push({ sessionId: f.replace(/\.jsonl$/, ""), lastModified: stats.mtimeMs, size: stats.size });
+      } catch {
+        // Removed while listing
+      }
+    }
+    return listings;
+  }
+
+  delete(cwd: string, sessionId: string): boolean {
+    const filePath = sessionFile(this.dir(cwd), sessionId);
+    try {
+      unlinkSync(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Sessions kept in process memory. Nothing survives a restart; useful for
+ * tests and for hosts that persist conversations themselves.
+ */
+export class InMemorySessionStore implements SessionStore {
+  private sessions = new Map<string, { cwd: string; sessionId: string; lines: string[]; lastModified: number; size: number }>();
+
+  private key(cwd: string, sessionId: string): string {
+    return `${cwd}\0${sessionId}`;
+  }
+
+  append(cwd: string, sessionId: string, entry: SessionLogEntry): void {
+    const key = this.key(cwd, sessionId);
+    let session = this.sessions.get(key);
+    if (!session) {
+      session = { cwd, sessionId, lines: [], lastModified: 0, size: 0 };
+      this.sessions.set(key, session);
+    }
+    // Entries are stored serialized so later mutation by the caller has no effect
+    const line = JSON.stringify(entry);
+    session.lines.push(line);
+    session.size += Buffer.byteLength(line) + 1;
+    session.lastModified = Date.now();
+  }
+
+  load(cwd: string, sessionId: string): SessionRecord[] | null {
+    const session = this.sessions.get(this.key(cwd, sessionId));
+    return session ? session.lines.map((line) => JSON.parse(line) as SessionRecord) : null;
+  }
+
+  list(cwd: string): SessionListing[] {
+    return [...this.sessions.values()]
+      .filter((session) => session.cwd === cwd)
+      .map(({ sessionId, lastModified, size }) => ({ sessionId, lastModified, size }));
+  }
+
+  delete(cwd: string, sessionId: string): boolean {
+    return this.sessions.delete(this.key(cwd, sessionId));
+  }
+}
+
+/** Store used when no `sessionStore` is configured. */
+export const defaultSessionStore: SessionStore = new JsonlSessionStore();
+
+// ─── Write ──────────────────────────────────────────────────────────────────
+
 /**
  * Create a session logger function for use in the agent loop.
  * Returns a function that logs messages and returns the entry UUID.
+ *
+ * Callers pass the entry's parent explicitly. A null `parentUuid` attaches
+ * it to the previously logged entry; the first one attaches to `leafUuid`,
+ * the end of the branch being continued or an earlier message to start a new
+ * branch from. A compact summary always hangs off its boundary entry.
+ *
+ * With `agentId`, entries are written into `sessionId` as a sidechain of that
+ * subagent: they are not part of the main branch and not listed as a session.
  */
 export function createSessionLogger(
   cwd: string,
   sessionId: string,
   model?: string,
-): (role: "user" | "assistant", content: NormalizedContent[] | string, parentUuid: string | null) => string {
-  const dir = sessionsDir(cwd);
-  let lastUuid: string | null = null;
+  store: SessionStore = defaultSessionStore,
+  leafUuid: string | null = null,
+  agentId?: string,
+): (
+  role: "user" | "assistant",
+  content: NormalizedContent[] | string,
+  parentUuid: string | null,
+  options?: SessionLogOptions,
+) => string {
+  let lastUuid = leafUuid;
+  const sidechain = agentId !== undefined ? { isSidechain: true, agentId } : { isSidechain: false };
+
+  return (role, content, parentUuid, options) => {
+    if (options?.compactBoundary) {
+      const boundaryUuid = makeUuid();
+      store.append(cwd, sessionId, {
+        type: "system",
+        subtype: "compact_boundary",
+        uuid: boundaryUuid,
+        parentUuid: null,
+        sessionId,
+        timestamp: new Date().toISOString(),
+        cwd,
+        ...sidechain,
+        userType: "external",
+        content: "Conversation compacted",
+        compactMetadata: options.compactBoundary,
+      });
+      lastUuid = boundaryUuid;
+    }
 
-  return (role, content, parentUuid) => {
-    const entryUuid = makeUuid();
+    const entryUuid = options?.uuid ?? makeUuid();
 
     // Normalize user text content to array form (matching Claude SDK)
     let normalizedContent = content;
@@ -114,21 +410,35 @@ export function createSessionLogger(
     const entry: SessionEntry = {
       type: role,
       uuid: entryUuid,
-      parentUuid: parentUuid ?? lastUuid,
+      parentUuid: options?.compactBoundary ? lastUuid : parentUuid ?? lastUuid,
       sessionId,
       timestamp: new Date().toISOString(),
       cwd,
-      isSidechain: false,
+      ...sidechain,
       userType: "external",
       message: {
         role,
         content: normalizedContent,
-        ...(role === "assistant" && model ? { model } : {}),
+        ...(role === "assistant" && (options?.model ?? model) ? { model: options?.model ?? model } : {}),
+        ...(role === "assistant" && options?.stopReason !== undefined ? { stop_reason: options.stopReason } : {}),
+        ...(role === "assistant" && options?.usage
+          ? {
+              usage: {
+                input_tokens: options.usage.inputTokens,
+                output_tokens: options.usage.outputTokens,
+                cache_read_input_tokens: options.usage.cacheReadInputTokens,
+                cache_creation_input_tokens: options.usage.cacheCreationInputTokens,
+              },
+            }
+          : {}),
       },
       ...(role === "user" ? { permissionMode: "default" } : {}),
+      ...(options?.compactBoundary ? { isCompactSummary: true } : {}),
+      ...(options?.compactTail ? { isCompactTail: true } : {}),
+      ...(options?.costUsd !== undefined ? { costUSD: options.costUsd } : {}),
     };
 
-    logMessage(dir, sessionId, entry);
+    store.append(cwd, sessionId, entry);
     lastUuid = entryUuid;
     return entryUuid;
   };
@@ -137,130 +447,398 @@ export function createSessionLogger(
 // ─── Read ───────────────────────────────────────────────────────────────────
 
 /**
- * Find the most recent session file in the sessions directory for a cwd.
- * Returns the sessionId (filename without .jsonl) or null.
+ * Find the most recently written session for a cwd.
+ * Returns the sessionId or null.
  */
-export function findLatestSession(cwd: string): string | null {
-  const dir = sessionsDir(cwd);
-  try {
-    const files = readdirSync(dir)
-      .filter(f => f.endsWith(".jsonl"))
-      .map(f => {
-        const filePath = join(dir, f);
-        try {
-          return { name: f, mtime: statSync(filePath).mtimeMs };
-        } catch {
-          return null;
-        }
-      })
-      .filter((f): f is { name: string; mtime: number } => f !== null)
-      .sort((a, b) => b.mtime - a.mtime);
-
-    if (files.length === 0) return null;
-    return files[0].name.replace(/\.jsonl$/, "");
-  } catch {
-    return null;
+export function findLatestSession(cwd: string, store: SessionStore = defaultSessionStore): string | null {
+  const listings = store.list(cwd).sort((a, b) => b.lastModified - a.lastModified);
+  return listings.length > 0 ? listings[0].sessionId : null;
+}
+
+// ─── Catalog ────────────────────────────────────────────────────────────────
+
+/** Parsed SessionInfo per store and session; reused while the listing is unchanged. */
+const sessionInfoCache = new WeakMap<SessionStore, Map<string, SessionInfo>>();
+
+function promptPreview(content: unknown): string | undefined {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return undefined;
+  const text = content
+    .filter((block) => block && typeof block === "object" && block.type === "text" && typeof block.text === "string")
+    .map((block) => block.text as string)
+    .join("\n");
+  return text || undefined;
+}
+
+function readSessionInfo(cwd: string, listing: SessionListing, store: SessionStore): SessionInfo | null {
+  let cache = sessionInfoCache.get(store);
+  if (!cache) {
+    cache = new Map();
+    sessionInfoCache.set(store, cache);
+  }
+  const cacheKey = `${cwd}\0${listing.sessionId}`;
+  const cached = cache.get(cacheKey);
+  if (cached && cached.lastModified === listing.lastModified && cached.fileSize === listing.size) {
+    return cached;
+  }
+
+  const records = store.load(cwd, listing.sessionId);
+  if (!records) return null;
+
+  const info: SessionInfo = {
+    sessionId: listing.sessionId,
+    cwd,
+    numTurns: 0,
+    totalCostUsd: 0,
+    lastModified: listing.lastModified,
+    fileSize: listing.size,
+  };
+
+  for (const entry of records) {
+    if (typeof entry.timestamp === "string") {
+      info.createdAt ??= entry.timestamp;
+      info.updatedAt = entry.timestamp;
+    }
+
+    if (entry.type === "custom-title" && typeof entry.customTitle === "string") {
+      info.title = entry.customTitle;
+      continue;
+    }
+
+    // Subagent runs add to the session's cost but not to its prompt, turns or model
+    if (entry.isSidechain === true) {
+      if (entry.type === "assistant" && typeof entry.costUSD === "number") info.totalCostUsd += entry.costUSD;
+      continue;
+    }
+
+    const message = entry.message as { content?: unknown; model?: unknown } | undefined;
+    if (entry.type === "user" && info.firstPrompt === undefined && entry.isMeta !== true && !entry.isCompactSummary) {
+      info.firstPrompt = promptPreview(message?.content);
+    } else if (entry.type === "assistant" && entry.isCompactTail !== true) {
+      info.numTurns++;
+      if (typeof message?.model === "string") info.model = message.model;
+      if (typeof entry.costUSD === "number") info.totalCostUsd += entry.costUSD;
+    }
   }
+
+  cache.set(cacheKey, info);
+  return info;
 }
 
 /**
- * Load messages from a session JSONL file and reconstruct NormalizedMessage[].
- * Skips non-message entries (file-history-snapshot, queue-operation, system, progress).
+ * List persisted sessions for a cwd, most recently modified first.
  */
-export function loadSessionMessages(
+export function listSessions(cwd: string, store: SessionStore = defaultSessionStore): SessionInfo[] {
+  return store.list(cwd)
+    .map((listing) => readSessionInfo(cwd, listing, store))
+    .filter((info): info is SessionInfo => info !== null)
+    .sort((a, b) => b.lastModified - a.lastModified);
+}
+
+/**
+ * Read catalog metadata for one session. Returns null if it does not exist.
+ */
+export function getSession(
   cwd: string,
   sessionId: string,
-  resumeSessionAt?: string,
-): NormalizedMessage[] {
-  const dir = sessionsDir(cwd);
-  const filePath = join(dir, `${sessionId}.jsonl`);
+  store: SessionStore = defaultSessionStore,
+): SessionInfo | null {
+  const listing = store.list(cwd).find((l) => l.sessionId === sessionId);
+  return listing ? readSessionInfo(cwd, listing, store) : null;
+}
 
-  let lines: string[];
-  try {
-    lines = readFileSync(filePath, "utf-8").trim().split("\n").filter(Boolean);
-  } catch {
-    return [];
-  }
+/**
+ * Set a session's title by appending a custom-title entry.
+ * Returns false if the session does not exist.
+ */
+export function renameSession(
+  cwd: string,
+  sessionId: string,
+  title: string,
+  store: SessionStore = defaultSessionStore,
+): boolean {
+  if (!store.list(cwd).some((l) => l.sessionId === sessionId)) return false;
+  store.append(cwd, sessionId, {
+    type: "custom-title",
+    customTitle: title,
+    sessionId,
+    timestamp: new Date().toISOString(),
+  });
+  return true;
+}
 
-  const messages: NormalizedMessage[] = [];
-  let reachedResumePoint = false;
+/**
+ * Delete a session. Returns false if it did not exist.
+ */
+export function deleteSession(
+  cwd: string,
+  sessionId: string,
+  store: SessionStore = defaultSessionStore,
+): boolean {
+  sessionInfoCache.get(store)?.delete(`${cwd}\0${sessionId}`);
+  return store.delete(cwd, sessionId);
+}
 
-  for (const line of lines) {
-    if (resumeSessionAt && reachedResumePoint) break;
+/**
+ * Convert a stored user/assistant entry to a NormalizedMessage.
+ * Returns null for entries that are not part of the conversation.
+ */
+export function entryToMessage(entry: SessionRecord): NormalizedMessage | null {
+  // Only process user and assistant message entries
+  if (entry.type !== "user" && entry.type !== "assistant") return null;
+
+  // Skip meta messages (Claude SDK uses these for internal bookkeeping)
+  if (entry.isMeta === true) return null;
+
+  const message = entry.message as { role: string; content: unknown } | undefined;
+  if (!message) return null;
+
+  const role = entry.type === "user" ? "user" : "assistant";
+  let content: NormalizedContent[] | string;
+
+  if (typeof message.content === "string") {
+    content = message.content;
+  } else if (Array.isArray(message.content)) {
+    // Preserve known blocks. Unknown typed blocks are replayed as text so they are not silently dropped.
+    const normalizedBlocks: NormalizedContent[] = [];
+    for (const c of message.content as unknown[]) {
+      if (!c || typeof c !== "object") continue;
+      const block = c as Record<string, unknown>;
+      if (typeof block.type !== "string") continue;
+
+      if (block.type === "text" && typeof block.text === "string") {
+        normalizedBlocks.push({ type: "text", text: block.text });
+        continue;
+      }
 
-    try {
-      const entry = JSON.parse(line) as Record<string, unknown>;
-
-      // Only process user and assistant message entries
-      if (entry.type !== "user" && entry.type !== "assistant") continue;
-
-      // Skip meta messages (Claude SDK uses these for internal bookkeeping)
-      if (entry.isMeta === true) continue;
-
-      const message = entry.message as { role: string; content: unknown } | undefined;
-      if (!message) continue;
-
-      const role = entry.type === "user" ? "user" : "assistant";
-      let content: NormalizedContent[] | string;
-
-      if (typeof message.content === "string") {
-        content = message.content;
-      } else if (Array.isArray(message.content)) {
-        // Preserve known blocks. Unknown typed blocks are replayed as text so they are not silently dropped.
-        const normalizedBlocks: NormalizedContent[] = [];
-        for (const c of message.content as unknown[]) {
-          if (!c || typeof c !== "object") continue;
-          const block = c as Record<string, unknown>;
-          if (typeof block.type !== "string") continue;
-
-          if (block.type === "text" && typeof block.text === "string") {
-            normalizedBlocks.push({ type: "text", text: block.text });
-            continue;
-          }
-
-          if (
-            block.type === "tool_use"
-            && typeof block.id === "string"
-            && typeof block.name === "string"
-          ) {
-            normalizedBlocks.push({
-              type: "tool_use",
-              id: block.id,
-              name: block.name,
-              input: block.input ?? {},
-            });
-            continue;
-          }
-
-          if (block.type === "tool_result" && typeof block.tool_use_id === "string") {
-            normalizedBlocks.push({
-              type: "tool_result",
-              tool_use_id: block.tool_use_id,
-              content: typeof block.content === "string" ? block.content : safeStringify(block.content),
-              is_error: typeof block.is_error === "boolean" ? block.is_error : undefined,
-            });
-            continue;
-          }
-
-          normalizedBlocks.push({
-            type: "text",
-            text: `[session:${block.type}] ${safeStringify(block)}`,
-          });
-        }
-        content = normalizedBlocks;
-      } else {
+      if (block.type === "thinking" && typeof block.thinking === "string") {
+        normalizedBlocks.push({
+          type: "thinking",
+          thinking: block.thinking,
+          ...(typeof block.signature === "string" ? { signature: block.signature } : {}),
+          ...(typeof block.id === "string" ? { id: block.id } : {}),
+          ...(typeof block.provider === "string" ? { provider: block.provider } : {}),
+        });
+        continue;
+      }
+
+      if (block.type === "redacted_thinking" && typeof block.data === "string") {
+        normalizedBlocks.push({
+          type: "redacted_thinking",
+          data: block.data,
+          ...(typeof block.provider === "string" ? { provider: block.provider } : {}),
+        });
+        continue;
+      }
+
+      const media = toMediaBlock(block);
+      if (media) {
+        normalizedBlocks.push(media);
         continue;
       }
 
-      messages.push({ role, content } as NormalizedMessage);
+      if (
+        block.type === "tool_use"
+        && typeof block.id === "string"
+        && typeof block.name === "string"
+      ) {
+        normalizedBlocks.push({
+          type: "tool_use",
+          id: block.id,
+          name: block.name,
+          input: block.input ?? {},
+        });
+        continue;
+      }
 
-      if (resumeSessionAt && entry.uuid === resumeSessionAt) {
-        reachedResumePoint = true;
+      if (block.type === "tool_result" && typeof block.tool_use_id === "string") {
+        normalizedBlocks.push({
+          type: "tool_result",
+          tool_use_id: block.tool_use_id,
+          content: toToolResultContent(block.content),
+          is_error: typeof block.is_error === "boolean" ? block.is_error : undefined,
+        });
+        continue;
       }
+
+      normalizedBlocks.push({
+        type: "text",
+        text: `[session:${block.type}] ${safeStringify(block)}`,
+      });
+    }
+    content = normalizedBlocks;
+  } else {
+    return null;
+  }
+
+  return { role, content } as NormalizedMessage;
+}
+
+/** Base64 image or document block. */
+function toMediaBlock(block: Record<string, unknown>): NormalizedImageContent | NormalizedDocumentContent | null {
+  if (block.type !== "image" && block.type !== "document") return null;
+  const source = block.source as Record<string, unknown> | undefined;
+  if (
+    source?.type !== "base64"
+    || typeof source.media_type !== "string"
+    || typeof source.data !== "string"
+  ) return null;
+  return { type: block.type, source: { type: "base64", media_type: source.media_type, data: source.data } };
+}
+
+/** Tool result content: a string, or text, image and document blocks. Anything else is stringified. */
+function toToolResultContent(content: unknown): NormalizedToolResultContent["content"] {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return safeStringify(content);
+  const blocks: Exclude<NormalizedToolResultContent["content"], string> = [];
+  for (const item of content) {
+    if (!item || typeof item !== "object") return safeStringify(content);
+    const block = item as Record<string, unknown>;
+    const media = toMediaBlock(block);
+    if (media) blocks.push(media);
+    else if (block.type === "text" && typeof block.text === "string") blocks.push({ type: "text", text: block.text });
+    else return safeStringify(content);
+  }
+  return blocks;
+}
+
+function isCompactBoundary(entry: SessionRecord): boolean {
+  return entry.type === "system" && entry.subtype === "compact_boundary";
+}
+
+/**
+ * Select the active branch: walk `parentUuid` links from the leaf back to the
+ * root and return the entries root-first. The leaf is `leafUuid` when given
+ * (and known), otherwise the last entry written. Sidechain (subagent) entries
+ * are never part of the main branch; with `agentId`, the branch is selected
+ * from that subagent's sidechain instead.
+ *
+ * Walking stops at a compact boundary, which has no parent. Any other entry
+ * without a parent that is not the first entry continues with the entry
+ * written before it: older transcripts restarted the chain on each resume.
+ */
+export function selectActiveBranch(records: SessionRecord[], leafUuid?: string, agentId?: string): SessionRecord[] {
+  const chained = records.filter((entry) =>
+    typeof entry.uuid === "string"
+    && (agentId === undefined ? entry.isSidechain !== true : entry.isSidechain === true && entry.agentId === agentId)
+    && (entry.type === "user" || entry.type === "assistant" || isCompactBoundary(entry)));
+  if (chained.length === 0) return [];
+
+  const byUuid = new Map<string, { entry: SessionRecord; index: number }>();
+  chained.forEach((entry, index) => byUuid.set(entry.uuid as string, { entry, index }));
+
+  let current = (leafUuid ? byUuid.get(leafUuid) : undefined) ?? { entry: chained.at(-1)!, index: chained.length - 1 };
+  const branch: SessionRecord[] = [];
+  const visited = new Set<string>();
+
+  while (!visited.has(current.entry.uuid as string)) {
+    visited.add(current.entry.uuid as string);
+    branch.push(current.entry);
+    if (isCompactBoundary(current.entry)) break;
+
+    const parentUuid = current.entry.parentUuid;
+    const parent = typeof parentUuid === "string" ? byUuid.get(parentUuid) : undefined;
+    if (parent) {
+      current = parent;
+    } else if (parentUuid == null && current.index > 0) {
+      current = { entry: chained[current.index - 1], index: current.index - 1 };
+    } else {
+      break;
+    }
+  }
+
+  return branch.reverse();
+}
+
+/**
+ * Load the active branch of a session and reconstruct NormalizedMessage[].
+ * With `resumeSessionAt`, the branch ends at that message instead of the
+ * latest one. `leafUuid` is the last entry on the branch; log new entries
+ * under it to continue (or branch off) the conversation. With `agentId`, the
+ * branch is that subagent's sidechain within the session.
+ * Skips non-message entries (file-history-snapshot, queue-operation, system, progress).
+ * Entries before a compact_boundary are replaced by the summary that follows it.
+ */
+export function loadSessionBranch(
+  cwd: string,
+  sessionId: string,
+  resumeSessionAt?: string,
+  store: SessionStore = defaultSessionStore,
+  agentId?: string,
+): { messages: NormalizedMessage[]; leafUuid: string | null } {
+  const records = store.load(cwd, sessionId);
+  if (!records) return { messages: [], leafUuid: null };
+
+  const branch = selectActiveBranch(records, resumeSessionAt, agentId);
+  const messages: NormalizedMessage[] = [];
+  for (const entry of branch) {
+    try {
+      const message = entryToMessage(entry);
+      if (message) messages.push(message);
     } catch {
-      // Skip malformed lines
+      // Skip malformed entries
+    }
+  }
+
+  const leaf = branch.at(-1);
+  return {
+    messages: closeDanglingToolUses(messages),
+    leafUuid: leaf ? leaf.uuid as string : null,
+  };
+}
+
+/**
+ * Load the active branch of a session as NormalizedMessage[].
+ */
+export function loadSessionMessages(
+  cwd: string,
+  sessionId: string,
+  resumeSessionAt?: string,
+  store: SessionStore = defaultSessionStore,
+): NormalizedMessage[] {
+  return loadSessionBranch(cwd, sessionId, resumeSessionAt, store).messages;
+}
+
+export const INTERRUPTED_TOOL_RESULT = "Interrupted: the tool call did not complete.";
+
+/**
+ * Give every tool_use a matching tool_result. A session interrupted between
+ * logging a tool call and its result would otherwise be rejected on resume.
+ */
+function closeDanglingToolUses(messages: NormalizedMessage[]): NormalizedMessage[] {
+  const result: NormalizedMessage[] = [];
+
+  for (let i = 0; i < messages.length; i++) {
+    const msg = messages[i];
+    result.push(msg);
+    if (msg.role !== "assistant" || typeof msg.content === "string") continue;
+
+    const toolUseIds = msg.content
+      .filter((block) => block.type === "tool_use")
+      .map((block) => (block as { id: string }).id);
+    if (toolUseIds.length === 0) continue;
+
+    const next = messages[i + 1];
+    const nextBlocks: NormalizedContent[] = next?.role === "user"
+      ? typeof next.content === "string" ? [{ type: "text", text: next.content }] : next.content
+      : [];
+    const answered = new Set(
+      nextBlocks
+        .filter((block) => block.type === "tool_result")
+        .map((block) => (block as { tool_use_id: string }).tool_use_id),
+    );
+    const missing: NormalizedContent[] = toolUseIds
+      .filter((id) => !answered.has(id))
+      .map((id) => ({ type: "tool_result", tool_use_id: id, content: INTERRUPTED_TOOL_RESULT, is_error: true }));
+    if (missing.length === 0) continue;
+
+    if (next?.role === "user") {
+      result.push({ role: "user", content: [...missing, ...nextBlocks] });
+      i++;
+    } else {
+      result.push({ role: "user", content: missing });
     }
   }
 
-  return messages;
+  return result;
 }
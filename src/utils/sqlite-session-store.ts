@@ -0,0 +1,78 @@
+/**
+ * SQLite session store (bun:sqlite).
+ *
+ * Entries live in a single table keyed by cwd and session ID. The database
+ * runs in WAL mode with a busy timeout, so several processes can append to
+ * the same file concurrently.
+ */
+
+import { Database } from "bun:sqlite";
+import type { SessionListing, SessionLogEntry, SessionRecord, SessionStore } from "./session-store.ts";
+
+const BUSY_TIMEOUT_MS = 5_000;
+
+export class SqliteSessionStore implements SessionStore {
+  private db: Database;
+
+  /** `path` is a database file, or ":memory:". An existing Database can be passed instead. */
+  constructor(path: string | Database) {
+    this.db = typeof path === "string" ? new Database(path, { create: true }) : path;
+    this.db.exec(`PRAGMA busy_timeout = ${BUSY_TIMEOUT_MS}`);
+    this.db.exec("PRAGMA journal_mode = WAL");
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS session_entries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        cwd TEXT NOT NULL,
+        session_id TEXT NOT NULL,
+        data TEXT NOT NULL,
+        written_at INTEGER NOT NULL
+      )
+    `);
+    this.db.exec("CREATE INDEX IF NOT EXISTS session_entries_session ON session_entries (cwd, session_id, id)");
+  }
+
+  append(cwd: string, sessionId: string, entry: SessionLogEntry): void {
+    this.db
+      .query("INSERT INTO session_entries (cwd, session_id, data, written_at) VALUES (?, ?, ?, ?)")
+      .run(cwd, sessionId, JSON.stringify(entry), Date.now());
+  }
+
+  load(cwd: string, sessionId: string): SessionRecord[] | null {
+    const rows = this.db
+      .query<{ data: string }, [string, string]>(
+        "SELECT data FROM session_entries WHERE cwd = ? AND session_id = ? ORDER BY id",
+      )
+      .all(cwd, sessionId);
+    if (rows.length === 0) return null;
+
+    const records: SessionRecord[] = [];
+    for (const row of rows) {
+      try {
+        records.push(JSON.parse(row.data) as SessionRecord);
+      } catch {
+        // Skip malformed rows
+      }
+    }
+    return records;
+  }
+
+  list(cwd: string): SessionListing[] {
+    return this.db
+      .query<SessionListing, [string]>(`
+        SELECT session_id AS sessionId, MAX(written_at) AS lastModified, SUM(LENGTH(CAST(data AS BLOB)) + 1) AS size
+        FROM session_entries WHERE cwd = ? GROUP BY session_id
+      `)
+      .all(cwd);
+  }
+
+  delete(cwd: string, sessionId: string): boolean {
+    const result = this.db
+      .query("DELETE FROM session_entries WHERE cwd = ? AND session_id = ?")
+      .run(cwd, sessionId);
+    return result.changes > 0;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -100,19 +100,16 @@ export function buildSystemPrompt(context: SystemPromptContext): string {
 
     // Claude SDK behavior: project instructions are loaded only when project settings are enabled.
     if (context.loadProjectInstructions) {
-      const instructions = readProjectInstructions(context.cwd);
-      if (instructions) {
-        sections.push(`# Project Instructions\n\n${instructions}`);
+      const instructionsSection = formatProjectInstructionsSection(context.cwd);
+      if (instructionsSection) {
+        sections.push(instructionsSection);
       }
     }
   }
 
-  // Skills — injected as XML per Agent Skills standard
-  if (context.skills && context.skills.length > 0) {
-    const skillsPrompt = formatSkillsForPrompt(context.skills);
-    if (skillsPrompt) {
-      sections.push(`# Skills\n\n${skillsPrompt}`);
-    }
+  const skillsSection = formatSkillsSection(context.skills ?? []);
+  if (skillsSection) {
+    sections.push(skillsSection);
   }
 
   // Custom prompt (appended at the end)
@@ -123,6 +120,19 @@ export function buildSystemPrompt(context: SystemPromptContext): string {
   return sections.join("\n\n");
 }
 
+/** The skills section of the system prompt, injected as XML per Agent Skills standard. */
+export function formatSkillsSection(skills: Skill[]): string | undefined {
+  if (skills.length === 0) return undefined;
+  const skillsPrompt = formatSkillsForPrompt(skills);
+  return skillsPrompt ? `# Skills\n\n${skillsPrompt}` : undefined;
+}
+
+/** The project instructions section of the system prompt, from CLAUDE.md or AGENTS.md in `cwd`. */
+export function formatProjectInstructionsSection(cwd: string): string | undefined {
+  const instructions = readProjectInstructions(cwd);
+  return instructions ? `# Project Instructions\n\n${instructions}` : undefined;
+}
+
 function readProjectInstructions(cwd: string): string | null {
   for (const name of ["CLAUDE.md", "AGENTS.md"]) {
     try {
@@ -0,0 +1,538 @@
+/**
+ * Transcript export — renders a persisted session as Markdown, self-contained
+ * HTML or a normalized JSON form for reviews and postmortems.
+ *
+ * The main conversation is the session's active branch (see
+ * selectActiveBranch). Subagent sidechain entries are grouped into separate
+ * sections, together with subagent sessions that Task results refer to by
+ * agent ID. Tool results are attached to the tool call they answer.
+ */
+
+import type { SessionRecord, SessionStore } from "./session-store.ts";
+import { defaultSessionStore, entryToMessage, selectActiveBranch } from "./session-store.ts";
+import { toolResultDocuments, toolResultImages, toolResultText } from "../providers/types.ts";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type TranscriptFormat = "markdown" | "html" | "json";
+
+/** Base64 image data */
+export type TranscriptImage = { mediaType: string; data: string };
+
+/** Base64 document data (PDF) */
+export type TranscriptDocument = { mediaType: string; data: string };
+
+type TranscriptToolOutput = {
+  content: string;
+  isError: boolean;
+  images?: TranscriptImage[];
+  documents?: TranscriptDocument[];
+};
+
+export type TranscriptBlock =
+  | { type: "text"; text: string }
+  /** Model reasoning; `redacted` when the provider returned it encrypted */
+  | { type: "thinking"; text: string; redacted?: boolean }
+  | ({ type: "image" } & TranscriptImage)
+  | ({ type: "document" } & TranscriptDocument)
+  | {
+      type: "tool_call";
+      id: string;
+      name: string;
+      input: unknown;
+      /** Missing when the call never got a result */
+      result?: TranscriptToolOutput;
+    }
+  /** A result whose tool call is not in the transcript */
+  | ({ type: "tool_result"; toolUseId: string } & TranscriptToolOutput);
+
+export type TranscriptMessage = {
+  uuid: string;
+  role: "user" | "assistant";
+  timestamp?: string;
+  /** Assistant messages: model, cost and token usage of the API call */
+  model?: string;
+  costUsd?: number;
+  stopReason?: string | null;
+  usage?: { inputTokens: number; outputTokens: number };
+  blocks: TranscriptBlock[];
+};
+
+export type TranscriptSidechain = {
+  /** Subagent ID when recorded, otherwise the UUID of the sidechain's first entry */
+  id: string;
+  messages: TranscriptMessage[];
+};
+
+export type Transcript = {
+  sessionId: string;
+  title?: string;
+  cwd?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  models: string[];
+  totalCostUsd: number;
+  messages: TranscriptMessage[];
+  sidechains: TranscriptSidechain[];
+};
+
+export type TranscriptExportOptions = {
+  /** Output format. Default: "markdown" */
+  format?: TranscriptFormat;
+  /** Session store to read from. Default: JSONL under ~/.claude/projects */
+  store?: SessionStore;
+  /** Export the branch ending at this message instead of the latest one */
+  leafUuid?: string;
+  /** Secrets to mask: literal strings or patterns, replaced with `[REDACTED]` */
+  redact?: (string | RegExp)[];
+  /** Include subagent sidechains. Default: true */
+  includeSidechains?: boolean;
+};
+
+export const REDACTED = "[REDACTED]";
+
+// ─── Build ──────────────────────────────────────────────────────────────────
+
+function makeRedactor(patterns: (string | RegExp)[] | undefined): (text: string) => string {
+  const active = (patterns ?? []).filter((p) => (typeof p === "string" ? p.length > 0 : true));
+  if (active.length === 0) return (text) => text;
+  return (text) => {
+    let result = text;
+    for (const pattern of active) {
+      if (typeof pattern === "string") {
+        result = result.split(pattern).join(REDACTED);
+      } else {
+        const flags = pattern.flags.includes("g") ? pattern.flags : `${pattern.flags}g`;
+        result = result.replace(new RegExp(pattern.source, flags), REDACTED);
+      }
+    }
+    return result;
+  };
+}
+
+function redactValue(value: unknown, redact: (text: string) => string): unknown {
+  if (typeof value === "string") return redact(value);
+  if (Array.isArray(value)) return value.map((item) => redactValue(item, redact));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, redactValue(item, redact)]),
+    );
+  }
+  return value;
+}
+
+function toTranscriptMessage(entry: SessionRecord, redact: (text: string) => string): TranscriptMessage | null {
+  const message = entryToMessage(entry);
+  if (!message) return null;
+
+  const blocks: TranscriptBlock[] = typeof message.content === "string"
+    ? [{ type: "text", text: redact(message.content) }]
+    : message.content.map((block): TranscriptBlock => {
+        if (block.type === "text") return { type: "text", text: redact(block.text) };
+        if (block.type === "thinking") return { type: "thinking", text: redact(block.thinking) };
+        if (block.type === "redacted_thinking") return { type: "thinking", text: "", redacted: true };
+        if (block.type === "image" || block.type === "document") {
+          return { type: block.type, mediaType: block.source.media_type, data: block.source.data };
+        }
+        if (block.type === "tool_use") {
+          return { type: "tool_call", id: block.id, name: block.name, input: redactValue(block.input, redact) };
+        }
+        const images = toolResultImages(block.content)
+          .map((image) => ({ mediaType: image.source.media_type, data: image.source.data }));
+        const documents = toolResultDocuments(block.content)
+          .map((document) => ({ mediaType: document.source.media_type, data: document.source.data }));
+        return {
+          type: "tool_result",
+          toolUseId: block.tool_use_id,
+          content: redact(toolResultText(block.content)),
+          isError: block.is_error === true,
+          ...(images.length > 0 ? { images } : {}),
+          ...(documents.length > 0 ? { documents } : {}),
+        };
+      });
+
+  const raw = entry.message as {
+    model?: unknown;
+    stop_reason?: unknown;
+    usage?: { input_tokens?: unknown; output_tokens?: unknown };
+  };
+  return {
+    uuid: String(entry.uuid),
+    role: message.role === "assistant" ? "assistant" : "user",
+    ...(typeof entry.timestamp === "string" ? { timestamp: entry.timestamp } : {}),
+    ...(typeof raw.model === "string" ? { model: raw.model } : {}),
+    ...(typeof entry.costUSD === "number" ? { costUsd: entry.costUSD } : {}),
+    ...(typeof raw.stop_reason === "string" || raw.stop_reason === null ? { stopReason: raw.stop_reason as string | null } : {}),
+    ...(raw.usage && typeof raw.usage.input_tokens === "number" && typeof raw.usage.output_tokens === "number"
+      ? { usage: { inputTokens: raw.usage.input_tokens, outputTokens: raw.usage.output_tokens } }
+      : {}),
+    blocks,
+  };
+}
+
+/** Attach tool results to the calls they answer; drop user messages left empty. */
+function pairToolResults(messages: TranscriptMessage[]): TranscriptMessage[] {
+  const calls = new Map<string, Extract<TranscriptBlock, { type: "tool_call" }>>();
+  const paired: TranscriptMessage[] = [];
+
+  for (const message of messages) {
+    const blocks: TranscriptBlock[] = [];
+    for (const block of message.blocks) {
+      if (block.type === "tool_call") {
+        calls.set(block.id, block);
+      } else if (block.type === "tool_result") {
+        const call = calls.get(block.toolUseId);
+        if (call && !call.result) {
+          const { type: _type, toolUseId: _toolUseId, ...output } = block;
+          call.result = output;
+          continue;
+        }
+      }
+      blocks.push(block);
+    }
+    if (blocks.length > 0) paired.push({ ...message, blocks });
+  }
+
+  return paired;
+}
+
+function convertEntries(entries: SessionRecord[], redact: (text: string) => string): TranscriptMessage[] {
+  return pairToolResults(
+    entries
+      .map((entry) => toTranscriptMessage(entry, redact))
+      .filter((message): message is TranscriptMessage => message !== null),
+  );
+}
+
+/** Group sidechain entries by subagent, keeping write order. */
+function groupSidechains(records: SessionRecord[]): Map<string, SessionRecord[]> {
+  const byUuid = new Map<string, SessionRecord>();
+  for (const entry of records) {
+    if (typeof entry.uuid === "string") byUuid.set(entry.uuid, entry);
+  }
+
+  const rootOf = (entry: SessionRecord): string => {
+    let current = entry;
+    const seen = new Set<string>();
+    while (typeof current.parentUuid === "string" && !seen.has(current.parentUuid)) {
+      seen.add(current.parentUuid);
+      const parent = byUuid.get(current.parentUuid);
+      if (!parent) break;
+      current = parent;
+    }
+    return String(current.uuid);
+  };
+
+  const groups = new Map<string, SessionRecord[]>();
+  for (const entry of records) {
+    const id = typeof entry.agentId === "string" ? entry.agentId : rootOf(entry);
+    const group = groups.get(id) ?? [];
+    group.push(entry);
+    groups.set(id, group);
+  }
+  return groups;
+}
+
+/**
+ * Build the normalized transcript of a session from its stored entries.
+ */
+export function buildTranscript(
+  sessionId: string,
+  records: SessionRecord[],
+  options?: Pick<TranscriptExportOptions, "leafUuid" | "redact" | "includeSidechains">,
+): Transcript {
+  const redact = makeRedactor(options?.redact);
+  const messages = convertEntries(selectActiveBranch(records, options?.leafUuid), redact);
+
+  const sidechains: TranscriptSidechain[] = [];
+  if (options?.includeSidechains !== false) {
+    const sidechainEntries = records.filter((entry) => entry.isSidechain === true);
+    for (const [id, entries] of groupSidechains(sidechainEntries)) {
+      const converted = convertEntries(entries, redact);
+      if (converted.length > 0) sidechains.push({ id, messages: converted });
+    }
+  }
+
+  let title: string | undefined;
+  let cwd: string | undefined;
+  const timestamps: string[] = [];
+  for (const entry of records) {
+    if (entry.type === "custom-title" && typeof entry.customTitle === "string") title = redact(entry.customTitle);
+    if (cwd === undefined && typeof entry.cwd === "string") cwd = entry.cwd;
+    if (typeof entry.timestamp === "string") timestamps.push(entry.timestamp);
+  }
+
+  const all = [...messages, ...sidechains.flatMap((s) => s.messages)];
+  return {
+    sessionId,
+    ...(title !== undefined ? { title } : {}),
+    ...(cwd !== undefined ? { cwd } : {}),
+    ...(timestamps.length > 0 ? { createdAt: timestamps[0], updatedAt: timestamps.at(-1) } : {}),
+    models: [...new Set(all.map((m) => m.model).filter((m): m is string => m !== undefined))],
+    totalCostUsd: all.reduce((sum, m) => sum + (m.costUsd ?? 0), 0),
+    messages,
+    sidechains,
+  };
+}
+
+// ─── Render ─────────────────────────────────────────────────────────────────
+
+function formatCost(costUsd: number): string {
+  return `$${costUsd.toFixed(4)}`;
+}
+
+function formatInput(input: unknown): string {
+  return JSON.stringify(input, null, 2) ?? "null";
+}
+
+function messageHeading(message: TranscriptMessage): string {
+  const parts: string[] = [message.role === "assistant" ? "Assistant" : "User"];
+  if (message.model) parts.push(message.model);
+  if (message.costUsd !== undefined) parts.push(formatCost(message.costUsd));
+  if (message.stopReason && message.stopReason !== "end_turn" && message.stopReason !== "tool_use") {
+    parts.push(`stop: ${message.stopReason}`);
+  }
+  return parts.join(" · ");
+}
+
+/** A code fence longer than any backtick run in the content. */
+function fence(content: string, lang = ""): string {
+  const longest = Math.max(2, ...[...content.matchAll(/`+/g)].map((m) => m[0].length));
+  const marks = "`".repeat(longest + 1);
+  return `${marks}${lang}\n${content}\n${marks}`;
+}
+
+function formatKb(base64: string): string {
+  return `${Math.max(1, Math.round((base64.length * 3) / 4 / 1024))} KB`;
+}
+
+/** Images and documents are not inlined in Markdown; a placeholder notes their type and size. */
+function markdownMedia(kind: "image" | "document", media: TranscriptImage | TranscriptDocument): string {
+  return `_[${kind}: ${media.mediaType}, ${formatKb(media.data)}]_`;
+}
+
+function markdownAttachments(output: TranscriptToolOutput): string[] {
+  return [
+    ...(output.images ?? []).map((image) => markdownMedia("image", image)),
+    ...(output.documents ?? []).map((document) => markdownMedia("document", document)),
+  ];
+}
+
+function markdownBlock(block: TranscriptBlock): string {
+  if (block.type === "text") return block.text;
+  if (block.type === "thinking") {
+    return block.redacted
+      ? "_[redacted thinking]_"
+      : `<details>\n<summary>Thinking</summary>\n\n${block.text}\n\n</details>`;
+  }
+  if (block.type === "image" || block.type === "document") return markdownMedia(block.type, block);
+
+  if (block.type === "tool_result") {
+    const label = block.isError ? "Tool result (error)" : "Tool result";
+    const attachments = markdownAttachments(block).map((line) => `\n\n${line}`).join("");
+    return `<details>\n<summary>${label}</summary>\n\n${fence(block.content)}${attachments}\n\n</details>`;
+  }
+
+  const status = !block.result ? " (no result)" : block.result.isError ? " (error)" : "";
+  const lines = [
+    "<details>",
+    `<summary>Tool call: ${block.name}${status}</summary>`,
+    "",
+    fence(formatInput(block.input), "json"),
+  ];
+  if (block.result) {
+    lines.push("", block.result.isError ? "**Error:**" : "**Result:**", "", fence(block.result.content));
+    for (const line of markdownAttachments(block.result)) lines.push("", line);
+  }
+  lines.push("", "</details>");
+  return lines.join("\n");
+}
+
+function markdownMessages(messages: TranscriptMessage[], level: string): string[] {
+  return messages.map((message) =>
+    [`${level} ${messageHeading(message)}`, "", ...message.blocks.map(markdownBlock).flatMap((b) => [b, ""])].join("\n").trimEnd());
+}
+
+/** Render a transcript as Markdown (tool calls collapse via `<details>`). */
+export function renderTranscriptMarkdown(transcript: Transcript): string {
+  const lines = [`# ${transcript.title ?? `Session ${transcript.sessionId}`}`, ""];
+  lines.push(`- Session: \`${transcript.sessionId}\``);
+  if (transcript.cwd) lines.push(`- Directory: \`${transcript.cwd}\``);
+  if (transcript.models.length > 0) lines.push(`- Models: ${transcript.models.join(", ")}`);
+  if (transcript.createdAt) lines.push(`- Started: ${transcript.createdAt}`);
+  if (transcript.updatedAt) lines.push(`- Updated: ${transcript.updatedAt}`);
+  lines.push(`- Total cost: ${formatCost(transcript.totalCostUsd)}`, "");
+
+  const sections = markdownMessages(transcript.messages, "##");
+  for (const sidechain of transcript.sidechains) {
+    sections.push(`## Subagent ${sidechain.id}`, ...markdownMessages(sidechain.messages, "###"));
+  }
+  return `${lines.join("\n")}\n${sections.join("\n\n")}\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function htmlImage(image: TranscriptImage): string {
+  return `<img src="data:${escapeHtml(image.mediaType)};base64,${escapeHtml(image.data)}" alt="${escapeHtml(image.mediaType)}">`;
+}
+
+/** Documents become a download link so the page stays readable. */
+function htmlDocument(document: TranscriptDocument): string {
+  return `<div class="text"><a download href="data:${escapeHtml(document.mediaType)};base64,${escapeHtml(document.data)}">`
+    + `Document (${escapeHtml(document.mediaType)}, ${formatKb(document.data)})</a></div>`;
+}
+
+function htmlAttachments(output: TranscriptToolOutput): string {
+  return (output.images ?? []).map(htmlImage).join("") + (output.documents ?? []).map(htmlDocument).join("");
+}
+
+function htmlBlock(block: TranscriptBlock): string {
+  if (block.type === "text") return `<div class="text">${escapeHtml(block.text)}</div>`;
+  if (block.type === "thinking") {
+    return block.redacted
+      ? `<div class="thinking">[redacted thinking]</div>`
+      : `<details class="thinking"><summary>Thinking</summary><div class="text">${escapeHtml(block.text)}</div></details>`;
+  }
+  if (block.type === "image") return htmlImage(block);
+  if (block.type === "document") return htmlDocument(block);
+
+  if (block.type === "tool_result") {
+    const cls = block.isError ? "tool error" : "tool";
+    return `<details class="${cls}"><summary>Tool result${block.isError ? " (error)" : ""}</summary>`
+      + `<pre>${escapeHtml(block.content)}</pre>${htmlAttachments(block)}</details>`;
+  }
+
+  const isError = block.result?.isError === true;
+  const status = !block.result ? " (no result)" : isError ? " (error)" : "";
+  const result = block.result
+    ? `<div class="label">${isError ? "Error" : "Result"}</div><pre>${escapeHtml(block.result.content)}</pre>`
+      + htmlAttachments(block.result)
+    : "";
+  return `<details class="${isError ? "tool error" : "tool"}"><summary>Tool call: ${escapeHtml(block.name)}${status}</summary>`
+    + `<div class="label">Input</div><pre>${escapeHtml(formatInput(block.input))}</pre>${result}</details>`;
+}
+
+function htmlMessages(messages: TranscriptMessage[]): string {
+  return messages
+    .map((message) =>
+      `<section class="message ${message.role}"><h3>${escapeHtml(messageHeading(message))}</h3>`
+      + `${message.blocks.map(htmlBlock).join("")}</section>`)
+    .join("\n");
+}
+
+const HTML_STYLE = `
+body { font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 960px; margin: 2em auto; padding: 0 1em; color: #1f2328; }
+h1 { font-size: 1.6em; } h3 { font-size: 0.9em; margin: 0 0 0.5em; color: #59636e; }
+.meta { color: #59636e; } .meta code { font-size: 0.95em; }
+.message { border: 1px solid #d1d9e0; border-radius: 6px; padding: 0.75em 1em; margin: 0.75em 0; }
+.message.user { background: #f6f8fa; }
+.text { white-space: pre-wrap; }
+.thinking { color: #59636e; font-style: italic; margin: 0.5em 0; }
+details.tool { margin: 0.5em 0; border-left: 3px solid #0969da; padding-left: 0.75em; }
+details.tool.error { border-left-color: #d1242f; } details.tool.error summary { color: #d1242f; }
+summary { cursor: pointer; font-weight: 600; }
+pre { background: #f6f8fa; padding: 0.5em; overflow-x: auto; white-space: pre-wrap; word-break: break-word; }
+.label { font-size: 0.85em; color: #59636e; margin-top: 0.5em; }
+img { max-width: 100%; border: 1px solid #d1d9e0; border-radius: 4px; margin: 0.5em 0; }
+`.trim();
+
+/** Render a transcript as a self-contained HTML page. */
+export function renderTranscriptHtml(transcript: Transcript): string {
+  const title = transcript.title ?? `Session ${transcript.sessionId}`;
+  const meta = [
+    `Session <code>${escapeHtml(transcript.sessionId)}</code>`,
+    ...(transcript.cwd ? [`Directory <code>${escapeHtml(transcript.cwd)}</code>`] : []),
+    ...(transcript.models.length > 0 ? [`Models ${escapeHtml(transcript.models.join(", "))}`] : []),
+    ...(transcript.createdAt ? [`Started ${escapeHtml(transcript.createdAt)}`] : []),
+    `Total cost ${formatCost(transcript.totalCostUsd)}`,
+  ];
+  const sidechains = transcript.sidechains
+    .map((s) => `<h2>Subagent ${escapeHtml(s.id)}</h2>\n${htmlMessages(s.messages)}`)
+    .join("\n");
+
+  return [
+    "<!DOCTYPE html>",
+    `<html lang="en"><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>`,
+    `<style>${HTML_STYLE}</style></head><body>`,
+    `<h1>${escapeHtml(title)}</h1>`,
+    `<p class="meta">${meta.join(" · ")}</p>`,
+    htmlMessages(transcript.messages),
+    sidechains,
+    "</body></html>",
+    "",
+  ].join("\n");
+}
+
+// ─── Export ─────────────────────────────────────────────────────────────────
+
+/** The agent ID line a Task result ends with (see createTaskTool) */
+const AGENT_ID_LINE = /^agentId: (\S+)/m;
+
+/**
+ * Subagent sessions that the session's Task results refer to by agent ID but
+ * whose entries are not in the session itself, loaded as sidechains.
+ */
+function referencedSidechains(
+  cwd: string,
+  sessionId: string,
+  records: SessionRecord[],
+  store: SessionStore,
+): SessionRecord[] {
+  const known = new Set([sessionId]);
+  for (const entry of records) {
+    if (entry.isSidechain === true && typeof entry.agentId === "string") known.add(entry.agentId);
+  }
+
+  const loaded: SessionRecord[] = [];
+  for (const entry of records) {
+    if (entry.type !== "user" || entry.isSidechain === true) continue;
+    const message = entryToMessage(entry);
+    if (!message || typeof message.content === "string") continue;
+    for (const block of message.content) {
+      if (block.type !== "tool_result") continue;
+      const agentId = AGENT_ID_LINE.exec(toolResultText(block.content))?.[1];
+      if (!agentId || known.has(agentId)) continue;
+      known.add(agentId);
+      for (const subEntry of store.load(cwd, agentId) ?? []) {
+        if (subEntry.type === "user" || subEntry.type === "assistant") {
+          loaded.push({ ...subEntry, isSidechain: true, agentId });
+        }
+      }
+    }
+  }
+  return loaded;
+}
+
+/**
+ * Render a persisted session as Markdown, HTML or JSON.
+ * Returns null if the session does not exist.
+ */
+export function exportSession(
+  cwd: string,
+  sessionId: string,
+  options?: TranscriptExportOptions,
+): string | null {
+  const store = options?.store ?? defaultSessionStore;
+  const records = store.load(cwd, sessionId);
+  if (!records) return null;
+
+  const transcript = buildTranscript(
+    sessionId,
+    options?.includeSidechains === false ? records : [...records, ...referencedSidechains(cwd, sessionId, records, store)],
+    options,
+  );
+  switch (options?.format ?? "markdown") {
+    case "html":
+      return renderTranscriptHtml(transcript);
+    case "json":
+      return `${JSON.stringify(transcript, null, 2)}\n`;
+    default:
+      return renderTranscriptMarkdown(transcript);
+  }
+}
@@ -3,13 +3,20 @@ import { agentLoop } from "../src/agent-loop.ts";
 import { ToolRegistry } from "../src/tools/registry.ts";
 import type { ToolImplementation } from "../src/tools/registry.ts";
 import { PermissionManager } from "../src/permissions.ts";
-import type { ProviderAdapter, ChatRequest, ChatChunk, ProviderFeature } from "../src/providers/types.ts";
-import type { AgentMessage, TokenUsage } from "../src/types.ts";
+import type { ProviderAdapter, ChatRequest, ChatChunk, ProviderFeature, NormalizedMessage } from "../src/providers/types.ts";
+import type { AgentMessage, SDKUserMessage, TokenUsage } from "../src/types.ts";
+import { query } from "../src/api.ts";
+import { registerProvider } from "../src/providers/registry.ts";
+import { ProviderError } from "../src/providers/errors.ts";
+import { INTERRUPTED_TOOL_RESULT, InMemorySessionStore, createSessionLogger, loadSessionBranch, listSessions } from "../src/utils/session-store.ts";
+import { HookManager } from "../src/hooks.ts";
 
 // ─── Mock Provider ──────────────────────────────────────────────────────────
 
 type MockResponse = {
   text?: string;
+  /** Streamed as thinking deltas; a signature also closes the block */
+  thinking?: { text: string; signature?: string };
   toolCalls?: { id: string; name: string; input: unknown }[];
 };
 
@@ -28,6 +35,16 @@ function createMockProvider(responses: MockResponse[]): ProviderAdapter {
         return;
       }
 
+      if (response.thinking) {
+        yield { type: "thinking_delta", text: response.thinking.text };
+        if (response.thinking.signature) {
+          yield {
+            type: "thinking_block",
+            block: { type: "thinking", thinking: response.thinking.text, signature: response.thinking.signature, provider: "mock" },
+          };
+        }
+      }
+
       if (response.text) {
         yield { type: "text_delta", text: response.text };
       }
@@ -170,6 +187,55 @@ test("tool call and response", async () => {
   expect((result as any).num_turns).toBe(2);
 });
 
+test("emulates tool calling through the prompt when the provider lacks it", async () => {
+  const requests: ChatRequest[] = [];
+  const mock = createMockProvider([
+    { text: 'Echoing.\n<tool_call>\n{"name": "Echo", "arguments": {"text": "hi"}}\n</tool_call>' },
+    { text: "The echo returned: hi" },
+  ]);
+  const provider: ProviderAdapter = {
+    ...mock,
+    chat(request) {
+      requests.push(request);
+      return mock.chat(request);
+    },
+    supportsFeature: (feature) => feature !== "tool_calling",
+  };
+
+  const tools = new ToolRegistry();
+  tools.register(echoTool);
+
+  const messages: AgentMessage[] = [];
+  for await (const msg of agentLoop("Echo hi", {
+    provider,
+    model: "test-model",
+    systemPrompt: "You are helpful.",
+    tools,
+    permissions: new PermissionManager("bypassPermissions"),
+    cwd: "/tmp",
+    sessionId: "test-session",
+    maxTurns: 10,
+    maxBudgetUsd: 1,
+    includePartialMessages: false,
+    signal: new AbortController().signal,
+  })) {
+    messages.push(msg);
+  }
+
+  expect(requests.every((r) => r.tools === undefined)).toBe(true);
+  expect(requests[0].systemPrompt).toContain("<tool_call>");
+  const toolResult = messages
+    .filter((m) => m.type === "user")
+    .flatMap((m: any) => m.message.content)
+    .find((c: any) => c.type === "tool_result");
+  expect((toolResult as any).content).toBe("Echo: hi");
+  // The second request carries the call and its result as text
+  expect(JSON.stringify(requests[1].messages)).toContain('<tool_result name=\\"Echo\\">');
+
+  const result = messages.find((m) => m.type === "result" && m.subtype === "success");
+  expect((result as any).result).toBe("The echo returned: hi");
+});
+
 test("max turns limit", async () => {
   // Provider always returns tool calls — should hit turn limit
   const provider = createMockProvider([
@@ -303,3 +369,1220 @@ test("cost tracking", async () => {
   expect(result.usage.inputTokens).toBeGreaterThan(0);
   expect(result.duration_ms).toBeGreaterThanOrEqual(0);
 });
+
+test("auto-compacts older turns near the context window", async () => {
+  const requests: ChatRequest[] = [];
+  const provider: ProviderAdapter = {
+    name: "mock",
+    async *chat(request: ChatRequest): AsyncGenerator<ChatChunk> {
+      requests.push({ ...request, messages: [...request.messages] });
+      const text = request.systemPrompt?.includes("summarizing a conversation")
+        ? "Summary of earlier work."
+        : "All done.";
+      yield { type: "text_delta", text };
+      yield { type: "usage", usage: { inputTokens: 10, outputTokens: 5, cacheReadInputTokens: 0, cacheCreationInputTokens: 0 } };
+      yield { type: "done", stopReason: "end_turn" };
+    },
+    calculateCost: () => 0,
+    getContextWindow: () => 1_000,
+    supportsFeature: () => true,
+  };
+
+  const bulky = "x".repeat(4_000);
+  const messages: AgentMessage[] = [];
+  for await (const msg of agentLoop("Keep going", {
+    provider,
+    model: "test-model",
+    systemPrompt: "You are helpful.",
+    tools: new ToolRegistry(),
+    permissions: new PermissionManager("bypassPermissions"),
+    cwd: "/tmp",
+    sessionId: "test-session",
+    maxTurns: 10,
+    maxBudgetUsd: 1,
+    includePartialMessages: false,
+    signal: new AbortController().signal,
+    previousMessages: [
+      { role: "user", content: "Start the refactor" },
+      { role: "assistant", content: [{ type: "text", text: bulky }] },
+      { role: "user", content: "Continue" },
+      { role: "assistant", content: [{ type: "text", text: "Continuing." }] },
+    ],
+    compaction: { preserveRecentMessages: 2 },
+  })) {
+    messages.push(msg);
+  }
+
+  const statuses = messages.filter((m) => m.type === "system" && m.subtype === "status") as any[];
+  expect(statuses.map((m) => m.status)).toEqual(["compacting", null]);
+
+  const boundary = messages.find((m) => m.type === "system" && m.subtype === "compact_boundary") as any;
+  expect(boundary).toBeDefined();
+  expect(boundary.compact_metadata.trigger).toBe("auto");
+  expect(boundary.compact_metadata.pre_tokens).toBeGreaterThan(800);
+
+  // The main turn sees the summary followed by the preserved tail
+  const mainRequest = requests[1];
+  expect(mainRequest.messages).toHaveLength(3);
+  expect(mainRequest.messages[0].content as string).toContain("Summary of earlier work.");
+  expect(mainRequest.messages[1].role).toBe("assistant");
+  expect(mainRequest.messages[2]).toEqual({ role: "user", content: "Keep going" });
+
+  const result = messages.find((m) => m.type === "result") as any;
+  expect(result.subtype).toBe("success");
+});
+
+test("resuming after auto-compaction replays the summary and the preserved tail", async () => {
+  const requests: ChatRequest[] = [];
+  const provider: ProviderAdapter = {
+    ...createMockProvider([]),
+    async *chat(request: ChatRequest): AsyncGenerator<ChatChunk> {
+      requests.push({ ...request, messages: [...request.messages] });
+      const text = request.systemPrompt?.includes("summarizing a conversation") ? "Summary of earlier work." : "Third answer.";
+      yield { type: "text_delta", text };
+      yield { type: "done", stopReason: "end_turn" };
+    },
+    getContextWindow: () => 1_000,
+  };
+
+  const store = new InMemorySessionStore();
+  const log = createSessionLogger("/tmp", "compacted", "test-model", store);
+  const previousMessages: NormalizedMessage[] = [
+    { role: "user", content: "first" },
+    { role: "assistant", content: [{ type: "text", text: "x".repeat(4_000) }] },
+    { role: "user", content: "second" },
+    { role: "assistant", content: [{ type: "text", text: "Second answer." }] },
+  ];
+  for (const message of previousMessages) log(message.role, message.content, null);
+  const { leafUuid } = loadSessionBranch("/tmp", "compacted", undefined, store);
+
+  for await (const _ of agentLoop("third", {
+    provider,
+    model: "test-model",
+    systemPrompt: "You are helpful.",
+    tools: new ToolRegistry(),
+    permissions: new PermissionManager("bypassPermissions"),
+    cwd: "/tmp",
+    sessionId: "compacted",
+    maxTurns: 10,
+    maxBudgetUsd: 1,
+    includePartialMessages: false,
+    signal: new AbortController().signal,
+    previousMessages,
+    sessionLogger: createSessionLogger("/tmp", "compacted", "test-model", store, leafUuid),
+    compaction: { preserveRecentMessages: 2 },
+  })) {
+    // drain
+  }
+
+  // The live history after the turn: what the model saw, plus its answer
+  const live = [...requests[1].messages, { role: "assistant", content: [{ type: "text", text: "Third answer." }] }];
+  expect(live.map((m) => m.role)).toEqual(["user", "assistant", "user", "assistant"]);
+  const resumed = loadSessionBranch("/tmp", "compacted", undefined, store).messages;
+  expect(resumed).toEqual(live.map((m) => ({
+    role: m.role,
+    content: typeof m.content === "string" ? [{ type: "text", text: m.content }] : m.content,
+  })) as NormalizedMessage[]);
+  // The re-logged tail is not counted as new turns
+  expect(listSessions("/tmp", store)[0].numTurns).toBe(3);
+});
+
+test("a failed summary is reported once and turns off auto-compaction", async () => {
+  let summaryCalls = 0;
+  let mainCalls = 0;
+  const provider: ProviderAdapter = {
+    name: "mock",
+    async *chat(request: ChatRequest): AsyncGenerator<ChatChunk> {
+      if (request.systemPrompt?.includes("summarizing a conversation")) {
+        summaryCalls++;
+        throw new Error("Summary model unavailable");
+      }
+      mainCalls++;
+      if (mainCalls === 1) {
+        yield { type: "tool_call", id: "call_1", name: "Echo", input: { text: "hi" } };
+        yield { type: "done", stopReason: "tool_use" };
+        return;
+      }
+      yield { type: "text_delta", text: "All done." };
+      yield { type: "done", stopReason: "end_turn" };
+    },
+    calculateCost: () => 0,
+    getContextWindow: () => 1_000,
+    supportsFeature: () => true,
+  };
+
+  const tools = new ToolRegistry();
+  tools.register(echoTool);
+  const precompacts: string[] = [];
+  const messages: AgentMessage[] = [];
+  for await (const msg of agentLoop("Keep going", {
+    provider,
+    model: "test-model",
+    systemPrompt: "You are helpful.",
+    tools,
+    permissions: new PermissionManager("bypassPermissions"),
+    cwd: "/tmp",
+    sessionId: "test-session",
+    maxTurns: 10,
+    maxBudgetUsd: 1,
+    includePartialMessages: false,
+    signal: new AbortController().signal,
+    hooks: new HookManager({ PreCompact: [{ hooks: [async () => { precompacts.push("PreCompact"); return {}; }] }] }),
+    previousMessages: [
+      { role: "user", content: "Start the refactor" },
+      { role: "assistant", content: [{ type: "text", text: "x".repeat(4_000) }] },
+      { role: "user", content: "Continue" },
+      { role: "assistant", content: [{ type: "text", text: "Continuing." }] },
+    ],
+    compaction: { preserveRecentMessages: 2 },
+  })) {
+    messages.push(msg);
+  }
+
+  expect(summaryCalls).toBe(1);
+  expect(precompacts).toEqual(["PreCompact"]);
+  const failures = messages.filter((m) => m.type === "system" && m.subtype === "compact_failed") as any[];
+  expect(failures.map((m) => m.error)).toEqual(["Summary model unavailable"]);
+
+  const result = messages.find((m) => m.type === "result") as any;
+  expect(result.subtype).toBe("success");
+  expect(result.num_turns).toBe(2);
+});
+
+test("streaming input runs one turn per user message on shared history", async () => {
+  const requests: ChatRequest[] = [];
+  const provider: ProviderAdapter = {
+    ...createMockProvider([{ text: "First answer" }, { text: "Second answer" }]),
+  };
+  const baseChat = provider.chat.bind(provider);
+  provider.chat = (request: ChatRequest) => {
+    requests.push({ ...request, messages: [...request.messages] });
+    return baseChat(request);
+  };
+
+  async function* input(): AsyncGenerator<SDKUserMessage> {
+    yield { type: "user", message: { role: "user", content: "Hello" }, parent_tool_use_id: null, session_id: "" };
+    yield {
+      type: "user",
+      message: { role: "user", content: [{ type: "text", text: "And again" }] },
+      parent_tool_use_id: null,
+      session_id: "",
+    };
+  }
+
+  const messages: AgentMessage[] = [];
+  for await (const msg of agentLoop(input(), {
+    provider,
+    model: "test-model",
+    systemPrompt: "You are helpful.",
+    tools: new ToolRegistry(),
+    permissions: new PermissionManager("bypassPermissions"),
+    cwd: "/tmp",
+    sessionId: "test-session",
+    maxTurns: 10,
+    maxBudgetUsd: 1,
+    includePartialMessages: false,
+    signal: new AbortController().signal,
+  })) {
+    messages.push(msg);
+  }
+
+  const results = messages.filter((m) => m.type === "result") as any[];
+  expect(results.map((r) => r.result)).toEqual(["First answer", "Second answer"]);
+  expect(results.every((r) => r.num_turns === 1)).toBe(true);
+  expect(messages.filter((m) => m.type === "system" && m.subtype === "init")).toHaveLength(1);
+
+  expect(requests[1].messages).toEqual([
+    { role: "user", content: "Hello" },
+    { role: "assistant", content: [{ type: "text", text: "First answer" }] },
+    { role: "user", content: [{ type: "text", text: "And again" }] },
+  ]);
+});
+
+test("query() accepts streamInput on an AsyncIterable prompt", async () => {
+  registerProvider("mock-stream", createMockProvider([{ text: "one" }, { text: "two" }]));
+
+  let releaseFirst!: () => void;
+  const firstSent = new Promise<void>((resolve) => { releaseFirst = resolve; });
+  async function* initial(): AsyncGenerator<SDKUserMessage> {
+    yield { type: "user", message: { role: "user", content: "first" }, parent_tool_use_id: null, session_id: "" };
+    await firstSent;
+  }
+
+  const q = query({
+    prompt: initial(),
+    options: { provider: "mock-stream", cwd: "/tmp", persistSession: false, includeDefaultSkills: false },
+  });
+
+  const results: string[] = [];
+  for await (const msg of q) {
+    if (msg.type === "result" && msg.subtype === "success") {
+      results.push(msg.result);
+      if (results.length === 1) {
+        const more = (async function* (): AsyncGenerator<SDKUserMessage> {
+          yield { type: "user", message: { role: "user", content: "second" }, parent_tool_use_id: null, session_id: "" };
+        })();
+        const attached = q.streamInput(more);
+        releaseFirst();
+        await attached;
+      }
+    }
+  }
+
+  expect(results).toEqual(["one", "two"]);
+});
+
+test("interrupt() ends the running turn of a streaming query and keeps the session open", async () => {
+  let calls = 0;
+  let firstStarted!: () => void;
+  const started = new Promise<void>((resolve) => { firstStarted = resolve; });
+  registerProvider("mock-interrupt", {
+    ...createMockProvider([]),
+    async *chat(request: ChatRequest): AsyncGenerator<ChatChunk> {
+      if (calls++ === 0) {
+        firstStarted();
+        await new Promise((resolve) => request.signal!.addEventListener("abort", resolve, { once: true }));
+        throw new Error("aborted");
+      }
+      yield { type: "text_delta", text: "two" };
+      yield { type: "done", stopReason: "end_turn" };
+    },
+  });
+
+  let sendSecond!: () => void;
+  const secondReady = new Promise<void>((resolve) => { sendSecond = resolve; });
+  async function* input(): AsyncGenerator<SDKUserMessage> {
+    yield { type: "user", message: { role: "user", content: "first" }, parent_tool_use_id: null, session_id: "" };
+    await secondReady;
+    yield { type: "user", message: { role: "user", content: "second" }, parent_tool_use_id: null, session_id: "" };
+  }
+
+  const events: string[] = [];
+  const q = query({
+    prompt: input(),
+    options: {
+      provider: "mock-interrupt",
+      cwd: "/tmp",
+      persistSession: false,
+      includeDefaultSkills: false,
+      hooks: { SessionEnd: [{ hooks: [async () => { events.push("SessionEnd"); return {}; }] }] },
+    },
+  });
+  started.then(() => q.interrupt());
+
+  const results: any[] = [];
+  for await (const msg of q) {
+    if (msg.type === "result") {
+      results.push(msg);
+      if (results.length === 1) sendSecond();
+    }
+  }
+
+  expect(results.map((r) => r.subtype)).toEqual(["error_during_execution", "success"]);
+  expect(results[1].result).toBe("two");
+  expect(events).toEqual(["SessionEnd"]);
+});
+
+test("interrupt() before the first turn stops a string-prompt query", async () => {
+  let calls = 0;
+  registerProvider("mock-early-interrupt", {
+    ...createMockProvider([]),
+    async *chat(): AsyncGenerator<ChatChunk> {
+      calls++;
+      yield { type: "text_delta", text: "answered" };
+      yield { type: "done", stopReason: "end_turn" };
+    },
+  });
+
+  const q = query({
+    prompt: "hello",
+    options: { provider: "mock-early-interrupt", cwd: "/tmp", persistSession: false, includeDefaultSkills: false },
+  });
+  await q.interrupt();
+
+  const results: any[] = [];
+  for await (const msg of q) {
+    if (msg.type === "result") results.push(msg);
+  }
+
+  expect(results.map((r) => r.subtype)).toEqual(["error_during_execution"]);
+  expect(calls).toBe(0);
+});
+
+test("ending a query early leaves the caller's abortController alone", async () => {
+  registerProvider("mock-early-return", createMockProvider([{ text: "hi" }]));
+  const abortController = new AbortController();
+  const q = query({
+    prompt: "hello",
+    options: { provider: "mock-early-return", cwd: "/tmp", persistSession: false, includeDefaultSkills: false, abortController },
+  });
+  for await (const msg of q) {
+    if (msg.type === "system") break;
+  }
+
+  expect(abortController.signal.aborted).toBe(false);
+});
+
+test("read-only tool calls run concurrently and keep result order", async () => {
+  const log: string[] = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  const makeTool = (name: string, readOnly: boolean, delayMs: number): ToolImplementation => ({
+    name,
+    description: name,
+    inputSchema: { type: "object", properties: {} },
+    readOnly,
+    async execute(input: unknown) {
+      const { tag } = input as { tag: string };
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      log.push(`start:${tag}`);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      log.push(`end:${tag}`);
+      inFlight--;
+      return { content: tag };
+    },
+  });
+
+  const tools = new ToolRegistry();
+  tools.register(makeTool("Look", true, 20));
+  tools.register(makeTool("Change", false, 1));
+
+  const provider = createMockProvider([
+    {
+      toolCalls: [
+        { id: "c1", name: "Look", input: { tag: "a" } },
+        { id: "c2", name: "Look", input: { tag: "b" } },
+        { id: "c3", name: "Change", input: { tag: "c" } },
+        { id: "c4", name: "Look", input: { tag: "d" } },
+      ],
+    },
+    { text: "done" },
+  ]);
+
+  const messages: AgentMessage[] = [];
+  for await (const msg of agentLoop("Explore", {
+    provider,
+    model: "test-model",
+    systemPrompt: "You are helpful.",
+    tools,
+    permissions: new PermissionManager("bypassPermissions"),
+    cwd: "/tmp",
+    sessionId: "test-session",
+    maxTurns: 10,
+    maxBudgetUsd: 1,
+    includePartialMessages: false,
+    signal: new AbortController().signal,
+  })) {
+    messages.push(msg);
+  }
+
+  expect(maxInFlight).toBe(2);
+  // The mutating call waits for the read-only batch before it, and blocks the one after it
+  expect(log.indexOf("start:c")).toBeGreaterThan(log.indexOf("end:b"));
+  expect(log.indexOf("start:d")).toBeGreaterThan(log.indexOf("end:c"));
+
+  const toolResults = messages
+    .filter((m) => m.type === "user")
+    .flatMap((m: any) => m.message.content);
+  expect(toolResults.map((r: any) => r.tool_use_id)).toEqual(["c1", "c2", "c3", "c4"]);
+  expect(toolResults.map((r: any) => r.content)).toEqual(["a", "b", "c", "d"]);
+});
+
+test("structured output retries with validation errors until the schema matches", async () => {
+  const provider = createMockProvider([
+    { text: "The answer is 12" },
+    { text: '{"value": "12"}' },
+    { text: '```json\n{"value": 12, "label": "sum"}\n```' },
+  ]);
+
+  const messages: AgentMessage[] = [];
+  for await (const msg of agentLoop("Add 5 and 7", {
+    provider,
+    model: "test-model",
+    systemPrompt: "You are helpful.",
+    tools: new ToolRegistry(),
+    permissions: new PermissionManager("bypassPermissions"),
+    cwd: "/tmp",
+    sessionId: "test-session",
+    maxTurns: 10,
+    maxBudgetUsd: 1,
+    includePartialMessages: false,
+    signal: new AbortController().signal,
+    outputFormat: {
+      type: "json_schema",
+      schema: {
+        type: "object",
+        properties: { value: { type: "number" }, label: { type: "string" } },
+        required: ["value", "label"],
+      },
+    },
+  })) {
+    messages.push(msg);
+  }
+
+  const corrections = messages.filter((m) => m.type === "user" && (m as any).isSynthetic);
+  expect(corrections).toHaveLength(2);
+  expect((corrections[0] as any).message.content).toContain("Invalid JSON output");
+  expect((corrections[1] as any).message.content).toContain("$.value: expected number, got string");
+  expect((corrections[1] as any).message.content).toContain('$: missing required property "label"');
+  expect((corrections[1] as any).message.content).toContain('"required": [\n    "value",\n    "label"\n  ]');
+
+  const result = messages.find((m) => m.type === "result") as any;
+  expect(result.subtype).toBe("success");
+  expect(result.num_turns).toBe(3);
+  expect(result.structured_output).toEqual({ value: 12, label: "sum" });
+});
+
+test("structured output fails after maxStructuredOutputRetries", async () => {
+  const provider = createMockProvider([
+    { text: '{"value": "a"}' },
+    { text: '{"value": "b"}' },
+  ]);
+
+  const messages: AgentMessage[] = [];
+  for await (const msg of agentLoop("Give me a number", {
+    provider,
+    model: "test-model",
+    systemPrompt: "You are helpful.",
+    tools: new ToolRegistry(),
+    permissions: new PermissionManager("bypassPermissions"),
+    cwd: "/tmp",
+    sessionId: "test-session",
+    maxTurns: 10,
+    maxBudgetUsd: 1,
+    includePartialMessages: false,
+    signal: new AbortController().signal,
+    outputFormat: { type: "json_schema", schema: { type: "object", properties: { value: { type: "number" } } } },
+    maxStructuredOutputRetries: 1,
+  })) {
+    messages.push(msg);
+  }
+
+  const result = messages.find((m) => m.type === "result") as any;
+  expect(result.subtype).toBe("error_max_structured_output_retries");
+  expect(result.num_turns).toBe(2);
+  expect(result.errors[0]).toContain("$.value: expected number, got string");
+});
+
+test("structured output uses the provider's parsed value and skips native mode without the feature", async () => {
+  const schema = { type: "object", properties: { value: { type: "number" } }, required: ["value"] };
+  const run = async (provider: ProviderAdapter) => {
+    const messages: AgentMessage[] = [];
+    for await (const msg of agentLoop("Give me a number", {
+      provider,
+      model: "test-model",
+      systemPrompt: "You are helpful.",
+      tools: new ToolRegistry(),
+      permissions: new PermissionManager("bypassPermissions"),
+      cwd: "/tmp",
+      sessionId: "test-session",
+      maxTurns: 10,
+      maxBudgetUsd: 1,
+      includePartialMessages: false,
+      signal: new AbortController().signal,
+      outputFormat: { type: "json_schema", schema },
+    })) {
+      messages.push(msg);
+    }
+    return messages.find((m) => m.type === "result") as any;
+  };
+
+  const requests: ChatRequest[] = [];
+  const native: ProviderAdapter = {
+    ...createMockProvider([]),
+    async *chat(request) {
+      requests.push(request);
+      yield { type: "text_delta", text: '{"value": 7}' };
+      yield { type: "structured_output", value: { value: 7 } };
+      yield { type: "done", stopReason: "end_turn" };
+    },
+  };
+  const result = await run(native);
+  expect(requests[0].outputFormat).toEqual({ type: "json_schema", schema });
+  expect(result.structured_output).toEqual({ value: 7 });
+  expect(result.result).toBe('{"value": 7}');
+
+  const promptOnly = createMockProvider([{ text: '{"value": 3}' }]);
+  const chat = promptOnly.chat;
+  requests.length = 0;
+  const fallback = await run({
+    ...promptOnly,
+    chat(request) {
+      requests.push(request);
+      return chat(request);
+    },
+    supportsFeature: (feature) => feature !== "structured_output",
+  });
+  expect(requests[0].outputFormat).toBeUndefined();
+  expect(fallback.structured_output).toEqual({ value: 3 });
+});
+
+test("retries retryable provider errors with status events", async () => {
+  const inner = createMockProvider([{ text: "Recovered" }]);
+  let calls = 0;
+  const provider: ProviderAdapter = {
+    ...inner,
+    async *chat(request: ChatRequest): AsyncGenerator<ChatChunk> {
+      calls++;
+      if (calls === 1) {
+        throw new ProviderError({ provider: "mock", kind: "server_error", code: "overloaded_error", status: 529, message: "Overloaded" });
+      }
+      if (calls === 2) {
+        yield { type: "text_delta", text: "partial " };
+        throw new ProviderError({ provider: "mock", kind: "rate_limit", status: 429, message: "Slow down", retryAfterMs: 5 });
+      }
+      yield* inner.chat(request);
+    },
+  };
+
+  const messages: AgentMessage[] = [];
+  for await (const msg of agentLoop("Hi", {
+    provider,
+    model: "test-model",
+    systemPrompt: "You are helpful.",
+    tools: new ToolRegistry(),
+    permissions: new PermissionManager("bypassPermissions"),
+    cwd: "/tmp",
+    sessionId: "test-session",
+    maxTurns: 10,
+    maxBudgetUsd: 1,
+    includePartialMessages: true,
+    signal: new AbortController().signal,
+    retry: { initialDelayMs: 1 },
+  })) {
+    messages.push(msg);
+  }
+
+  const retries = messages.filter((m) => m.type === "system" && (m as any).status === "retrying") as any[];
+  expect(retries.map((m) => m.retry.attempt)).toEqual([1, 2]);
+  expect(retries[0].retry.error).toBe("server_error");
+  expect(retries[1].retry.error).toBe("rate_limit");
+  expect(retries[1].retry.delay_ms).toBe(5);
+
+  // Deltas from the failed attempt are voided before the retry streams again
+  const events = messages.filter((m) => m.type === "stream_event").map((m: any) => m.event);
+  expect(events).toEqual([
+    { type: "text_delta", text: "partial " },
+    { type: "message_reset" },
+    { type: "text_delta", text: "Recovered" },
+  ]);
+
+  const assistant = messages.find((m) => m.type === "assistant") as any;
+  expect(assistant.message.content).toEqual([{ type: "text", text: "Recovered" }]);
+  expect(assistant.error).toBeUndefined();
+
+  const result = messages.find((m) => m.type === "result") as any;
+  expect(result.subtype).toBe("success");
+  expect(result.num_turns).toBe(1);
+});
+
+test("non-retryable provider errors set the assistant error classification", async () => {
+  let calls = 0;
+  const provider: ProviderAdapter = {
+    ...createMockProvider([]),
+    async *chat(): AsyncGenerator<ChatChunk> {
+      calls++;
+      throw new ProviderError({ provider: "mock", kind: "authentication_failed", status: 401, message: "Invalid API key" });
+    },
+  };
+
+  const messages: AgentMessage[] = [];
+  for await (const msg of agentLoop("Hi", {
+    provider,
+    model: "test-model",
+    systemPrompt: "You are helpful.",
+    tools: new ToolRegistry(),
+    permissions: new PermissionManager("bypassPermissions"),
+    cwd: "/tmp",
+    sessionId: "test-session",
+    maxTurns: 10,
+    maxBudgetUsd: 1,
+    includePartialMessages: false,
+    signal: new AbortController().signal,
+    retry: { initialDelayMs: 1 },
+  })) {
+    messages.push(msg);
+  }
+
+  expect(calls).toBe(1);
+  expect(messages.some((m) => m.type === "system" && (m as any).status === "retrying")).toBe(false);
+
+  const assistant = messages.find((m) => m.type === "assistant") as any;
+  expect(assistant.error).toBe("authentication_failed");
+
+  const result = messages.find((m) => m.type === "result") as any;
+  expect(result.subtype).toBe("error_during_execution");
+  expect(result.errors).toEqual(["API error: Invalid API key"]);
+});
+
+test("max_tokens stops are continued and drop truncated tool calls", async () => {
+  const turns: { text: string; toolCall?: boolean; stopReason: "max_tokens" | "end_turn" }[] = [
+    { text: "Part one, ", toolCall: true, stopReason: "max_tokens" },
+    { text: "part two, ", stopReason: "max_tokens" },
+    { text: "done.", stopReason: "end_turn" },
+  ];
+  const requests: ChatRequest[] = [];
+  const provider: ProviderAdapter = {
+    ...createMockProvider([]),
+    async *chat(request: ChatRequest): AsyncGenerator<ChatChunk> {
+      requests.push({ ...request, messages: [...request.messages] });
+      const turn = turns[requests.length - 1];
+      yield { type: "text_delta", text: turn.text };
+      if (turn.toolCall) {
+        yield { type: "tool_call", id: "call_cut", name: "Echo", input: {}, incomplete: true };
+      }
+      yield { type: "done", stopReason: turn.stopReason };
+    },
+  };
+
+  let executed = 0;
+  const tools = new ToolRegistry();
+  tools.register({ ...echoTool, async execute() { executed++; return { content: "x" }; } });
+
+  const messages: AgentMessage[] = [];
+  for await (const msg of agentLoop("Write a long file", {
+    provider,
+    model: "test-model",
+    systemPrompt: "You are helpful.",
+    tools,
+    permissions: new PermissionManager("bypassPermissions"),
+    cwd: "/tmp",
+    sessionId: "test-session",
+    maxTurns: 10,
+    maxBudgetUsd: 1,
+    includePartialMessages: false,
+    signal: new AbortController().signal,
+  })) {
+    messages.push(msg);
+  }
+
+  expect(executed).toBe(0);
+  const continuations = messages.filter((m) => m.type === "user" && (m as any).isSynthetic) as any[];
+  expect(continuations).toHaveLength(2);
+  expect(continuations[0].message.content).toContain("output token limit");
+  expect(continuations[0].message.content).toContain("(Echo) were cut off");
+  expect(continuations[1].message.content).not.toContain("were cut off and were not executed");
+
+  // Partial content stays in history for the continuation request
+  expect(requests[1].messages.at(-2)).toEqual({ role: "assistant", content: [{ type: "text", text: "Part one, " }] });
+
+  const assistants = messages.filter((m) => m.type === "assistant") as any[];
+  expect(assistants.every((m) => m.error === undefined)).toBe(true);
+
+  const result = messages.find((m) => m.type === "result") as any;
+  expect(result.subtype).toBe("success");
+  expect(result.result).toBe("Part one, part two, done.");
+  expect(result.num_turns).toBe(3);
+});
+
+test("max_tokens keeps a final tool call whose input was complete", async () => {
+  const requests: ChatRequest[] = [];
+  const provider: ProviderAdapter = {
+    ...createMockProvider([]),
+    async *chat(request: ChatRequest): AsyncGenerator<ChatChunk> {
+      requests.push({ ...request, messages: [...request.messages] });
+      if (requests.length === 1) {
+        yield { type: "text_delta", text: "Writing. " };
+        yield { type: "tool_call", id: "call_done", name: "Echo", input: { text: "once" } };
+        yield { type: "done", stopReason: "max_tokens" };
+        return;
+      }
+      yield { type: "text_delta", text: "Done." };
+      yield { type: "done", stopReason: "end_turn" };
+    },
+  };
+
+  const executed: string[] = [];
+  const tools = new ToolRegistry();
+  tools.register({
+    ...echoTool,
+    async execute(input: unknown) {
+      executed.push((input as { text: string }).text);
+      return { content: "ok" };
+    },
+  });
+
+  for await (const _ of agentLoop("Echo once", {
+    provider,
+    model: "test-model",
+    systemPrompt: "You are helpful.",
+    tools,
+    permissions: new PermissionManager("bypassPermissions"),
+    cwd: "/tmp",
+    sessionId: "test-session",
+    maxTurns: 10,
+    maxBudgetUsd: 1,
+    includePartialMessages: false,
+    signal: new AbortController().signal,
+  })) {
+    // drain
+  }
+
+  expect(executed).toEqual(["once"]);
+  const followUp = requests[1].messages.at(-1)!.content as any[];
+  expect(followUp[0]).toMatchObject({ type: "tool_result", tool_use_id: "call_done", content: "ok" });
+  expect(followUp[1].text).toContain("output token limit");
+  expect(followUp[1].text).not.toContain("were cut off and were not executed");
+});
+
+test("max_tokens continuation bound flags the final assistant envelope and fails the result", async () => {
+  let calls = 0;
+  const provider: ProviderAdapter = {
+    ...createMockProvider([]),
+    async *chat(): AsyncGenerator<ChatChunk> {
+      calls++;
+      yield { type: "text_delta", text: `chunk${calls} ` };
+      yield { type: "done", stopReason: "max_tokens" };
+    },
+  };
+
+  const messages: AgentMessage[] = [];
+  for await (const msg of agentLoop("Write forever", {
+    provider,
+    model: "test-model",
+    systemPrompt: "You are helpful.",
+    tools: new ToolRegistry(),
+    permissions: new PermissionManager("bypassPermissions"),
+    cwd: "/tmp",
+    sessionId: "test-session",
+    maxTurns: 10,
+    maxBudgetUsd: 1,
+    includePartialMessages: false,
+    signal: new AbortController().signal,
+    maxOutputContinuations: 1,
+  })) {
+    messages.push(msg);
+  }
+
+  expect(calls).toBe(2);
+  const assistants = messages.filter((m) => m.type === "assistant") as any[];
+  expect(assistants.map((m) => m.error)).toEqual([undefined, "max_output_tokens"]);
+
+  const result = messages.find((m) => m.type === "result") as any;
+  expect(result.subtype).toBe("error_during_execution");
+  expect(result.errors).toEqual(["Response still exceeded the output token limit (maxOutputContinuations: 1)"]);
+});
+
+test("max_tokens drops only the tool call that was cut off", async () => {
+  const requests: ChatRequest[] = [];
+  const provider: ProviderAdapter = {
+    ...createMockProvider([]),
+    async *chat(request: ChatRequest): AsyncGenerator<ChatChunk> {
+      requests.push({ ...request, messages: [...request.messages] });
+      if (requests.length === 1) {
+        yield { type: "tool_call", id: "call_whole", name: "Echo", input: { text: "whole" } };
+        yield { type: "tool_call", id: "call_cut", name: "Echo", input: {}, incomplete: true };
+        yield { type: "done", stopReason: "max_tokens" };
+        return;
+      }
+      yield { type: "text_delta", text: "Done." };
+      yield { type: "done", stopReason: "end_turn" };
+    },
+  };
+
+  const executed: string[] = [];
+  const tools = new ToolRegistry();
+  tools.register({
+    ...echoTool,
+    async execute(input: unknown) {
+      executed.push((input as { text: string }).text);
+      return { content: "ok" };
+    },
+  });
+
+  const messages: AgentMessage[] = [];
+  for await (const msg of agentLoop("Echo twice", {
+    provider,
+    model: "test-model",
+    systemPrompt: "You are helpful.",
+    tools,
+    permissions: new PermissionManager("bypassPermissions"),
+    cwd: "/tmp",
+    sessionId: "test-session",
+    maxTurns: 10,
+    maxBudgetUsd: 1,
+    includePartialMessages: false,
+    signal: new AbortController().signal,
+  })) {
+    messages.push(msg);
+  }
+
+  expect(executed).toEqual(["whole"]);
+  const history = requests[1].messages;
+  expect(history.at(-2)!.content).toEqual([{ type: "tool_use", id: "call_whole", name: "Echo", input: { text: "whole" } }]);
+  const followUp = history.at(-1)!.content as any[];
+  expect(followUp[0]).toMatchObject({ type: "tool_result", tool_use_id: "call_whole", content: "ok" });
+  expect(followUp[1].text).toContain("(Echo) were cut off");
+
+  const result = messages.find((m) => m.type === "result") as any;
+  expect(result.subtype).toBe("success");
+  expect(result.result).toBe("Done.");
+});
+
+test("emits tool_progress heartbeats and progress text while tools run", async () => {
+  const provider = createMockProvider([
+    { toolCalls: [{ id: "call_slow", name: "Slow", input: {} }] },
+    { text: "Finished" },
+  ]);
+
+  const tools = new ToolRegistry();
+  tools.register({
+    name: "Slow",
+    description: "Takes a while",
+    inputSchema: { type: "object", properties: {} },
+    async execute(_input, ctx) {
+      ctx.onProgress?.("step 1");
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      ctx.onProgress?.("step 2");
+      return { content: "slow done" };
+    },
+  });
+
+  const messages: AgentMessage[] = [];
+  for await (const msg of agentLoop("Run slow tool", {
+    provider,
+    model: "test-model",
+    systemPrompt: "You are helpful.",
+    tools,
+    permissions: new PermissionManager("bypassPermissions"),
+    cwd: "/tmp",
+    sessionId: "test-session",
+    maxTurns: 10,
+    maxBudgetUsd: 1,
+    includePartialMessages: false,
+    signal: new AbortController().signal,
+    toolProgressIntervalMs: 10,
+  })) {
+    messages.push(msg);
+  }
+
+  const progress = messages.filter((m) => m.type === "tool_progress") as any[];
+  expect(progress.every((m) => m.tool_use_id === "call_slow" && m.tool_name === "Slow")).toBe(true);
+  expect(progress.filter((m) => m.progress !== undefined).map((m) => m.progress)).toEqual(["step 1", "step 2"]);
+  expect(progress.filter((m) => m.progress === undefined).length).toBeGreaterThan(0);
+
+  // Progress arrives before the tool result
+  const lastProgress = messages.lastIndexOf(progress[progress.length - 1]);
+  const toolResult = messages.findIndex((m) => m.type === "user" && (m as any).isSynthetic);
+  expect(lastProgress).toBeLessThan(toolResult);
+});
+
+test("coalesces chatty tool progress into capped events per heartbeat", async () => {
+  const tools = new ToolRegistry();
+  tools.register({
+    name: "Chatty",
+    description: "Prints a lot",
+    inputSchema: { type: "object", properties: {} },
+    async execute(_input, ctx) {
+      for (let i = 0; i < 5000; i++) ctx.onProgress?.(`line ${i} ${"x".repeat(50)}`);
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      ctx.onProgress?.("last line");
+      return { content: "done" };
+    },
+  });
+
+  const messages: AgentMessage[] = [];
+  for await (const msg of agentLoop("Run chatty tool", {
+    provider: createMockProvider([
+      { toolCalls: [{ id: "call_chatty", name: "Chatty", input: {} }] },
+      { text: "Finished" },
+    ]),
+    model: "test-model",
+    systemPrompt: "You are helpful.",
+    tools,
+    permissions: new PermissionManager("bypassPermissions"),
+    cwd: "/tmp",
+    sessionId: "test-session",
+    maxTurns: 10,
+    maxBudgetUsd: 1,
+    includePartialMessages: false,
+    signal: new AbortController().signal,
+    toolProgressIntervalMs: 10,
+  })) {
+    messages.push(msg);
+  }
+
+  const texts = messages
+    .filter((m) => m.type === "tool_progress" && (m as any).progress !== undefined)
+    .map((m) => (m as any).progress as string);
+  expect(texts.length).toBeLessThanOrEqual(10);
+  expect(texts.every((text) => text.length <= 2000)).toBe(true);
+  expect(texts[0]).toEndWith(`line 4999 ${"x".repeat(50)}`);
+  expect(texts.at(-1)).toEndWith("last line");
+});
+
+test("session entries are logged with their parent uuid", async () => {
+  const logged: { role: string; uuid: string; parentUuid: string | null }[] = [];
+  const tools = new ToolRegistry();
+  tools.register(echoTool);
+
+  for await (const _ of agentLoop("Echo hi", {
+    provider: createMockProvider([
+      { toolCalls: [{ id: "call_1", name: "Echo", input: { text: "hi" } }] },
+      { text: "Done" },
+    ]),
+    model: "test-model",
+    systemPrompt: "You are helpful.",
+    tools,
+    permissions: new PermissionManager("bypassPermissions"),
+    cwd: "/tmp",
+    sessionId: "test-session",
+    maxTurns: 10,
+    maxBudgetUsd: 1,
+    includePartialMessages: false,
+    signal: new AbortController().signal,
+    sessionLogger: (role, _content, parentUuid) => {
+      const entryUuid = `entry-${logged.length}`;
+      logged.push({ role, uuid: entryUuid, parentUuid });
+      return entryUuid;
+    },
+  })) {
+    // drain
+  }
+
+  expect(logged).toEqual([
+    { role: "user", uuid: "entry-0", parentUuid: null },
+    { role: "assistant", uuid: "entry-1", parentUuid: "entry-0" },
+    { role: "user", uuid: "entry-2", parentUuid: "entry-1" },
+    { role: "assistant", uuid: "entry-3", parentUuid: "entry-2" },
+  ]);
+});
+
+test("interrupt keeps partial text and skips remaining tools", async () => {
+  const controller = new AbortController();
+  const logged: { role: string; content: unknown }[] = [];
+  const sessionLogger = (role: "user" | "assistant", content: unknown) => {
+    logged.push({ role, content });
+    return crypto.randomUUID();
+  };
+
+  let executed: string[] = [];
+  const tools = new ToolRegistry();
+  tools.register({
+    name: "Stop",
+    description: "Interrupts the run",
+    inputSchema: { type: "object", properties: {} },
+    async execute() {
+      executed.push("Stop");
+      controller.abort();
+      return { content: "stopping" };
+    },
+  });
+  tools.register({ ...echoTool, async execute() { executed.push("Echo"); return { content: "echo" }; } });
+
+  const provider = createMockProvider([
+    {
+      toolCalls: [
+        { id: "call_stop", name: "Stop", input: {} },
+        { id: "call_echo", name: "Echo", input: { text: "x" } },
+      ],
+    },
+  ]);
+
+  const messages: AgentMessage[] = [];
+  for await (const msg of agentLoop("Go", {
+    provider,
+    model: "test-model",
+    systemPrompt: "You are helpful.",
+    tools,
+    permissions: new PermissionManager("bypassPermissions"),
+    cwd: "/tmp",
+    sessionId: "test-session",
+    maxTurns: 10,
+    maxBudgetUsd: 1,
+    includePartialMessages: false,
+    signal: controller.signal,
+    sessionLogger,
+  })) {
+    messages.push(msg);
+  }
+
+  expect(executed).toEqual(["Stop"]);
+  // Every tool_use has a logged result, so the session resumes cleanly
+  expect(logged.at(-1)).toEqual({
+    role: "user",
+    content: [
+      { type: "tool_result", tool_use_id: "call_stop", content: "stopping", is_error: undefined },
+      { type: "tool_result", tool_use_id: "call_echo", content: INTERRUPTED_TOOL_RESULT, is_error: true },
+    ],
+  });
+  const result = messages.at(-1) as any;
+  expect(result.subtype).toBe("error_during_execution");
+  expect(result.errors).toEqual(["Aborted"]);
+
+  // Interrupt mid-stream: the partial text is logged as the assistant turn
+  const streamController = new AbortController();
+  const streamLogged: { role: string; content: unknown }[] = [];
+  const streamingProvider: ProviderAdapter = {
+    ...createMockProvider([]),
+    async *chat(request: ChatRequest): AsyncGenerator<ChatChunk> {
+      yield { type: "text_delta", text: "Half an ans" };
+      streamController.abort();
+      throw new DOMException("The operation was aborted.", "AbortError");
+    },
+  };
+  for await (const _ of agentLoop("Go", {
+    provider: streamingProvider,
+    model: "test-model",
+    systemPrompt: "You are helpful.",
+    tools: new ToolRegistry(),
+    permissions: new PermissionManager("bypassPermissions"),
+    cwd: "/tmp",
+    sessionId: "test-session",
+    maxTurns: 10,
+    maxBudgetUsd: 1,
+    includePartialMessages: false,
+    signal: streamController.signal,
+    sessionLogger: (role, content) => {
+      streamLogged.push({ role, content });
+      return crypto.randomUUID();
+    },
+  })) {
+    // drain
+  }
+  expect(streamLogged).toEqual([
+    { role: "user", content: "Go" },
+    { role: "assistant", content: [{ type: "text", text: "Half an ans" }] },
+  ]);
+});
+
+test("tool result images are sent as image blocks, or noted when unsupported", async () => {
+  const image = { type: "image" as const, source: { type: "base64" as const, media_type: "image/png", data: "iVBORw0K" } };
+  const screenshotTool: ToolImplementation = {
+    name: "Screenshot",
+    description: "Takes a screenshot",
+    inputSchema: { type: "object", properties: {} },
+    async execute() {
+      return { content: "Screenshot taken", images: [image] };
+    },
+  };
+
+  const run = async (imageInput: boolean) => {
+    const base = createMockProvider([
+      { toolCalls: [{ id: "s1", name: "Screenshot", input: {} }] },
+      { text: "Looks fine." },
+    ]);
+    const requests: ChatRequest["messages"][] = [];
+    const provider: ProviderAdapter = {
+      ...base,
+      chat(request) {
+        requests.push(structuredClone(request.messages));
+        return base.chat(request);
+      },
+      supportsFeature: (feature) => feature !== "image_input" || imageInput,
+    };
+    const tools = new ToolRegistry();
+    tools.register(screenshotTool);
+    for await (const _ of agentLoop("Check the UI", {
+      provider,
+      model: "test-model",
+      systemPrompt: "",
+      tools,
+      permissions: new PermissionManager("bypassPermissions"),
+      cwd: "/tmp",
+      sessionId: "test-session",
+      maxTurns: 5,
+      maxBudgetUsd: 1,
+      includePartialMessages: false,
+      signal: new AbortController().signal,
+    })) {
+      // drain
+    }
+    return (requests[1].at(-1)!.content as any[])[0].content;
+  };
+
+  expect(await run(true)).toEqual([{ type: "text", text: "Screenshot taken" }, image]);
+  const withoutImages = await run(false);
+  expect(withoutImages).toContain("Screenshot taken");
+  expect(withoutImages).toContain("1 image(s) omitted");
+});
+
+test("thinking blocks lead the assistant message and are sent back", async () => {
+  const base = createMockProvider([
+    {
+      thinking: { text: "Need to echo first.", signature: "sig_1" },
+      toolCalls: [{ id: "t1", name: "Echo", input: { text: "hi" } }],
+    },
+    { thinking: { text: "Done, answer now." }, text: "Echoed hi." },
+  ]);
+  const requests: ChatRequest["messages"][] = [];
+  const provider: ProviderAdapter = {
+    ...base,
+    chat(request) {
+      requests.push(structuredClone(request.messages));
+      return base.chat(request);
+    },
+  };
+  const tools = new ToolRegistry();
+  tools.register(echoTool);
+
+  const messages: AgentMessage[] = [];
+  for await (const msg of agentLoop("Echo hi", {
+    provider,
+    model: "test-model",
+    systemPrompt: "",
+    tools,
+    permissions: new PermissionManager("bypassPermissions"),
+    cwd: "/tmp",
+    sessionId: "test-session",
+    maxTurns: 5,
+    maxBudgetUsd: 1,
+    includePartialMessages: false,
+    signal: new AbortController().signal,
+  })) {
+    messages.push(msg);
+  }
+
+  const assistants = messages.filter((m) => m.type === "assistant").map((m: any) => m.message.content);
+  expect(assistants[0][0]).toEqual({ type: "thinking", thinking: "Need to echo first.", signature: "sig_1", provider: "mock" });
+  expect(assistants[0][1].type).toBe("tool_use");
+  // Thinking streamed without a closing block is kept unsigned
+  expect(assistants[1]).toEqual([
+    { type: "thinking", thinking: "Done, answer now.", provider: "mock" },
+    { type: "text", text: "Echoed hi." },
+  ]);
+
+  expect(requests[1][1].content).toEqual(assistants[0]);
+});
+
+test("reports context usage after each turn and through getContextUsage", async () => {
+  const base = createMockProvider([
+    { toolCalls: [{ id: "t1", name: "Echo", input: { text: "hi" } }] },
+    { text: "Done." },
+  ]);
+  const counted: ChatRequest[] = [];
+  registerProvider("mock-context", {
+    ...base,
+    async countTokens(request) {
+      counted.push(request);
+      return { inputTokens: 4321, source: "count_tokens" };
+    },
+  });
+
+  const q = query({
+    prompt: "Echo hi",
+    options: {
+      provider: "mock-context",
+      cwd: "/tmp",
+      persistSession: false,
+      includeDefaultSkills: false,
+      tools: ["Read"],
+    },
+  });
+
+  const usages: any[] = [];
+  for await (const msg of q) {
+    if (msg.type === "system" && msg.subtype === "context_usage") usages.push(msg.context_usage);
+  }
+
+  expect(usages).toHaveLength(2);
+  expect(usages[0]).toMatchObject({ source: "usage", totalTokens: 150, contextWindow: 200_000, percentage: 0.1 });
+  expect(usages[0].categories.builtinTools).toBeGreaterThan(0);
+
+  const usage = await q.getContextUsage();
+  expect(usage).toMatchObject({ source: "count_tokens", totalTokens: 4321 });
+  expect(counted[0].messages).toHaveLength(4);
+  expect(counted[0].tools?.map((t) => t.name)).toEqual(["Read"]);
+});
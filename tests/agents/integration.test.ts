@@ -6,6 +6,10 @@ import { TaskManager } from "../../src/agents/task-manager.ts";
 import { createTaskTool, createTaskOutputTool, createTaskStopTool } from "../../src/agents/tools.ts";
 import type { ProviderAdapter, ChatRequest, ChatChunk, ProviderFeature } from "../../src/providers/types.ts";
 import type { AgentMessage, TokenUsage } from "../../src/types.ts";
+import { query } from "../../src/api.ts";
+import { registerProvider } from "../../src/providers/registry.ts";
+import { MockProvider } from "../../src/providers/mock.ts";
+import { InMemorySessionStore, listSessions, findLatestSession } from "../../src/utils/session-store.ts";
 
 type MockResponse = {
   text?: string;
@@ -125,3 +129,39 @@ test("parent agent calls Task → subagent runs → result feeds back", async ()
   expect(result).toBeDefined();
   expect(result.result).toBe("The subagent said everything looks good!");
 });
+
+test("a Task run is logged as a sidechain of the parent session, not as a session of its own", async () => {
+  // Parent and subagent share the provider: parent call, subagent call, parent call
+  registerProvider("mock-task-session", new MockProvider([
+    { toolCalls: [{ id: "task-call-1", name: "Task", input: { description: "Review", prompt: "Analyze the code", subagent_type: "reviewer" } }] },
+    { text: "Subagent analysis: everything looks good" },
+    { text: "Done" },
+  ]));
+  const sessionStore = new InMemorySessionStore();
+
+  let sessionId = "";
+  for await (const msg of query({
+    prompt: "Review this code",
+    options: {
+      provider: "mock-task-session",
+      cwd: "/tmp/task-session",
+      sessionStore,
+      includeDefaultSkills: false,
+      permissionMode: "bypassPermissions",
+      allowDangerouslySkipPermissions: true,
+      agents: { reviewer: { description: "Code reviewer", prompt: "You review code.", maxTurns: 3 } },
+    },
+  })) {
+    sessionId = msg.session_id;
+  }
+
+  const sessions = listSessions("/tmp/task-session", sessionStore);
+  expect(sessions.map((s) => s.sessionId)).toEqual([sessionId]);
+  expect(sessions[0].firstPrompt).toBe("Review this code");
+  expect(sessions[0].numTurns).toBe(2);
+  expect(findLatestSession("/tmp/task-session", sessionStore)).toBe(sessionId);
+
+  const sidechain = sessionStore.load("/tmp/task-session", sessionId)!.filter((e) => e.isSidechain === true);
+  expect(sidechain.map((e) => e.type)).toEqual(["user", "assistant"]);
+  expect(typeof sidechain[0].agentId).toBe("string");
+});
@@ -8,6 +8,11 @@ import { HookManager } from "../../src/hooks.ts";
 import type { HookInput } from "../../src/hooks.ts";
 import type { ProviderAdapter, ChatRequest, ChatChunk, ProviderFeature } from "../../src/providers/types.ts";
 import type { TokenUsage } from "../../src/types.ts";
+import { FileCheckpointManager } from "../../src/utils/file-checkpoints.ts";
+import { InMemorySessionStore } from "../../src/utils/session-store.ts";
+import { mkdtemp, rm, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
 
 // ─── Mock Provider ──────────────────────────────────────────────────────────
 
@@ -164,6 +169,58 @@ test("Task tool: SubagentStart and SubagentStop hooks fire", async () => {
   expect(hookEvents).toEqual(["start:researcher", "stop:researcher"]);
 });
 
+test("Task tool: subagent edits are recorded under the parent's checkpoint", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "task-checkpoint-"));
+  try {
+    const filePath = join(dir, "notes.txt");
+    await writeFile(filePath, "original\n");
+    const ctx = makeContext({
+      parentCwd: dir,
+      parentProvider: createMockProvider([
+        { toolCalls: [{ id: "call_1", name: "Write", input: { file_path: filePath, content: "from subagent\n" } }] },
+        { text: "Done" },
+      ]),
+    });
+    const fileCheckpoints = new FileCheckpointManager();
+    fileCheckpoints.begin("parent-msg");
+    // Another checkpoint would capture the parent's later edits in this turn under an unknown id
+    const begun: string[] = [];
+    fileCheckpoints.begin = (id) => { begun.push(id); };
+
+    await createTaskTool(ctx).execute({ prompt: "Edit notes", subagent_type: "researcher" }, { ...toolCtx, cwd: dir, fileCheckpoints });
+    expect(await readFile(filePath, "utf-8")).toBe("from subagent\n");
+    expect(begun).toEqual([]);
+
+    expect(fileCheckpoints.rewind("parent-msg")).toMatchObject({ canRewind: true, filesChanged: [filePath] });
+    expect(await readFile(filePath, "utf-8")).toBe("original\n");
+  } finally {
+    await rm(dir, { recursive: true });
+  }
+});
+
+test("Task tool: a logged subagent session can be resumed", async () => {
+  const sentRoles: string[][] = [];
+  const provider = createMockProvider([{ text: "The answer is 4" }, { text: "Still 4" }]);
+  const ctx = makeContext({
+    parentProvider: { ...provider, chat: (request) => { sentRoles.push(request.messages.map((m) => m.role)); return provider.chat(request); } },
+    sessionStore: new InMemorySessionStore(),
+    persistSession: true,
+  });
+  const taskTool = createTaskTool(ctx);
+
+  const first = await taskTool.execute({ prompt: "What is 2+2?", subagent_type: "researcher" }, toolCtx);
+  const agentId = /agentId: (\S+)/.exec(first.content as string)![1];
+  const entries = ctx.sessionStore!.load("/tmp", "parent-session")!;
+  expect(entries).toHaveLength(2);
+  expect(entries.every((e) => e.isSidechain === true && e.agentId === agentId && e.sessionId === "parent-session")).toBe(true);
+  expect(ctx.sessionStore!.load("/tmp", agentId)).toBeNull();
+
+  const second = await taskTool.execute({ prompt: "Are you sure?", subagent_type: "researcher", resume: agentId }, toolCtx);
+  expect(second.content).toStartWith("Still 4");
+  expect(sentRoles[1]).toEqual(["user", "assistant", "user"]);
+  expect(ctx.sessionStore!.load("/tmp", "parent-session")).toHaveLength(4);
+});
+
 // ─── TaskOutput Tool Tests ───────────────────────────────────────────────────
 
 test("TaskOutput tool: returns not found for unknown task", async () => {
@@ -0,0 +1,98 @@
+import { test, expect, beforeAll, afterAll, spyOn } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { main } from "../../src/cli/export-transcript.ts";
+import { createSessionLogger, defaultSessionStore, sessionsDir } from "../../src/utils/session-store.ts";
+
+const SECRET = "sk-live-123456";
+const ENV_SECRET = "env-token-987";
+const cwd = `/tmp/fourmis-export-cli-test-${crypto.randomUUID()}`;
+const outDir = mkdtempSync(join(tmpdir(), "fourmis-export-cli-"));
+const sessionId = crypto.randomUUID();
+
+beforeAll(() => {
+  const log = createSessionLogger(cwd, sessionId, "claude-sonnet-4-5");
+  log("user", `Deploy with ${SECRET} and ${ENV_SECRET}`, null);
+  log("assistant", [{ type: "text", text: "Deployed." }], null, { costUsd: 0.01 });
+  defaultSessionStore.append(cwd, sessionId, {
+    type: "user",
+    uuid: "side-1",
+    parentUuid: null,
+    sessionId,
+    timestamp: new Date().toISOString(),
+    cwd,
+    isSidechain: true,
+    userType: "external",
+    message: { role: "user", content: "Check the logs" },
+  });
+  process.env.FOURMIS_EXPORT_TEST_TOKEN = ENV_SECRET;
+});
+
+afterAll(() => {
+  delete process.env.FOURMIS_EXPORT_TEST_TOKEN;
+  rmSync(sessionsDir(cwd), { recursive: true, force: true });
+  rmSync(outDir, { recursive: true, force: true });
+});
+
+/** Run the CLI, capturing what it writes to stdout and stderr. */
+function run(args: string[]): { code: number; stdout: string; stderr: string } {
+  let stdout = "";
+  let stderr = "";
+  const write = spyOn(process.stdout, "write").mockImplementation((chunk: string | Uint8Array) => {
+    stdout += String(chunk);
+    return true;
+  });
+  const log = spyOn(console, "log").mockImplementation((...parts: unknown[]) => { stdout += parts.join(" ") + "\n"; });
+  const error = spyOn(console, "error").mockImplementation((...parts: unknown[]) => { stderr += parts.join(" ") + "\n"; });
+  try {
+    return { code: main(args), stdout, stderr };
+  } finally {
+    write.mockRestore();
+    log.mockRestore();
+    error.mockRestore();
+  }
+}
+
+test("writes Markdown to stdout by default", () => {
+  const { code, stdout } = run([sessionId, "--cwd", cwd]);
+  expect(code).toBe(0);
+  expect(stdout).toContain(`# Session ${sessionId}`);
+  expect(stdout).toContain("## Subagent side-1");
+  expect(stdout).toContain(SECRET);
+});
+
+test("writes the chosen format to --out with redaction flags applied", () => {
+  const out = join(outDir, "run.html");
+  const { code, stdout } = run([
+    sessionId, "--cwd", cwd, "--format", "html", "--out", out,
+    "--redact", SECRET, "--redact-env", "FOURMIS_EXPORT_TEST_TOKEN", "--redact-env", "FOURMIS_EXPORT_UNSET",
+    "--no-sidechains",
+  ]);
+  expect(code).toBe(0);
+  expect(stdout).toBe("");
+
+  const html = readFileSync(out, "utf-8");
+  expect(html.startsWith("<!DOCTYPE html>")).toBe(true);
+  expect(html).toContain("Deploy with [REDACTED] and [REDACTED]");
+  expect(html).not.toContain(SECRET);
+  expect(html).not.toContain(ENV_SECRET);
+  expect(html).not.toContain("Subagent");
+
+  const json = run([sessionId, "--cwd", cwd, "--format", "json"]);
+  expect(JSON.parse(json.stdout).models).toEqual(["claude-sonnet-4-5"]);
+});
+
+test("reports usage errors and missing sessions through the exit code", () => {
+  expect(run(["--help"])).toMatchObject({ code: 0, stdout: expect.stringContaining("Usage: fourmis-export") });
+  expect(run([])).toMatchObject({ code: 2, stderr: expect.stringContaining("Usage: fourmis-export") });
+  expect(run([sessionId, "--cwd", cwd, "--format", "pdf"])).toMatchObject({
+    code: 2,
+    stderr: expect.stringContaining('Unknown format "pdf"'),
+  });
+  expect(run([sessionId, "--bogus"])).toMatchObject({ code: 2, stderr: expect.stringContaining("--bogus") });
+  expect(run(["missing", "--cwd", cwd])).toMatchObject({
+    code: 1,
+    stderr: expect.stringContaining('Session "missing" not found'),
+  });
+});
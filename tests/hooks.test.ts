@@ -492,3 +492,239 @@ test("PostToolUse additionalContext appended to result", async () => {
   expect((toolResult as any).content).toContain("Echo: hello");
   expect((toolResult as any).content).toContain("[hook context added]");
 });
+
+test("UserPromptSubmit hook blocks the prompt or adds context", async () => {
+  const prompts: string[] = [];
+  const hooks = new HookManager({
+    UserPromptSubmit: [{
+      hooks: [async (input) => {
+        prompts.push(input.prompt as string);
+        return input.prompt === "rm everything"
+          ? { decision: { behavior: "deny" as const, message: "Destructive prompt" } }
+          : { additionalContext: "Current branch: main" };
+      }],
+    }],
+  });
+
+  const requests: ChatRequest[] = [];
+  const provider = createMockProvider([{ text: "OK" }]);
+  const recordingProvider: ProviderAdapter = {
+    ...provider,
+    chat(request) {
+      requests.push(request);
+      return provider.chat(request);
+    },
+  };
+
+  async function* userMessages() {
+    for (const text of ["rm everything", "Which branch?"]) {
+      yield { type: "user" as const, message: { role: "user" as const, content: text }, parent_tool_use_id: null, session_id: "test" };
+    }
+  }
+
+  const results: any[] = [];
+  for await (const msg of agentLoop(userMessages(), {
+    provider: recordingProvider,
+    model: "test",
+    systemPrompt: "test",
+    tools: new ToolRegistry(),
+    permissions: new PermissionManager("bypassPermissions"),
+    cwd: "/tmp",
+    sessionId: "test",
+    maxTurns: 10,
+    maxBudgetUsd: 1,
+    includePartialMessages: false,
+    signal: new AbortController().signal,
+    hooks,
+  })) {
+    if (msg.type === "result") results.push(msg);
+  }
+
+  expect(prompts).toEqual(["rm everything", "Which branch?"]);
+  expect(results[0].subtype).toBe("error_during_execution");
+  expect(results[0].errors).toEqual(["Prompt blocked by hook: Destructive prompt"]);
+  expect(results[1].subtype).toBe("success");
+
+  // The blocked prompt never reached the model; the context rides on the next one
+  expect(requests).toHaveLength(1);
+  expect(requests[0].messages[0]).toEqual({
+    role: "user",
+    content: [
+      { type: "text", text: "Which branch?" },
+      { type: "text", text: "Current branch: main" },
+    ],
+  });
+});
+
+test("PermissionRequest hook answers before canUseTool", async () => {
+  const asked: string[] = [];
+  const hooks = new HookManager({
+    PermissionRequest: [
+      { matcher: "^Bash$", hooks: [async () => ({ decision: { behavior: "deny" as const, message: "No shell" } })] },
+      { matcher: "^Write$", hooks: [async () => ({ decision: { behavior: "allow" as const, updatedInput: { path: "/tmp/safe" } } })] },
+    ],
+  });
+  const permissions = new PermissionManager(
+    "default",
+    async (toolName) => {
+      asked.push(toolName);
+      return { behavior: "allow" };
+    },
+    undefined,
+    undefined,
+    hooks,
+  );
+  const options = { signal: new AbortController().signal, toolUseId: "t1" };
+
+  expect(await permissions.check("Bash", { command: "ls" }, options))
+    .toEqual({ behavior: "deny", message: "No shell" });
+  expect(await permissions.check("Write", { path: "/etc/passwd" }, options))
+    .toEqual({ behavior: "allow", updatedInput: { path: "/tmp/safe" } });
+  expect(await permissions.check("Edit", { path: "a.ts" }, options))
+    .toEqual({ behavior: "allow" });
+  // Read is auto-approved, so no permission request is made
+  await permissions.check("Read", { file_path: "a.ts" }, options);
+
+  expect(asked).toEqual(["Edit"]);
+});
+
+test("PermissionRequest hook fires only when canUseTool would be asked", async () => {
+  const fired: string[] = [];
+  const hooks = new HookManager({
+    PermissionRequest: [{ hooks: [async (input) => { fired.push(input.tool_name!); return {}; }] }],
+  });
+  const options = { signal: new AbortController().signal, toolUseId: "t1" };
+  const ask = async () => ({ behavior: "allow" as const });
+
+  // No callback: the host app handles permissions and nothing is prompted
+  expect(await new PermissionManager("default", undefined, undefined, undefined, hooks).check("Bash", { command: "ls" }, options))
+    .toEqual({ behavior: "allow" });
+  // dontAsk without a callback denies without prompting
+  const dontAsk = await new PermissionManager("dontAsk", undefined, undefined, undefined, hooks).check("Bash", { command: "ls" }, options);
+  expect(dontAsk.behavior).toBe("deny");
+  expect(fired).toEqual([]);
+
+  await new PermissionManager("default", ask, undefined, undefined, hooks).check("Bash", { command: "ls" }, options);
+  expect(fired).toEqual(["Bash"]);
+  // With a callback, dontAsk still asks it
+  expect(await new PermissionManager("dontAsk", ask, undefined, undefined, hooks).check("Write", { path: "a" }, options))
+    .toEqual({ behavior: "allow" });
+  expect(fired).toEqual(["Bash", "Write"]);
+});
+
+test("Notification hook fires on fallback model switch", async () => {
+  const notifications: HookInput[] = [];
+  const hooks = new HookManager({
+    Notification: [{ hooks: [async (input) => { notifications.push(input); return {}; }] }],
+  });
+
+  const provider = createMockProvider([{ text: "From fallback" }]);
+  const failingPrimary: ProviderAdapter = {
+    ...provider,
+    chat(request) {
+      if (request.model === "primary") {
+        return (async function* (): AsyncGenerator<ChatChunk> {
+          throw new Error("model unavailable");
+        })();
+      }
+      return provider.chat(request);
+    },
+  };
+
+  for await (const _ of agentLoop("Test", {
+    provider: failingPrimary,
+    model: "primary",
+    fallbackModel: "backup",
+    systemPrompt: "test",
+    tools: new ToolRegistry(),
+    permissions: new PermissionManager("bypassPermissions"),
+    cwd: "/tmp",
+    sessionId: "test",
+    maxTurns: 10,
+    maxBudgetUsd: 1,
+    includePartialMessages: false,
+    signal: new AbortController().signal,
+    hooks,
+  })) {
+    // consume
+  }
+
+  expect(notifications).toHaveLength(1);
+  expect(notifications[0].notification_type).toBe("model_fallback");
+  expect(notifications[0].message).toBe("Switched from primary to fallback model backup: model unavailable");
+});
+
+test("Stop hook block decision keeps the agent working", async () => {
+  const stopInputs: HookInput[] = [];
+  const hooks = new HookManager({
+    Stop: [{
+      hooks: [async (input) => {
+        stopInputs.push(input);
+        return input.text === "Done"
+          ? { decision: "block" as const, reason: "bun test is failing" }
+          : {};
+      }],
+    }],
+  });
+
+  const provider = createMockProvider([{ text: "Done" }, { text: "Fixed the tests" }]);
+
+  const messages: AgentMessage[] = [];
+  for await (const msg of agentLoop("Test", {
+    provider,
+    model: "test",
+    systemPrompt: "test",
+    tools: new ToolRegistry(),
+    permissions: new PermissionManager("bypassPermissions"),
+    cwd: "/tmp",
+    sessionId: "test",
+    maxTurns: 10,
+    maxBudgetUsd: 1,
+    includePartialMessages: false,
+    signal: new AbortController().signal,
+    hooks,
+  })) {
+    messages.push(msg);
+  }
+
+  expect(stopInputs.map((input) => input.stop_hook_active)).toEqual([false, true]);
+  const feedback = messages.find((m) => m.type === "user") as any;
+  expect(feedback.isSynthetic).toBe(true);
+  expect(feedback.message.content).toBe("Stop hook feedback:\nbun test is failing");
+  const result = messages.at(-1) as any;
+  expect(result.subtype).toBe("success");
+  expect(result.result).toBe("Fixed the tests");
+});
+
+test("Stop hook that always blocks cannot loop forever", async () => {
+  let stops = 0;
+  const hooks = new HookManager({
+    Stop: [{
+      hooks: [async () => {
+        stops++;
+        return { decision: "block" as const, reason: "Keep going" };
+      }],
+    }],
+  });
+
+  const messages: AgentMessage[] = [];
+  for await (const msg of agentLoop("Test", {
+    provider: createMockProvider([]),
+    model: "test",
+    systemPrompt: "test",
+    tools: new ToolRegistry(),
+    permissions: new PermissionManager("bypassPermissions"),
+    cwd: "/tmp",
+    sessionId: "test",
+    maxTurns: 50,
+    maxBudgetUsd: 1,
+    includePartialMessages: false,
+    signal: new AbortController().signal,
+    hooks,
+  })) {
+    messages.push(msg);
+  }
+
+  expect(stops).toBe(9);
+  expect((messages.at(-1) as any).subtype).toBe("success");
+});
@@ -1,5 +1,8 @@
 import { test, expect } from "bun:test";
 import { calculateAnthropicCost, ANTHROPIC_CONTEXT_WINDOWS } from "../../src/utils/cost.ts";
+import { AnthropicAdapter } from "../../src/providers/anthropic.ts";
+import type { ChatChunk } from "../../src/providers/types.ts";
+import { emptyTokenUsage, mergeUsage } from "../../src/types.ts";
 
 test("calculates cost for claude-sonnet-4-5", () => {
   const cost = calculateAnthropicCost("claude-sonnet-4-5-20250929", {
@@ -53,3 +56,223 @@ test("context window lookup", () => {
   expect(ANTHROPIC_CONTEXT_WINDOWS["claude-sonnet-4-5-20250929"]).toBe(200_000);
   expect(ANTHROPIC_CONTEXT_WINDOWS["claude-haiku-4-5-20251001"]).toBe(200_000);
 });
+
+/** Replace the SDK stream with canned events; returns the params it was called with. */
+function stubStream(adapter: AnthropicAdapter, events: unknown[]): { params?: any } {
+  const captured: { params?: any } = {};
+  (adapter as any).client = {
+    messages: {
+      stream(params: unknown) {
+        captured.params = params;
+        return (async function* () {
+          yield* events;
+        })();
+      },
+    },
+  };
+  return captured;
+}
+
+// ─── Thinking ────────────────────────────────────────────────────────────────
+
+test("streams signed and redacted thinking blocks and sends them back", async () => {
+  const adapter = new AnthropicAdapter({ apiKey: "test-key" });
+  const events = [
+    { type: "content_block_start", index: 0, content_block: { type: "thinking", thinking: "", signature: "" } },
+    { type: "content_block_delta", index: 0, delta: { type: "thinking_delta", thinking: "Check the file." } },
+    { type: "content_block_delta", index: 0, delta: { type: "signature_delta", signature: "sig_abc" } },
+    { type: "content_block_stop", index: 0 },
+    { type: "content_block_start", index: 1, content_block: { type: "redacted_thinking", data: "enc_xyz" } },
+    { type: "content_block_stop", index: 1 },
+    { type: "message_delta", delta: { stop_reason: "end_turn" }, usage: { output_tokens: 5 } },
+  ];
+  const sent = stubStream(adapter, events);
+
+  const chunks: ChatChunk[] = [];
+  for await (const chunk of adapter.chat({
+    model: "claude-sonnet-4-5",
+    messages: [
+      { role: "user", content: "Hi" },
+      {
+        role: "assistant",
+        content: [
+          { type: "thinking", thinking: "Earlier.", signature: "sig_old", provider: "anthropic" },
+          { type: "thinking", thinking: "From another provider", signature: "rs_enc", provider: "openai" },
+          { type: "thinking", thinking: "Unsigned" },
+          { type: "text", text: "Hello" },
+        ],
+      },
+      { role: "user", content: "Again" },
+    ],
+  })) {
+    chunks.push(chunk);
+  }
+
+  expect(chunks.filter((c) => c.type === "thinking_block")).toEqual([
+    { type: "thinking_block", block: { type: "thinking", thinking: "Check the file.", signature: "sig_abc", provider: "anthropic" } },
+    { type: "thinking_block", block: { type: "redacted_thinking", data: "enc_xyz", provider: "anthropic" } },
+  ]);
+  expect(sent.params.messages[1].content).toEqual([
+    { type: "thinking", thinking: "Earlier.", signature: "sig_old" },
+    { type: "text", text: "Hello" },
+  ]);
+});
+
+// ─── Prompt caching ──────────────────────────────────────────────────────────
+
+test("marks cache breakpoints on tools, system and the conversation tail", async () => {
+  const adapter = new AnthropicAdapter({ apiKey: "test-key" });
+  const sent = stubStream(adapter, [{ type: "message_delta", delta: { stop_reason: "end_turn" }, usage: { output_tokens: 1 } }]);
+  const memoryTool = { type: "memory_20250818", name: "memory" };
+
+  for await (const _ of adapter.chat({
+    model: "claude-sonnet-4-5",
+    systemPrompt: "Be brief.",
+    tools: [{ name: "Read", description: "Read a file", inputSchema: { type: "object" } }],
+    nativeTools: [memoryTool],
+    messages: [
+      { role: "user", content: "Read a.txt" },
+      { role: "assistant", content: [{ type: "tool_use", id: "t1", name: "Read", input: {} }] },
+      { role: "user", content: [{ type: "tool_result", tool_use_id: "t1", content: "A" }] },
+      {
+        role: "assistant",
+        content: [
+          { type: "text", text: "Now b.txt" },
+          { type: "tool_use", id: "t2", name: "Read", input: {} },
+        ],
+      },
+      { role: "user", content: [{ type: "tool_result", tool_use_id: "t2", content: "B" }] },
+    ],
+  })) { /* drain */ }
+
+  const ephemeral = { type: "ephemeral" };
+  expect(sent.params.tools[0].cache_control).toBeUndefined();
+  expect(sent.params.tools[1]).toEqual({ ...memoryTool, cache_control: ephemeral });
+  expect(memoryTool).not.toHaveProperty("cache_control");
+  expect(sent.params.system).toEqual([{ type: "text", text: "Be brief.", cache_control: ephemeral }]);
+  expect(sent.params.messages[2].content[0].cache_control).toEqual(ephemeral);
+  expect(sent.params.messages[3].content[1].cache_control).toBeUndefined();
+  expect(sent.params.messages[4].content[0].cache_control).toEqual(ephemeral);
+  expect(JSON.stringify(sent.params).match(/cache_control/g)).toHaveLength(4);
+});
+
+test("prompt caching can be disabled or given a 1h TTL", async () => {
+  const adapter = new AnthropicAdapter({ apiKey: "test-key" });
+  const request = { model: "claude-sonnet-4-5", systemPrompt: "Be brief.", messages: [{ role: "user" as const, content: "Hi" }] };
+
+  const off = stubStream(adapter, []);
+  for await (const _ of adapter.chat({ ...request, promptCaching: { enabled: false } })) { /* drain */ }
+  expect(off.params.system).toBe("Be brief.");
+  expect(off.params.messages[0].content).toBe("Hi");
+
+  const hour = stubStream(adapter, []);
+  for await (const _ of adapter.chat({ ...request, promptCaching: { ttl: "1h" } })) { /* drain */ }
+  expect(hour.params.messages[0].content).toEqual([
+    { type: "text", text: "Hi", cache_control: { type: "ephemeral", ttl: "1h" } },
+  ]);
+});
+
+test("reports cache reads and writes once across message_start and cumulative message_delta", async () => {
+  const adapter = new AnthropicAdapter({ apiKey: "test-key" });
+  stubStream(adapter, [
+    {
+      type: "message_start",
+      message: { usage: { input_tokens: 12, output_tokens: 1, cache_read_input_tokens: 9000, cache_creation_input_tokens: 400 } },
+    },
+    {
+      type: "message_delta",
+      delta: { stop_reason: "end_turn" },
+      usage: { input_tokens: 12, output_tokens: 30, cache_read_input_tokens: 9000, cache_creation_input_tokens: 400 },
+    },
+  ]);
+
+  let total = emptyTokenUsage();
+  for await (const chunk of adapter.chat({ model: "claude-sonnet-4-5", messages: [{ role: "user", content: "Hi" }] })) {
+    if (chunk.type === "usage") total = mergeUsage(total, chunk.usage);
+  }
+
+  expect(total).toEqual({ inputTokens: 12, outputTokens: 30, cacheReadInputTokens: 9000, cacheCreationInputTokens: 400 });
+});
+
+test("marks a tool call whose input JSON was cut off as incomplete", async () => {
+  const adapter = new AnthropicAdapter({ apiKey: "test-key" });
+  stubStream(adapter, [
+    { type: "content_block_start", index: 0, content_block: { type: "tool_use", id: "toolu_1", name: "Write", input: {} } },
+    { type: "content_block_delta", index: 0, delta: { type: "input_json_delta", partial_json: '{"file_path": "a.txt"}' } },
+    { type: "content_block_stop", index: 0 },
+    { type: "content_block_start", index: 1, content_block: { type: "tool_use", id: "toolu_2", name: "Write", input: {} } },
+    { type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: '{"file_path": "b.txt", "content": "lo' } },
+    { type: "content_block_stop", index: 1 },
+    { type: "message_delta", delta: { stop_reason: "max_tokens" }, usage: { output_tokens: 9 } },
+  ]);
+
+  const calls: ChatChunk[] = [];
+  for await (const chunk of adapter.chat({ model: "claude-sonnet-4-5", messages: [{ role: "user", content: "Write" }] })) {
+    if (chunk.type === "tool_call") calls.push(chunk);
+  }
+
+  expect(calls).toEqual([
+    { type: "tool_call", id: "toolu_1", name: "Write", input: { file_path: "a.txt" } },
+    { type: "tool_call", id: "toolu_2", name: "Write", input: {}, incomplete: true },
+  ]);
+});
+
+// ─── Structured output ───────────────────────────────────────────────────────
+
+test("structured output forces a synthetic tool call and yields its input as the answer", async () => {
+  const adapter = new AnthropicAdapter({ apiKey: "test-key" });
+  const schema = { type: "object", properties: { city: { type: "string" } }, required: ["city"] };
+  const sent = stubStream(adapter, [
+    { type: "content_block_start", index: 0, content_block: { type: "tool_use", id: "toolu_1", name: "StructuredOutput", input: {} } },
+    { type: "content_block_delta", index: 0, delta: { type: "input_json_delta", partial_json: '{"city": "Par' } },
+    { type: "content_block_delta", index: 0, delta: { type: "input_json_delta", partial_json: 'is"}' } },
+    { type: "content_block_stop", index: 0 },
+    { type: "message_delta", delta: { stop_reason: "tool_use" }, usage: { output_tokens: 9 } },
+  ]);
+
+  const chunks: ChatChunk[] = [];
+  for await (const chunk of adapter.chat({
+    model: "claude-sonnet-4-5",
+    messages: [{ role: "user", content: "Capital of France?" }],
+    tools: [{ name: "Read", description: "Read a file", inputSchema: { type: "object" } }],
+    outputFormat: { type: "json_schema", schema },
+    promptCaching: { enabled: false },
+  })) {
+    chunks.push(chunk);
+  }
+
+  expect(sent.params.tools.map((t: any) => t.name)).toEqual(["Read", "StructuredOutput"]);
+  expect(sent.params.tools[1].input_schema).toEqual(schema);
+  expect(sent.params.tool_choice).toEqual({ type: "any" });
+  expect(sent.params.output_config).toBeUndefined();
+  expect(chunks.filter((c) => c.type !== "usage")).toEqual([
+    { type: "text_delta", text: '{"city":"Paris"}' },
+    { type: "structured_output", value: { city: "Paris" } },
+    { type: "done", stopReason: "end_turn" },
+  ]);
+});
+
+test("structured output wraps non-object schemas and leaves tool_choice alone with thinking", async () => {
+  const adapter = new AnthropicAdapter({ apiKey: "test-key" });
+  const schema = { type: "array", items: { type: "string" } };
+  const sent = stubStream(adapter, [
+    { type: "content_block_start", index: 0, content_block: { type: "tool_use", id: "toolu_1", name: "StructuredOutput", input: {} } },
+    { type: "content_block_delta", index: 0, delta: { type: "input_json_delta", partial_json: '{"value": ["a", "b"]}' } },
+    { type: "content_block_stop", index: 0 },
+    { type: "message_delta", delta: { stop_reason: "tool_use" }, usage: { output_tokens: 9 } },
+  ]);
+
+  const chunks: ChatChunk[] = [];
+  for await (const chunk of adapter.chat({
+    model: "claude-sonnet-4-5",
+    messages: [{ role: "user", content: "Two letters" }],
+    outputFormat: { type: "json_schema", schema },
+    thinking: { type: "adaptive" },
+  })) {
+    chunks.push(chunk);
+  }
+
+  expect(sent.params.tools[0].input_schema).toEqual({ type: "object", properties: { value: schema }, required: ["value"] });
+  expect(sent.params.tool_choice).toBeUndefined();
+  expect(chunks).toContainEqual({ type: "structured_output", value: ["a", "b"] });
+});
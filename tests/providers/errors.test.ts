@@ -0,0 +1,96 @@
+import { test, expect } from "bun:test";
+import Anthropic from "@anthropic-ai/sdk";
+import OpenAI from "openai";
+import { ProviderError, classifyHttpStatus, parseRetryAfter } from "../../src/providers/errors.ts";
+import { toAnthropicError } from "../../src/providers/anthropic.ts";
+import { toOpenAIError } from "../../src/providers/openai.ts";
+import { geminiError } from "../../src/providers/gemini.ts";
+import { computeRetryDelay } from "../../src/utils/retry.ts";
+
+test("classifies HTTP statuses", () => {
+  expect(classifyHttpStatus(401)).toBe("authentication_failed");
+  expect(classifyHttpStatus(402)).toBe("billing_error");
+  expect(classifyHttpStatus(429)).toBe("rate_limit");
+  expect(classifyHttpStatus(400)).toBe("invalid_request");
+  expect(classifyHttpStatus(529)).toBe("server_error");
+  expect(classifyHttpStatus(undefined)).toBe("unknown");
+});
+
+test("parses retry-after in seconds, milliseconds and HTTP dates", () => {
+  expect(parseRetryAfter(new Headers({ "retry-after": "3" }))).toBe(3000);
+  expect(parseRetryAfter(new Headers({ "retry-after-ms": "250", "retry-after": "3" }))).toBe(250);
+  const date = new Date(Date.now() + 10_000).toUTCString();
+  const fromDate = parseRetryAfter(new Headers({ "retry-after": date }))!;
+  expect(fromDate).toBeGreaterThan(8000);
+  expect(fromDate).toBeLessThanOrEqual(10_000);
+  expect(parseRetryAfter(new Headers())).toBeUndefined();
+});
+
+test("Anthropic 529 overloaded is a retryable server_error with retry-after", () => {
+  const err = toAnthropicError(new Anthropic.APIError(
+    529,
+    { type: "error", error: { type: "overloaded_error", message: "Overloaded" } },
+    "Overloaded",
+    new Headers({ "retry-after": "2" }),
+  )) as ProviderError;
+  expect(err).toBeInstanceOf(ProviderError);
+  expect(err.kind).toBe("server_error");
+  expect(err.code).toBe("overloaded_error");
+  expect(err.retryable).toBe(true);
+  expect(err.retryAfterMs).toBe(2000);
+});
+
+test("Anthropic abort errors pass through unchanged", () => {
+  const abort = new Anthropic.APIUserAbortError();
+  expect(toAnthropicError(abort)).toBe(abort);
+});
+
+test("OpenAI rate limits retry but insufficient_quota does not", () => {
+  const rateLimited = toOpenAIError(OpenAI.APIError.generate(
+    429,
+    { error: { code: "rate_limit_exceeded", type: "requests", message: "Rate limit reached" } },
+    undefined,
+    new Headers({ "retry-after-ms": "1500" }),
+  )) as ProviderError;
+  expect(rateLimited.kind).toBe("rate_limit");
+  expect(rateLimited.retryable).toBe(true);
+  expect(rateLimited.retryAfterMs).toBe(1500);
+
+  const quota = toOpenAIError(OpenAI.APIError.generate(
+    429,
+    { error: { code: "insufficient_quota", type: "insufficient_quota", message: "Quota exceeded" } },
+    undefined,
+    new Headers(),
+  )) as ProviderError;
+  expect(quota.kind).toBe("billing_error");
+  expect(quota.retryable).toBe(false);
+});
+
+test("Gemini RESOURCE_EXHAUSTED uses the RetryInfo delay", () => {
+  const body = JSON.stringify({
+    error: {
+      code: 429,
+      status: "RESOURCE_EXHAUSTED",
+      message: "Quota exceeded",
+      details: [{ "@type": "type.googleapis.com/google.rpc.RetryInfo", retryDelay: "12s" }],
+    },
+  });
+  const err = geminiError(429, body);
+  expect(err.kind).toBe("rate_limit");
+  expect(err.code).toBe("RESOURCE_EXHAUSTED");
+  expect(err.retryable).toBe(true);
+  expect(err.retryAfterMs).toBe(12_000);
+});
+
+test("backoff grows exponentially, caps, and honors retry-after", () => {
+  const noJitter = () => 0;
+  expect(computeRetryDelay(1, undefined, undefined, noJitter)).toBe(500);
+  expect(computeRetryDelay(3, undefined, undefined, noJitter)).toBe(2000);
+  expect(computeRetryDelay(20, undefined, undefined, noJitter)).toBe(32_000);
+  expect(computeRetryDelay(1, undefined, undefined, () => 1)).toBe(625);
+  expect(computeRetryDelay(4, { initialDelayMs: 100, maxDelayMs: 300 }, undefined, noJitter)).toBe(300);
+  expect(computeRetryDelay(1, undefined, 7000, noJitter)).toBe(7000);
+  // A retry-after beyond the cap waits only as long as the cap
+  expect(computeRetryDelay(1, undefined, 3_600_000, noJitter)).toBe(32_000);
+  expect(computeRetryDelay(1, { maxDelayMs: 1000 }, 7000, noJitter)).toBe(1000);
+});
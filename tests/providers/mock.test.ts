@@ -0,0 +1,123 @@
+import { test, expect } from "bun:test";
+import { MockProvider } from "../../src/providers/mock.ts";
+import { ProviderError } from "../../src/providers/errors.ts";
+import { agentLoop } from "../../src/agent-loop.ts";
+import { ToolRegistry } from "../../src/tools/registry.ts";
+import { PermissionManager } from "../../src/permissions.ts";
+import type { ChatChunk } from "../../src/providers/types.ts";
+import type { AgentMessage } from "../../src/types.ts";
+
+async function run(provider: MockProvider, prompt: string): Promise<AgentMessage[]> {
+  const tools = new ToolRegistry();
+  tools.register({
+    name: "Echo",
+    description: "Echoes the input back",
+    inputSchema: { type: "object", properties: { text: { type: "string" } } },
+    async execute(input: unknown) {
+      return { content: `Echo: ${(input as { text: string }).text}` };
+    },
+  });
+
+  const messages: AgentMessage[] = [];
+  for await (const msg of agentLoop(prompt, {
+    provider,
+    model: "test-model",
+    systemPrompt: "You are helpful.",
+    tools,
+    permissions: new PermissionManager("bypassPermissions"),
+    cwd: "/tmp",
+    sessionId: "test-session",
+    maxTurns: 10,
+    maxBudgetUsd: 1,
+    includePartialMessages: false,
+    signal: new AbortController().signal,
+    retry: { initialDelayMs: 1 },
+  })) {
+    messages.push(msg);
+  }
+  return messages;
+}
+
+test("plays scripted turns in order and checks each request", async () => {
+  const provider = new MockProvider([
+    {
+      text: ["Let me ", "echo that."],
+      toolCalls: [{ name: "Echo", input: { text: "hi" } }],
+      usage: { inputTokens: 100, outputTokens: 20 },
+      expect: (request) => expect(request.tools?.map((t) => t.name)).toEqual(["Echo"]),
+    },
+    {
+      text: "The echo returned: hi",
+      expect: (request) => {
+        expect(request.messages.at(-1)?.content).toEqual([
+          { type: "tool_result", tool_use_id: "call_1_1", content: "Echo: hi" },
+        ]);
+      },
+    },
+  ], { inputPricePerMillion: 10 });
+
+  const messages = await run(provider, "Echo hi");
+  provider.verify();
+
+  const result = messages.find((m) => m.type === "result") as any;
+  expect(result.subtype).toBe("success");
+  expect(result.result).toBe("The echo returned: hi");
+  expect(result.total_cost_usd).toBeCloseTo(0.001);
+  expect(provider.requests).toHaveLength(2);
+});
+
+test("scripted errors reach the loop's retry handling", async () => {
+  const provider = new MockProvider([
+    { error: new ProviderError({ provider: "mock", kind: "server_error", status: 500, message: "Boom" }) },
+    { text: "Recovered" },
+  ]);
+
+  const messages = await run(provider, "Hi");
+  provider.verify();
+
+  expect(messages.filter((m) => m.type === "system" && (m as any).status === "retrying")).toHaveLength(1);
+  expect((messages.find((m) => m.type === "result") as any).result).toBe("Recovered");
+});
+
+test("verify reports failed checks, unexpected requests and unplayed turns", async () => {
+  const failing = new MockProvider([
+    { text: "A", expect: (request) => expect(request.model).toBe("other-model") },
+  ]);
+  await run(failing, "Hi");
+  expect(() => failing.verify()).toThrow();
+
+  const short = new MockProvider([]);
+  const chunks: ChatChunk[] = [];
+  const err = await (async () => {
+    for await (const chunk of short.chat({ model: "m", messages: [] })) chunks.push(chunk);
+  })().catch((e) => e);
+  expect(err.message).toContain("Unexpected request #1");
+  expect(() => short.verify()).toThrow("Unexpected request #1");
+
+  const unplayed = new MockProvider([{ text: "A" }, { text: "B" }]);
+  await run(unplayed, "Hi");
+  expect(unplayed.remaining).toBe(1);
+  expect(() => unplayed.verify()).toThrow("1 of 2 scripted turns were never requested");
+});
+
+test("streams thinking, text, tool calls, usage and the stop reason", async () => {
+  const provider = new MockProvider([{
+    thinking: { text: "Hmm", signature: "sig" },
+    text: "Hi",
+    toolCalls: [{ id: "t1", name: "Echo" }],
+    usage: { outputTokens: 3 },
+    stopReason: "max_tokens",
+  }]);
+
+  const chunks: ChatChunk[] = [];
+  for await (const chunk of provider.chat({ model: "m", messages: [] })) chunks.push(chunk);
+
+  expect(chunks).toEqual([
+    { type: "thinking_delta", text: "Hmm" },
+    { type: "thinking_block", block: { type: "thinking", thinking: "Hmm", signature: "sig", provider: "mock" } },
+    { type: "text_delta", text: "Hi" },
+    { type: "tool_call", id: "t1", name: "Echo", input: {} },
+    { type: "usage", usage: { inputTokens: 0, outputTokens: 3, cacheReadInputTokens: 0, cacheCreationInputTokens: 0 } },
+    { type: "done", stopReason: "max_tokens" },
+  ]);
+});
@@ -0,0 +1,132 @@
+import { test, expect, beforeAll, afterAll } from "bun:test";
+import { OpenAICompatibleAdapter } from "../../src/providers/openai-compatible.ts";
+import type { ChatChunk } from "../../src/providers/types.ts";
+
+// ─── Fake server ─────────────────────────────────────────────────────────────
+
+/** Chat requests received, by model. */
+const received: Record<string, any[]> = {};
+let server: ReturnType<typeof Bun.serve>;
+let baseUrl: string;
+
+function sse(chunks: unknown[]): Response {
+  const body = chunks.map((c) => `data: ${JSON.stringify(c)}\n\n`).join("") + "data: [DONE]\n\n";
+  return new Response(body, { headers: { "content-type": "text/event-stream" } });
+}
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      if (url.pathname === "/v1/models") {
+        return Response.json({
+          object: "list",
+          data: [
+            { id: "qwen-vllm", object: "model", created: 0, owned_by: "vllm", max_model_len: 32_768 },
+            { id: "plain", object: "model", created: 0, owned_by: "ollama" },
+          ],
+        });
+      }
+
+      const body = await req.json() as any;
+      (received[body.model] ??= []).push(body);
+      // "plain" behaves like an Ollama model without tool support
+      if (body.model === "plain" && body.tools) {
+        return Response.json({ error: { message: "plain does not support tools" } }, { status: 400 });
+      }
+      if (!body.stream) {
+        return Response.json({
+          id: "c1",
+          object: "chat.completion",
+          created: 0,
+          model: body.model,
+          choices: [{ index: 0, message: { role: "assistant", content: "OK" }, finish_reason: "length" }],
+        });
+      }
+      // No usage chunk, as some servers do
+      return sse([
+        { id: "c2", object: "chat.completion.chunk", created: 0, model: body.model, choices: [{ index: 0, delta: { content: "Hello there" } }] },
+        { id: "c2", object: "chat.completion.chunk", created: 0, model: body.model, choices: [{ index: 0, delta: {}, finish_reason: "stop" }] },
+      ]);
+    },
+  });
+  baseUrl = `http://localhost:${server.port}/v1`;
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+async function collect(adapter: OpenAICompatibleAdapter, model: string, withTools: boolean): Promise<ChatChunk[]> {
+  const chunks: ChatChunk[] = [];
+  for await (const chunk of adapter.chat({
+    model,
+    messages: [{ role: "user", content: "Say hello" }],
+    tools: withTools ? [{ name: "Read", description: "Read a file", inputSchema: { type: "object" } }] : undefined,
+  })) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+test("discovers models and context windows, with zero cost by default", async () => {
+  const adapter = new OpenAICompatibleAdapter({
+    baseUrl,
+    models: { plain: { contextWindow: 16_384, inputPricePerMillion: 1, outputPricePerMillion: 2 } },
+  });
+
+  const models = await adapter.listModels();
+  expect(models.map((m) => [m.id, m.contextWindow])).toEqual([["qwen-vllm", 32_768], ["plain", 16_384]]);
+  expect(adapter.getContextWindow("unknown")).toBe(8_192);
+
+  const usage = { inputTokens: 1_000_000, outputTokens: 1_000_000, cacheReadInputTokens: 0, cacheCreationInputTokens: 0 };
+  expect(adapter.calculateCost("qwen-vllm", usage)).toBe(0);
+  expect(adapter.calculateCost("plain", usage)).toBe(3);
+});
+
+test("estimates usage when the stream has none and sends max_tokens", async () => {
+  const adapter = new OpenAICompatibleAdapter({ baseUrl });
+  const chunks = await collect(adapter, "qwen-vllm", false);
+
+  expect(chunks.filter((c) => c.type === "text_delta").map((c: any) => c.text).join("")).toBe("Hello there");
+  const usage = chunks.find((c) => c.type === "usage") as Extract<ChatChunk, { type: "usage" }>;
+  expect(usage.usage.inputTokens).toBeGreaterThan(0);
+  expect(usage.usage.outputTokens).toBe(3);
+  expect(chunks.at(-1)).toEqual({ type: "done", stopReason: "end_turn" });
+
+  const sent = received["qwen-vllm"].at(-1);
+  expect(sent.max_tokens).toBe(4_096);
+  expect(sent.max_completion_tokens).toBeUndefined();
+});
+
+test("probes tool calling once per model and emulates it without native support", async () => {
+  const adapter = new OpenAICompatibleAdapter({ baseUrl });
+  received["qwen-vllm"] = [];
+  received.plain = [];
+
+  await collect(adapter, "qwen-vllm", true);
+  await collect(adapter, "qwen-vllm", true);
+  expect(received["qwen-vllm"].filter((r) => !r.stream)).toHaveLength(1);
+  expect(adapter.supportsFeature("tool_calling", "qwen-vllm")).toBe(true);
+
+  const chunks = await collect(adapter, "plain", true);
+  expect(chunks.at(-1)).toEqual({ type: "done", stopReason: "end_turn" });
+  expect(adapter.supportsFeature("tool_calling", "plain")).toBe(false);
+  // The tools go into the system prompt instead
+  const sent = received.plain.at(-1);
+  expect(sent.tools).toBeUndefined();
+  expect(sent.messages[0].content).toContain("<tool_call>");
+});
+
+test("configured capabilities skip the probe", async () => {
+  const adapter = new OpenAICompatibleAdapter({ baseUrl, models: { plain: { toolCalling: true, imageInput: true } } });
+  received.plain = [];
+
+  expect(await adapter.probeToolCalling("plain")).toBe(true);
+  expect(received.plain).toHaveLength(0);
+  expect(adapter.supportsFeature("image_input", "plain")).toBe(true);
+  expect(adapter.supportsFeature("image_input", "qwen-vllm")).toBe(false);
+});
@@ -5,6 +5,7 @@ import {
   OPENAI_CONTEXT_WINDOWS,
 } from "../../src/utils/cost.ts";
 import { OpenAIAdapter, sanitizeToolName } from "../../src/providers/openai.ts";
+import type { ChatChunk } from "../../src/providers/types.ts";
 
 // ─── Cost calculation ────────────────────────────────────────────────────────
 
@@ -143,6 +144,38 @@ test("converts mixed text + tool_results in user message", () => {
   ]);
 });
 
+const IMAGE = { type: "image" as const, source: { type: "base64" as const, media_type: "image/png", data: "iVBORw0K" } };
+
+test("converts tool_result images to a follow-up user message", () => {
+  const result = adapter.convertMessages([
+    {
+      role: "user",
+      content: [
+        { type: "tool_result", tool_use_id: "tc_1", content: [{ type: "text", text: "Image file" }, IMAGE] },
+      ],
+    },
+  ]);
+  expect(result).toEqual([
+    { role: "tool", tool_call_id: "tc_1", content: "Image file" },
+    { role: "user", content: [{ type: "image_url", image_url: { url: "data:image/png;base64,iVBORw0K" } }] },
+  ]);
+});
+
+test("converts user images to content parts", () => {
+  const result = adapter.convertMessages([
+    { role: "user", content: [{ type: "text", text: "What is this?" }, IMAGE] },
+  ]);
+  expect(result).toEqual([
+    {
+      role: "user",
+      content: [
+        { type: "text", text: "What is this?" },
+        { type: "image_url", image_url: { url: "data:image/png;base64,iVBORw0K" } },
+      ],
+    },
+  ]);
+});
+
 test("converts assistant with only tool calls (no text)", () => {
   const result = adapter.convertMessages([
     {
@@ -239,6 +272,21 @@ test("responses: converts mixed tool_results + text in user message", () => {
   ]);
 });
 
+test("responses: converts tool_result images to input_image parts", () => {
+  const result = adapter.convertMessagesForResponses([
+    {
+      role: "user",
+      content: [
+        { type: "tool_result", tool_use_id: "tc_1", content: [{ type: "text", text: "Image file" }, IMAGE] },
+      ],
+    },
+  ]);
+  expect(result).toEqual([
+    { type: "function_call_output", call_id: "tc_1", output: "Image file" },
+    { role: "user", content: [{ type: "input_image", image_url: "data:image/png;base64,iVBORw0K" }] },
+  ]);
+});
+
 test("responses: full multi-turn conversation", () => {
   const result = adapter.convertMessagesForResponses([
     { role: "user", content: "Read /tmp/test.txt" },
@@ -329,6 +377,56 @@ describe("sanitizeToolName", () => {
   });
 });
 
+test("responses: returns OpenAI reasoning items before the output they produced", () => {
+  const result = adapter.convertMessagesForResponses([
+    {
+      role: "assistant",
+      content: [
+        { type: "thinking", thinking: "Plan the read.", signature: "enc_1", id: "rs_1", provider: "openai" },
+        { type: "thinking", thinking: "Anthropic block", signature: "sig", provider: "anthropic" },
+        { type: "tool_use", id: "tc_1", name: "Read", input: {} },
+      ],
+    },
+  ]);
+  expect(result).toEqual([
+    { type: "reasoning", id: "rs_1", summary: [{ type: "summary_text", text: "Plan the read." }], encrypted_content: "enc_1" },
+    { type: "function_call", call_id: "tc_1", name: "Read", arguments: "{}" },
+  ]);
+});
+
+test("responses: asks for reasoning only when thinking or effort is requested", async () => {
+  const codex = new OpenAIAdapter({ apiKey: "test-key" });
+  const sent: any[] = [];
+  (codex as any).codexMode = true;
+  (codex as any).refreshTokenIfNeeded = async () => {};
+  (codex as any).client = {
+    responses: {
+      async create(params: unknown) {
+        sent.push(params);
+        return (async function* () {
+          yield { type: "response.completed", response: { output: [], usage: { input_tokens: 1, output_tokens: 1 } } };
+        })();
+      },
+    },
+  };
+  const send = async (extra: object) => {
+    for await (const _ of codex.chat({ model: "gpt-5-codex", messages: [{ role: "user", content: "Hi" }], ...extra })) {
+      // drain
+    }
+    return sent.at(-1);
+  };
+
+  const plain = await send({});
+  expect(plain.include).toBeUndefined();
+  expect(plain.reasoning).toBeUndefined();
+  expect((await send({ thinking: { type: "disabled" } })).reasoning).toBeUndefined();
+
+  const thinking = await send({ thinking: { type: "adaptive" } });
+  expect(thinking.include).toEqual(["reasoning.encrypted_content"]);
+  expect(thinking.reasoning).toEqual({ summary: "auto" });
+  expect((await send({ effort: "max" })).reasoning).toEqual({ summary: "auto", effort: "high" });
+});
+
 describe("OpenAI adapter tool name sanitization in messages", () => {
   test("sanitizes tool names with dots in assistant messages", () => {
     const result = adapter.convertMessages([
@@ -376,3 +474,52 @@ describe("OpenAI adapter tool name sanitization in messages", () => {
     ]);
   });
 });
+
+// ─── Structured output ───────────────────────────────────────────────────────
+
+test("sends outputFormat as response_format and yields the parsed answer", async () => {
+  const jsonAdapter = new OpenAIAdapter({ apiKey: "test-key" });
+  const sent: any[] = [];
+  (jsonAdapter as any).client = {
+    chat: {
+      completions: {
+        async create(params: unknown) {
+          sent.push(params);
+          return (async function* () {
+            yield { choices: [{ index: 0, delta: { content: '{"city": ' } }] };
+            yield { choices: [{ index: 0, delta: { content: '"Paris"}' }, finish_reason: "stop" }] };
+          })();
+        },
+      },
+    },
+  };
+
+  const strict = {
+    type: "object",
+    properties: { city: { type: "string" } },
+    required: ["city"],
+    additionalProperties: false,
+  };
+  const chunks: ChatChunk[] = [];
+  for await (const chunk of jsonAdapter.chat({
+    model: "gpt-4.1",
+    messages: [{ role: "user", content: "Capital of France?" }],
+    outputFormat: { type: "json_schema", schema: strict },
+  })) {
+    chunks.push(chunk);
+  }
+  expect(sent[0].response_format).toEqual({ type: "json_schema", json_schema: { name: "output", schema: strict, strict: true } });
+  expect(chunks.slice(-2)).toEqual([
+    { type: "structured_output", value: { city: "Paris" } },
+    { type: "done", stopReason: "end_turn" },
+  ]);
+
+  // Strict mode needs every property required; other schemas are sent as guidance
+  const loose = { type: "object", properties: { city: { type: "string" }, country: { type: "string" } }, required: ["city"] };
+  for await (const _ of jsonAdapter.chat({
+    model: "gpt-4.1",
+    messages: [{ role: "user", content: "Capital of France?" }],
+    outputFormat: { type: "json_schema", schema: loose },
+  })) { /* drain */ }
+  expect(sent[1].response_format.json_schema.strict).toBe(false);
+});
@@ -0,0 +1,117 @@
+import { test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm, readFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { RecordReplayProvider } from "../../src/providers/record-replay.ts";
+import { MockProvider } from "../../src/providers/mock.ts";
+import { isProviderError } from "../../src/providers/errors.ts";
+import type { ChatChunk, ChatRequest, ProviderAdapter } from "../../src/providers/types.ts";
+
+let testDir: string;
+let cassette: string;
+
+beforeEach(async () => {
+  testDir = await mkdtemp(join(tmpdir(), "record-replay-test-"));
+  cassette = join(testDir, "cassettes", "session.json");
+});
+
+afterEach(async () => {
+  await rm(testDir, { recursive: true, force: true });
+});
+
+function request(prompt: string): ChatRequest {
+  return {
+    model: "m",
+    messages: [{ role: "user", content: prompt }],
+    systemPrompt: `Working directory: ${testDir}`,
+    signal: new AbortController().signal,
+  };
+}
+
+async function collect(provider: ProviderAdapter, req: ChatRequest): Promise<ChatChunk[]> {
+  const chunks: ChatChunk[] = [];
+  for await (const chunk of provider.chat(req)) chunks.push(chunk);
+  return chunks;
+}
+
+test("records live streams and replays them without the live provider", async () => {
+  const live = new MockProvider([
+    { text: "First", usage: { inputTokens: 10 } },
+    { text: "Second" },
+    { text: "First again" },
+  ], { contextWindow: 1_000, features: ["streaming", "tool_calling", "image_input"] });
+
+  const recorder = new RecordReplayProvider({ cassette, provider: live });
+  const recorded = [
+    await collect(recorder, request("one")),
+    await collect(recorder, request("two")),
+    await collect(recorder, request("one")),
+  ];
+  expect(recorder.getContextWindow("m")).toBe(1_000);
+  expect(recorder.supportsFeature("image_input", "m")).toBe(true);
+
+  const saved = JSON.parse(await readFile(cassette, "utf-8"));
+  expect(saved.provider).toBe("mock");
+  expect(Object.keys(saved.interactions)).toHaveLength(2);
+
+  const replay = new RecordReplayProvider({ cassette, mode: "replay" });
+  expect(replay.name).toBe("mock");
+  expect(await collect(replay, request("one"))).toEqual(recorded[0]);
+  expect(await collect(replay, request("two"))).toEqual(recorded[1]);
+  expect(await collect(replay, request("one"))).toEqual(recorded[2]);
+  // Repeated more often than recorded: the last response again
+  expect(await collect(replay, request("one"))).toEqual(recorded[2]);
+  expect(replay.getContextWindow("m")).toBe(1_000);
+  expect(replay.supportsFeature("image_input", "m")).toBe(true);
+  expect(replay.supportsFeature("thinking", "m")).toBe(false);
+});
+
+test("replays report the cost the live adapter charged", async () => {
+  const live = new MockProvider([{ text: "Priced" }], { inputPricePerMillion: 3, outputPricePerMillion: 15 });
+  const usage = { inputTokens: 1_000, outputTokens: 200, cacheReadInputTokens: 500, cacheCreationInputTokens: 0 };
+
+  const recorder = new RecordReplayProvider({ cassette, provider: live });
+  await collect(recorder, request("one"));
+  const liveCost = recorder.calculateCost("m", usage);
+  expect(liveCost).toBeGreaterThan(0);
+
+  const replay = new RecordReplayProvider({ cassette, mode: "replay" });
+  expect(replay.calculateCost("m", usage)).toBeCloseTo(liveCost, 12);
+  // A model never priced while recording costs nothing
+  expect(replay.calculateCost("other", usage)).toBe(0);
+});
+
+test("fails clearly on unrecorded requests in replay mode", async () => {
+  const live = new MockProvider([{ text: "Never sent" }]);
+  const replay = new RecordReplayProvider({ cassette, provider: live, mode: "replay" });
+
+  const err = await collect(replay, request("one")).catch((e) => e);
+  expect(isProviderError(err) && err.kind).toBe("invalid_request");
+  expect(err.message).toContain("No recording for request");
+  expect(live.requests).toHaveLength(0);
+});
+
+test("normalize controls which requests match", async () => {
+  const normalize = (req: ChatRequest) => ({ ...req, signal: undefined, systemPrompt: undefined });
+  await collect(new RecordReplayProvider({ cassette, provider: new MockProvider([{ text: "Hi" }]), normalize }), request("one"));
+
+  const elsewhere = { ...request("one"), systemPrompt: "Working directory: /ci/checkout" };
+  const replay = new RecordReplayProvider({ cassette, mode: "replay", normalize });
+  expect(await collect(replay, elsewhere)).toContainEqual({ type: "text_delta", text: "Hi" });
+
+  const strict = new RecordReplayProvider({ cassette, mode: "replay" });
+  expect(await collect(strict, elsewhere).catch((e) => e)).toBeInstanceOf(Error);
+});
+
+test("record mode starts a fresh cassette and errors are not recorded", async () => {
+  await collect(new RecordReplayProvider({ cassette, provider: new MockProvider([{ text: "Old" }]) }), request("one"));
+
+  const live = new MockProvider([{ error: new Error("Boom") }, { text: "New" }]);
+  const recorder = new RecordReplayProvider({ cassette, provider: live, mode: "record" });
+  expect(await collect(recorder, request("one")).catch((e) => e.message)).toBe("Boom");
+  await collect(recorder, request("one"));
+
+  const saved = JSON.parse(await readFile(cassette, "utf-8"));
+  const [interaction] = Object.values(saved.interactions) as any[];
+  expect(interaction.responses).toEqual([[{ type: "text_delta", text: "New" }, { type: "done", stopReason: "end_turn" }]]);
+});
@@ -0,0 +1,226 @@
+import { test, expect } from "bun:test";
+import { RouterProvider } from "../../src/providers/router.ts";
+import { MockProvider } from "../../src/providers/mock.ts";
+import { AnthropicAdapter } from "../../src/providers/anthropic.ts";
+import type { MockTurn } from "../../src/providers/mock.ts";
+import { ProviderError, isProviderError } from "../../src/providers/errors.ts";
+import { agentLoop } from "../../src/agent-loop.ts";
+import { ToolRegistry } from "../../src/tools/registry.ts";
+import { PermissionManager } from "../../src/permissions.ts";
+import type { ChatChunk, ChatRequest, ProviderAdapter } from "../../src/providers/types.ts";
+import type { AgentMessage, ThinkingConfig } from "../../src/types.ts";
+import { InMemorySessionStore, createSessionLogger, listSessions } from "../../src/utils/session-store.ts";
+import { buildTranscript } from "../../src/utils/transcript-export.ts";
+
+function overloaded(provider: string): MockTurn {
+  return { error: new ProviderError({ provider, kind: "server_error", status: 529, code: "overloaded_error", message: "Overloaded" }) };
+}
+
+function echoTools(): ToolRegistry {
+  const tools = new ToolRegistry();
+  tools.register({
+    name: "Echo",
+    description: "Echoes the input back",
+    inputSchema: { type: "object", properties: { text: { type: "string" } } },
+    async execute(input: unknown) {
+      return { content: `Echo: ${(input as { text: string }).text}` };
+    },
+  });
+  return tools;
+}
+
+async function runLoop(
+  provider: ProviderAdapter,
+  thinking?: ThinkingConfig,
+  sessionLogger?: ReturnType<typeof createSessionLogger>,
+): Promise<AgentMessage[]> {
+  const messages: AgentMessage[] = [];
+  for await (const msg of agentLoop("Echo hi", {
+    provider,
+    model: "fleet",
+    systemPrompt: "You are helpful.",
+    tools: echoTools(),
+    permissions: new PermissionManager("bypassPermissions"),
+    cwd: "/tmp",
+    sessionId: "test-session",
+    maxTurns: 10,
+    maxBudgetUsd: 1,
+    includePartialMessages: false,
+    signal: new AbortController().signal,
+    thinking,
+    sessionLogger,
+  })) {
+    messages.push(msg);
+  }
+  return messages;
+}
+
+async function collect(provider: ProviderAdapter, model = "auto"): Promise<ChatChunk[]> {
+  const chunks: ChatChunk[] = [];
+  for await (const chunk of provider.chat({ model, messages: [{ role: "user", content: "Hi" }] })) chunks.push(chunk);
+  return chunks;
+}
+
+test("fails over to the next target and names the one that served", async () => {
+  const a = new MockProvider([overloaded("a")], { name: "a" });
+  const b = new MockProvider([{ text: "From b", expect: (req) => expect(req.model).toBe("m2") }], { name: "b" });
+  const router = new RouterProvider({ chain: [{ provider: a, model: "m1" }, { provider: b, model: "m2" }] });
+
+  expect(await collect(router)).toEqual([
+    { type: "model", model: "b:m2" },
+    { type: "text_delta", text: "From b" },
+    { type: "done", stopReason: "end_turn" },
+  ]);
+  a.verify();
+  b.verify();
+  expect(router.circuitStates()).toEqual({ a: "closed", b: "closed" });
+});
+
+test("errors outside failoverOn and errors after streaming reach the caller", async () => {
+  const invalid = new ProviderError({ provider: "a", kind: "invalid_request", message: "Bad request" });
+  const a = new MockProvider([{ error: invalid }, { text: "Partial", error: overloaded("a").error }], { name: "a" });
+  const b = new MockProvider([], { name: "b" });
+  const router = new RouterProvider({ chain: [{ provider: a, model: "m1" }, { provider: b, model: "m2" }] });
+
+  expect(await collect(router).catch((e) => e)).toBe(invalid);
+  const err = await collect(router).catch((e) => e);
+  expect(isProviderError(err) && err.kind).toBe("server_error");
+  expect(b.requests).toHaveLength(0);
+});
+
+test("opens a provider's circuit after repeated failures and retries it after the cooldown", async () => {
+  const a = new MockProvider([overloaded("a"), { text: "a is back" }], { name: "a" });
+  const b = new MockProvider([{ text: "b1" }, { text: "b2" }], { name: "b" });
+  const router = new RouterProvider({
+    chain: [{ provider: a, model: "m1" }, { provider: b, model: "m2" }],
+    circuitBreaker: { failureThreshold: 1, cooldownMs: 30 },
+  });
+
+  await collect(router);
+  expect(router.circuitStates().a).toBe("open");
+  expect(await collect(router)).toContainEqual({ type: "text_delta", text: "b2" });
+  expect(a.requests).toHaveLength(1);
+
+  await Bun.sleep(40);
+  expect(router.circuitStates().a).toBe("half_open");
+  expect(await collect(router)).toContainEqual({ type: "model", model: "a:m1" });
+  expect(router.circuitStates().a).toBe("closed");
+});
+
+test("reports a retryable error when every circuit is open", async () => {
+  const a = new MockProvider([overloaded("a")], { name: "a" });
+  const router = new RouterProvider({
+    chain: [{ provider: a, model: "m1" }],
+    circuitBreaker: { failureThreshold: 1, cooldownMs: 60_000 },
+  });
+
+  await collect(router).catch(() => {});
+  const err = await collect(router).catch((e) => e);
+  expect(isProviderError(err) && err.retryable).toBe(true);
+  expect(err.retryAfterMs).toBeGreaterThan(59_000);
+  expect(err.message).toContain("circuits open: a");
+});
+
+test("a model naming a target is tried first; capabilities answer per target or for the whole chain", async () => {
+  const a = new MockProvider([], { name: "a", contextWindow: 200_000, features: ["tool_calling", "image_input"], inputPricePerMillion: 3 });
+  const b = new MockProvider([{ text: "Pinned" }], { name: "b", contextWindow: 128_000, features: ["tool_calling"], inputPricePerMillion: 2 });
+  const router = new RouterProvider({ chain: [{ provider: a, model: "m1" }, { provider: b, model: "m2" }] });
+
+  expect(await collect(router, "b:m2")).toContainEqual({ type: "text_delta", text: "Pinned" });
+  expect(a.requests).toHaveLength(0);
+
+  expect(router.getContextWindow("auto")).toBe(128_000);
+  expect(router.getContextWindow("a:m1")).toBe(200_000);
+  expect(router.supportsFeature("image_input", "auto")).toBe(false);
+  expect(router.supportsFeature("image_input", "a:m1")).toBe(true);
+  const usage = { inputTokens: 1_000_000, outputTokens: 0, cacheReadInputTokens: 0, cacheCreationInputTokens: 0 };
+  expect(router.calculateCost("b:m2", usage)).toBe(2);
+  expect(() => new RouterProvider({ chain: ["anthropic"] })).toThrow('expected "provider:model"');
+});
+
+test("switches provider mid-session and tracks modelUsage per provider:model", async () => {
+  const a = new MockProvider([
+    {
+      thinking: { text: "Plan", signature: "sig-a" },
+      toolCalls: [{ id: "toolu_1", name: "Echo", input: { text: "hi" } }],
+      usage: { inputTokens: 100, outputTokens: 10 },
+    },
+    overloaded("a"),
+  ], { name: "a", inputPricePerMillion: 10 });
+  const b = new MockProvider([{
+    text: "Echoed hi",
+    usage: { inputTokens: 200, outputTokens: 20 },
+    expect: (req: ChatRequest) => {
+      // The whole history moves over; b's adapter decides what to send of a's thinking
+      expect(req.messages.map((m) => m.role)).toEqual(["user", "assistant", "user"]);
+      expect(req.messages[1].content).toContainEqual({ type: "tool_use", id: "toolu_1", name: "Echo", input: { text: "hi" } });
+    },
+  }], { name: "b", inputPricePerMillion: 1 });
+  const router = new RouterProvider({ chain: [{ provider: a, model: "m1" }, { provider: b, model: "m2" }] });
+
+  const messages = await runLoop(router);
+  a.verify();
+  b.verify();
+
+  const result = messages.find((m) => m.type === "result") as any;
+  expect(result.subtype).toBe("success");
+  expect(Object.keys(result.modelUsage)).toEqual(["a:m1", "b:m2"]);
+  expect(result.modelUsage["a:m1"].inputTokens).toBe(100);
+  expect(result.modelUsage["b:m2"].costUSD).toBeCloseTo(0.0002);
+  expect(result.total_cost_usd).toBeCloseTo(0.0012);
+});
+
+test("persisted assistant entries name the provider:model that served them", async () => {
+  const a = new MockProvider([
+    { toolCalls: [{ id: "toolu_1", name: "Echo", input: { text: "hi" } }] },
+    overloaded("a"),
+  ], { name: "a" });
+  const b = new MockProvider([{ text: "Echoed hi" }], { name: "b" });
+  const router = new RouterProvider({ chain: [{ provider: a, model: "m1" }, { provider: b, model: "m2" }] });
+  const store = new InMemorySessionStore();
+
+  await runLoop(router, undefined, createSessionLogger("/tmp", "routed", "fleet", store));
+
+  const records = store.load("/tmp", "routed")!;
+  expect(records.filter((e) => e.type === "assistant").map((e) => (e.message as { model?: string }).model))
+    .toEqual(["a:m1", "b:m2"]);
+  expect(listSessions("/tmp", store)[0].model).toBe("b:m2");
+  expect(buildTranscript("routed", records).models).toEqual(["a:m1", "b:m2"]);
+});
+
+test("fails over to Anthropic in the middle of a tool loop with thinking on", async () => {
+  const a = new MockProvider([
+    {
+      thinking: { text: "Plan", signature: "rs_enc" },
+      toolCalls: [{ id: "call_1", name: "Echo", input: { text: "hi" } }],
+    },
+    overloaded("openai"),
+  ], { name: "openai" });
+  const b = new AnthropicAdapter({ apiKey: "test-key" });
+  let sent: any;
+  (b as any).client = {
+    messages: {
+      stream(params: unknown) {
+        sent = params;
+        return (async function* () {
+          yield { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } };
+          yield { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Echoed hi" } };
+          yield { type: "content_block_stop", index: 0 };
+          yield { type: "message_delta", delta: { stop_reason: "end_turn" }, usage: { output_tokens: 3 } };
+        })();
+      },
+    },
+  };
+  const router = new RouterProvider({ chain: [{ provider: a, model: "gpt-5" }, { provider: b, model: "claude-sonnet-4-5" }] });
+
+  const messages = await runLoop(router, { type: "enabled", budgetTokens: 2048 });
+  a.verify();
+
+  // The OpenAI reasoning is dropped, so the tool turn has no thinking to start with
+  expect(sent.thinking).toEqual({ type: "disabled" });
+  expect(sent.messages[1].content[0]).toMatchObject({ type: "tool_use", id: "call_1", name: "Echo" });
+  expect(sent.messages[2].content[0]).toMatchObject({ type: "tool_result", tool_use_id: "call_1" });
+  const result = messages.find((m) => m.type === "result") as any;
+  expect(result.subtype).toBe("success");
+  expect(result.result).toBe("Echoed hi");
+});
@@ -0,0 +1,43 @@
+import { test, expect } from "bun:test";
+import { chatWithStructuredOutputTool, isStrictSchema } from "../../src/providers/structured-output.ts";
+import type { ChatChunk, ChatRequest } from "../../src/providers/types.ts";
+
+test("isStrictSchema checks every nested object", () => {
+  const item = { type: "object", properties: { id: { type: "number" } }, required: ["id"], additionalProperties: false };
+  const schema = {
+    type: "object",
+    properties: { items: { type: "array", items: item }, kind: { enum: ["a", "b"] } },
+    required: ["items", "kind"],
+    additionalProperties: false,
+  };
+  expect(isStrictSchema(schema)).toBe(true);
+  expect(isStrictSchema({ ...schema, properties: { ...schema.properties, items: { type: "array", items: { ...item, additionalProperties: true } } } })).toBe(false);
+  expect(isStrictSchema({ ...schema, required: ["items"] })).toBe(false);
+  expect(isStrictSchema({ type: "string" })).toBe(true);
+});
+
+test("a turn that also calls real tools keeps stopping with tool_use", async () => {
+  const schema = { type: "object", properties: { done: { type: "boolean" } } };
+  let sent: ChatRequest | undefined;
+  const chunks: ChatChunk[] = [];
+  for await (const chunk of chatWithStructuredOutputTool(
+    { model: "m", messages: [], outputFormat: { type: "json_schema", schema } },
+    async function* (request) {
+      sent = request;
+      yield { type: "tool_call", id: "t1", name: "Read", input: {} };
+      yield { type: "tool_call", id: "t2", name: "StructuredOutput", input: { done: true } };
+      yield { type: "done", stopReason: "tool_use" };
+    },
+  )) {
+    chunks.push(chunk);
+  }
+
+  expect(sent?.outputFormat).toBeUndefined();
+  expect(sent?.tools?.map((t) => t.name)).toEqual(["StructuredOutput"]);
+  expect(chunks).toEqual([
+    { type: "tool_call", id: "t1", name: "Read", input: {} },
+    { type: "text_delta", text: '{"done":true}' },
+    { type: "structured_output", value: { done: true } },
+    { type: "done", stopReason: "tool_use" },
+  ]);
+});
@@ -0,0 +1,135 @@
+import { test, expect } from "bun:test";
+import { chatWithEmulatedTools } from "../../src/providers/tool-emulation.ts";
+import type { ProviderAdapter, ChatRequest, ChatChunk, StopReason } from "../../src/providers/types.ts";
+
+// ─── Scripted provider ───────────────────────────────────────────────────────
+
+/** Streams `deltas` as text and records each request it receives. */
+function textProvider(deltas: string[], stopReason: StopReason = "end_turn") {
+  const requests: ChatRequest[] = [];
+  const provider: ProviderAdapter = {
+    name: "plain",
+    async *chat(request: ChatRequest): AsyncGenerator<ChatChunk> {
+      requests.push(request);
+      for (const text of deltas) yield { type: "text_delta", text };
+      yield { type: "done", stopReason };
+    },
+    calculateCost: () => 0,
+    getContextWindow: () => 8_192,
+    supportsFeature: () => false,
+  };
+  return { provider, requests };
+}
+
+const READ_TOOL = { name: "Read", description: "Read a file", inputSchema: { type: "object" } };
+
+async function collect(provider: ProviderAdapter, request: Partial<ChatRequest> = {}): Promise<ChatChunk[]> {
+  const chunks: ChatChunk[] = [];
+  for await (const chunk of chatWithEmulatedTools(provider, {
+    model: "m",
+    messages: [{ role: "user", content: "Read a.txt" }],
+    tools: [READ_TOOL],
+    ...request,
+  })) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+function text(chunks: ChatChunk[]): string {
+  return chunks.filter((c) => c.type === "text_delta").map((c: any) => c.text).join("");
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────────────
+
+test("renders tools into the system prompt and sends none natively", async () => {
+  const { provider, requests } = textProvider(["Hi"]);
+  await collect(provider, { systemPrompt: "Be brief." });
+
+  expect(requests[0].tools).toBeUndefined();
+  expect(requests[0].systemPrompt).toStartWith("Be brief.\n\n# Tools");
+  expect(requests[0].systemPrompt).toContain(`{"name":"Read","description":"Read a file","parameters":{"type":"object"}}`);
+});
+
+test("parses calls split across deltas and stops with tool_use", async () => {
+  const { provider } = textProvider([
+    "Let me look.\n<tool",
+    '_call>\n{"name": "Read", "argu',
+    'ments": {"file_path": "a.txt"}}\n</tool_',
+    "call> <",
+  ]);
+  const chunks = await collect(provider);
+
+  // The trailing " <" after the call is dropped
+  expect(text(chunks)).toBe("Let me look.\n");
+  const calls = chunks.filter((c) => c.type === "tool_call") as Extract<ChatChunk, { type: "tool_call" }>[];
+  expect(calls.map((c) => [c.name, c.input])).toEqual([["Read", { file_path: "a.txt" }]]);
+  expect(calls[0].id).toBe("call_1_1");
+  expect(chunks.at(-1)).toEqual({ type: "done", stopReason: "tool_use" });
+});
+
+test("accepts fenced JSON, string arguments and an unclosed final call", async () => {
+  const { provider } = textProvider([
+    '<tool_call>\n```json\n{"name": "Read", "arguments": "{\\"file_path\\": \\"a\\"}"}\n```\n</tool_call>',
+    '<tool_call>{"name": "Read", "parameters": {"file_path": "b"}}',
+  ]);
+  const chunks = await collect(provider);
+
+  expect(chunks.filter((c) => c.type === "tool_call").map((c: any) => c.input)).toEqual([
+    { file_path: "a" },
+    { file_path: "b" },
+  ]);
+  expect(text(chunks)).toBe("");
+});
+
+test("keeps text between calls and drops an invented result after the last one", async () => {
+  const deltas = [
+    'First.<tool_call>{"name": "Read", "arguments": {"file_path": "a"}}</tool_call>',
+    'Then.<tool_call>{"name": "Read", "arguments": {"file_path": "b"}}</tool_call>',
+    '\n<tool_result name="Read">\nmade up\n</tool_result>',
+  ];
+  const messages = [
+    { role: "user" as const, content: "Read a and b" },
+    { role: "assistant" as const, content: "Sure." },
+    { role: "user" as const, content: "Go" },
+  ];
+  const chunks = await collect(textProvider(deltas).provider, { messages });
+
+  expect(chunks.map((c) => c.type === "tool_call" ? c.id : c.type === "text_delta" ? c.text : c.type)).toEqual([
+    "First.",
+    "call_3_1",
+    "Then.",
+    "call_3_2",
+    "done",
+  ]);
+  // The same request yields the same IDs, so recorded cassettes still match
+  expect(await collect(textProvider(deltas).provider, { messages })).toEqual(chunks);
+
+  // A reply cut off by max_tokens keeps its text for the continuation
+  const truncated = await collect(textProvider(deltas, "max_tokens").provider, { messages });
+  expect(text(truncated)).toEndWith("made up\n</tool_result>");
+});
+
+test("keeps malformed calls as text and leaves max_tokens alone", async () => {
+  const { provider } = textProvider(['<tool_call>{"name": Read}</tool_call>', " done"], "max_tokens");
+  const chunks = await collect(provider);
+
+  expect(text(chunks)).toBe('<tool_call>{"name": Read}</tool_call> done');
+  expect(chunks.at(-1)).toEqual({ type: "done", stopReason: "max_tokens" });
+});
+
+test("sends earlier tool_use and tool_result blocks back as text", async () => {
+  const { provider, requests } = textProvider(["Done"]);
+  await collect(provider, {
+    messages: [
+      { role: "user", content: "Read a.txt" },
+      { role: "assistant", content: [{ type: "tool_use", id: "call_1", name: "Read", input: { file_path: "a.txt" } }] },
+      { role: "user", content: [{ type: "tool_result", tool_use_id: "call_1", content: "no such file", is_error: true }] },
+    ],
+  });
+
+  expect(requests[0].messages.slice(1)).toEqual([
+    { role: "assistant", content: [{ type: "text", text: '<tool_call>\n{"name":"Read","arguments":{"file_path":"a.txt"}}\n</tool_call>' }] },
+    { role: "user", content: [{ type: "text", text: '<tool_result name="Read" status="error">\nno such file\n</tool_result>' }] },
+  ]);
+});
@@ -53,3 +53,41 @@ test("handles timeout", async () => {
   // Should complete quickly due to kill, may have error
   expect(result).toBeDefined();
 }, 5000);
+
+test("streams output lines through onProgress", async () => {
+  const progress: string[] = [];
+  const result = await BashTool.execute(
+    { command: "echo one; sleep 0.1; echo two; printf three" },
+    { ...ctx, onProgress: (text) => progress.push(text) },
+  );
+  expect(result.content).toBe("one\ntwo\nthree");
+  expect(progress.join("\n")).toBe("one\ntwo\nthree");
+  expect(progress.length).toBeGreaterThanOrEqual(2);
+});
+
+test("keeps only the head of large output and still reports all of it as progress", async () => {
+  const progress: string[] = [];
+  const result = await BashTool.execute(
+    { command: "head -c 200000 /dev/zero | tr '\\0' a" },
+    { ...ctx, onProgress: (text) => progress.push(text) },
+  );
+  expect(result.content).toEndWith("\n... (output truncated)");
+  expect((result.content as string).length).toBeLessThan(31_000);
+  expect(progress.join("").length).toBe(200_000);
+});
+
+test("interrupt stops the command and its child processes", async () => {
+  const controller = new AbortController();
+  const started = Date.now();
+  setTimeout(() => controller.abort(), 200);
+
+  const result = await BashTool.execute(
+    { command: "echo started; (sleep 30; echo child) & sleep 30" },
+    { ...ctx, signal: controller.signal },
+  );
+
+  // The output pipes close only once the background child is gone too
+  expect(Date.now() - started).toBeLessThan(5000);
+  expect(result.isError).toBe(true);
+  expect(result.content).toBe("started\n[Command interrupted]");
+});
@@ -1,7 +1,7 @@
 import { test, expect, beforeAll, afterAll } from "bun:test";
-import { ReadTool } from "../../src/tools/read.ts";
+import { ReadTool, MAX_PDF_READ_BYTES } from "../../src/tools/read.ts";
 import type { ToolContext } from "../../src/tools/registry.ts";
-import { mkdtemp, rm } from "node:fs/promises";
+import { mkdtemp, rm, truncate } from "node:fs/promises";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 
@@ -60,3 +60,103 @@ test("returns error when file_path missing", async () => {
   const result = await ReadTool.execute({}, ctx);
   expect(result.isError).toBe(true);
 });
+
+test("returns image files as image blocks", async () => {
+  const png = Buffer.from("89504e470d0a1a0a0000000d49484452", "hex");
+  const path = join(testDir, "screenshot.PNG");
+  await Bun.write(path, png);
+
+  const result = await ReadTool.execute({ file_path: path }, ctx);
+  expect(result.isError).toBeUndefined();
+  expect(result.content).toContain("image/png");
+  expect(result.images).toEqual([
+    { type: "image", source: { type: "base64", media_type: "image/png", data: png.toString("base64") } },
+  ]);
+});
+
+/** Minimal uncompressed PDF with one text line per page. */
+function buildPdf(pageTexts: string[]): Buffer {
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Count ${pageTexts.length} /Kids [${pageTexts.map((_, i) => `${3 + i * 2} 0 R`).join(" ")}] >>`,
+    ...pageTexts.flatMap((text, i) => {
+      const content = `BT 72 720 Td (${text}) Tj ET`;
+      return [
+        `<< /Type /Page /Parent 2 0 R /Contents ${4 + i * 2} 0 R >>`,
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+      ];
+    }),
+  ];
+  let pdf = "%PDF-1.4\n";
+  objects.forEach((body, i) => {
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\n%%EOF\n`;
+  return Buffer.from(pdf, "latin1");
+}
+
+test("extracts PDF text for the requested pages", async () => {
+  const path = join(testDir, "contract.pdf");
+  await Bun.write(path, buildPdf(["Parties", "Term", "Fees", "Signatures"]));
+
+  const all = await ReadTool.execute({ file_path: path }, ctx);
+  expect(all.isError).toBeUndefined();
+  expect(all.content).toContain("4 pages");
+  expect(all.content).toContain("--- Page 1 ---\nParties");
+  expect(all.content).toContain("--- Page 4 ---\nSignatures");
+
+  const some = await ReadTool.execute({ file_path: path, pages: "2-3" }, ctx);
+  expect(some.content).toContain("--- Page 2 ---\nTerm");
+  expect(some.content).toContain("--- Page 3 ---\nFees");
+  expect(some.content).not.toContain("Parties");
+
+  const missing = await ReadTool.execute({ file_path: path, pages: "9" }, ctx);
+  expect(missing.isError).toBe(true);
+});
+
+test("caps PDF pages per call", async () => {
+  const path = join(testDir, "long.pdf");
+  await Bun.write(path, buildPdf(Array.from({ length: 25 }, (_, i) => `Section ${i + 1}`)));
+
+  const whole = await ReadTool.execute({ file_path: path }, ctx);
+  expect(whole.isError).toBe(true);
+  expect(whole.content).toContain("25 pages");
+  expect(whole.content).toContain('"1-20"');
+
+  const range = await ReadTool.execute({ file_path: path, pages: "21-25" }, ctx);
+  expect(range.content).toContain("Section 25");
+  expect((await ReadTool.execute({ file_path: path, pages: "1-25" }, ctx)).isError).toBe(true);
+});
+
+test("refuses PDFs over the read size limit", async () => {
+  const path = join(testDir, "huge.pdf");
+  await Bun.write(path, buildPdf(["Appendix"]));
+  // Sparse file: over the limit on disk without writing the bytes
+  await truncate(path, MAX_PDF_READ_BYTES + 1);
+
+  const result = await ReadTool.execute({ file_path: path }, ctx);
+  expect(result.isError).toBe(true);
+  expect(result.content).toContain("PDF is too large");
+});
+
+test("sends PDFs as documents when the provider reads PDFs", async () => {
+  const path = join(testDir, "spec.pdf");
+  const pdf = buildPdf(["Spec sheet"]);
+  await Bun.write(path, pdf);
+
+  const result = await ReadTool.execute(
+    { file_path: path },
+    { ...ctx, supportsFeature: (feature) => feature === "pdf_input" },
+  );
+  expect(result.content).toContain("1 page,");
+  expect(result.documents).toEqual([
+    { type: "document", source: { type: "base64", media_type: "application/pdf", data: pdf.toString("base64") } },
+  ]);
+
+  const ranged = await ReadTool.execute(
+    { file_path: path, pages: "1" },
+    { ...ctx, supportsFeature: (feature) => feature === "pdf_input" },
+  );
+  expect(ranged.documents).toBeUndefined();
+  expect(ranged.content).toContain("Spec sheet");
+});
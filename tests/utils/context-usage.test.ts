@@ -0,0 +1,146 @@
+import { test, expect } from "bun:test";
+import { breakdownContextUsage, estimateTokens, measureContextUsage } from "../../src/utils/context-usage.ts";
+import type { ContextUsageParams } from "../../src/utils/context-usage.ts";
+import { ToolRegistry } from "../../src/tools/registry.ts";
+import type { ToolImplementation } from "../../src/tools/registry.ts";
+import type { ProviderAdapter } from "../../src/providers/types.ts";
+import { formatProjectInstructionsSection } from "../../src/utils/system-prompt.ts";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+function tool(name: string, description: string, mcpServer?: string): ToolImplementation {
+  return {
+    name,
+    description,
+    inputSchema: { type: "object" },
+    ...(mcpServer ? { mcpServer } : {}),
+    async execute() {
+      return { content: "" };
+    },
+  };
+}
+
+function provider(overrides: Partial<ProviderAdapter> = {}): ProviderAdapter {
+  return {
+    name: "mock",
+    async *chat() {},
+    calculateCost: () => 0,
+    getContextWindow: () => 10_000,
+    supportsFeature: () => true,
+    ...overrides,
+  };
+}
+
+function params(overrides: Partial<ContextUsageParams> = {}): ContextUsageParams {
+  const tools = new ToolRegistry();
+  tools.register(tool("Read", "r".repeat(379)));
+  tools.register(tool("github__search", "g".repeat(769), "github"));
+  tools.register(tool("github__issue", "g".repeat(770), "github"));
+  tools.register(tool("jira__ticket", "j".repeat(371), "jira"));
+  tools.register(tool("memory", "m".repeat(377)));
+  const skillsPrompt = `# Skills\n\n${"s".repeat(790)}`;
+  return {
+    provider: provider(),
+    model: "test-model",
+    systemPrompt: `${"p".repeat(1198)}\n\n${skillsPrompt}`,
+    skillsPrompt,
+    tools,
+    messages: [{ role: "user", content: "u".repeat(2000) }],
+    ...overrides,
+  };
+}
+
+test("splits the request into system prompt, skills, tools, memory and history", () => {
+  const usage = breakdownContextUsage(params());
+
+  expect(usage.source).toBe("estimate");
+  expect(usage.categories).toEqual({
+    systemPrompt: 300,
+    skills: 200,
+    builtinTools: 100,
+    mcpTools: 500,
+    memory: 100,
+    messages: 500,
+  });
+  expect(usage.mcpServers).toEqual({ github: 400, jira: 100 });
+  expect(usage.totalTokens).toBe(1700);
+  expect(usage.contextWindow).toBe(10_000);
+  expect(usage.percentage).toBe(17);
+});
+
+test("counts project instructions as memory, not system prompt", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "context-usage-"));
+  try {
+    // The section is "# Project Instructions\n\n" (24 chars) + 376 chars = 400 chars
+    await writeFile(join(dir, "CLAUDE.md"), "c".repeat(376));
+    const memoryPrompt = formatProjectInstructionsSection(dir)!;
+    expect(memoryPrompt.length).toBe(400);
+
+    const base = params();
+    const usage = breakdownContextUsage({
+      ...base,
+      systemPrompt: `${"p".repeat(1196)}\n\n${memoryPrompt}\n\n${base.skillsPrompt}`,
+      memoryPrompt,
+    });
+    expect(usage.categories).toEqual({
+      systemPrompt: 300,
+      skills: 200,
+      builtinTools: 100,
+      mcpTools: 500,
+      memory: 200,
+      messages: 500,
+    });
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test("scales sections to a measured total", () => {
+  const usage = breakdownContextUsage(params(), { tokens: 3400, source: "usage" });
+
+  expect(usage.source).toBe("usage");
+  expect(usage.totalTokens).toBe(3400);
+  expect(usage.categories.mcpTools).toBe(1000);
+  expect(usage.mcpServers.github).toBe(800);
+  expect(Object.values(usage.categories).reduce((a, b) => a + b, 0)).toBe(3400);
+});
+
+test("counts native tool definitions as memory", () => {
+  const usage = breakdownContextUsage(params({
+    tools: new ToolRegistry(),
+    nativeTools: [{ type: "memory_20250818", name: "memory" }],
+  }));
+  expect(usage.categories.memory).toBeGreaterThan(0);
+  expect(usage.categories.builtinTools).toBe(0);
+});
+
+test("uses the provider's token count and falls back to the estimate", async () => {
+  const counted = await measureContextUsage(params({
+    provider: provider({ countTokens: async () => ({ inputTokens: 5000, source: "count_tokens" }) }),
+  }));
+  expect(counted.source).toBe("count_tokens");
+  expect(counted.totalTokens).toBe(5000);
+  expect(counted.percentage).toBe(50);
+
+  const failed = await measureContextUsage(params({
+    provider: provider({ countTokens: async () => { throw new Error("unavailable"); } }),
+  }));
+  expect(failed.source).toBe("estimate");
+  expect(failed.totalTokens).toBe(1700);
+
+  const uncounted = await measureContextUsage(params());
+  expect(uncounted.source).toBe("estimate");
+});
+
+test("estimates images and documents at flat rates", () => {
+  expect(estimateTokens({
+    messages: [{
+      role: "user",
+      content: [
+        { type: "image", source: { type: "base64", media_type: "image/png", data: "x".repeat(100_000) } },
+        { type: "document", source: { type: "base64", media_type: "application/pdf", data: "x" } },
+      ],
+    }],
+  })).toBe(41_600);
+});
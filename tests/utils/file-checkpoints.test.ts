@@ -0,0 +1,103 @@
+import { test, expect, beforeAll, afterAll } from "bun:test";
+import { FileCheckpointManager, countLineChanges } from "../../src/utils/file-checkpoints.ts";
+import { WriteTool } from "../../src/tools/write.ts";
+import { EditTool } from "../../src/tools/edit.ts";
+import { createMemoryHandler } from "../../src/memory/index.ts";
+import type { ToolContext } from "../../src/tools/registry.ts";
+import { mkdtemp, rm, readFile, writeFile } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+
+let testDir: string;
+
+beforeAll(async () => {
+  testDir = await mkdtemp(join(tmpdir(), "checkpoint-test-"));
+});
+
+afterAll(async () => {
+  await rm(testDir, { recursive: true });
+});
+
+function makeCtx(fileCheckpoints: FileCheckpointManager): ToolContext {
+  return {
+    cwd: testDir,
+    signal: new AbortController().signal,
+    sessionId: "test",
+    fileCheckpoints,
+  };
+}
+
+test("countLineChanges counts added and removed lines", () => {
+  const before = Buffer.from("a\nb\nc\n");
+  const after = Buffer.from("a\nx\ny\nc\n");
+  expect(countLineChanges(before, after)).toEqual({ insertions: 2, deletions: 1 });
+  expect(countLineChanges(null, after)).toEqual({ insertions: 4, deletions: 0 });
+});
+
+test("rewind restores edited files and removes created ones", async () => {
+  const checkpoints = new FileCheckpointManager();
+  const ctx = makeCtx(checkpoints);
+  const existing = join(testDir, "existing.txt");
+  const created = join(testDir, "created.txt");
+  await writeFile(existing, "one\ntwo\n");
+
+  checkpoints.begin("msg-1");
+  await EditTool.execute({ file_path: existing, old_string: "two", new_string: "TWO" }, ctx);
+  await WriteTool.execute({ file_path: created, content: "new file\n" }, ctx);
+
+  checkpoints.begin("msg-2");
+  await EditTool.execute({ file_path: existing, old_string: "one", new_string: "ONE" }, ctx);
+
+  const dryRun = checkpoints.rewind("msg-1", { dryRun: true });
+  expect(dryRun.canRewind).toBe(true);
+  expect([...dryRun.filesChanged!].sort()).toEqual([created, existing].sort());
+  expect(await readFile(existing, "utf-8")).toBe("ONE\nTWO\n");
+
+  const result = checkpoints.rewind("msg-1");
+  expect(result).toEqual({
+    canRewind: true,
+    filesChanged: dryRun.filesChanged,
+    insertions: 2,
+    deletions: 3,
+  });
+  expect(await readFile(existing, "utf-8")).toBe("one\ntwo\n");
+  expect(existsSync(created)).toBe(false);
+  expect(checkpoints.has("msg-1")).toBe(false);
+});
+
+test("rewind to a later message keeps earlier edits", async () => {
+  const checkpoints = new FileCheckpointManager();
+  const ctx = makeCtx(checkpoints);
+  const filePath = join(testDir, "later.txt");
+  await writeFile(filePath, "v0\n");
+
+  checkpoints.begin("msg-1");
+  await WriteTool.execute({ file_path: filePath, content: "v1\n" }, ctx);
+  checkpoints.begin("msg-2");
+  await WriteTool.execute({ file_path: filePath, content: "v2\n" }, ctx);
+
+  checkpoints.rewind("msg-2");
+  expect(await readFile(filePath, "utf-8")).toBe("v1\n");
+  expect(checkpoints.has("msg-1")).toBe(true);
+});
+
+test("memory handler snapshots files before mutating them", async () => {
+  const checkpoints = new FileCheckpointManager();
+  const memoryDir = join(testDir, "memories");
+  const handler = createMemoryHandler(memoryDir, checkpoints);
+
+  checkpoints.begin("msg-1");
+  await handler.execute({ command: "create", path: "/memories/notes.md", file_text: "remember\n" });
+  await handler.execute({ command: "rename", old_path: "/memories/notes.md", new_path: "/memories/moved.md" });
+
+  checkpoints.rewind("msg-1");
+  expect(existsSync(join(memoryDir, "notes.md"))).toBe(false);
+  expect(existsSync(join(memoryDir, "moved.md"))).toBe(false);
+});
+
+test("rewind reports unknown message ids", () => {
+  const result = new FileCheckpointManager().rewind("missing");
+  expect(result.canRewind).toBe(false);
+  expect(result.error).toContain("missing");
+});
@@ -0,0 +1,95 @@
+import { test, expect } from "bun:test";
+import { validateJsonSchema } from "../../src/utils/json-schema.ts";
+
+const schema = {
+  type: "object",
+  properties: {
+    name: { type: "string", minLength: 1 },
+    age: { type: "integer", minimum: 0 },
+    tags: { type: "array", items: { type: "string" }, uniqueItems: true },
+    kind: { enum: ["a", "b"] },
+    owner: { $ref: "#/$defs/owner" },
+  },
+  required: ["name", "age"],
+  additionalProperties: false,
+  $defs: {
+    owner: {
+      type: "object",
+      properties: { email: { type: "string", format: "email" } },
+      required: ["email"],
+    },
+  },
+};
+
+test("accepts a conforming value", () => {
+  const result = validateJsonSchema(
+    { name: "x", age: 3, tags: ["a", "b"], kind: "a", owner: { email: "a@b.co" } },
+    schema,
+  );
+  expect(result).toEqual({ valid: true });
+});
+
+test("reports errors with paths", () => {
+  const result = validateJsonSchema(
+    { name: "", age: 1.5, tags: ["a", "a", 1], kind: "c", owner: { email: "nope" }, extra: true },
+    schema,
+  );
+  expect(result.valid).toBe(false);
+  if (result.valid) return;
+  expect(result.errors).toEqual([
+    "$.name: must have at least 1 characters",
+    "$.age: expected integer, got number",
+    "$.tags: items must be unique",
+    "$.tags[2]: expected string, got integer",
+    '$.kind: must be one of ["a","b"]',
+    "$.owner.email: must be a valid email",
+    '$: unexpected property "extra"',
+  ]);
+});
+
+test("supports anyOf, oneOf and nullable", () => {
+  expect(validateJsonSchema(null, { anyOf: [{ type: "string" }, { type: "null" }] }).valid).toBe(true);
+  expect(validateJsonSchema(3, { oneOf: [{ type: "number" }, { type: "integer" }] }).valid).toBe(false);
+  expect(validateJsonSchema(null, { type: "string", nullable: true }).valid).toBe(true);
+  expect(validateJsonSchema(false, { type: "string" })).toEqual({ valid: false, errors: ["$: expected string, got boolean"] });
+});
+
+test("supports draft-07 tuple items with additionalItems", () => {
+  const tuple = { type: "array", items: [{ type: "string" }, { type: "number" }], additionalItems: { type: "boolean" } };
+  expect(validateJsonSchema(["a", 1, true, false], tuple).valid).toBe(true);
+  expect(validateJsonSchema([1, "a", "x"], tuple)).toEqual({
+    valid: false,
+    errors: ["$[0]: expected string, got integer", "$[1]: expected number, got string", "$[2]: expected boolean, got string"],
+  });
+  expect(validateJsonSchema(["a", 1, null], { ...tuple, additionalItems: false })).toEqual({
+    valid: false,
+    errors: ["$[2]: no value is allowed here"],
+  });
+  // Without additionalItems, extra tuple entries are unconstrained
+  expect(validateJsonSchema(["a", 1, null], { items: [{ type: "string" }] }).valid).toBe(true);
+});
+
+test("validates recursive schemas through $ref", () => {
+  const tree = {
+    $ref: "#/$defs/node",
+    $defs: {
+      node: {
+        type: "object",
+        properties: { name: { type: "string" }, children: { type: "array", items: { $ref: "#/$defs/node" } } },
+        required: ["name"],
+      },
+    },
+  };
+  expect(validateJsonSchema({ name: "a", children: [{ name: "b", children: [{ name: "c" }] }] }, tree).valid).toBe(true);
+  expect(validateJsonSchema({ name: "a", children: [{ name: "b", children: [{ name: 3 }] }] }, tree)).toEqual({
+    valid: false,
+    errors: ["$.children[0].children[0].name: expected string, got integer"],
+  });
+});
+
+test("reports a $ref that loops without consuming the value instead of overflowing", () => {
+  expect(validateJsonSchema("x", { $ref: "#" })).toEqual({ valid: false, errors: ["$: circular $ref #"] });
+  expect(validateJsonSchema({ a: 1 }, { properties: { a: { $ref: "#/$defs/loop" } }, $defs: { loop: { $ref: "#/$defs/loop" } } }))
+    .toEqual({ valid: false, errors: ["$.a: circular $ref #/$defs/loop"] });
+  expect(validateJsonSchema(1, { anyOf: [{ $ref: "#" }] }).valid).toBe(false);
+});
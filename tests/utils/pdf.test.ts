@@ -0,0 +1,167 @@
+import { test, expect } from "bun:test";
+import { deflateSync } from "node:zlib";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { PdfDocument, parsePageRanges } from "../../src/utils/pdf.ts";
+
+// ─── PDF builder ────────────────────────────────────────────────────────────
+
+/** Assemble a PDF from object bodies (object 1 must be the catalog). */
+function assemblePdf(objects: (string | Buffer)[]): Uint8Array {
+  const chunks: Buffer[] = [Buffer.from("%PDF-1.7\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    const chunk = Buffer.concat([
+      Buffer.from(`${i + 1} 0 obj\n`, "latin1"),
+      typeof body === "string" ? Buffer.from(body, "latin1") : body,
+      Buffer.from("\nendobj\n", "latin1"),
+    ]);
+    offsets.push(offset);
+    offset += chunk.length;
+    chunks.push(chunk);
+  });
+  const xref = [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+    "startxref",
+    String(offset),
+    "%%EOF",
+  ].join("\n");
+  chunks.push(Buffer.from(xref, "latin1"));
+  return new Uint8Array(Buffer.concat(chunks));
+}
+
+function stream(content: string, compress = true): Buffer {
+  const data = compress ? deflateSync(Buffer.from(content, "latin1")) : Buffer.from(content, "latin1");
+  return Buffer.concat([
+    Buffer.from(`<< /Length ${data.length}${compress ? " /Filter /FlateDecode" : ""} >>\nstream\n`, "latin1"),
+    data,
+    Buffer.from("\nendstream", "latin1"),
+  ]);
+}
+
+/** One page per content stream, all using Helvetica as /F1. */
+function buildPdf(contents: string[]): Uint8Array {
+  const pageIds = contents.map((_, i) => 4 + i * 2);
+  return assemblePdf([
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${contents.length} `
+      + "/Resources << /Font << /F1 3 0 R >> >> >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    ...contents.flatMap((content, i) => [
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents ${pageIds[i] + 1} 0 R >>`,
+      stream(content),
+    ]),
+  ]);
+}
+
+// ─── Tests ──────────────────────────────────────────────────────────────────
+
+test("extracts text per page with inherited fonts", () => {
+  const doc = new PdfDocument(buildPdf([
+    "BT /F1 12 Tf 72 720 Td (Master Services Agreement) Tj 0 -14 Td (Term: \\(12\\) months) Tj ET",
+    "BT /F1 12 Tf 72 720 Td [(Page) -250 (two)] TJ T* (Signed) Tj ET",
+  ]));
+
+  expect(doc.pageCount).toBe(2);
+  expect(doc.pageText(1)).toBe("Master Services Agreement\nTerm: (12) months");
+  expect(doc.pageText(2)).toBe("Page two\nSigned");
+  expect(() => doc.pageText(3)).toThrow("does not exist");
+});
+
+test("decodes Type0 fonts through their ToUnicode map", () => {
+  const cmap = [
+    "begincmap",
+    "1 begincodespacerange <0000> <FFFF> endcodespacerange",
+    "2 beginbfchar <0001> <0048> <0002> <0069> endbfchar",
+    "1 beginbfrange <0010> <0012> <00E9> endbfrange",
+    "endcmap",
+  ].join("\n");
+  const doc = new PdfDocument(assemblePdf([
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /Resources << /Font << /F2 5 0 R >> >> /Contents 4 0 R >>",
+    stream("BT /F2 10 Tf 1 0 0 1 50 700 Tm <000100020010> Tj 1 0 0 1 50 680 Tm <0011 0012> Tj ET"),
+    "<< /Type /Font /Subtype /Type0 /BaseFont /Custom /ToUnicode 6 0 R >>",
+    stream(cmap, false),
+  ]));
+
+  expect(doc.pageText(1)).toBe("Hié\nêë");
+});
+
+test("decodes a CID font PDF written by a real producer", () => {
+  // PDFKit output: DejaVu Sans embedded as a CIDFontType2 subset with Identity-H and ToUnicode
+  const doc = new PdfDocument(new Uint8Array(readFileSync(join(import.meta.dir, "../fixtures/cid-font.pdf"))));
+
+  expect(doc.pageCount).toBe(2);
+  expect(doc.pageText(1)).toBe("Übersicht: naïve café — 10 €\nΕλληνικά και Русский текст");
+  expect(doc.pageText(2)).toBe("Seite zwei: ½ • “quoted”");
+});
+
+test("handles mixed-width codespaces, carrying bfranges and Unicode CMaps", () => {
+  const cmap = [
+    "begincmap",
+    "2 begincodespacerange <00> <80> <8140> <FFFF> endcodespacerange",
+    "1 beginbfchar <41> <0041> endbfchar",
+    "1 beginbfrange <81FE> <8201> <00FE> endbfrange",
+    "endcmap",
+  ].join("\n");
+  const doc = new PdfDocument(assemblePdf([
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 5 0 R /F2 7 0 R >> >> /Contents 4 0 R >>",
+    stream("BT /F1 10 Tf 1 0 0 1 50 700 Tm <4181FE41820041> Tj /F2 10 Tf 1 0 0 1 50 680 Tm <65E5672C8A9E> Tj ET"),
+    "<< /Type /Font /Subtype /Type0 /BaseFont /Mixed /Encoding /Custom-H /ToUnicode 6 0 R >>",
+    stream(cmap, false),
+    "<< /Type /Font /Subtype /Type0 /BaseFont /KozMinPro-Regular /Encoding /UniJIS-UCS2-H >>",
+  ]));
+
+  expect(doc.pageText(1)).toBe("AþAĀA\n日本語");
+});
+
+test("reads pages stored in compressed object streams", () => {
+  const objects: [number, string][] = [
+    [5, "<< /Type /Pages /Kids [6 0 R] /Count 1 /Resources << /Font << /F1 3 0 R >> >> >>"],
+    [6, "<< /Type /Page /Parent 5 0 R /Contents 2 0 R >>"],
+  ];
+  let body = "";
+  const header: string[] = [];
+  for (const [num, object] of objects) {
+    header.push(`${num} ${body.length}`);
+    body += `${object}\n`;
+  }
+  const first = header.join(" ").length + 1;
+  const objStm = Buffer.concat([
+    Buffer.from(`<< /Type /ObjStm /N ${objects.length} /First ${first} `, "latin1"),
+    stream(`${header.join(" ")}\n${body}`).subarray(3),
+  ]);
+
+  const doc = new PdfDocument(assemblePdf([
+    "<< /Type /Catalog /Pages 5 0 R >>",
+    stream("BT /F1 12 Tf 72 720 Td (From an object stream) Tj ET"),
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+    objStm,
+  ]));
+
+  expect(doc.pageCount).toBe(1);
+  expect(doc.pageText(1)).toBe("From an object stream");
+});
+
+test("rejects files that are not PDFs", () => {
+  expect(() => new PdfDocument(new TextEncoder().encode("hello"))).toThrow("Not a PDF");
+});
+
+test("parses page ranges", () => {
+  expect(parsePageRanges("3", 10)).toEqual([3]);
+  expect(parsePageRanges("1-3, 7, 2", 10)).toEqual([1, 2, 3, 7]);
+  expect(parsePageRanges("8-", 10)).toEqual([8, 9, 10]);
+  expect(parsePageRanges("9-40", 10)).toEqual([9, 10]);
+  expect(() => parsePageRanges("11", 10)).toThrow("does not exist");
+  expect(() => parsePageRanges("5-2", 10)).toThrow("Invalid page range");
+  expect(() => parsePageRanges("abc", 10)).toThrow("Invalid page range");
+});
@@ -0,0 +1,240 @@
+import { test, expect, afterAll } from "bun:test";
+import { rmSync, mkdirSync, writeFileSync, existsSync } from "node:fs";
+import { join } from "node:path";
+import {
+  createSessionLogger,
+  loadSessionMessages,
+  sessionsDir,
+  listSessions,
+  getSession,
+  renameSession,
+  deleteSession,
+  findLatestSession,
+  InMemorySessionStore,
+  JsonlSessionStore,
+  loadSessionBranch,
+  INTERRUPTED_TOOL_RESULT,
+} from "../../src/utils/session-store.ts";
+
+const cwd = `/tmp/fourmis-session-store-test-${crypto.randomUUID()}`;
+
+afterAll(() => {
+  rmSync(sessionsDir(cwd), { recursive: true, force: true });
+});
+
+test("closes tool_use blocks that were logged without a result", () => {
+  const sessionId = crypto.randomUUID();
+  const log = createSessionLogger(cwd, sessionId);
+
+  log("user", "Run two commands", null);
+  log("assistant", [
+    { type: "text", text: "Running." },
+    { type: "tool_use", id: "call_1", name: "Bash", input: { command: "ls" } },
+    { type: "tool_use", id: "call_2", name: "Bash", input: { command: "pwd" } },
+  ], null);
+  // Interrupted before the tool results were logged; the next prompt follows directly
+  log("user", "Continue", null);
+
+  const messages = loadSessionMessages(cwd, sessionId);
+  expect(messages).toHaveLength(3);
+  expect(messages[2]).toEqual({
+    role: "user",
+    content: [
+      { type: "tool_result", tool_use_id: "call_1", content: INTERRUPTED_TOOL_RESULT, is_error: true },
+      { type: "tool_result", tool_use_id: "call_2", content: INTERRUPTED_TOOL_RESULT, is_error: true },
+      { type: "text", text: "Continue" },
+    ],
+  });
+});
+
+test("adds a result message for a trailing tool_use", () => {
+  const sessionId = crypto.randomUUID();
+  const log = createSessionLogger(cwd, sessionId);
+
+  log("user", "Read it", null);
+  log("assistant", [{ type: "tool_use", id: "call_1", name: "Read", input: {} }], null);
+
+  const messages = loadSessionMessages(cwd, sessionId);
+  expect(messages.at(-1)).toEqual({
+    role: "user",
+    content: [{ type: "tool_result", tool_use_id: "call_1", content: INTERRUPTED_TOOL_RESULT, is_error: true }],
+  });
+});
+
+test("session catalog lists, renames and deletes sessions", () => {
+  const catalogCwd = `${cwd}-catalog`;
+  const first = crypto.randomUUID();
+  const second = crypto.randomUUID();
+  try {
+    const log = createSessionLogger(catalogCwd, first, "claude-sonnet-4-5");
+    log("user", "Summarize the README", null);
+    log("assistant", [{ type: "text", text: "It is an agent SDK." }], null, { costUsd: 0.01 });
+    log("user", "Shorter", null);
+    log("assistant", [{ type: "text", text: "Agent SDK." }], null, { costUsd: 0.005 });
+    createSessionLogger(catalogCwd, second)("user", "Second session", null);
+
+    const info = getSession(catalogCwd, first)!;
+    expect(info.firstPrompt).toBe("Summarize the README");
+    expect(info.model).toBe("claude-sonnet-4-5");
+    expect(info.numTurns).toBe(2);
+    expect(info.totalCostUsd).toBeCloseTo(0.015);
+    expect(info.createdAt! <= info.updatedAt!).toBe(true);
+    expect(info.title).toBeUndefined();
+
+    expect(renameSession(catalogCwd, first, "README summary")).toBe(true);
+    expect(getSession(catalogCwd, first)!.title).toBe("README summary");
+    expect(renameSession(catalogCwd, "missing", "x")).toBe(false);
+    // The title entry is metadata, not part of the conversation
+    expect(loadSessionMessages(catalogCwd, first)).toHaveLength(4);
+
+    expect(listSessions(catalogCwd).map((s) => s.sessionId).sort()).toEqual([first, second].sort());
+
+    expect(deleteSession(catalogCwd, second)).toBe(true);
+    expect(deleteSession(catalogCwd, second)).toBe(false);
+    expect(getSession(catalogCwd, second)).toBeNull();
+    expect(listSessions(catalogCwd).map((s) => s.sessionId)).toEqual([first]);
+  } finally {
+    rmSync(sessionsDir(catalogCwd), { recursive: true, force: true });
+  }
+});
+
+test("JSONL store rejects session IDs that would leave its directory", () => {
+  const root = `${cwd}-root`;
+  const store = new JsonlSessionStore(root);
+  try {
+    mkdirSync(root, { recursive: true });
+    const outside = join(root, "victim.jsonl");
+    writeFileSync(outside, "{}\n");
+
+    for (const sessionId of ["../victim", "../../x", "a/b", "a\\b", "..", ""]) {
+      expect(() => deleteSession("/work", sessionId, store)).toThrow("Invalid session ID");
+      expect(() => store.load("/work", sessionId)).toThrow("Invalid session ID");
+      expect(() => createSessionLogger("/work", sessionId, undefined, store)("user", "hi", null)).toThrow("Invalid session ID");
+    }
+    expect(existsSync(outside)).toBe(true);
+
+    createSessionLogger("/work", "session-1.v2", undefined, store)("user", "hi", null);
+    expect(store.load("/work", "session-1.v2")).toHaveLength(1);
+  } finally {
+    rmSync(root, { recursive: true, force: true });
+  }
+});
+
+test("in-memory store backs logging, resume and the catalog", () => {
+  const store = new InMemorySessionStore();
+  const log = createSessionLogger("/work", "s1", "gpt-5", store);
+  log("user", "Hello", null);
+  log("assistant", [{ type: "text", text: "Hi" }], null, { costUsd: 0.002 });
+  createSessionLogger("/other", "s2", undefined, store)("user", "Elsewhere", null);
+
+  expect(loadSessionMessages("/work", "s1", undefined, store)).toEqual([
+    { role: "user", content: [{ type: "text", text: "Hello" }] },
+    { role: "assistant", content: [{ type: "text", text: "Hi" }] },
+  ]);
+  expect(findLatestSession("/work", store)).toBe("s1");
+  expect(listSessions("/work", store).map((s) => [s.sessionId, s.firstPrompt, s.numTurns])).toEqual([["s1", "Hello", 1]]);
+
+  expect(deleteSession("/work", "s1", store)).toBe(true);
+  expect(loadSessionMessages("/work", "s1", undefined, store)).toEqual([]);
+  expect(listSessions("/other", store)).toHaveLength(1);
+});
+
+test("resuming at an earlier message starts a branch", () => {
+  const store = new InMemorySessionStore();
+  const log = createSessionLogger("/work", "s1", "claude-sonnet-4-5", store);
+  log("user", "Write a haiku", null);
+  const firstAnswer = log("assistant", [{ type: "text", text: "Haiku one" }], null);
+  log("user", "Make it rhyme", null);
+  const oldLeaf = log("assistant", [{ type: "text", text: "Rhyming haiku" }], null);
+
+  // "Edit" the second prompt: branch off the first answer
+  const branchLog = createSessionLogger("/work", "s1", "claude-sonnet-4-5", store, firstAnswer);
+  branchLog("user", "Make it about autumn", null);
+  const newLeaf = branchLog("assistant", [{ type: "text", text: "Autumn haiku" }], null);
+
+  const text = (uuid?: string) =>
+    loadSessionMessages("/work", "s1", uuid, store).map((m) => (m.content as { text: string }[])[0].text);
+
+  expect(text()).toEqual(["Write a haiku", "Haiku one", "Make it about autumn", "Autumn haiku"]);
+  expect(text(oldLeaf)).toEqual(["Write a haiku", "Haiku one", "Make it rhyme", "Rhyming haiku"]);
+  expect(text(firstAnswer)).toEqual(["Write a haiku", "Haiku one"]);
+  expect(loadSessionBranch("/work", "s1", undefined, store).leafUuid).toBe(newLeaf);
+});
+
+test("an explicit parent uuid is recorded; a compact summary hangs off its boundary", () => {
+  const store = new InMemorySessionStore();
+  const log = createSessionLogger("/work", "s1", undefined, store);
+  const prompt = log("user", "Hi", null);
+  log("assistant", [{ type: "text", text: "Draft" }], prompt);
+  const retry = log("assistant", [{ type: "text", text: "Retry" }], prompt);
+  log("user", "Summary", retry, { compactBoundary: { trigger: "auto", preTokens: 100 } });
+
+  const entries = store.load("/work", "s1")! as any[];
+  expect(entries.map((e) => e.parentUuid)).toEqual([null, prompt, prompt, null, entries[3].uuid]);
+  expect(entries[3].subtype).toBe("compact_boundary");
+});
+
+test("assistant entries record usage, stop reason and model", () => {
+  const store = new InMemorySessionStore();
+  const log = createSessionLogger("/work", "s1", "primary", store);
+  const userUuid = log("user", "Hi", null);
+  log("assistant", [{ type: "text", text: "Hello" }], null, {
+    usage: { inputTokens: 10, outputTokens: 2, cacheReadInputTokens: 3, cacheCreationInputTokens: 0 },
+    stopReason: "end_turn",
+    model: "fallback",
+  });
+
+  const entry = store.load("/work", "s1")![1] as any;
+  expect(entry.parentUuid).toBe(userUuid);
+  expect(entry.message.model).toBe("fallback");
+  expect(entry.message.stop_reason).toBe("end_turn");
+  expect(entry.message.usage).toEqual({
+    input_tokens: 10,
+    output_tokens: 2,
+    cache_read_input_tokens: 3,
+    cache_creation_input_tokens: 0,
+  });
+});
+
+test("older transcripts with a restarted chain load in full", () => {
+  const store = new InMemorySessionStore();
+  createSessionLogger("/work", "s1", undefined, store)("user", "First run", null);
+  // Before parent links were threaded, a resumed run started a new root
+  createSessionLogger("/work", "s1", undefined, store)("user", "Second run", null);
+
+  expect(loadSessionMessages("/work", "s1", undefined, store)).toEqual([
+    { role: "user", content: [{ type: "text", text: "First run" }] },
+    { role: "user", content: [{ type: "text", text: "Second run" }] },
+  ]);
+});
+
+test("image blocks survive a session round trip", () => {
+  const store = new InMemorySessionStore();
+  const image = { type: "image" as const, source: { type: "base64" as const, media_type: "image/png", data: "iVBORw0K" } };
+  const log = createSessionLogger("/work", "img", undefined, store);
+  log("user", [{ type: "text", text: "What is on screen?" }, image], null);
+  log("assistant", [{ type: "tool_use", id: "tu_1", name: "Read", input: { file_path: "/tmp/a.png" } }], null);
+  log("user", [{ type: "tool_result", tool_use_id: "tu_1", content: [{ type: "text", text: "Image file" }, image] }], null);
+
+  expect(loadSessionMessages("/work", "img", undefined, store)).toEqual([
+    { role: "user", content: [{ type: "text", text: "What is on screen?" }, image] },
+    { role: "assistant", content: [{ type: "tool_use", id: "tu_1", name: "Read", input: { file_path: "/tmp/a.png" } }] },
+    { role: "user", content: [{ type: "tool_result", tool_use_id: "tu_1", content: [{ type: "text", text: "Image file" }, image] }] },
+  ]);
+});
+
+test("thinking blocks survive a session round trip", () => {
+  const store = new InMemorySessionStore();
+  const thinking = [
+    { type: "thinking" as const, thinking: "Consider it.", signature: "sig_1", provider: "anthropic" },
+    { type: "redacted_thinking" as const, data: "enc", provider: "anthropic" },
+  ];
+  const log = createSessionLogger("/work", "think", undefined, store);
+  log("user", "Hi", null);
+  log("assistant", [...thinking, { type: "text", text: "Hello" }], null);
+
+  expect(loadSessionMessages("/work", "think", undefined, store)[1]).toEqual({
+    role: "assistant",
+    content: [...thinking, { type: "text", text: "Hello" }],
+  });
+});
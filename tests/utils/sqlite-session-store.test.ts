@@ -0,0 +1,76 @@
+import { test, expect, afterAll } from "bun:test";
+import { rmSync, mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SqliteSessionStore } from "../../src/utils/sqlite-session-store.ts";
+import {
+  createSessionLogger,
+  loadSessionMessages,
+  getSession,
+  renameSession,
+} from "../../src/utils/session-store.ts";
+
+const dir = mkdtempSync(join(tmpdir(), "fourmis-sqlite-store-"));
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+test("sqlite store round-trips a session", () => {
+  const store = new SqliteSessionStore(":memory:");
+  const log = createSessionLogger("/work", "s1", "claude-sonnet-4-5", store);
+  log("user", "Hello", null);
+  log("assistant", [{ type: "tool_use", id: "t1", name: "Read", input: { file_path: "a.ts" } }], null, { costUsd: 0.01 });
+  log("user", [{ type: "tool_result", tool_use_id: "t1", content: "file" }], null);
+
+  expect(loadSessionMessages("/work", "s1", undefined, store)).toEqual([
+    { role: "user", content: [{ type: "text", text: "Hello" }] },
+    { role: "assistant", content: [{ type: "tool_use", id: "t1", name: "Read", input: { file_path: "a.ts" } }] },
+    { role: "user", content: [{ type: "tool_result", tool_use_id: "t1", content: "file", is_error: undefined }] },
+  ]);
+
+  expect(renameSession("/work", "s1", "Reading a.ts", store)).toBe(true);
+  const info = getSession("/work", "s1", store)!;
+  expect(info.title).toBe("Reading a.ts");
+  expect(info.numTurns).toBe(1);
+  expect(info.totalCostUsd).toBeCloseTo(0.01);
+
+  expect(store.list("/elsewhere")).toEqual([]);
+  expect(store.delete("/work", "s1")).toBe(true);
+  expect(store.load("/work", "s1")).toBeNull();
+  store.close();
+});
+
+test("sqlite store accepts concurrent writes from several processes", async () => {
+  const path = join(dir, "sessions.db");
+  const storeModule = join(import.meta.dir, "../../src/utils/sqlite-session-store.ts");
+  const loggerModule = join(import.meta.dir, "../../src/utils/session-store.ts");
+  const writers = 3;
+  const perWriter = 100;
+  // All writers wait for the same moment, so their appends overlap
+  const startAt = Date.now() + 500;
+  const script = (name: string) => `
+    const { SqliteSessionStore } = await import(${JSON.stringify(storeModule)});
+    const { createSessionLogger } = await import(${JSON.stringify(loggerModule)});
+    const store = new SqliteSessionStore(${JSON.stringify(path)});
+    const log = createSessionLogger("/work", "shared", undefined, store);
+    await Bun.sleep(Math.max(0, ${startAt} - Date.now()));
+    for (let i = 0; i < ${perWriter}; i++) log("user", "${name}" + i, null);
+    store.close();
+  `;
+
+  const procs = Array.from({ length: writers }, (_, n) =>
+    Bun.spawn([process.execPath, "-e", script(`w${n}-`)], { stdout: "ignore", stderr: "pipe" }),
+  );
+  const codes = await Promise.all(procs.map((p) => p.exited));
+  const stderr = await Promise.all(procs.map((p) => new Response(p.stderr).text()));
+  expect(stderr.filter(Boolean)).toEqual([]);
+  expect(codes).toEqual(Array(writers).fill(0));
+
+  const store = new SqliteSessionStore(path);
+  const entries = store.load("/work", "shared")! as { message: { content: { text: string }[] } }[];
+  expect(entries).toHaveLength(writers * perWriter);
+  const texts = new Set(entries.map((e) => e.message.content[0].text));
+  expect(texts.size).toBe(writers * perWriter);
+  store.close();
+}, 30_000);
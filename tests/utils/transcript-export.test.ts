@@ -0,0 +1,133 @@
+import { test, expect } from "bun:test";
+import { InMemorySessionStore, createSessionLogger } from "../../src/utils/session-store.ts";
+import { exportSession, buildTranscript, renderTranscriptMarkdown } from "../../src/utils/transcript-export.ts";
+import type { Transcript } from "../../src/utils/transcript-export.ts";
+import { query } from "../../src/api.ts";
+import { registerProvider } from "../../src/providers/registry.ts";
+import { MockProvider } from "../../src/providers/mock.ts";
+
+const SECRET = "sk-live-123456";
+
+function makeSession(): InMemorySessionStore {
+  const store = new InMemorySessionStore();
+  const log = createSessionLogger("/work", "s1", "claude-sonnet-4-5", store);
+  log("user", `Deploy with key ${SECRET}`, null);
+  log("assistant", [
+    { type: "text", text: "Deploying." },
+    { type: "tool_use", id: "t1", name: "Bash", input: { command: `deploy --key ${SECRET}` } },
+  ], null, { costUsd: 0.012 });
+  log("user", [{ type: "tool_result", tool_use_id: "t1", content: "permission denied", is_error: true }], null);
+  log("assistant", [{ type: "text", text: "The deploy failed: <permission denied>." }], null, { costUsd: 0.003 });
+
+  // A subagent sidechain written by Claude Code into the same file
+  store.append("/work", "s1", {
+    type: "user",
+    uuid: "side-1",
+    parentUuid: null,
+    sessionId: "s1",
+    timestamp: new Date().toISOString(),
+    cwd: "/work",
+    isSidechain: true,
+    userType: "external",
+    message: { role: "user", content: "Check the logs" },
+  });
+  return store;
+}
+
+test("builds a transcript with paired tool results, costs and redaction", () => {
+  const store = makeSession();
+  const transcript = JSON.parse(exportSession("/work", "s1", { format: "json", store, redact: [SECRET] })!) as Transcript;
+
+  expect(transcript.models).toEqual(["claude-sonnet-4-5"]);
+  expect(transcript.totalCostUsd).toBeCloseTo(0.015);
+  expect(transcript.messages.map((m) => m.role)).toEqual(["user", "assistant", "assistant"]);
+  expect(transcript.messages[0].blocks).toEqual([{ type: "text", text: "Deploy with key [REDACTED]" }]);
+  expect(transcript.messages[1].blocks[1]).toEqual({
+    type: "tool_call",
+    id: "t1",
+    name: "Bash",
+    input: { command: "deploy --key [REDACTED]" },
+    result: { content: "permission denied", isError: true },
+  });
+  expect(transcript.sidechains).toEqual([
+    { id: "side-1", messages: [expect.objectContaining({ role: "user", blocks: [{ type: "text", text: "Check the logs" }] })] },
+  ]);
+  expect(JSON.stringify(transcript)).not.toContain(SECRET);
+});
+
+test("renders Markdown and HTML with collapsible tool calls", () => {
+  const store = makeSession();
+  const markdown = exportSession("/work", "s1", { store, redact: [/sk-live-\d+/] })!;
+  expect(markdown).toContain("# Session s1");
+  expect(markdown).toContain("## Assistant · claude-sonnet-4-5 · $0.0120");
+  expect(markdown).toContain("<summary>Tool call: Bash (error)</summary>");
+  expect(markdown).toContain("**Error:**");
+  expect(markdown).toContain("## Subagent side-1");
+  expect(markdown).not.toContain(SECRET);
+
+  const html = exportSession("/work", "s1", { format: "html", store, redact: [SECRET], includeSidechains: false })!;
+  expect(html.startsWith("<!DOCTYPE html>")).toBe(true);
+  expect(html).toContain(`<details class="tool error"><summary>Tool call: Bash (error)</summary>`);
+  expect(html).toContain("The deploy failed: &lt;permission denied&gt;.");
+  expect(html).not.toContain("Subagent");
+  expect(html).not.toContain(SECRET);
+
+  expect(exportSession("/work", "missing", { store })).toBeNull();
+});
+
+test("code fences survive backticks in tool output", () => {
+  const transcript = buildTranscript("s", [
+    { type: "assistant", uuid: "a", parentUuid: null, message: { role: "assistant", content: [{ type: "tool_use", id: "t", name: "Read", input: {} }] } },
+    { type: "user", uuid: "u", parentUuid: "a", message: { role: "user", content: [{ type: "tool_result", tool_use_id: "t", content: "```ts\ncode\n```" }] } },
+  ]);
+  expect(renderTranscriptMarkdown(transcript)).toContain("**Result:**\n\n````\n```ts\ncode\n```\n````");
+});
+
+test("exports the subagent work of a session that ran the Task tool", async () => {
+  registerProvider("mock-export-task", new MockProvider([
+    { toolCalls: [{ id: "task-1", name: "Task", input: { description: "Check logs", prompt: "Check the logs", subagent_type: "inspector" } }] },
+    { text: "The logs show a timeout." },
+    { text: "A timeout caused it." },
+  ]));
+  const store = new InMemorySessionStore();
+
+  let sessionId = "";
+  for await (const msg of query({
+    prompt: "Why did the deploy fail?",
+    options: {
+      provider: "mock-export-task",
+      cwd: "/work",
+      sessionStore: store,
+      includeDefaultSkills: false,
+      permissionMode: "bypassPermissions",
+      allowDangerouslySkipPermissions: true,
+      agents: { inspector: { description: "Log inspector", prompt: "You read logs.", maxTurns: 2 } },
+    },
+  })) {
+    sessionId = msg.session_id;
+  }
+
+  const transcript = JSON.parse(exportSession("/work", sessionId, { format: "json", store })!) as Transcript;
+  expect(transcript.messages.map((m) => m.role)).toEqual(["user", "assistant", "assistant"]);
+  expect(transcript.sidechains).toHaveLength(1);
+  expect(transcript.sidechains[0].messages.map((m) => m.blocks)).toEqual([
+    [{ type: "text", text: "Check the logs" }],
+    [{ type: "text", text: "The logs show a timeout." }],
+  ]);
+  expect(exportSession("/work", sessionId, { store })).toContain(`## Subagent ${transcript.sidechains[0].id}`);
+});
+
+test("loads subagent sessions a Task result refers to by agent ID", () => {
+  const store = new InMemorySessionStore();
+  const log = createSessionLogger("/work", "parent", "m", store);
+  log("user", "Check the logs", null);
+  log("assistant", [{ type: "tool_use", id: "t1", name: "Task", input: { prompt: "Check the logs" } }], null);
+  log("user", [{ type: "tool_result", tool_use_id: "t1", content: "Timeout.\n\nagentId: sub-1 (pass as resume to continue this subagent)" }], null);
+  const subLog = createSessionLogger("/work", "sub-1", "m", store);
+  subLog("user", "Check the logs", null);
+  subLog("assistant", [{ type: "text", text: "Timeout." }], null);
+
+  const transcript = JSON.parse(exportSession("/work", "parent", { format: "json", store })!) as Transcript;
+  expect(transcript.sidechains.map((s) => [s.id, s.messages.length])).toEqual([["sub-1", 2]]);
+  expect(JSON.parse(exportSession("/work", "parent", { format: "json", store, includeSidechains: false })!).sidechains).toEqual([]);
+});